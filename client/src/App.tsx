@@ -5,6 +5,7 @@ import AuthPage from "@/pages/auth-page";
 import Dashboard from "@/pages/dashboard";
 import ScansPage from "@/pages/scans-page";
 import ScanDetailPage from "@/pages/scan-detail-page";
+import ScanComparePage from "@/pages/scan-compare-page";
 import VulnerabilitiesPage from "@/pages/vulnerabilities-page";
 import VulnerabilityDetailPage from "@/pages/vulnerability-detail-page";
 import TasksPage from "@/pages/tasks-page";
@@ -12,6 +13,8 @@ import RulesPage from "@/pages/rules-page";
 import ReportsPage from "@/pages/reports-page";
 import SettingsPage from "@/pages/settings-page";
 import MetricsPage from "@/pages/metrics-page";
+import VerificationsPage from "@/pages/verifications-page";
+import TargetsPage from "@/pages/targets-page";
 import { useAuth } from "./hooks/use-auth";
 import { useEffect } from "react";
 import { Loader2 } from "lucide-react";
@@ -87,6 +90,12 @@ function App() {
           </ProtectedRoute>
         </Route>
         
+        <Route path="/scans/:id/compare/:otherId">
+          <ProtectedRoute>
+            <ScanComparePage />
+          </ProtectedRoute>
+        </Route>
+        
         <Route path="/scans/:id">
           <ProtectedRoute>
             <ScanDetailPage />
@@ -123,6 +132,18 @@ function App() {
           </ProtectedRoute>
         </Route>
         
+        <Route path="/verifications">
+          <ProtectedRoute>
+            <VerificationsPage />
+          </ProtectedRoute>
+        </Route>
+        
+        <Route path="/targets">
+          <ProtectedRoute>
+            <TargetsPage />
+          </ProtectedRoute>
+        </Route>
+        
         <Route path="/reports">
           <ProtectedRoute>
             <ReportsPage />
@@ -10,8 +10,9 @@ import {
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { ArrowRight, Clock, CheckCircle, XCircle, Loader2 } from "lucide-react";
+import { ArrowRight, Clock, CheckCircle, XCircle, Loader2, Pause, Ban } from "lucide-react";
 import { Scan } from "@/types";
+import { ScanProgressBar } from "@/components/scans/scan-progress";
 
 interface ScansCardProps {
   latestScans: Scan[] | undefined;
@@ -36,6 +37,10 @@ export function ScansCard({ latestScans, isLoading }: ScansCardProps) {
         return <Badge variant="outline" className="flex items-center gap-1 text-green-800 bg-green-100 border-green-200"><CheckCircle className="h-3 w-3" /> 完了</Badge>;
       case "failed":
         return <Badge variant="outline" className="flex items-center gap-1 text-red-800 bg-red-100 border-red-200"><XCircle className="h-3 w-3" /> 失敗</Badge>;
+      case "paused":
+        return <Badge variant="outline" className="flex items-center gap-1 text-amber-800 bg-amber-100 border-amber-200"><Pause className="h-3 w-3" /> 一時停止</Badge>;
+      case "cancelled":
+        return <Badge variant="outline" className="flex items-center gap-1 text-gray-700 bg-gray-100 border-gray-200"><Ban className="h-3 w-3" /> キャンセル</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -67,6 +72,10 @@ export function ScansCard({ latestScans, isLoading }: ScansCardProps) {
                   スキャン日時: {formatDate(scan.startedAt)}
                 </div>
                 
+                {(scan.status === "pending" || scan.status === "running") && (
+                  <ScanProgressBar scanId={scan.id} active />
+                )}
+                
                 {scan.result && (
                   <div className="text-sm mb-3">
                     <span className="font-medium">検出された脆弱性: </span>
@@ -56,6 +56,8 @@ export function VulnerabilitiesTable() {
         return <Badge variant="outline" className="text-green-800 bg-green-100 border-green-200">解決済み</Badge>;
       case "false_positive":
         return <Badge variant="outline" className="text-gray-800 bg-gray-100 border-gray-200">誤検出</Badge>;
+      case "resolved_by_scan":
+        return <Badge variant="outline" className="text-teal-800 bg-teal-100 border-teal-200">スキャンで解消</Badge>;
       default:
         return <Badge variant="outline">不明</Badge>;
     }
@@ -4,6 +4,7 @@ import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/use-auth";
 import {
+  BadgeCheck,
   BarChart3,
   Bug,
   ChevronLeft,
@@ -14,6 +15,7 @@ import {
   Shield,
   CheckSquare,
   PieChart,
+  Globe,
 } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 
@@ -44,6 +46,11 @@ export function SideNavigation({ className }: SideNavigationProps) {
           label: "スキャン管理",
           icon: <SearchCode className="h-5 w-5" />,
         },
+        {
+          href: "/targets",
+          label: "ターゲット",
+          icon: <Globe className="h-5 w-5" />,
+        },
         {
           href: "/vulnerabilities",
           label: "脆弱性",
@@ -69,6 +76,11 @@ export function SideNavigation({ className }: SideNavigationProps) {
           label: "カスタムルール",
           icon: <Shield className="h-5 w-5" />,
         },
+        {
+          href: "/verifications",
+          label: "ターゲット検証",
+          icon: <BadgeCheck className="h-5 w-5" />,
+        },
         {
           href: "/reports",
           label: "レポート",
@@ -168,7 +168,8 @@ export function ScanReportPdf({ scan, vulnerabilities }: ScanReportPdfProps) {
                 <p><strong>スキャンレベル:</strong> {
                   scan.scanLevel === "quick" ? "クイック" :
                   scan.scanLevel === "standard" ? "標準" :
-                  scan.scanLevel === "detailed" ? "詳細" : scan.scanLevel
+                  scan.scanLevel === "detailed" ? "詳細" :
+                  scan.scanLevel === "custom" ? scan.options?.profile?.name ?? "カスタム" : scan.scanLevel
                 }</p>
                 <p><strong>クロール制限:</strong> {scan.crawlLimit || "N/A"}</p>
               </div>
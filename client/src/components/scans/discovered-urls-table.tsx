@@ -0,0 +1,66 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { DiscoveredUrl, DiscoverySource } from "@/types";
+
+interface DiscoveredUrlsTableProps {
+  discoveredUrls: DiscoveredUrl[];
+}
+
+const sourceLabels: Record<DiscoverySource, string> = {
+  seed: "開始URL",
+  robots: "robots.txt",
+  sitemap: "サイトマップ",
+  anchor: "リンク",
+  form: "フォーム",
+  iframe: "iframe",
+  link: "link要素",
+  script: "スクリプト",
+  "meta-refresh": "メタリフレッシュ",
+};
+
+// Scanned URLs and how the crawler found each of them
+export function DiscoveredUrlsTable({ discoveredUrls }: DiscoveredUrlsTableProps) {
+  if (discoveredUrls.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        スキャンしたURLの情報はありません。
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>URL</TableHead>
+            <TableHead className="w-36">検出方法</TableHead>
+            <TableHead className="w-16">深度</TableHead>
+            <TableHead>検出元</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {discoveredUrls.map((discovered) => (
+            <TableRow key={discovered.url}>
+              <TableCell className="font-mono text-xs break-all">{discovered.url}</TableCell>
+              <TableCell>
+                <Badge variant="outline">{sourceLabels[discovered.source] ?? discovered.source}</Badge>
+              </TableCell>
+              <TableCell>{discovered.depth ?? "-"}</TableCell>
+              <TableCell className="font-mono text-xs break-all text-muted-foreground">
+                {discovered.foundOn ?? "-"}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { OutOfScopeReason, OutOfScopeUrl } from "@/types";
+
+interface OutOfScopeUrlsTableProps {
+  outOfScopeUrls: OutOfScopeUrl[];
+}
+
+const reasonLabels: Record<OutOfScopeReason, string> = {
+  "other-host": "対象外のホスト",
+  excluded: "除外パターンに一致",
+  "not-included": "対象パターンに不一致",
+  "max-depth": "最大深度を超過",
+  logout: "ログアウトリンク",
+  "internal-address": "内部ネットワーク",
+};
+
+// URLs the crawler found but skipped because of the scan's scope rules
+export function OutOfScopeUrlsTable({ outOfScopeUrls }: OutOfScopeUrlsTableProps) {
+  if (outOfScopeUrls.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        範囲外としてスキップしたURLはありません。
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>URL</TableHead>
+            <TableHead className="w-44">理由</TableHead>
+            <TableHead>検出元</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {outOfScopeUrls.map((skipped) => (
+            <TableRow key={skipped.url}>
+              <TableCell className="font-mono text-xs break-all">{skipped.url}</TableCell>
+              <TableCell>
+                <Badge variant="outline">{reasonLabels[skipped.reason] ?? skipped.reason}</Badge>
+              </TableCell>
+              <TableCell className="font-mono text-xs break-all text-muted-foreground">
+                {skipped.foundOn ?? "-"}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
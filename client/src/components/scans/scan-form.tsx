@@ -1,7 +1,8 @@
 import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useForm } from "react-hook-form";
+import { useFieldArray, useForm } from "react-hook-form";
 import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -16,6 +17,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
   SelectContent,
@@ -24,7 +26,9 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Loader2 } from "lucide-react";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { Separator } from "@/components/ui/separator";
+import { CrawlLimitsResponse, ScanProfile, Target } from "@/types";
 import {
   Dialog,
   DialogContent,
@@ -37,56 +41,286 @@ import {
 // Define scan form schema
 const scanFormSchema = z.object({
   url: z.string().url({ message: "有効なURLを入力してください" }),
-  scanLevel: z.enum(["quick", "standard", "detailed"], {
-    required_error: "スキャンレベルを選択してください",
-  }),
+  // "auto" files the scan under the target that covers the URL
+  targetId: z.string(),
+  // Scan level of a built-in profile, or "custom-<id>" for one of the user's own (see getProfileKey)
+  profile: z.string({
+    required_error: "スキャンプロファイルを選択してください",
+  }).min(1, { message: "スキャンプロファイルを選択してください" }),
   crawlLimit: z.enum(["10", "50", "100", "unlimited"], {
     required_error: "クロール制限を選択してください",
   }),
   useAuthentication: z.boolean().default(false),
   includeCustomRules: z.boolean().default(false),
+  crawl: z.object({
+    concurrency: z.coerce.number().int().min(1, { message: "1以上を指定してください" }).max(10, { message: "10以下を指定してください" }),
+    requestsPerSecond: z.coerce.number().positive({ message: "0より大きい値を指定してください" }).max(20, { message: "20以下を指定してください" }),
+    politeDelayMs: z.coerce.number().int().min(0, { message: "0以上を指定してください" }).max(10000, { message: "10000以下を指定してください" }),
+    timeBudgetSeconds: z.coerce.number().int().min(10, { message: "10秒以上を指定してください" }).max(21600, { message: "21600秒以下を指定してください" }),
+    requestTimeoutMs: z.coerce.number().int().min(1000, { message: "1000以上を指定してください" }).max(60000, { message: "60000以下を指定してください" }),
+  }),
+  authentication: z.object({
+    loginUrl: z.string(),
+    usernameField: z.string(),
+    passwordField: z.string(),
+    username: z.string(),
+    password: z.string(),
+    loggedInIndicator: z.string(),
+    loggedOutIndicator: z.string(),
+  }),
+  request: z.object({
+    headers: z.array(z.object({
+      name: z.string().min(1, { message: "ヘッダー名を入力してください" }).regex(/^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/, { message: "無効なヘッダー名です" }),
+      value: z.string(),
+    })),
+    cookies: z.array(z.object({
+      name: z.string().min(1, { message: "Cookie名を入力してください" }).regex(/^[^\s;=,]+$/, { message: "無効なCookie名です" }),
+      value: z.string(),
+    })),
+    tokenAuthType: z.enum(["none", "bearer", "api-key"]),
+    tokenHeaderName: z.string(),
+    tokenValue: z.string(),
+    userAgent: z.string(),
+  }),
+  scope: z.object({
+    include: z.string(),
+    exclude: z.string(),
+    maxDepth: z.string().regex(/^\d*$/, { message: "0以上の整数を指定してください" }),
+    queryParameters: z.enum(["keep", "sort", "ignore-values", "strip"]),
+    includeSubdomains: z.boolean(),
+  }),
+  // Only used when the form creates a recurring schedule instead of starting a scan
+  schedule: z.object({
+    enabled: z.boolean(),
+    name: z.string(),
+    cronExpression: z.string(),
+    timezone: z.string(),
+  }),
+}).superRefine((values, ctx) => {
+  if (values.schedule.enabled) {
+    if (!values.schedule.name.trim()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["schedule", "name"], message: "スケジュール名を入力してください" });
+    }
+    const cron = values.schedule.cronExpression.trim();
+    if (!cron.startsWith("@") && cron.split(/\s+/).length !== 5) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["schedule", "cronExpression"], message: "「分 時 日 月 曜日」の5項目で指定してください" });
+    }
+    if (!values.schedule.timezone) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["schedule", "timezone"], message: "タイムゾーンを入力してください" });
+    }
+  }
+  if (values.request.tokenAuthType !== "none" && !values.request.tokenValue) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["request", "tokenValue"], message: "トークンを入力してください" });
+  }
+  if (values.request.tokenAuthType === "api-key" && !values.request.tokenHeaderName) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["request", "tokenHeaderName"], message: "ヘッダー名を入力してください" });
+  }
+  for (const field of ["include", "exclude"] as const) {
+    for (const pattern of splitPatterns(values.scope[field])) {
+      const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+      try {
+        if (regex) new RegExp(regex[1], regex[2]);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["scope", field], message: `無効な正規表現です: ${pattern}` });
+      }
+    }
+  }
+
+  if (!values.useAuthentication) return;
+
+  const auth = values.authentication;
+  if (!z.string().url().safeParse(auth.loginUrl).success) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["authentication", "loginUrl"], message: "有効なログインURLを入力してください" });
+  }
+  for (const field of ["usernameField", "passwordField", "username", "password"] as const) {
+    if (!auth[field]) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["authentication", field], message: "入力してください" });
+    }
+  }
+  for (const field of ["loggedInIndicator", "loggedOutIndicator"] as const) {
+    try {
+      new RegExp(auth[field]);
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["authentication", field], message: "有効な正規表現を入力してください" });
+    }
+  }
 });
 
 type ScanFormValues = z.infer<typeof scanFormSchema>;
 
-export function ScanForm() {
+// Scope patterns are entered one per line
+function splitPatterns(text: string): string[] {
+  return text.split("\n").map((line) => line.trim()).filter(Boolean);
+}
+
+const getProfileKey = (profile: ScanProfile) =>
+  profile.builtIn ? profile.scanLevel : `custom-${profile.id}`;
+
+// The scan level and profile id that the server expects for a profile key
+function parseProfileKey(key: string): { scanLevel: ScanProfile["scanLevel"]; profileId?: number } {
+  if (key.startsWith("custom-")) {
+    return { scanLevel: "custom", profileId: parseInt(key.slice("custom-".length)) };
+  }
+  return { scanLevel: key as ScanProfile["scanLevel"] };
+}
+
+const builtInProfileLabels: Record<string, string> = {
+  quick: "クイック",
+  standard: "標準",
+  detailed: "詳細",
+};
+
+interface ScanFormProps {
+  // "schedule" creates a recurring scan schedule with the same settings
+  mode?: "scan" | "schedule";
+}
+
+export function ScanForm({ mode = "scan" }: ScanFormProps) {
   const { toast } = useToast();
+  const isSchedule = mode === "schedule";
   const [advancedSettingsOpen, setAdvancedSettingsOpen] = useState(false);
 
+  // Page limit that the server allows for the current user
+  const { data: crawlLimits } = useQuery<CrawlLimitsResponse>({
+    queryKey: ["/api/settings/crawl-limits"],
+  });
+
+  const { data: targets } = useQuery<Target[]>({
+    queryKey: ["/api/targets"],
+  });
+
+  const { data: profiles } = useQuery<ScanProfile[]>({
+    queryKey: ["/api/scan-profiles"],
+  });
+
   // Define form
   const form = useForm<ScanFormValues>({
     resolver: zodResolver(scanFormSchema),
     defaultValues: {
       url: "",
-      scanLevel: "quick",
+      targetId: "auto",
+      profile: "quick",
       crawlLimit: "10",
       useAuthentication: false,
       includeCustomRules: false,
+      crawl: {
+        concurrency: 2,
+        requestsPerSecond: 2,
+        politeDelayMs: 250,
+        timeBudgetSeconds: 600,
+        requestTimeoutMs: 15000,
+      },
+      authentication: {
+        loginUrl: "",
+        usernameField: "username",
+        passwordField: "password",
+        username: "",
+        password: "",
+        loggedInIndicator: "",
+        loggedOutIndicator: "",
+      },
+      request: {
+        headers: [],
+        cookies: [],
+        tokenAuthType: "none",
+        tokenHeaderName: "X-API-Key",
+        tokenValue: "",
+        userAgent: "",
+      },
+      scope: {
+        include: "",
+        exclude: "",
+        maxDepth: "",
+        queryParameters: "keep",
+        includeSubdomains: false,
+      },
+      schedule: {
+        enabled: isSchedule,
+        name: "",
+        cronExpression: "0 2 * * *",
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      },
     },
   });
 
+  const headerFields = useFieldArray({ control: form.control, name: "request.headers" });
+  const cookieFields = useFieldArray({ control: form.control, name: "request.cookies" });
+  const tokenAuthType = form.watch("request.tokenAuthType");
+
+  const useAuthentication = form.watch("useAuthentication");
+
   // Define scan mutation
   const scanMutation = useMutation({
     mutationFn: async (values: ScanFormValues) => {
+      const { authentication, request, scope, schedule, targetId, profile, ...rest } = values;
       const parsedValues = {
-        ...values,
-        crawlLimit: values.crawlLimit === "unlimited" ? 9999 : parseInt(values.crawlLimit),
+        ...rest,
+        ...parseProfileKey(profile),
+        targetId: targetId === "auto" ? undefined : parseInt(targetId),
+        crawlLimit: values.crawlLimit === "unlimited" ? "unlimited" : parseInt(values.crawlLimit),
+        // Empty indicators are left out rather than sent as patterns that match everything
+        authentication: values.useAuthentication
+          ? {
+              ...authentication,
+              loggedInIndicator: authentication.loggedInIndicator || undefined,
+              loggedOutIndicator: authentication.loggedOutIndicator || undefined,
+            }
+          : undefined,
+        request: {
+          headers: request.headers,
+          cookies: request.cookies,
+          tokenAuth:
+            request.tokenAuthType === "bearer"
+              ? { type: "bearer", value: request.tokenValue }
+              : request.tokenAuthType === "api-key"
+              ? { type: "api-key", headerName: request.tokenHeaderName, value: request.tokenValue }
+              : undefined,
+          userAgent: request.userAgent || undefined,
+        },
+        scope: {
+          include: splitPatterns(scope.include),
+          exclude: splitPatterns(scope.exclude),
+          maxDepth: scope.maxDepth === "" ? undefined : parseInt(scope.maxDepth),
+          queryParameters: scope.queryParameters,
+          includeSubdomains: scope.includeSubdomains,
+        },
       };
+      if (schedule.enabled) {
+        const { url, ...options } = parsedValues;
+        const res = await apiRequest("POST", "/api/schedules", {
+          name: schedule.name,
+          url,
+          cronExpression: schedule.cronExpression.trim(),
+          timezone: schedule.timezone,
+          options,
+        });
+        return await res.json();
+      }
       const res = await apiRequest("POST", "/api/scans", parsedValues);
       return await res.json();
     },
     onSuccess: () => {
-      toast({
-        title: "スキャンが開始されました",
-        description: "スキャン結果はスキャン管理ページで確認できます",
-        variant: "default",
-      });
-      queryClient.invalidateQueries({ queryKey: ["/api/scans"] });
+      if (isSchedule) {
+        toast({
+          title: "スケジュールを作成しました",
+          description: "次回実行日時はスケジュール一覧で確認できます",
+          variant: "default",
+        });
+        queryClient.invalidateQueries({ queryKey: ["/api/schedules"] });
+      } else {
+        toast({
+          title: "スキャンが開始されました",
+          description: "スキャン結果はスキャン管理ページで確認できます",
+          variant: "default",
+        });
+        queryClient.invalidateQueries({ queryKey: ["/api/scans"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/targets"] });
+      }
       form.reset();
     },
     onError: (error: Error) => {
       toast({
-        title: "スキャンの開始に失敗しました",
+        title: isSchedule ? "スケジュールの作成に失敗しました" : "スキャンの開始に失敗しました",
         description: error.message,
         variant: "destructive",
       });
@@ -101,6 +335,51 @@ export function ScanForm() {
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        {isSchedule && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <FormField
+              control={form.control}
+              name="schedule.name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>スケジュール名</FormLabel>
+                  <FormControl>
+                    <Input placeholder="夜間スキャン" {...field} disabled={scanMutation.isPending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="schedule.cronExpression"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>実行タイミング (cron)</FormLabel>
+                  <FormControl>
+                    <Input placeholder="0 2 * * *" {...field} disabled={scanMutation.isPending} />
+                  </FormControl>
+                  <FormDescription>分 時 日 月 曜日 (例: 毎週月曜3時は 0 3 * * 1)</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="schedule.timezone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>タイムゾーン</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Asia/Tokyo" {...field} disabled={scanMutation.isPending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+        
         <FormField
           control={form.control}
           name="url"
@@ -119,36 +398,81 @@ export function ScanForm() {
           )}
         />
         
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {targets && targets.length > 0 && (
           <FormField
             control={form.control}
-            name="scanLevel"
+            name="targetId"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>スキャンレベル</FormLabel>
-                <Select 
-                  onValueChange={field.onChange} 
-                  defaultValue={field.value}
+                <FormLabel>ターゲット</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  value={field.value}
                   disabled={scanMutation.isPending}
                 >
                   <FormControl>
                     <SelectTrigger>
-                      <SelectValue placeholder="スキャンレベルを選択" />
+                      <SelectValue />
                     </SelectTrigger>
                   </FormControl>
                   <SelectContent>
-                    <SelectItem value="quick">クイック</SelectItem>
-                    <SelectItem value="standard">標準</SelectItem>
-                    <SelectItem value="detailed">詳細</SelectItem>
+                    <SelectItem value="auto">URLから自動判定</SelectItem>
+                    {targets.map((target) => (
+                      <SelectItem key={target.id} value={String(target.id)}>
+                        {target.name} ({target.baseUrl})
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
-                <FormDescription>
-                  詳細レベルほど時間がかかりますが、より多くの脆弱性を検出します。
-                </FormDescription>
                 <FormMessage />
               </FormItem>
             )}
           />
+        )}
+        
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="profile"
+            render={({ field }) => {
+              const selectedProfile = profiles?.find((profile) => getProfileKey(profile) === field.value);
+              return (
+                <FormItem>
+                  <FormLabel>スキャンプロファイル</FormLabel>
+                  <Select 
+                    onValueChange={field.onChange} 
+                    defaultValue={field.value}
+                    disabled={scanMutation.isPending}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="スキャンプロファイルを選択" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {(profiles ?? []).map((profile) => (
+                        <SelectItem key={getProfileKey(profile)} value={getProfileKey(profile)}>
+                          {profile.builtIn ? builtInProfileLabels[profile.scanLevel] ?? profile.name : profile.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    {selectedProfile?.builtIn === false
+                      ? `${selectedProfile.checkIds.length}件のチェックを実行します。`
+                      : "詳細レベルほど時間がかかりますが、より多くの脆弱性を検出します。"}
+                    {" "}プロファイルは<Link href="/settings" className="underline">設定</Link>で作成できます。
+                    {selectedProfile?.requiresVerification && (
+                      <>
+                        {" "}このプロファイルでのスキャンには<Link href="/verifications" className="underline">ターゲットの所有権の検証</Link>が必要です。
+                      </>
+                    )}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              );
+            }}
+          />
           
           <FormField
             control={form.control}
@@ -175,6 +499,7 @@ export function ScanForm() {
                 </Select>
                 <FormDescription>
                   スキャンするページ数の上限を設定します。
+                  {crawlLimits && ` あなたのロールでは最大 ${crawlLimits.maxPagesForUser} ページまでです。`}
                 </FormDescription>
                 <FormMessage />
               </FormItem>
@@ -228,6 +553,132 @@ export function ScanForm() {
           />
         </div>
         
+        {useAuthentication && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 rounded-md border p-4">
+            <FormField
+              control={form.control}
+              name="authentication.loginUrl"
+              render={({ field }) => (
+                <FormItem className="md:col-span-2">
+                  <FormLabel>ログインURL</FormLabel>
+                  <FormControl>
+                    <Input
+                        placeholder="https://example.com/login"
+                      {...field}
+                      disabled={scanMutation.isPending}
+                    />
+                  </FormControl>
+                    <FormDescription>ログインフォームがあるページのURLです。</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="authentication.usernameField"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>ユーザー名フィールド名</FormLabel>
+                  <FormControl>
+                    <Input
+                        placeholder="username"
+                      {...field}
+                      disabled={scanMutation.isPending}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="authentication.passwordField"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>パスワードフィールド名</FormLabel>
+                  <FormControl>
+                    <Input
+                        placeholder="password"
+                      {...field}
+                      disabled={scanMutation.isPending}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="authentication.username"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>ユーザー名</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      disabled={scanMutation.isPending}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="authentication.password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>パスワード</FormLabel>
+                  <FormControl>
+                    <Input
+                        type="password"
+                      {...field}
+                      disabled={scanMutation.isPending}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="authentication.loggedInIndicator"
+              render={({ field }) => (
+                <FormItem className="md:col-span-2">
+                  <FormLabel>ログイン済みを示す正規表現</FormLabel>
+                  <FormControl>
+                    <Input
+                        placeholder="ログアウト|Sign out"
+                      {...field}
+                      disabled={scanMutation.isPending}
+                    />
+                  </FormControl>
+                    <FormDescription>ログイン後のページに含まれる文字列です。ログインの成功を確認します。</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="authentication.loggedOutIndicator"
+              render={({ field }) => (
+                <FormItem className="md:col-span-2">
+                  <FormLabel>未ログインを示す正規表現</FormLabel>
+                  <FormControl>
+                    <Input
+                        placeholder="ログインしてください"
+                      {...field}
+                      disabled={scanMutation.isPending}
+                    />
+                  </FormControl>
+                    <FormDescription>レスポンスに含まれる場合はセッション切れとみなし、再ログインします。</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+        
         <div className="flex justify-end pt-4">
           <Dialog open={advancedSettingsOpen} onOpenChange={setAdvancedSettingsOpen}>
             <DialogTrigger asChild>
@@ -240,17 +691,398 @@ export function ScanForm() {
                 詳細設定
               </Button>
             </DialogTrigger>
-            <DialogContent>
+            <DialogContent className="max-h-[85vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>詳細設定</DialogTitle>
                 <DialogDescription>
-                  スキャンの詳細設定を行います。
+                  クローラーの並列数やリクエスト頻度、時間予算、リクエストに付与する認証情報を設定します。
                 </DialogDescription>
               </DialogHeader>
               <div className="space-y-4 py-4">
-                <p className="text-sm text-muted-foreground">
-                  詳細設定は現在準備中です。将来のバージョンでご利用いただけます。
-                </p>
+                <FormField
+                  control={form.control}
+                  name="crawl.concurrency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>同時接続数</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          {...field}
+                          disabled={scanMutation.isPending}
+                        />
+                      </FormControl>
+                      <FormDescription>並行して取得するページ数です (1〜10)。</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="crawl.requestsPerSecond"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>秒間リクエスト数</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="0.5"
+                          {...field}
+                          disabled={scanMutation.isPending}
+                        />
+                      </FormControl>
+                      <FormDescription>1つのホストに送る1秒あたりの最大リクエスト数です。</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="crawl.politeDelayMs"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>ページ間の待機時間 (ミリ秒)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          {...field}
+                          disabled={scanMutation.isPending}
+                        />
+                      </FormControl>
+                      <FormDescription>各ワーカーがページを取得するごとに待機する時間です。</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="crawl.timeBudgetSeconds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>時間予算 (秒)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          {...field}
+                          disabled={scanMutation.isPending}
+                        />
+                      </FormControl>
+                      <FormDescription>この時間を過ぎるとクロールを打ち切り、結果を部分的な結果として記録します。</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="crawl.requestTimeoutMs"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>リクエストタイムアウト (ミリ秒)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          {...field}
+                          disabled={scanMutation.isPending}
+                        />
+                      </FormControl>
+                      <FormDescription>1リクエストあたりのタイムアウトです。</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Separator />
+                <p className="text-sm font-medium">クロール範囲</p>
+                <FormField
+                  control={form.control}
+                  name="scope.include"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>対象パターン</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder={"/app/**\n/api/*"}
+                          {...field}
+                          disabled={scanMutation.isPending}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        1行に1パターンです。パスとクエリに対するglob（*はセグメント内、**は任意）か、/正規表現/ で指定します。空欄の場合はすべてが対象です。
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="scope.exclude"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>除外パターン</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder={"/admin/**\n/\\.pdf$/i"}
+                          {...field}
+                          disabled={scanMutation.isPending}
+                        />
+                      </FormControl>
+                      <FormDescription>対象パターンより優先されます。</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="scope.maxDepth"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>最大クロール深度</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          placeholder="無制限"
+                          {...field}
+                          disabled={scanMutation.isPending}
+                        />
+                      </FormControl>
+                      <FormDescription>開始URLからのリンクの階層数です。空欄の場合は制限しません。</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="scope.queryParameters"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>クエリパラメータの扱い</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        value={field.value}
+                        disabled={scanMutation.isPending}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="keep">そのまま</SelectItem>
+                          <SelectItem value="sort">パラメータ名で並べ替え</SelectItem>
+                          <SelectItem value="ignore-values">値の違いを無視</SelectItem>
+                          <SelectItem value="strip">クエリを削除</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>同じページとみなすURLの判定方法です。</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="scope.includeSubdomains"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md p-2">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                          disabled={scanMutation.isPending}
+                        />
+                      </FormControl>
+                      <div className="space-y-1 leading-none">
+                        <FormLabel>サブドメインを含める</FormLabel>
+                        <FormDescription>
+                          対象URLのサブドメインもクロールします。所有権の検証が必要なプロファイルでは使用できません。
+                        </FormDescription>
+                      </div>
+                    </FormItem>
+                  )}
+                />
+
+                <Separator />
+                <p className="text-sm font-medium">リクエスト設定</p>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium">カスタムヘッダー</p>
+                      <p className="text-sm text-muted-foreground">すべてのリクエストに追加するヘッダーです。値は保存後に表示されません。</p>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => headerFields.append({ name: "", value: "" })}
+                      disabled={scanMutation.isPending}
+                    >
+                      <Plus className="mr-1 h-4 w-4" />
+                      追加
+                    </Button>
+                  </div>
+                  {headerFields.fields.map((item, index) => (
+                    <div key={item.id} className="flex items-start gap-2">
+                      <FormField
+                        control={form.control}
+                        name={`request.headers.${index}.name`}
+                        render={({ field }) => (
+                          <FormItem className="flex-1">
+                            <FormControl>
+                              <Input placeholder="X-Custom-Header" {...field} disabled={scanMutation.isPending} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`request.headers.${index}.value`}
+                        render={({ field }) => (
+                          <FormItem className="flex-1">
+                            <FormControl>
+                              <Input type="password" placeholder="値" {...field} disabled={scanMutation.isPending} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => headerFields.remove(index)}
+                        disabled={scanMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium">Cookie</p>
+                      <p className="text-sm text-muted-foreground">すべてのリクエストに送信するCookieです。</p>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => cookieFields.append({ name: "", value: "" })}
+                      disabled={scanMutation.isPending}
+                    >
+                      <Plus className="mr-1 h-4 w-4" />
+                      追加
+                    </Button>
+                  </div>
+                  {cookieFields.fields.map((item, index) => (
+                    <div key={item.id} className="flex items-start gap-2">
+                      <FormField
+                        control={form.control}
+                        name={`request.cookies.${index}.name`}
+                        render={({ field }) => (
+                          <FormItem className="flex-1">
+                            <FormControl>
+                              <Input placeholder="session_id" {...field} disabled={scanMutation.isPending} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`request.cookies.${index}.value`}
+                        render={({ field }) => (
+                          <FormItem className="flex-1">
+                            <FormControl>
+                              <Input type="password" placeholder="値" {...field} disabled={scanMutation.isPending} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => cookieFields.remove(index)}
+                        disabled={scanMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+                <FormField
+                  control={form.control}
+                  name="request.tokenAuthType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>トークン認証</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        value={field.value}
+                        disabled={scanMutation.isPending}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">なし</SelectItem>
+                          <SelectItem value="bearer">Bearerトークン</SelectItem>
+                          <SelectItem value="api-key">APIキー</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {tokenAuthType === "api-key" && (
+                  <FormField
+                    control={form.control}
+                    name="request.tokenHeaderName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>APIキーのヘッダー名</FormLabel>
+                        <FormControl>
+                          <Input {...field} disabled={scanMutation.isPending} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                {tokenAuthType !== "none" && (
+                  <FormField
+                    control={form.control}
+                    name="request.tokenValue"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{tokenAuthType === "bearer" ? "トークン" : "APIキー"}</FormLabel>
+                        <FormControl>
+                          <Input type="password" {...field} disabled={scanMutation.isPending} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                <FormField
+                  control={form.control}
+                  name="request.userAgent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>User-Agent</FormLabel>
+                      <FormControl>
+                        <Input placeholder="AppSafeguard Security Scanner" {...field} disabled={scanMutation.isPending} />
+                      </FormControl>
+                      <FormDescription>空欄の場合は既定のUser-Agentを使用します。</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
               <Button 
                 type="button" 
@@ -268,10 +1100,10 @@ export function ScanForm() {
             {scanMutation.isPending ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                スキャン中...
+                {isSchedule ? "作成中..." : "スキャン中..."}
               </>
             ) : (
-              "スキャン開始"
+              isSchedule ? "スケジュール作成" : "スキャン開始"
             )}
           </Button>
         </div>
@@ -0,0 +1,99 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { useScanEvents } from "@/hooks/use-scan-events";
+import { AlertTriangle, Globe, Info, Radio } from "lucide-react";
+
+interface ScanProgressProps {
+  scanId: number;
+  active: boolean;
+}
+
+// Live progress bar and rolling crawl log for a scan in progress
+export function ScanProgressCard({ scanId, active }: ScanProgressProps) {
+  const { progress, log, isConnected } = useScanEvents(scanId, active);
+
+  const getSeverityBadge = (severity?: string) => {
+    switch (severity) {
+      case "high":
+        return <Badge variant="outline" className="bg-red-100 text-red-800 border-red-200">高</Badge>;
+      case "medium":
+        return <Badge variant="outline" className="bg-orange-100 text-orange-800 border-orange-200">中</Badge>;
+      case "low":
+        return <Badge variant="outline" className="bg-yellow-100 text-yellow-800 border-yellow-200">低</Badge>;
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base">スキャン進捗</CardTitle>
+          <span className={`flex items-center gap-1 text-xs ${isConnected ? "text-green-600" : "text-muted-foreground"}`}>
+            <Radio className="h-3 w-3" />
+            {isConnected ? "ライブ" : "接続待ち"}
+          </span>
+        </div>
+        <CardDescription>
+          {progress
+            ? `${progress.scanned} ページ完了 / 待機中 ${progress.queued} 件 (上限 ${progress.limit})`
+            : "進捗情報を待っています..."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center gap-3 mb-4">
+          <Progress className="h-2 flex-1" value={progress?.percent ?? 0} />
+          <span className="text-sm font-medium w-12 text-right">{progress?.percent ?? 0}%</span>
+        </div>
+
+        <ScrollArea className="h-48 rounded-md border bg-muted/30 p-3">
+          {log.length > 0 ? (
+            <ul className="space-y-1 font-mono text-xs">
+              {log.map((entry) => (
+                <li key={entry.id} className="flex items-start gap-2">
+                  {entry.type === "finding-found" ? (
+                    <AlertTriangle className="h-3 w-3 mt-0.5 text-orange-500 shrink-0" />
+                  ) : entry.type === "status" ? (
+                    <Info className="h-3 w-3 mt-0.5 text-blue-500 shrink-0" />
+                  ) : (
+                    <Globe className="h-3 w-3 mt-0.5 text-muted-foreground shrink-0" />
+                  )}
+                  <span className="text-muted-foreground shrink-0">
+                    {new Date(entry.timestamp).toLocaleTimeString("ja-JP")}
+                  </span>
+                  <span className="break-all">{entry.text}</span>
+                  {getSeverityBadge(entry.severity)}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-muted-foreground">クロールログはまだありません</p>
+          )}
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Compact progress bar used in scan lists
+export function ScanProgressBar({ scanId, active }: ScanProgressProps) {
+  const { progress, log } = useScanEvents(scanId, active);
+  const lastUrl = [...log].reverse().find((entry) => entry.type === "url-started");
+
+  return (
+    <div className="mb-3">
+      <div className="flex items-center gap-2">
+        <Progress className="h-2 flex-1" value={progress?.percent ?? 0} />
+        <span className="text-xs text-muted-foreground w-10 text-right">{progress?.percent ?? 0}%</span>
+      </div>
+      {lastUrl && (
+        <p className="text-xs text-muted-foreground truncate mt-1" title={lastUrl.text}>
+          {lastUrl.text}
+        </p>
+      )}
+    </div>
+  );
+}
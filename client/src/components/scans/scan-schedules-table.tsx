@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ScanSchedule, ScanScheduleRun } from "@/types";
+import { CalendarClock, History, Loader2, Trash2 } from "lucide-react";
+
+// Format date
+const formatDate = (dateString?: string | null) => {
+  if (!dateString) return "N/A";
+  return new Date(dateString).toLocaleString("ja-JP");
+};
+
+const getRunStatusBadge = (status: ScanScheduleRun["status"] | null) => {
+  if (status === "started") {
+    return <Badge variant="outline" className="text-green-800 bg-green-100 border-green-200">開始</Badge>;
+  }
+  if (status === "skipped") {
+    return <Badge variant="outline" className="text-amber-800 bg-amber-100 border-amber-200">スキップ</Badge>;
+  }
+  return null;
+};
+
+// Started and skipped runs of one schedule
+function ScheduleRunHistory({ schedule }: { schedule: ScanSchedule }) {
+  const { data: runs, isLoading } = useQuery<ScanScheduleRun[]>({
+    queryKey: [`/api/schedules/${schedule.id}/runs`],
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-8 w-8 animate-spin mx-auto" />;
+  }
+
+  if (!runs || runs.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        まだ実行されていません。
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-md border max-h-96 overflow-y-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>予定日時</TableHead>
+            <TableHead>結果</TableHead>
+            <TableHead>詳細</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {runs.map((run) => (
+            <TableRow key={run.id}>
+              <TableCell className="whitespace-nowrap">{formatDate(run.scheduledFor)}</TableCell>
+              <TableCell>{getRunStatusBadge(run.status)}</TableCell>
+              <TableCell className="text-xs break-all">
+                {run.scanId ? (
+                  <Link href={`/scans/${run.scanId}`} className="underline">スキャン #{run.scanId}</Link>
+                ) : (
+                  run.reason
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+// Recurring scan schedules of the current user with their next and last runs
+export function ScanSchedulesTable() {
+  const { toast } = useToast();
+  const [historySchedule, setHistorySchedule] = useState<ScanSchedule | null>(null);
+
+  const { data: schedules, isLoading } = useQuery<ScanSchedule[]>({
+    queryKey: ["/api/schedules"],
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, enabled }: { id: number; enabled: boolean }) => {
+      await apiRequest("PATCH", `/api/schedules/${id}`, { enabled });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schedules"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "スケジュールの更新に失敗しました",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/schedules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schedules"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "削除に失敗しました",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>名前</TableHead>
+              <TableHead>URL</TableHead>
+              <TableHead>実行タイミング</TableHead>
+              <TableHead>次回実行</TableHead>
+              <TableHead>前回実行</TableHead>
+              <TableHead>有効</TableHead>
+              <TableHead className="text-right">アクション</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center">
+                  <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+                </TableCell>
+              </TableRow>
+            ) : schedules && schedules.length > 0 ? (
+              schedules.map((schedule) => (
+                <TableRow key={schedule.id}>
+                  <TableCell className="font-medium">{schedule.name}</TableCell>
+                  <TableCell className="break-all">{schedule.url}</TableCell>
+                  <TableCell>
+                    <code className="bg-gray-100 px-1 py-0.5 rounded text-xs">{schedule.cronExpression}</code>
+                    <div className="text-xs text-muted-foreground">{schedule.timezone}</div>
+                  </TableCell>
+                  <TableCell>{schedule.enabled ? formatDate(schedule.nextRunAt) : "-"}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      {formatDate(schedule.lastRunAt)}
+                      {getRunStatusBadge(schedule.lastRunStatus)}
+                    </div>
+                    {schedule.lastRunStatus === "skipped" && schedule.lastRunReason && (
+                      <div className="text-xs text-amber-700 break-all">{schedule.lastRunReason}</div>
+                    )}
+                    {schedule.lastRunStatus === "started" && schedule.lastScanId && (
+                      <Link href={`/scans/${schedule.lastScanId}`} className="text-xs underline">
+                        スキャン #{schedule.lastScanId}
+                      </Link>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={schedule.enabled}
+                      onCheckedChange={(enabled) => toggleMutation.mutate({ id: schedule.id, enabled })}
+                      disabled={toggleMutation.isPending}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button size="sm" variant="outline" onClick={() => setHistorySchedule(schedule)}>
+                      <History className="h-4 w-4 mr-1" />
+                      履歴
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="text-red-600 border-red-200 hover:bg-red-50"
+                      onClick={() => deleteMutation.mutate(schedule.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-6">
+                  <div className="flex flex-col items-center justify-center text-gray-500">
+                    <CalendarClock className="h-10 w-10 mb-2 opacity-20" />
+                    <p>スケジュールはありません</p>
+                    <p className="text-sm">新規スケジュールから定期スキャンを設定してください</p>
+                  </div>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={!!historySchedule} onOpenChange={(open) => !open && setHistorySchedule(null)}>
+        <DialogContent className="sm:max-w-[700px]">
+          <DialogHeader>
+            <DialogTitle>実行履歴</DialogTitle>
+            <DialogDescription>{historySchedule?.name}</DialogDescription>
+          </DialogHeader>
+          {historySchedule && <ScheduleRunHistory schedule={historySchedule} />}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
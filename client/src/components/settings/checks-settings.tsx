@@ -0,0 +1,128 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Check } from "@/types";
+
+const scanLevelLabels: Record<string, string> = {
+  quick: "クイック",
+  standard: "標準",
+  detailed: "詳細",
+};
+
+const getSeverityBadge = (severity: string) => {
+  switch (severity) {
+    case "high":
+      return <Badge variant="destructive">高</Badge>;
+    case "medium":
+      return <Badge className="bg-orange-500">中</Badge>;
+    case "low":
+      return <Badge className="bg-yellow-500">低</Badge>;
+    default:
+      return <Badge>不明</Badge>;
+  }
+};
+
+// Admin list of the scanner's built-in checks, each of which can be turned off (PATCH /api/checks/:id)
+export function ChecksSettings() {
+  const { toast } = useToast();
+
+  const { data: checks, isLoading } = useQuery<Check[]>({
+    queryKey: ["/api/checks"],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, enabled }: { id: string; enabled: boolean }) => {
+      const res = await apiRequest("PATCH", `/api/checks/${encodeURIComponent(id)}`, { enabled });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/checks"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "チェック項目の更新に失敗しました",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>チェック項目</CardTitle>
+        <CardDescription>
+          無効にしたチェックはすべてのスキャンで実行されません。実行されなかったチェックの課題はスキャンで解消されたとは見なされません。
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-48 w-full" />
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>チェック</TableHead>
+                  <TableHead>重大度</TableHead>
+                  <TableHead>スキャンレベル</TableHead>
+                  <TableHead>種類</TableHead>
+                  <TableHead className="text-right">有効</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {checks?.map((check) => (
+                  <TableRow key={check.id}>
+                    <TableCell>
+                      <div className="text-sm font-medium">{check.title}</div>
+                      <div className="text-xs text-gray-500">
+                        {check.category} · <code>{check.id}</code>
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {check.owasp} · {check.cwe.join(", ")}
+                      </div>
+                    </TableCell>
+                    <TableCell>{getSeverityBadge(check.severity)}</TableCell>
+                    <TableCell className="text-sm">
+                      {check.scanLevels.map((level) => scanLevelLabels[level] ?? level).join(" / ")}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{check.mode === "active" ? "アクティブ" : "パッシブ"}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Switch
+                        checked={check.enabled}
+                        onCheckedChange={(enabled) => updateMutation.mutate({ id: check.id, enabled })}
+                        disabled={updateMutation.isPending}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,215 @@
+import { useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Gauge } from "lucide-react";
+import { CrawlLimitsPolicy, CrawlLimitsResponse, PageLimit } from "@/types";
+
+const MAX_PAGES = 10000;
+
+const pageLimitFieldSchema = z.object({
+  unlimited: z.boolean(),
+  pages: z.coerce.number().int().min(1, "1以上を指定してください").max(MAX_PAGES, `${MAX_PAGES}以下を指定してください`),
+});
+
+const crawlLimitsFormSchema = z.object({
+  user: pageLimitFieldSchema,
+  admin: pageLimitFieldSchema,
+  defaultMaximum: pageLimitFieldSchema,
+  unlimitedCeiling: z.coerce.number().int().min(1, "1以上を指定してください").max(MAX_PAGES, `${MAX_PAGES}以下を指定してください`),
+});
+
+type CrawlLimitsFormValues = z.infer<typeof crawlLimitsFormSchema>;
+
+const toField = (limit: PageLimit | undefined, fallback: number) => ({
+  unlimited: limit === "unlimited",
+  pages: typeof limit === "number" ? limit : fallback,
+});
+
+const fromField = (field: { unlimited: boolean; pages: number }): PageLimit =>
+  field.unlimited ? "unlimited" : field.pages;
+
+const toFormValues = (policy: CrawlLimitsPolicy): CrawlLimitsFormValues => ({
+  user: toField(policy.roleMaximums.user ?? policy.defaultMaximum, 100),
+  admin: toField(policy.roleMaximums.admin ?? policy.defaultMaximum, 100),
+  defaultMaximum: toField(policy.defaultMaximum, 100),
+  unlimitedCeiling: policy.unlimitedCeiling,
+});
+
+const limitFields = [
+  { name: "user", label: "一般ユーザーの上限", description: "ロールが user のユーザーが1回のスキャンでクロールできる最大ページ数です。" },
+  { name: "admin", label: "管理者の上限", description: "ロールが admin のユーザーが1回のスキャンでクロールできる最大ページ数です。" },
+  { name: "defaultMaximum", label: "その他のロールの上限", description: "上記以外のロールに適用される最大ページ数です。" },
+] as const;
+
+// Admin form for the per-role crawl limits policy (PUT /api/settings/crawl-limits)
+export function CrawlLimitsSettings() {
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<CrawlLimitsResponse>({
+    queryKey: ["/api/settings/crawl-limits"],
+  });
+
+  const form = useForm<CrawlLimitsFormValues>({
+    resolver: zodResolver(crawlLimitsFormSchema),
+    defaultValues: {
+      user: { unlimited: false, pages: 500 },
+      admin: { unlimited: true, pages: 2000 },
+      defaultMaximum: { unlimited: false, pages: 100 },
+      unlimitedCeiling: 2000,
+    },
+  });
+
+  useEffect(() => {
+    if (data) {
+      form.reset(toFormValues(data.policy));
+    }
+  }, [data]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (values: CrawlLimitsFormValues) => {
+      const policy: CrawlLimitsPolicy = {
+        roleMaximums: {
+          ...data?.policy.roleMaximums,
+          user: fromField(values.user),
+          admin: fromField(values.admin),
+        },
+        defaultMaximum: fromField(values.defaultMaximum),
+        unlimitedCeiling: values.unlimitedCeiling,
+      };
+      const res = await apiRequest("PUT", "/api/settings/crawl-limits", policy);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "クロール制限が更新されました",
+        variant: "default",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/crawl-limits"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "クロール制限の更新に失敗しました",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>クロール制限</CardTitle>
+        <CardDescription>
+          ロールごとに1回のスキャンでクロールできるページ数の上限を管理します。
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        ) : (
+          <Form {...form}>
+            <form
+              onSubmit={form.handleSubmit((values) => updateMutation.mutate(values))}
+              className="space-y-6"
+            >
+              {limitFields.map((limitField) => (
+                <div key={limitField.name} className="rounded-lg border p-3 space-y-3">
+                  <FormField
+                    control={form.control}
+                    name={`${limitField.name}.unlimited`}
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center justify-between">
+                        <div className="space-y-0.5">
+                          <FormLabel>{limitField.label}</FormLabel>
+                          <FormDescription>{limitField.description}</FormDescription>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm text-muted-foreground">無制限</span>
+                          <FormControl>
+                            <Switch checked={field.value} onCheckedChange={field.onChange} />
+                          </FormControl>
+                        </div>
+                      </FormItem>
+                    )}
+                  />
+                  {!form.watch(`${limitField.name}.unlimited`) && (
+                    <FormField
+                      control={form.control}
+                      name={`${limitField.name}.pages`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input type="number" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
+              ))}
+
+              <FormField
+                control={form.control}
+                name="unlimitedCeiling"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>安全上限 (ページ)</FormLabel>
+                    <FormControl>
+                      <Input type="number" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      「無制限」のスキャンもこのページ数で停止します。すべてのロールの上限はこの値を超えません。
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <Button
+                type="submit"
+                disabled={updateMutation.isPending}
+                className="flex items-center gap-1"
+              >
+                {updateMutation.isPending ? (
+                  <div className="h-4 w-4 animate-spin rounded-full border-2 border-solid border-current border-r-transparent" />
+                ) : (
+                  <Gauge className="h-4 w-4" />
+                )}
+                クロール制限を保存
+              </Button>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
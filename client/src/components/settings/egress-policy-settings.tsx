@@ -0,0 +1,152 @@
+import { useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Network } from "lucide-react";
+import { EgressPolicy } from "@/types";
+
+// Loose client-side check; the server validates the ranges properly
+const cidrPattern = /^[0-9a-fA-F:.]+(\/\d{1,3})?$/;
+
+const splitRanges = (text: string) =>
+  text.split("\n").map((line) => line.trim()).filter(Boolean);
+
+const egressPolicyFormSchema = z.object({
+  allowedRanges: z.string().superRefine((text, ctx) => {
+    for (const range of splitRanges(text)) {
+      if (!cidrPattern.test(range)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `無効なアドレス範囲です: ${range}` });
+      }
+    }
+  }),
+});
+
+type EgressPolicyFormValues = z.infer<typeof egressPolicyFormSchema>;
+
+// Admin form for the internal ranges that scans may reach (PUT /api/settings/egress-policy)
+export function EgressPolicySettings() {
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<EgressPolicy>({
+    queryKey: ["/api/settings/egress-policy"],
+  });
+
+  const form = useForm<EgressPolicyFormValues>({
+    resolver: zodResolver(egressPolicyFormSchema),
+    defaultValues: {
+      allowedRanges: "",
+    },
+  });
+
+  useEffect(() => {
+    if (data) {
+      form.reset({ allowedRanges: data.allowedRanges.join("\n") });
+    }
+  }, [data]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (values: EgressPolicyFormValues) => {
+      const policy: EgressPolicy = {
+        allowedRanges: splitRanges(values.allowedRanges),
+      };
+      const res = await apiRequest("PUT", "/api/settings/egress-policy", policy);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "ネットワーク制限が更新されました",
+        variant: "default",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/egress-policy"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "ネットワーク制限の更新に失敗しました",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>ネットワーク制限</CardTitle>
+        <CardDescription>
+          スキャナーはループバック、プライベート、リンクローカル（クラウドのメタデータ）などの内部アドレスへ接続しません。リダイレクト先も同様に確認します。
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-24 w-full" />
+          </div>
+        ) : (
+          <Form {...form}>
+            <form
+              onSubmit={form.handleSubmit((values) => updateMutation.mutate(values))}
+              className="space-y-6"
+            >
+              <FormField
+                control={form.control}
+                name="allowedRanges"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>許可する内部アドレス範囲</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        placeholder={"10.20.0.0/16\n192.168.1.10"}
+                        className="font-mono"
+                        rows={6}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      オンプレミスのアプリケーションをスキャンする場合に、CIDR形式で1行に1つずつ指定します。
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <Button
+                type="submit"
+                disabled={updateMutation.isPending}
+                className="flex items-center gap-1"
+              >
+                {updateMutation.isPending ? (
+                  <div className="h-4 w-4 animate-spin rounded-full border-2 border-solid border-current border-r-transparent" />
+                ) : (
+                  <Network className="h-4 w-4" />
+                )}
+                ネットワーク制限を保存
+              </Button>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
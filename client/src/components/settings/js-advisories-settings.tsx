@@ -0,0 +1,123 @@
+import { useRef } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Loader2, RotateCcw, Upload } from "lucide-react";
+import { JsAdvisoryDatabaseInfo } from "@/types";
+
+// Admin view of the advisory database for JavaScript libraries, which can be replaced with a
+// newer one in the retire.js repository format (PUT /api/settings/js-advisories)
+export function JsAdvisoriesSettings() {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const { data, isLoading } = useQuery<JsAdvisoryDatabaseInfo>({
+    queryKey: ["/api/settings/js-advisories"],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (database: unknown) => {
+      const res = await apiRequest("PUT", "/api/settings/js-advisories", { database });
+      return await res.json();
+    },
+    onSuccess: (info: JsAdvisoryDatabaseInfo) => {
+      toast({
+        title: info.source === "custom" ? "脆弱性データベースを更新しました" : "同梱の脆弱性データベースに戻しました",
+        variant: "default",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/js-advisories"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "脆弱性データベースの更新に失敗しました",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      updateMutation.mutate(JSON.parse(await file.text()));
+    } catch {
+      toast({
+        title: "JSONファイルを読み込めませんでした",
+        variant: "destructive",
+      });
+    } finally {
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>JavaScriptライブラリの脆弱性データベース</CardTitle>
+        <CardDescription>
+          チェック <code>libraries.vulnerable-js</code> が使用するデータベースです。retire.js形式のJSONファイルをアップロードすると、次回以降のスキャンから使用されます。
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !data ? (
+          <Skeleton className="h-16 w-full" />
+        ) : (
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <div className="space-y-1 text-sm">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">{data.source === "custom" ? "アップロード済み" : "同梱"}</Badge>
+                <span>{data.libraries} ライブラリ / {data.advisories} 件の脆弱性情報</span>
+              </div>
+              {data.updatedAt && (
+                <p className="text-muted-foreground">
+                  最終更新: {new Date(data.updatedAt).toLocaleString("ja-JP")}
+                </p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <input
+                ref={fileInput}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+              <Button
+                variant="outline"
+                onClick={() => fileInput.current?.click()}
+                disabled={updateMutation.isPending}
+              >
+                {updateMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="h-4 w-4 mr-2" />
+                )}
+                アップロード
+              </Button>
+              {data.source === "custom" && (
+                <Button
+                  variant="ghost"
+                  onClick={() => updateMutation.mutate(null)}
+                  disabled={updateMutation.isPending}
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  同梱版に戻す
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
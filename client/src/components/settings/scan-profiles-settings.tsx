@@ -0,0 +1,371 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { Check, ScanProfile } from "@/types";
+
+const builtInProfileLabels: Record<string, string> = {
+  quick: "クイック",
+  standard: "標準",
+  detailed: "詳細",
+};
+
+const scanProfileFormSchema = z.object({
+  name: z.string().trim().min(1, "名前を入力してください").max(100),
+  description: z.string().max(500),
+  checkIds: z.array(z.string()).min(1, "チェックを1つ以上選択してください"),
+  followLinks: z.boolean(),
+  allowActiveChecks: z.boolean(),
+  // Left empty to use the settings of each scan
+  requestsPerSecond: z.string().regex(/^(\d+(\.\d+)?)?$/, "数値を入力してください"),
+  timeBudgetSeconds: z.string().regex(/^\d*$/, "整数を入力してください"),
+});
+
+type ScanProfileFormValues = z.infer<typeof scanProfileFormSchema>;
+
+const toFormValues = (profile?: ScanProfile, defaultCheckIds: string[] = []): ScanProfileFormValues => ({
+  name: profile?.name ?? "",
+  description: profile?.description ?? "",
+  checkIds: profile?.checkIds ?? defaultCheckIds,
+  followLinks: profile?.followLinks ?? true,
+  allowActiveChecks: profile?.allowActiveChecks ?? false,
+  requestsPerSecond: profile?.crawl?.requestsPerSecond?.toString() ?? "",
+  timeBudgetSeconds: profile?.crawl?.timeBudgetSeconds?.toString() ?? "",
+});
+
+// The user's own scan profiles next to the read-only built-in ones (/api/scan-profiles)
+export function ScanProfilesSettings() {
+  const { toast } = useToast();
+  // The profile being edited; null while creating a new one, undefined when the dialog is closed
+  const [editing, setEditing] = useState<ScanProfile | null | undefined>(undefined);
+
+  const { data: profiles, isLoading } = useQuery<ScanProfile[]>({
+    queryKey: ["/api/scan-profiles"],
+  });
+
+  const { data: checks } = useQuery<Check[]>({
+    queryKey: ["/api/checks"],
+  });
+
+  const form = useForm<ScanProfileFormValues>({
+    resolver: zodResolver(scanProfileFormSchema),
+    defaultValues: toFormValues(),
+  });
+
+  const openDialog = (profile: ScanProfile | null) => {
+    // New profiles start from the checks of the standard profile
+    const standard = profiles?.find((p) => p.builtIn && p.scanLevel === "standard");
+    form.reset(toFormValues(profile ?? undefined, standard?.checkIds));
+    setEditing(profile);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: ScanProfileFormValues) => {
+      const crawl = {
+        requestsPerSecond: values.requestsPerSecond ? parseFloat(values.requestsPerSecond) : undefined,
+        timeBudgetSeconds: values.timeBudgetSeconds ? parseInt(values.timeBudgetSeconds) : undefined,
+      };
+      const body = {
+        name: values.name,
+        description: values.description || null,
+        checkIds: values.checkIds,
+        followLinks: values.followLinks,
+        allowActiveChecks: values.allowActiveChecks,
+        crawl: crawl.requestsPerSecond !== undefined || crawl.timeBudgetSeconds !== undefined ? crawl : null,
+      };
+      const res = editing
+        ? await apiRequest("PATCH", `/api/scan-profiles/${editing.id}`, body)
+        : await apiRequest("POST", "/api/scan-profiles", body);
+      return (await res.json()) as ScanProfile;
+    },
+    onSuccess: () => {
+      toast({
+        title: editing ? "スキャンプロファイルを更新しました" : "スキャンプロファイルを作成しました",
+        variant: "default",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/scan-profiles"] });
+      setEditing(undefined);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "スキャンプロファイルの保存に失敗しました",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/scan-profiles/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scan-profiles"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "削除に失敗しました",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const categories = Array.from(new Set((checks ?? []).map((check) => check.category)));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>スキャンプロファイル</CardTitle>
+          <CardDescription>
+            実行するチェックとクロールの設定をまとめて、スキャン時に選択できます。クイック・標準・詳細は組み込みのプロファイルで、変更できません。
+          </CardDescription>
+        </div>
+        <Button onClick={() => openDialog(null)} className="flex items-center gap-1">
+          <Plus className="h-4 w-4" />
+          新しいプロファイル
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>プロファイル</TableHead>
+                  <TableHead className="text-right">チェック数</TableHead>
+                  <TableHead>クロール</TableHead>
+                  <TableHead>アクティブチェック</TableHead>
+                  <TableHead className="text-right">アクション</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {profiles?.map((profile) => (
+                  <TableRow key={profile.builtIn ? profile.scanLevel : profile.id}>
+                    <TableCell>
+                      <div className="text-sm font-medium flex items-center gap-2">
+                        {profile.builtIn ? builtInProfileLabels[profile.scanLevel] ?? profile.name : profile.name}
+                        {profile.builtIn && <Badge variant="outline">組み込み</Badge>}
+                        {profile.requiresVerification && <Badge variant="outline">所有権の検証が必要</Badge>}
+                      </div>
+                      {profile.description && (
+                        <div className="text-xs text-gray-500">{profile.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{profile.checkIds.length}</TableCell>
+                    <TableCell className="text-sm">{profile.followLinks ? "サイト全体" : "開始URLのみ"}</TableCell>
+                    <TableCell className="text-sm">{profile.allowActiveChecks ? "許可" : "なし"}</TableCell>
+                    <TableCell className="text-right space-x-2 whitespace-nowrap">
+                      {!profile.builtIn && (
+                        <>
+                          <Button size="sm" variant="outline" onClick={() => openDialog(profile)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => deleteMutation.mutate(profile.id!)}
+                            disabled={deleteMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={editing !== undefined} onOpenChange={(open) => !open && setEditing(undefined)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "スキャンプロファイルを編集" : "新しいスキャンプロファイル"}</DialogTitle>
+            <DialogDescription>
+              変更は以降に開始するスキャンに適用されます。
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form
+              onSubmit={form.handleSubmit((values) => saveMutation.mutate(values))}
+              className="space-y-4"
+            >
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>名前</FormLabel>
+                    <FormControl>
+                      <Input placeholder="ヘッダーのみ" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>説明</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="followLinks"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                      <div className="space-y-0.5">
+                        <FormLabel>サイトをクロール</FormLabel>
+                        <FormDescription>オフにすると開始URLのみをスキャンします</FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="allowActiveChecks"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                      <div className="space-y-0.5">
+                        <FormLabel>アクティブチェックを許可</FormLabel>
+                        <FormDescription>検査用のリクエストを送信するチェックを実行します</FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="requestsPerSecond"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>ホストごとのリクエスト数/秒</FormLabel>
+                      <FormControl>
+                        <Input placeholder="スキャンの設定を使用" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="timeBudgetSeconds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>時間予算（秒）</FormLabel>
+                      <FormControl>
+                        <Input placeholder="スキャンの設定を使用" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="checkIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>チェック</FormLabel>
+                    <div className="space-y-3 rounded-md border p-3 max-h-72 overflow-y-auto">
+                      {categories.map((category) => (
+                        <div key={category} className="space-y-1">
+                          <p className="text-xs font-medium text-muted-foreground">{category}</p>
+                          {checks?.filter((check) => check.category === category).map((check) => (
+                            <label key={check.id} className="flex items-center gap-2 text-sm">
+                              <Checkbox
+                                checked={field.value.includes(check.id)}
+                                onCheckedChange={(checked) =>
+                                  field.onChange(
+                                    checked
+                                      ? [...field.value, check.id]
+                                      : field.value.filter((id) => id !== check.id),
+                                  )
+                                }
+                              />
+                              {check.title}
+                              {!check.enabled && <Badge variant="outline">無効</Badge>}
+                              {check.mode === "active" && <Badge variant="outline">アクティブ</Badge>}
+                            </label>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end">
+                <Button type="submit" disabled={saveMutation.isPending} className="flex items-center gap-1">
+                  {saveMutation.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                  保存
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Issue, IssueStatus } from "@/types";
+import { Layers, Loader2 } from "lucide-react";
+
+const statusLabels: Record<IssueStatus, string> = {
+  pending: "未対応",
+  in_progress: "対応中",
+  fixed: "解決済み",
+  false_positive: "誤検出",
+  resolved_by_scan: "スキャンで解消",
+};
+
+// Format date
+const formatDate = (dateString?: string | null) => {
+  if (!dateString) return "N/A";
+  return new Date(dateString).toLocaleString("ja-JP");
+};
+
+const getSeverityBadge = (severity: string) => {
+  switch (severity) {
+    case "high":
+      return <Badge variant="destructive">高</Badge>;
+    case "medium":
+      return <Badge className="bg-orange-500">中</Badge>;
+    case "low":
+      return <Badge className="bg-yellow-500">低</Badge>;
+    default:
+      return <Badge>不明</Badge>;
+  }
+};
+
+// Findings grouped across scans. The status set here is kept for the finding in later scans.
+export function IssuesTable() {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+
+  const { data: issues, isLoading } = useQuery<Issue[]>({
+    queryKey: ["/api/issues"],
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: number; status: IssueStatus }) => {
+      await apiRequest("PATCH", `/api/issues/${id}`, { status });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/issues"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vulnerabilities"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "ステータスの更新に失敗しました",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const filteredIssues = issues?.filter((issue) => statusFilter === "all" || issue.status === statusFilter);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-36">
+            <SelectValue placeholder="ステータス" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">すべてのステータス</SelectItem>
+            {Object.entries(statusLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[300px]">課題</TableHead>
+              <TableHead>URL</TableHead>
+              <TableHead>重大度</TableHead>
+              <TableHead>初回検出</TableHead>
+              <TableHead>最終検出</TableHead>
+              <TableHead className="text-right">検出回数</TableHead>
+              <TableHead>ステータス</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center">
+                  <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+                </TableCell>
+              </TableRow>
+            ) : filteredIssues && filteredIssues.length > 0 ? (
+              filteredIssues.map((issue) => (
+                <TableRow key={issue.id}>
+                  <TableCell>
+                    <div className="text-sm font-medium text-gray-900">{issue.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {issue.category} · <code>{issue.checkId}</code>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="text-sm text-gray-900 truncate max-w-[250px]">{issue.url}</div>
+                    {issue.parameter && (
+                      <div className="text-xs text-muted-foreground truncate max-w-[250px]">{issue.parameter}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{getSeverityBadge(issue.severity)}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    <Link href={`/scans/${issue.firstScanId}`} className="underline">
+                      {formatDate(issue.firstSeenAt)}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    <Link href={`/scans/${issue.lastScanId}`} className="underline">
+                      {formatDate(issue.lastSeenAt)}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="text-right">{issue.occurrenceCount}</TableCell>
+                  <TableCell className="space-y-1">
+                    <Select
+                      value={issue.status}
+                      onValueChange={(status) => statusMutation.mutate({ id: issue.id, status: status as IssueStatus })}
+                      disabled={statusMutation.isPending}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(statusLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value} disabled={value === "resolved_by_scan"}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {issue.regressionCount > 0 && (issue.status === "pending" || issue.status === "in_progress") && (
+                      <Badge variant="outline" className="text-red-800 bg-red-100 border-red-200">
+                        再発{issue.regressionCount > 1 ? ` ×${issue.regressionCount}` : ""}
+                      </Badge>
+                    )}
+                    {issue.resolvedByScanId && (
+                      <Link href={`/scans/${issue.resolvedByScanId}`} className="block text-xs text-teal-700 underline">
+                        {issue.status === "fixed" ? "修正を確認" : "未検出"}: スキャン #{issue.resolvedByScanId}
+                      </Link>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-6">
+                  <div className="flex flex-col items-center justify-center text-gray-500">
+                    <Layers className="h-10 w-10 mb-2 opacity-20" />
+                    <p>条件に一致する課題はありません</p>
+                  </div>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useEffect, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+
+export interface ScanLogEntry {
+  id: string;
+  type: "url-started" | "finding-found" | "status";
+  text: string;
+  severity?: string;
+  timestamp: string;
+}
+
+export interface ScanProgressState {
+  percent: number;
+  scanned: number;
+  queued: number;
+  limit: number;
+}
+
+// Keep the rolling crawl log short; the full result is available once the scan finishes
+const MAX_LOG_ENTRIES = 50;
+
+// Subscribe to the live progress stream of a scan (GET /api/scans/:id/events)
+export function useScanEvents(scanId: number | string | undefined, enabled: boolean) {
+  const [progress, setProgress] = useState<ScanProgressState | null>(null);
+  const [log, setLog] = useState<ScanLogEntry[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
+
+  useEffect(() => {
+    if (!scanId || !enabled) return;
+
+    const source = new EventSource(`/api/scans/${scanId}/events`, { withCredentials: true });
+    const seen = new Set<string>();
+
+    const appendLog = (entry: ScanLogEntry) => {
+      // Replayed history can repeat entries after a reconnect
+      if (seen.has(entry.id)) return;
+      seen.add(entry.id);
+      setLog((current) => [...current, entry].slice(-MAX_LOG_ENTRIES));
+    };
+
+    source.onopen = () => setIsConnected(true);
+    source.onerror = () => setIsConnected(false);
+
+    source.addEventListener("url-started", (e) => {
+      const event = e as MessageEvent;
+      const data = JSON.parse(event.data);
+      appendLog({
+        id: event.lastEventId,
+        type: "url-started",
+        text: `スキャン中: ${data.url} (${data.index}/${data.limit})`,
+        timestamp: data.timestamp,
+      });
+    });
+
+    source.addEventListener("finding-found", (e) => {
+      const event = e as MessageEvent;
+      const data = JSON.parse(event.data);
+      appendLog({
+        id: event.lastEventId,
+        type: "finding-found",
+        text: `検出: ${data.name} (${data.url})`,
+        severity: data.severity,
+        timestamp: data.timestamp,
+      });
+    });
+
+    source.addEventListener("progress", (e) => {
+      const data = JSON.parse((e as MessageEvent).data);
+      setProgress({
+        percent: data.percent,
+        scanned: data.scanned,
+        queued: data.queued,
+        limit: data.limit,
+      });
+    });
+
+    source.addEventListener("status", (e) => {
+      const event = e as MessageEvent;
+      const data = JSON.parse(event.data);
+      setStatus(data.status);
+
+      if (event.lastEventId) {
+        appendLog({
+          id: event.lastEventId,
+          type: "status",
+          text: data.message ? `ステータス: ${data.status} - ${data.message}` : `ステータス: ${data.status}`,
+          timestamp: data.timestamp,
+        });
+      }
+
+      // Refresh the persisted scan once it changes state
+      queryClient.invalidateQueries({ queryKey: [`/api/scans/${scanId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/scans"] });
+      if (data.status === "completed") {
+        queryClient.invalidateQueries({ queryKey: [`/api/scans/${scanId}/vulnerabilities`] });
+        queryClient.invalidateQueries({ queryKey: ["/api/vulnerabilities/summary"] });
+      }
+    });
+
+    return () => {
+      source.close();
+      setIsConnected(false);
+    };
+  }, [scanId, enabled]);
+
+  return { progress, log, status, isConnected };
+}
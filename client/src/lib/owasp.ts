@@ -0,0 +1,16 @@
+// Names of the OWASP Top 10 2021 categories that findings carry as owaspCategory
+export const owaspCategoryNames: Record<string, string> = {
+  "A01:2021": "アクセス制御の不備",
+  "A02:2021": "暗号化の失敗",
+  "A03:2021": "インジェクション",
+  "A04:2021": "安全が確認されない不安な設計",
+  "A05:2021": "セキュリティの設定ミス",
+  "A06:2021": "脆弱で古くなったコンポーネント",
+  "A07:2021": "識別と認証の失敗",
+  "A08:2021": "ソフトウェアとデータの整合性の不具合",
+  "A09:2021": "セキュリティログとモニタリングの失敗",
+  "A10:2021": "サーバーサイドリクエストフォージェリ (SSRF)",
+};
+
+export const formatOwaspCategory = (category: string) =>
+  owaspCategoryNames[category] ? `${category} ${owaspCategoryNames[category]}` : category;
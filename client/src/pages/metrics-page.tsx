@@ -28,7 +28,8 @@ import {
   TrendingDown,
   TrendingUp,
   BarChart4,
-  Clock
+  Clock,
+  Globe
 } from "lucide-react";
 
 export default function MetricsPage() {
@@ -37,7 +38,7 @@ export default function MetricsPage() {
   // Query for metrics data
   const { data: metricsData, isLoading: isLoadingMetrics } = useQuery<{data: SecurityMetrics, timeframe: string}>({
     queryKey: ["/api/reports/metrics", timeframe],
-    queryFn: () => fetch(`/api/reports/metrics?timeframe=${timeframe}`).then(res => res.json()),
+    queryFn: () => fetch(`/api/reports/metrics?timeframe=${timeframe}&groupBy=target`).then(res => res.json()),
     enabled: true,
   });
   
@@ -61,6 +62,7 @@ export default function MetricsPage() {
   // Use real metrics data if available, otherwise use defaults
   const metrics = metricsData?.data || defaultMetrics;
   const trends = trendData?.data?.trendData || [];
+  const targetMetrics = metricsData?.data?.byTarget || [];
   
   return (
     <AppLayout title="セキュリティメトリクス">
@@ -151,6 +153,10 @@ export default function MetricsPage() {
               <Clock className="h-4 w-4 mr-2" />
               時間ベースのメトリクス
             </TabsTrigger>
+            <TabsTrigger value="targets">
+              <Globe className="h-4 w-4 mr-2" />
+              ターゲット別
+            </TabsTrigger>
           </TabsList>
           
           <TabsContent value="categories" className="pt-4">
@@ -415,6 +421,72 @@ export default function MetricsPage() {
               </Card>
             </div>
           </TabsContent>
+          
+          <TabsContent value="targets" className="pt-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>ターゲット別メトリクス</CardTitle>
+                <CardDescription>選択した期間のスキャン結果をターゲットごとに集計</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="rounded-md border">
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b bg-gray-50">
+                          <th className="px-4 py-3 text-left font-medium">ターゲット</th>
+                          <th className="px-4 py-3 text-right font-medium">セキュリティスコア</th>
+                          <th className="px-4 py-3 text-right font-medium">スキャン数</th>
+                          <th className="px-4 py-3 text-right font-medium">脆弱性数</th>
+                          <th className="px-4 py-3 text-right font-medium">高リスク</th>
+                          <th className="px-4 py-3 text-right font-medium">未対応</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {isLoadingMetrics ? (
+                          Array(3).fill(0).map((_, i) => (
+                            <tr key={i} className="border-b">
+                              <td colSpan={6}>
+                                <div className="h-10 bg-gray-100 rounded animate-pulse m-2"></div>
+                              </td>
+                            </tr>
+                          ))
+                        ) : targetMetrics.length > 0 ? (
+                          targetMetrics.map((target) => (
+                            <tr key={target.targetId ?? "none"} className="border-b">
+                              <td className="px-4 py-3 text-left">
+                                <div className="font-medium">{target.name ?? "ターゲット未設定"}</div>
+                                {target.baseUrl && (
+                                  <div className="text-xs text-muted-foreground">{target.baseUrl}</div>
+                                )}
+                              </td>
+                              <td className="px-4 py-3 text-right">
+                                <span className={target.securityScore >= 80 ? "text-green-600" : 
+                                                 target.securityScore >= 50 ? "text-yellow-600" : 
+                                                 "text-red-600"}>
+                                  {target.securityScore}
+                                </span>
+                              </td>
+                              <td className="px-4 py-3 text-right">{target.scanCount}</td>
+                              <td className="px-4 py-3 text-right">{target.totalVulnerabilities}</td>
+                              <td className="px-4 py-3 text-right">{target.highSeverityCount}</td>
+                              <td className="px-4 py-3 text-right">{target.openVulnerabilities}</td>
+                            </tr>
+                          ))
+                        ) : (
+                          <tr>
+                            <td colSpan={6} className="px-4 py-8 text-center text-muted-foreground">
+                              データがありません
+                            </td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </div>
     </AppLayout>
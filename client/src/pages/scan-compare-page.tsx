@@ -0,0 +1,252 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useRoute } from "wouter";
+import { Scan, ScanDiff, Vulnerability } from "@/types";
+import { AppLayout } from "@/components/layout/app-layout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, ArrowRight, Loader2, Minus, TrendingDown, TrendingUp } from "lucide-react";
+
+// Format date
+const formatDate = (dateString?: string | null) => {
+  if (!dateString) return "N/A";
+  return new Date(dateString).toLocaleString("ja-JP");
+};
+
+const getSeverityBadge = (severity: string) => {
+  switch (severity) {
+    case "high":
+      return <Badge variant="destructive">高</Badge>;
+    case "medium":
+      return <Badge className="bg-orange-500">中</Badge>;
+    case "low":
+      return <Badge className="bg-yellow-500">低</Badge>;
+    default:
+      return <Badge>不明</Badge>;
+  }
+};
+
+function FindingsTable({ findings, emptyMessage }: { findings: Vulnerability[]; emptyMessage: string }) {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>脆弱性</TableHead>
+            <TableHead>URL</TableHead>
+            <TableHead>重大度</TableHead>
+            <TableHead className="text-right">アクション</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {findings.length > 0 ? (
+            findings.map((finding) => (
+              <TableRow key={finding.id}>
+                <TableCell>
+                  <div className="text-sm font-medium">{finding.name}</div>
+                  <div className="text-xs text-gray-500">{finding.category}</div>
+                </TableCell>
+                <TableCell className="max-w-[300px] truncate" title={finding.url}>{finding.url}</TableCell>
+                <TableCell>{getSeverityBadge(finding.severity)}</TableCell>
+                <TableCell className="text-right">
+                  <Link href={`/vulnerabilities/${finding.id}`}>
+                    <Button size="sm" variant="outline">詳細</Button>
+                  </Link>
+                </TableCell>
+              </TableRow>
+            ))
+          ) : (
+            <TableRow>
+              <TableCell colSpan={4} className="text-center py-6 text-muted-foreground">
+                {emptyMessage}
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+function PagesList({ urls, emptyMessage }: { urls: string[]; emptyMessage: string }) {
+  if (urls.length === 0) {
+    return <p className="text-sm text-muted-foreground py-2">{emptyMessage}</p>;
+  }
+  return (
+    <ul className="space-y-1 text-sm max-h-72 overflow-y-auto">
+      {urls.map((url) => (
+        <li key={url} className="break-all">{url}</li>
+      ))}
+    </ul>
+  );
+}
+
+// What changed between two scans: findings, crawled pages and the security score
+export default function ScanComparePage() {
+  const [, params] = useRoute<{ id: string; otherId: string }>("/scans/:id/compare/:otherId");
+  const [, navigate] = useLocation();
+  const baseId = params?.id;
+  const compareId = params?.otherId;
+
+  const { data: scans } = useQuery<Scan[]>({
+    queryKey: ["/api/scans"],
+  });
+
+  const { data: diff, isLoading, error } = useQuery<ScanDiff>({
+    queryKey: [`/api/scans/${baseId}/diff/${compareId}`],
+    enabled: !!baseId && !!compareId,
+  });
+
+  const completedScans = (scans ?? []).filter((scan) => scan.status === "completed");
+
+  const ScanSelect = ({ value, onChange }: { value?: string; onChange: (id: string) => void }) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-full md:w-[360px]">
+        <SelectValue placeholder="スキャンを選択" />
+      </SelectTrigger>
+      <SelectContent>
+        {completedScans.map((scan) => (
+          <SelectItem key={scan.id} value={String(scan.id)}>
+            #{scan.id} {scan.url} ({formatDate(scan.completedAt)})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const delta = diff?.scoreDelta ?? null;
+
+  return (
+    <AppLayout title="スキャン比較">
+      <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        <div className="flex items-center gap-4">
+          <Link href="/scans">
+            <Button variant="outline" size="icon">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold">スキャン比較</h1>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex flex-col md:flex-row md:items-center gap-4">
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">比較元</p>
+                <ScanSelect value={baseId} onChange={(id) => navigate(`/scans/${id}/compare/${compareId}`)} />
+              </div>
+              <ArrowRight className="hidden md:block h-5 w-5 mt-5 text-muted-foreground" />
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">比較先</p>
+                <ScanSelect value={compareId} onChange={(id) => navigate(`/scans/${baseId}/compare/${id}`)} />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+        ) : error || !diff ? (
+          <Card>
+            <CardContent className="py-6 text-center text-muted-foreground">
+              {error ? (error as Error).message : "比較するスキャンを選択してください"}
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">セキュリティスコア</p>
+                  <p className="text-2xl font-semibold flex items-center gap-2">
+                    {diff.base.securityScore ?? "-"} → {diff.compare.securityScore ?? "-"}
+                  </p>
+                  {delta !== null && (
+                    <p className={`text-sm flex items-center gap-1 ${delta > 0 ? "text-green-600" : delta < 0 ? "text-red-600" : "text-gray-500"}`}>
+                      {delta > 0 ? <TrendingUp className="h-4 w-4" /> : delta < 0 ? <TrendingDown className="h-4 w-4" /> : <Minus className="h-4 w-4" />}
+                      {delta > 0 ? `+${delta}` : delta}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">新規の脆弱性</p>
+                  <p className="text-2xl font-semibold text-red-600">{diff.findings.new.length}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">解消された脆弱性</p>
+                  <p className="text-2xl font-semibold text-green-600">{diff.findings.resolved.length}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-gray-500">変化なし</p>
+                  <p className="text-2xl font-semibold">{diff.findings.unchanged.length}</p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Tabs defaultValue="new">
+              <TabsList>
+                <TabsTrigger value="new">新規 ({diff.findings.new.length})</TabsTrigger>
+                <TabsTrigger value="resolved">解消 ({diff.findings.resolved.length})</TabsTrigger>
+                <TabsTrigger value="unchanged">変化なし ({diff.findings.unchanged.length})</TabsTrigger>
+                <TabsTrigger value="pages">
+                  ページ (+{diff.pages.added.length} / -{diff.pages.removed.length})
+                </TabsTrigger>
+              </TabsList>
+              <TabsContent value="new" className="mt-4">
+                <FindingsTable findings={diff.findings.new} emptyMessage="新しく検出された脆弱性はありません" />
+              </TabsContent>
+              <TabsContent value="resolved" className="mt-4">
+                <FindingsTable findings={diff.findings.resolved} emptyMessage="解消された脆弱性はありません" />
+              </TabsContent>
+              <TabsContent value="unchanged" className="mt-4">
+                <FindingsTable findings={diff.findings.unchanged} emptyMessage="両方のスキャンで検出された脆弱性はありません" />
+              </TabsContent>
+              <TabsContent value="pages" className="mt-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-base">追加されたページ</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <PagesList urls={diff.pages.added} emptyMessage="追加されたページはありません" />
+                    </CardContent>
+                  </Card>
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-base">削除されたページ</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <PagesList urls={diff.pages.removed} emptyMessage="削除されたページはありません" />
+                    </CardContent>
+                  </Card>
+                </div>
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { useRoute } from "wouter";
 import { Scan, Vulnerability } from "@/types";
 import { AppLayout } from "@/components/layout/app-layout";
@@ -20,19 +20,27 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
 import { Progress } from "@/components/ui/progress";
 import { Link } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { 
   ArrowLeft, 
+  Ban,
   CheckCircle, 
   Clock, 
   ExternalLink, 
   FileText, 
   Loader2, 
+  Pause,
+  Play,
   Shield, 
   ShieldAlert, 
   TerminalSquare, 
   XCircle
 } from "lucide-react";
 import { ScanReportPdf } from "@/components/pdf/scan-report-pdf";
+import { ScanProgressCard } from "@/components/scans/scan-progress";
+import { DiscoveredUrlsTable } from "@/components/scans/discovered-urls-table";
+import { OutOfScopeUrlsTable } from "@/components/scans/out-of-scope-urls-table";
 
 export default function ScanDetailPage() {
   // Get scan ID from route
@@ -51,6 +59,37 @@ export default function ScanDetailPage() {
     enabled: !!scanId,
   });
 
+  const { toast } = useToast();
+
+  // Pause / resume / cancel a scan in progress
+  const scanControlMutation = useMutation({
+    mutationFn: async (action: "pause" | "resume" | "cancel") => {
+      const res = await apiRequest("POST", `/api/scans/${scanId}/${action}`);
+      return await res.json();
+    },
+    onSuccess: (_, action) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/scans/${scanId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/scans"] });
+      
+      toast({
+        title: action === "pause" ? "一時停止を要求しました" :
+          action === "resume" ? "スキャンを再開しました" :
+          "キャンセルを要求しました",
+        description: action === "resume"
+          ? "中断した位置からクロールを続行します"
+          : "現在のページの処理が終わり次第反映されます",
+        variant: "default",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "操作に失敗しました",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Format date
   const formatDate = (dateString?: string | null) => {
     if (!dateString) return "N/A";
@@ -69,6 +108,10 @@ export default function ScanDetailPage() {
         return <Badge variant="outline" className="flex items-center gap-1 text-green-800 bg-green-100 border-green-200"><CheckCircle className="h-3 w-3" /> 完了</Badge>;
       case "failed":
         return <Badge variant="outline" className="flex items-center gap-1 text-red-800 bg-red-100 border-red-200"><XCircle className="h-3 w-3" /> 失敗</Badge>;
+      case "paused":
+        return <Badge variant="outline" className="flex items-center gap-1 text-amber-800 bg-amber-100 border-amber-200"><Pause className="h-3 w-3" /> 一時停止</Badge>;
+      case "cancelled":
+        return <Badge variant="outline" className="flex items-center gap-1 text-gray-700 bg-gray-100 border-gray-200"><Ban className="h-3 w-3" /> キャンセル</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -193,6 +236,37 @@ export default function ScanDetailPage() {
           </div>
           
           <div className="flex items-center gap-2">
+            {(scan.status === "pending" || scan.status === "running") && (
+              <Button
+                variant="outline"
+                onClick={() => scanControlMutation.mutate("pause")}
+                disabled={scanControlMutation.isPending}
+              >
+                <Pause className="h-4 w-4 mr-2" />
+                一時停止
+              </Button>
+            )}
+            {scan.status === "paused" && (
+              <Button
+                variant="outline"
+                onClick={() => scanControlMutation.mutate("resume")}
+                disabled={scanControlMutation.isPending}
+              >
+                <Play className="h-4 w-4 mr-2" />
+                再開
+              </Button>
+            )}
+            {(scan.status === "pending" || scan.status === "running" || scan.status === "paused") && (
+              <Button
+                variant="outline"
+                className="text-red-600 border-red-200 hover:bg-red-50"
+                onClick={() => scanControlMutation.mutate("cancel")}
+                disabled={scanControlMutation.isPending}
+              >
+                <Ban className="h-4 w-4 mr-2" />
+                キャンセル
+              </Button>
+            )}
             {scan.status === "completed" && (
               <>
                 <Link href={`/reports/new?scanId=${scan.id}`}>
@@ -231,12 +305,58 @@ export default function ScanDetailPage() {
                 スキャンレベル: {
                   scan.scanLevel === "quick" ? "クイック" :
                   scan.scanLevel === "standard" ? "標準" :
-                  scan.scanLevel === "detailed" ? "詳細" : scan.scanLevel
+                  scan.scanLevel === "detailed" ? "詳細" :
+                  scan.scanLevel === "custom" ? scan.options?.profile?.name ?? "カスタム" : scan.scanLevel
                 }
               </p>
               <p className="text-sm text-muted-foreground">
                 クロール制限: {scan.crawlLimit || "N/A"}
               </p>
+              {scan.options?.scope && (scan.options.scope.include.length > 0 || scan.options.scope.exclude.length > 0) && (
+                <p className="text-sm text-muted-foreground break-all">
+                  クロール範囲: {[
+                    ...scan.options.scope.include.map((pattern) => `+${pattern}`),
+                    ...scan.options.scope.exclude.map((pattern) => `-${pattern}`),
+                  ].join(", ")}
+                </p>
+              )}
+              {scan.options?.scope?.maxDepth !== undefined && (
+                <p className="text-sm text-muted-foreground">
+                  最大クロール深度: {scan.options.scope.maxDepth}
+                </p>
+              )}
+              {scan.options?.scope?.includeSubdomains && (
+                <p className="text-sm text-muted-foreground">
+                  サブドメインを含む
+                </p>
+              )}
+              {scan.options?.authentication && (
+                <p className="text-sm text-muted-foreground">
+                  ログイン: {scan.options.authentication.username} ({scan.options.authentication.loginUrl})
+                </p>
+              )}
+              {scan.options?.request && scan.options.request.headers.length > 0 && (
+                <p className="text-sm text-muted-foreground break-all">
+                  カスタムヘッダー: {scan.options.request.headers.map((header) => `${header.name}: ${header.value}`).join(", ")}
+                </p>
+              )}
+              {scan.options?.request && scan.options.request.cookies.length > 0 && (
+                <p className="text-sm text-muted-foreground break-all">
+                  Cookie: {scan.options.request.cookies.map((cookie) => `${cookie.name}=${cookie.value}`).join("; ")}
+                </p>
+              )}
+              {scan.options?.request?.tokenAuth && (
+                <p className="text-sm text-muted-foreground">
+                  トークン認証: {scan.options.request.tokenAuth.type === "bearer"
+                    ? `Bearer ${scan.options.request.tokenAuth.value}`
+                    : `${scan.options.request.tokenAuth.headerName}: ${scan.options.request.tokenAuth.value}`}
+                </p>
+              )}
+              {scan.options?.request?.userAgent && (
+                <p className="text-sm text-muted-foreground break-all">
+                  User-Agent: {scan.options.request.userAgent}
+                </p>
+              )}
             </CardContent>
           </Card>
           
@@ -254,7 +374,9 @@ export default function ScanDetailPage() {
                       scan.status === "pending" ? "待機中" :
                       scan.status === "running" ? "実行中" :
                       scan.status === "completed" ? "完了" :
-                      scan.status === "failed" ? "失敗" : scan.status
+                      scan.status === "failed" ? "失敗" :
+                      scan.status === "paused" ? "一時停止" :
+                      scan.status === "cancelled" ? "キャンセル" : scan.status
                     }
                   </span>
                 </div>
@@ -266,6 +388,26 @@ export default function ScanDetailPage() {
                     <AlertDescription>{scan.result.error}</AlertDescription>
                   </Alert>
                 )}
+                {scan.result?.crawlLimit?.limitReached && (
+                  <Alert className="mt-2 border-amber-200 bg-amber-50 text-amber-900">
+                    <AlertTitle>クロール上限に到達</AlertTitle>
+                    <AlertDescription>
+                      {scan.result.crawlLimit.cappedBy === "role-maximum"
+                        ? `ロールの上限 (${scan.result.crawlLimit.applied}ページ) に達したため、クロールを打ち切りました (要求: ${scan.result.crawlLimit.requested === "unlimited" ? "無制限" : scan.result.crawlLimit.requested})。`
+                        : scan.result.crawlLimit.cappedBy === "safety-ceiling"
+                        ? `安全上限 (${scan.result.crawlLimit.applied}ページ) に達したため、クロールを打ち切りました。`
+                        : `指定したクロール制限 (${scan.result.crawlLimit.applied}ページ) に達しました。未スキャンのページが残っています。`}
+                    </AlertDescription>
+                  </Alert>
+                )}
+                {scan.result?.partial && (
+                  <Alert className="mt-2 border-amber-200 bg-amber-50 text-amber-900">
+                    <AlertTitle>部分的な結果</AlertTitle>
+                    <AlertDescription>
+                      時間予算 ({scan.options?.crawl?.timeBudgetSeconds ?? "-"}秒) を使い切ったため、クロールを途中で打ち切りました。
+                    </AlertDescription>
+                  </Alert>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -342,6 +484,11 @@ export default function ScanDetailPage() {
           </Card>
         </div>
         
+        {/* Live progress */}
+        {(scan.status === "pending" || scan.status === "running" || scan.status === "paused") && (
+          <ScanProgressCard scanId={scan.id} active={scan.status !== "paused"} />
+        )}
+        
         {/* Vulnerabilities Table */}
         <Tabs defaultValue="all" className="mt-6">
           <TabsList>
@@ -350,6 +497,8 @@ export default function ScanDetailPage() {
             <TabsTrigger value="medium">中リスク</TabsTrigger>
             <TabsTrigger value="low">低リスク</TabsTrigger>
             <TabsTrigger value="safe">安全</TabsTrigger>
+            <TabsTrigger value="urls">スキャンURL</TabsTrigger>
+            <TabsTrigger value="out-of-scope">範囲外URL</TabsTrigger>
           </TabsList>
           
           <TabsContent value="all" className="mt-4">
@@ -383,6 +532,14 @@ export default function ScanDetailPage() {
               emptyMessage="安全な項目は検出されませんでした。"
             />
           </TabsContent>
+
+          <TabsContent value="urls" className="mt-4">
+            <DiscoveredUrlsTable discoveredUrls={scan.result?.discoveredUrls || []} />
+          </TabsContent>
+
+          <TabsContent value="out-of-scope" className="mt-4">
+            <OutOfScopeUrlsTable outOfScopeUrls={scan.result?.outOfScopeUrls || []} />
+          </TabsContent>
         </Tabs>
 
         {/* PDF Report Section */}
@@ -457,6 +614,8 @@ function VulnerabilitiesTable({ vulnerabilities, emptyMessage = "脆弱性は検
                         <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">修正済</Badge>
                       ) : vuln.status === "safe" ? (
                         <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">安全</Badge>
+                      ) : vuln.status === "resolved_by_scan" ? (
+                        <Badge variant="outline" className="bg-teal-100 text-teal-800 border-teal-200">スキャンで解消</Badge>
                       ) : (
                         <Badge variant="outline">{vuln.status}</Badge>
                       )}
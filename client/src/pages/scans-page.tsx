@@ -3,6 +3,7 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { Scan, User } from "@/types";
 import { AppLayout } from "@/components/layout/app-layout";
 import { ScanForm } from "@/components/scans/scan-form";
+import { ScanSchedulesTable } from "@/components/scans/scan-schedules-table";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -48,11 +49,16 @@ import {
   XCircle, 
   Loader2,
   Trash2,
-  AlertTriangle
+  AlertTriangle,
+  Pause,
+  Ban,
+  CalendarClock,
+  GitCompare
 } from "lucide-react";
 
 export default function ScansPage() {
   const [isNewScanOpen, setIsNewScanOpen] = useState(false);
+  const [isNewScheduleOpen, setIsNewScheduleOpen] = useState(false);
   const [isDeleteAllOpen, setIsDeleteAllOpen] = useState(false);
   const [scanToDelete, setScanToDelete] = useState<number | null>(null);
   const { toast } = useToast();
@@ -82,9 +88,16 @@ export default function ScansPage() {
     },
     onError: (error) => {
       console.error("Error deleting scan:", error);
+      // 実行中のスキャンは停止が完了するまで削除できない
+      const cancelling = error.message.startsWith("409");
+      if (cancelling) {
+        queryClient.invalidateQueries({ queryKey: ["/api/scans"] });
+      }
       toast({
         title: "削除エラー",
-        description: "スキャン結果の削除中にエラーが発生しました",
+        description: cancelling
+          ? "実行中のスキャンを停止しています。停止後にもう一度削除してください"
+          : "スキャン結果の削除中にエラーが発生しました",
         variant: "destructive",
       });
     }
@@ -110,9 +123,16 @@ export default function ScansPage() {
     },
     onError: (error) => {
       console.error("Error deleting all scans:", error);
+      // 実行中のスキャンは停止が完了するまで削除できない
+      const cancelling = error.message.startsWith("409");
+      if (cancelling) {
+        queryClient.invalidateQueries({ queryKey: ["/api/scans"] });
+      }
       toast({
         title: "削除エラー",
-        description: "スキャン結果の削除中にエラーが発生しました",
+        description: cancelling
+          ? "実行中のスキャンを停止しています。停止後にもう一度削除してください"
+          : "スキャン結果の削除中にエラーが発生しました",
         variant: "destructive",
       });
     }
@@ -136,13 +156,29 @@ export default function ScansPage() {
         return <Badge variant="outline" className="flex items-center gap-1 text-green-800 bg-green-100 border-green-200"><CheckCircle className="h-3 w-3" /> 完了</Badge>;
       case "failed":
         return <Badge variant="outline" className="flex items-center gap-1 text-red-800 bg-red-100 border-red-200"><XCircle className="h-3 w-3" /> 失敗</Badge>;
+      case "paused":
+        return <Badge variant="outline" className="flex items-center gap-1 text-amber-800 bg-amber-100 border-amber-200"><Pause className="h-3 w-3" /> 一時停止</Badge>;
+      case "cancelled":
+        return <Badge variant="outline" className="flex items-center gap-1 text-gray-700 bg-gray-100 border-gray-200"><Ban className="h-3 w-3" /> キャンセル</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
   };
   
-  // Action cell with delete button and details link
+  // Latest completed scan of the same target (or URL) before the given one
+  const getPreviousScan = (scan: Scan) => {
+    return scans
+      ?.filter((other) =>
+        other.id !== scan.id &&
+        other.status === "completed" &&
+        (scan.targetId !== null ? other.targetId === scan.targetId : other.url === scan.url) &&
+        new Date(other.startedAt).getTime() < new Date(scan.startedAt).getTime())
+      .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime())[0];
+  };
+  
+  // Action cell with delete button, comparison with the previous scan and details link
   const ActionCell = ({ scan }: { scan: Scan }) => {
+    const previousScan = scan.status === "completed" ? getPreviousScan(scan) : undefined;
     return (
       <div className="flex justify-end gap-2">
         <AlertDialog open={scanToDelete === scan.id} onOpenChange={(open) => !open && setScanToDelete(null)}>
@@ -182,6 +218,14 @@ export default function ScansPage() {
             </AlertDialogFooter>
           </AlertDialogContent>
         </AlertDialog>
+        {previousScan && (
+          <Link href={`/scans/${previousScan.id}/compare/${scan.id}`}>
+            <Button size="sm" variant="outline" title={`スキャン #${previousScan.id} と比較`}>
+              <GitCompare className="h-4 w-4 mr-1" />
+              比較
+            </Button>
+          </Link>
+        )}
         <Link href={`/scans/${scan.id}`}>
           <Button size="sm" variant="outline">
             <ExternalLink className="h-4 w-4 mr-1" />
@@ -231,6 +275,24 @@ export default function ScansPage() {
               </AlertDialogContent>
             </AlertDialog>
             
+            <Dialog open={isNewScheduleOpen} onOpenChange={setIsNewScheduleOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline">
+                  <CalendarClock className="h-4 w-4 mr-2" />
+                  新規スケジュール
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-[600px]">
+                <DialogHeader>
+                  <DialogTitle>新規スケジュール</DialogTitle>
+                  <DialogDescription>
+                    定期的にスキャンするURLと実行タイミング、スキャン設定を入力してください。
+                  </DialogDescription>
+                </DialogHeader>
+                <ScanForm mode="schedule" />
+              </DialogContent>
+            </Dialog>
+            
             <Dialog open={isNewScanOpen} onOpenChange={setIsNewScanOpen}>
               <DialogTrigger asChild>
                 <Button>
@@ -257,6 +319,7 @@ export default function ScansPage() {
             <TabsTrigger value="running">実行中</TabsTrigger>
             <TabsTrigger value="completed">完了</TabsTrigger>
             <TabsTrigger value="failed">失敗</TabsTrigger>
+            <TabsTrigger value="schedules">スケジュール</TabsTrigger>
           </TabsList>
           
           <TabsContent value="all" className="mt-4">
@@ -297,6 +360,7 @@ export default function ScansPage() {
                               {scan.scanLevel === "quick" && "クイック"}
                               {scan.scanLevel === "standard" && "標準"}
                               {scan.scanLevel === "detailed" && "詳細"}
+                              {scan.scanLevel === "custom" && (scan.options?.profile?.name ?? "カスタム")}
                             </TableCell>
                             <TableCell>{getStatusBadge(scan.status)}</TableCell>
                             <TableCell>{formatDate(scan.startedAt)}</TableCell>
@@ -345,9 +409,9 @@ export default function ScansPage() {
                             <Loader2 className="h-8 w-8 animate-spin mx-auto" />
                           </TableCell>
                         </TableRow>
-                      ) : scans && scans.filter(s => s.status === "running" || s.status === "pending").length > 0 ? (
+                      ) : scans && scans.filter(s => s.status === "running" || s.status === "pending" || s.status === "paused").length > 0 ? (
                         scans
-                          .filter(s => s.status === "running" || s.status === "pending")
+                          .filter(s => s.status === "running" || s.status === "pending" || s.status === "paused")
                           .map((scan) => (
                             <TableRow key={scan.id}>
                               <TableCell className="font-medium">{scan.url}</TableCell>
@@ -355,6 +419,7 @@ export default function ScansPage() {
                                 {scan.scanLevel === "quick" && "クイック"}
                                 {scan.scanLevel === "standard" && "標準"}
                                 {scan.scanLevel === "detailed" && "詳細"}
+                                {scan.scanLevel === "custom" && (scan.options?.profile?.name ?? "カスタム")}
                               </TableCell>
                               <TableCell>{getStatusBadge(scan.status)}</TableCell>
                               <TableCell>{formatDate(scan.startedAt)}</TableCell>
@@ -464,6 +529,7 @@ export default function ScansPage() {
                                 {scan.scanLevel === "quick" && "クイック"}
                                 {scan.scanLevel === "standard" && "標準"}
                                 {scan.scanLevel === "detailed" && "詳細"}
+                                {scan.scanLevel === "custom" && (scan.options?.profile?.name ?? "カスタム")}
                               </TableCell>
                               <TableCell>{formatDate(scan.startedAt)}</TableCell>
                               <TableCell>
@@ -528,6 +594,17 @@ export default function ScansPage() {
               </CardContent>
             </Card>
           </TabsContent>
+          
+          <TabsContent value="schedules" className="mt-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">定期スキャン</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ScanSchedulesTable />
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </div>
     </AppLayout>
@@ -30,7 +30,11 @@ import { Separator } from "@/components/ui/separator";
 import {
   AlertTriangle,
   Bell,
+  Gauge,
+  ListChecks,
   Lock,
+  SlidersHorizontal,
+  Network,
   Save,
   Settings as SettingsIcon,
   Shield,
@@ -38,6 +42,11 @@ import {
 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { CrawlLimitsSettings } from "@/components/settings/crawl-limits-settings";
+import { EgressPolicySettings } from "@/components/settings/egress-policy-settings";
+import { ChecksSettings } from "@/components/settings/checks-settings";
+import { JsAdvisoriesSettings } from "@/components/settings/js-advisories-settings";
+import { ScanProfilesSettings } from "@/components/settings/scan-profiles-settings";
 
 // Profile settings form schema
 const profileFormSchema = z.object({
@@ -302,6 +311,44 @@ export default function SettingsPage() {
                     <Shield className="mr-2 h-4 w-4" />
                     スキャン設定
                   </Button>
+                  <Button
+                    variant={activeTab === "scan-profiles" ? "secondary" : "ghost"}
+                    className="w-full justify-start"
+                    onClick={() => setActiveTab("scan-profiles")}
+                  >
+                    <SlidersHorizontal className="mr-2 h-4 w-4" />
+                    スキャンプロファイル
+                  </Button>
+                  {user?.role === "admin" && (
+                    <Button
+                      variant={activeTab === "crawl-limits" ? "secondary" : "ghost"}
+                      className="w-full justify-start"
+                      onClick={() => setActiveTab("crawl-limits")}
+                    >
+                      <Gauge className="mr-2 h-4 w-4" />
+                      クロール制限
+                    </Button>
+                  )}
+                  {user?.role === "admin" && (
+                    <Button
+                      variant={activeTab === "egress-policy" ? "secondary" : "ghost"}
+                      className="w-full justify-start"
+                      onClick={() => setActiveTab("egress-policy")}
+                    >
+                      <Network className="mr-2 h-4 w-4" />
+                      ネットワーク制限
+                    </Button>
+                  )}
+                  {user?.role === "admin" && (
+                    <Button
+                      variant={activeTab === "checks" ? "secondary" : "ghost"}
+                      className="w-full justify-start"
+                      onClick={() => setActiveTab("checks")}
+                    >
+                      <ListChecks className="mr-2 h-4 w-4" />
+                      チェック項目
+                    </Button>
+                  )}
                   <Button
                     variant={activeTab === "danger-zone" ? "secondary" : "ghost"}
                     className="w-full justify-start"
@@ -700,6 +747,25 @@ export default function SettingsPage() {
               </Card>
             )}
 
+            {activeTab === "scan-profiles" && (
+              <ScanProfilesSettings />
+            )}
+
+            {activeTab === "crawl-limits" && user?.role === "admin" && (
+              <CrawlLimitsSettings />
+            )}
+
+            {activeTab === "egress-policy" && user?.role === "admin" && (
+              <EgressPolicySettings />
+            )}
+
+            {activeTab === "checks" && user?.role === "admin" && (
+              <div className="space-y-6">
+                <ChecksSettings />
+                <JsAdvisoriesSettings />
+              </div>
+            )}
+
             {activeTab === "danger-zone" && (
               <Card>
                 <CardHeader>
@@ -0,0 +1,336 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Target, TargetCriticality, TargetEnvironment } from "@/types";
+import { AppLayout } from "@/components/layout/app-layout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Globe, Loader2, PlusCircle, Trash2 } from "lucide-react";
+
+const environmentLabels: Record<TargetEnvironment, string> = {
+  production: "本番",
+  staging: "ステージング",
+  development: "開発",
+};
+
+const criticalityLabels: Record<TargetCriticality, string> = {
+  critical: "最重要",
+  high: "高",
+  medium: "中",
+  low: "低",
+};
+
+const newTargetSchema = z.object({
+  name: z.string().trim().min(1, "名前を入力してください").max(100),
+  baseUrl: z.string().url("有効なURLを入力してください"),
+  environment: z.enum(["production", "staging", "development"]),
+  criticality: z.enum(["low", "medium", "high", "critical"]),
+  // Comma separated
+  tags: z.string(),
+});
+
+type NewTargetValues = z.infer<typeof newTargetSchema>;
+
+export default function TargetsPage() {
+  const { toast } = useToast();
+
+  // Format date
+  const formatDate = (dateString?: string | null) => {
+    if (!dateString) return "N/A";
+    return new Date(dateString).toLocaleString("ja-JP");
+  };
+
+  // Fetch targets
+  const { data: targets, isLoading } = useQuery<Target[]>({
+    queryKey: ["/api/targets"],
+  });
+
+  const form = useForm<NewTargetValues>({
+    resolver: zodResolver(newTargetSchema),
+    defaultValues: {
+      name: "",
+      baseUrl: "",
+      environment: "production",
+      criticality: "medium",
+      tags: "",
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (values: NewTargetValues) => {
+      const res = await apiRequest("POST", "/api/targets", {
+        ...values,
+        tags: values.tags.split(",").map((tag) => tag.trim()).filter(Boolean),
+      });
+      return (await res.json()) as Target;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/targets"] });
+      form.reset();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "ターゲットの追加に失敗しました",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/targets/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/targets"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "削除に失敗しました",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getScoreClass = (score: number) =>
+    score >= 80 ? "text-green-600" : score >= 50 ? "text-yellow-600" : "text-red-600";
+
+  return (
+    <AppLayout title="ターゲット">
+      <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        <h1 className="text-2xl font-bold">ターゲット</h1>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">ターゲットを追加</CardTitle>
+            <CardDescription>
+              ベースURL以下のスキャンはこのターゲットにまとめて記録されます。未登録のURLをスキャンすると、そのオリジンのターゲットが自動で作成されます。
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form
+                onSubmit={form.handleSubmit((values) => createMutation.mutate(values))}
+                className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end"
+              >
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>名前</FormLabel>
+                      <FormControl>
+                        <Input placeholder="顧客ポータル" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="baseUrl"
+                  render={({ field }) => (
+                    <FormItem className="md:col-span-2">
+                      <FormLabel>ベースURL</FormLabel>
+                      <FormControl>
+                        <Input placeholder="https://example.com" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="environment"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>環境</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(environmentLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="criticality"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>重要度</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(criticalityLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="tags"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>タグ (カンマ区切り)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="frontend, pci" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" disabled={createMutation.isPending} className="md:col-start-6">
+                  {createMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <PlusCircle className="h-4 w-4 mr-2" />
+                  )}
+                  追加
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">ターゲット一覧</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>ターゲット</TableHead>
+                    <TableHead>環境</TableHead>
+                    <TableHead>重要度</TableHead>
+                    <TableHead className="text-right">最新スコア</TableHead>
+                    <TableHead>未対応の脆弱性</TableHead>
+                    <TableHead>最終スキャン</TableHead>
+                    <TableHead className="text-right">アクション</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center">
+                        <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+                      </TableCell>
+                    </TableRow>
+                  ) : targets && targets.length > 0 ? (
+                    targets.map((target) => (
+                      <TableRow key={target.id}>
+                        <TableCell>
+                          <div className="font-medium">{target.name}</div>
+                          <div className="text-xs text-muted-foreground break-all">{target.baseUrl}</div>
+                          {target.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {target.tags.map((tag) => (
+                                <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                              ))}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>{environmentLabels[target.environment] ?? target.environment}</TableCell>
+                        <TableCell>
+                          <Badge variant={target.criticality === "critical" || target.criticality === "high" ? "destructive" : "outline"}>
+                            {criticalityLabels[target.criticality] ?? target.criticality}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {target.summary.latestScore !== null ? (
+                            <span className={`font-semibold ${getScoreClass(target.summary.latestScore)}`}>
+                              {target.summary.latestScore}
+                            </span>
+                          ) : (
+                            "-"
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <span className="font-medium">{target.summary.openFindings.total}</span>
+                          {target.summary.openFindings.total > 0 && (
+                            <span className="text-xs ml-2">
+                              (高: {target.summary.openFindings.high}, 中: {target.summary.openFindings.medium}, 低: {target.summary.openFindings.low})
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {target.summary.lastScan ? (
+                            <Link href={`/scans/${target.summary.lastScan.id}`} className="underline">
+                              {formatDate(target.summary.lastScan.startedAt)}
+                            </Link>
+                          ) : (
+                            "N/A"
+                          )}
+                          <div className="text-xs text-muted-foreground">{target.summary.scanCount} 件のスキャン</div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="text-red-600 border-red-200 hover:bg-red-50"
+                            onClick={() => deleteMutation.mutate(target.id)}
+                            disabled={deleteMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center py-6">
+                        <div className="flex flex-col items-center justify-center text-gray-500">
+                          <Globe className="h-10 w-10 mb-2 opacity-20" />
+                          <p>ターゲットはまだありません</p>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
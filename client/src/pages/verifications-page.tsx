@@ -0,0 +1,290 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { TargetVerification } from "@/types";
+import { AppLayout } from "@/components/layout/app-layout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Form, FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { BadgeCheck, Loader2, PlusCircle, RefreshCw, Trash2 } from "lucide-react";
+
+const VERIFICATION_FILE_PATH = "/.well-known/appsafeguard-verification.txt";
+const VERIFICATION_META_NAME = "appsafeguard-verification";
+
+const newVerificationSchema = z.object({
+  url: z.string().url("有効なURLを入力してください"),
+});
+
+export default function VerificationsPage() {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  // Format date
+  const formatDate = (dateString?: string | null) => {
+    if (!dateString) return "N/A";
+    return new Date(dateString).toLocaleString("ja-JP");
+  };
+
+  // Fetch verifications
+  const { data: verifications, isLoading } = useQuery<TargetVerification[]>({
+    queryKey: ["/api/verifications"],
+  });
+
+  const selected = verifications?.find((verification) => verification.id === selectedId) ?? null;
+
+  const form = useForm<z.infer<typeof newVerificationSchema>>({
+    resolver: zodResolver(newVerificationSchema),
+    defaultValues: {
+      url: "",
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (values: z.infer<typeof newVerificationSchema>) => {
+      const res = await apiRequest("POST", "/api/verifications", values);
+      return (await res.json()) as TargetVerification;
+    },
+    onSuccess: (verification) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/verifications"] });
+      setSelectedId(verification.id);
+      form.reset();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "ターゲットの追加に失敗しました",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/verifications/${id}/verify`);
+      return (await res.json()) as TargetVerification;
+    },
+    onSuccess: (verification) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/verifications"] });
+      if (verification.status === "verified" && !verification.lastError) {
+        toast({
+          title: "所有権を確認しました",
+          description: `${verification.host} は ${formatDate(verification.verifiedUntil)} まで検証済みです`,
+          variant: "default",
+        });
+      } else {
+        toast({
+          title: "確認できませんでした",
+          description: verification.lastError ?? undefined,
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "検証に失敗しました",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/verifications/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/verifications"] });
+      setSelectedId(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "削除に失敗しました",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isExpired = (verification: TargetVerification) =>
+    !!verification.verifiedUntil && new Date(verification.verifiedUntil) <= new Date();
+
+  const getStatusBadge = (verification: TargetVerification) => {
+    if (verification.status === "verified" && !isExpired(verification)) {
+      return <Badge className="bg-green-600">検証済み</Badge>;
+    }
+    if (verification.status === "verified") {
+      return <Badge variant="outline">期限切れ</Badge>;
+    }
+    if (verification.status === "failed") {
+      return <Badge variant="destructive">失敗</Badge>;
+    }
+    return <Badge variant="outline">未検証</Badge>;
+  };
+
+  return (
+    <AppLayout title="ターゲット検証">
+      <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        <h1 className="text-2xl font-bold">ターゲット検証</h1>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">ターゲットを追加</CardTitle>
+            <CardDescription>
+              詳細スキャンは、所有権を検証したホストに対してのみ実行できます。
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form
+                onSubmit={form.handleSubmit((values) => createMutation.mutate(values))}
+                className="flex items-start gap-2"
+              >
+                <FormField
+                  control={form.control}
+                  name="url"
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormControl>
+                        <Input placeholder="https://example.com" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" disabled={createMutation.isPending}>
+                  {createMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <PlusCircle className="h-4 w-4 mr-2" />
+                  )}
+                  追加
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        {selected && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">{selected.host} の検証方法</CardTitle>
+              <CardDescription>
+                次のどちらかの方法で検証トークンを公開し、「検証」を押してください。
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm">
+              <div>
+                <p className="font-medium mb-1">方法1: ファイルを配置する</p>
+                <p className="text-muted-foreground mb-1">
+                  <code className="bg-gray-100 px-1 py-0.5 rounded text-xs">{selected.origin}{VERIFICATION_FILE_PATH}</code> で次の内容を返してください。
+                </p>
+                <pre className="bg-gray-100 p-2 rounded text-xs break-all whitespace-pre-wrap">{selected.token}</pre>
+              </div>
+              <div>
+                <p className="font-medium mb-1">方法2: metaタグを追加する</p>
+                <p className="text-muted-foreground mb-1">
+                  トップページ ({selected.origin}/) の &lt;head&gt; に次のタグを追加してください。
+                </p>
+                <pre className="bg-gray-100 p-2 rounded text-xs break-all whitespace-pre-wrap">
+                  {`<meta name="${VERIFICATION_META_NAME}" content="${selected.token}">`}
+                </pre>
+              </div>
+              <Button
+                onClick={() => verifyMutation.mutate(selected.id)}
+                disabled={verifyMutation.isPending}
+              >
+                {verifyMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <BadgeCheck className="h-4 w-4 mr-2" />
+                )}
+                検証
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">ターゲット一覧</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>ホスト</TableHead>
+                    <TableHead>状態</TableHead>
+                    <TableHead>有効期限</TableHead>
+                    <TableHead>最終確認</TableHead>
+                    <TableHead className="text-right">アクション</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center">
+                        <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+                      </TableCell>
+                    </TableRow>
+                  ) : verifications && verifications.length > 0 ? (
+                    verifications.map((verification) => (
+                      <TableRow key={verification.id}>
+                        <TableCell>
+                          <div className="font-medium">{verification.host}</div>
+                          {verification.lastError && (
+                            <div className="text-xs text-red-600 break-all">{verification.lastError}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>{getStatusBadge(verification)}</TableCell>
+                        <TableCell>{formatDate(verification.verifiedUntil)}</TableCell>
+                        <TableCell>{formatDate(verification.lastCheckedAt)}</TableCell>
+                        <TableCell className="text-right space-x-2">
+                          <Button size="sm" variant="outline" onClick={() => setSelectedId(verification.id)}>
+                            <RefreshCw className="h-4 w-4 mr-1" />
+                            検証
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => deleteMutation.mutate(verification.id)}
+                            disabled={deleteMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-6">
+                        <div className="flex flex-col items-center justify-center text-gray-500">
+                          <BadgeCheck className="h-10 w-10 mb-2 opacity-20" />
+                          <p>検証済みのターゲットはまだありません</p>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
@@ -3,7 +3,7 @@ import { useQuery } from "@tanstack/react-query";
 import { Vulnerability } from "@/types";
 import { AppLayout } from "@/components/layout/app-layout";
 import { Button } from "@/components/ui/button";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import {
   Select,
@@ -29,11 +29,15 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Bug, FileText, Loader2, Search } from "lucide-react";
 import { Link } from "wouter";
+import { IssuesTable } from "@/components/vulnerabilities/issues-table";
+import { formatOwaspCategory } from "@/lib/owasp";
 
 export default function VulnerabilitiesPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [severityFilter, setSeverityFilter] = useState<string>("all");
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [owaspFilter, setOwaspFilter] = useState<string>("all");
+  const [cweFilter, setCweFilter] = useState<string>("all");
   
   // Fetch vulnerabilities
   const { data: vulnerabilities, isLoading } = useQuery<Vulnerability[]>({
@@ -65,12 +69,22 @@ export default function VulnerabilitiesPage() {
         return <Badge variant="outline" className="text-green-800 bg-green-100 border-green-200">解決済み</Badge>;
       case "false_positive":
         return <Badge variant="outline" className="text-gray-800 bg-gray-100 border-gray-200">誤検出</Badge>;
+      case "resolved_by_scan":
+        return <Badge variant="outline" className="text-teal-800 bg-teal-100 border-teal-200">スキャンで解消</Badge>;
       default:
         return <Badge variant="outline">不明</Badge>;
     }
   };
 
-  // Filter vulnerabilities based on search query, severity, and status
+  // Classifications present in the findings, for the OWASP and CWE filters
+  const owaspCategories = Array.from(new Set(
+    (vulnerabilities ?? []).flatMap((vuln) => vuln.owaspCategory ? [vuln.owaspCategory] : [])
+  )).sort();
+  const cweIds = Array.from(new Set(
+    (vulnerabilities ?? []).flatMap((vuln) => vuln.cweIds ?? [])
+  )).sort((a, b) => parseInt(a.slice(4), 10) - parseInt(b.slice(4), 10));
+
+  // Filter vulnerabilities based on search query, severity, status and classification
   const filteredVulnerabilities = vulnerabilities?.filter((vuln) => {
     const matchesSearch = searchQuery === "" || 
       vuln.name.toLowerCase().includes(searchQuery.toLowerCase()) || 
@@ -78,8 +92,10 @@ export default function VulnerabilitiesPage() {
     
     const matchesSeverity = severityFilter === "all" || vuln.severity === severityFilter;
     const matchesStatus = statusFilter === "all" || vuln.status === statusFilter;
+    const matchesOwasp = owaspFilter === "all" || vuln.owaspCategory === owaspFilter;
+    const matchesCwe = cweFilter === "all" || (vuln.cweIds ?? []).includes(cweFilter);
     
-    return matchesSearch && matchesSeverity && matchesStatus;
+    return matchesSearch && matchesSeverity && matchesStatus && matchesOwasp && matchesCwe;
   });
 
   return (
@@ -177,122 +193,171 @@ export default function VulnerabilitiesPage() {
           </Card>
         </div>
 
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-base">脆弱性一覧</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="flex flex-col md:flex-row gap-4 mb-4">
-              <div className="flex-1">
-                <div className="relative">
-                  <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
-                  <Input
-                    placeholder="脆弱性またはURLで検索..."
-                    className="pl-8"
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                  />
+        <Tabs defaultValue="findings">
+          <TabsList>
+            <TabsTrigger value="findings">検出結果</TabsTrigger>
+            <TabsTrigger value="issues">課題</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="findings" className="mt-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">脆弱性一覧</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-col md:flex-row gap-4 mb-4">
+                  <div className="flex-1">
+                    <div className="relative">
+                      <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        placeholder="脆弱性またはURLで検索..."
+                        className="pl-8"
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Select value={severityFilter} onValueChange={setSeverityFilter}>
+                      <SelectTrigger className="w-36">
+                        <SelectValue placeholder="重大度" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">すべての重大度</SelectItem>
+                        <SelectItem value="high">高</SelectItem>
+                        <SelectItem value="medium">中</SelectItem>
+                        <SelectItem value="low">低</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Select value={statusFilter} onValueChange={setStatusFilter}>
+                      <SelectTrigger className="w-36">
+                        <SelectValue placeholder="ステータス" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">すべてのステータス</SelectItem>
+                        <SelectItem value="pending">未対応</SelectItem>
+                        <SelectItem value="in_progress">対応中</SelectItem>
+                        <SelectItem value="fixed">解決済み</SelectItem>
+                        <SelectItem value="false_positive">誤検出</SelectItem>
+                        <SelectItem value="resolved_by_scan">スキャンで解消</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Select value={owaspFilter} onValueChange={setOwaspFilter}>
+                      <SelectTrigger className="w-44">
+                        <SelectValue placeholder="OWASP Top 10" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">すべてのOWASP分類</SelectItem>
+                        {owaspCategories.map((category) => (
+                          <SelectItem key={category} value={category}>{formatOwaspCategory(category)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={cweFilter} onValueChange={setCweFilter}>
+                      <SelectTrigger className="w-36">
+                        <SelectValue placeholder="CWE" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">すべてのCWE</SelectItem>
+                        {cweIds.map((cwe) => (
+                          <SelectItem key={cwe} value={cwe}>{cwe}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
-              </div>
-              <div className="flex gap-2">
-                <Select value={severityFilter} onValueChange={setSeverityFilter}>
-                  <SelectTrigger className="w-36">
-                    <SelectValue placeholder="重大度" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">すべての重大度</SelectItem>
-                    <SelectItem value="high">高</SelectItem>
-                    <SelectItem value="medium">中</SelectItem>
-                    <SelectItem value="low">低</SelectItem>
-                  </SelectContent>
-                </Select>
-                <Select value={statusFilter} onValueChange={setStatusFilter}>
-                  <SelectTrigger className="w-36">
-                    <SelectValue placeholder="ステータス" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">すべてのステータス</SelectItem>
-                    <SelectItem value="pending">未対応</SelectItem>
-                    <SelectItem value="in_progress">対応中</SelectItem>
-                    <SelectItem value="fixed">解決済み</SelectItem>
-                    <SelectItem value="false_positive">誤検出</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-            </div>
 
-            <div className="rounded-md border">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead className="w-[300px]">脆弱性</TableHead>
-                    <TableHead>URL</TableHead>
-                    <TableHead>重大度</TableHead>
-                    <TableHead>ステータス</TableHead>
-                    <TableHead>検出日時</TableHead>
-                    <TableHead className="text-right">アクション</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {isLoading ? (
-                    Array(5).fill(0).map((_, i) => (
-                      <TableRow key={i}>
-                        <TableCell colSpan={6} className="text-center">
-                          <Loader2 className="h-8 w-8 animate-spin mx-auto" />
-                        </TableCell>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[300px]">脆弱性</TableHead>
+                        <TableHead>URL</TableHead>
+                        <TableHead>重大度</TableHead>
+                        <TableHead>ステータス</TableHead>
+                        <TableHead>検出日時</TableHead>
+                        <TableHead className="text-right">アクション</TableHead>
                       </TableRow>
-                    ))
-                  ) : filteredVulnerabilities && filteredVulnerabilities.length > 0 ? (
-                    filteredVulnerabilities.map((vuln) => (
-                      <TableRow key={vuln.id}>
-                        <TableCell>
-                          <div className="flex items-center">
-                            <Bug className={`mr-2 h-5 w-5 ${
-                              vuln.severity === "high" ? "text-red-500" :
-                              vuln.severity === "medium" ? "text-orange-500" : "text-yellow-500"
-                            }`} />
-                            <div>
-                              <div className="text-sm font-medium text-gray-900">{vuln.name}</div>
-                              <div className="text-xs text-gray-500">{vuln.category}</div>
+                    </TableHeader>
+                    <TableBody>
+                      {isLoading ? (
+                        Array(5).fill(0).map((_, i) => (
+                          <TableRow key={i}>
+                            <TableCell colSpan={6} className="text-center">
+                              <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      ) : filteredVulnerabilities && filteredVulnerabilities.length > 0 ? (
+                        filteredVulnerabilities.map((vuln) => (
+                          <TableRow key={vuln.id}>
+                            <TableCell>
+                              <div className="flex items-center">
+                                <Bug className={`mr-2 h-5 w-5 ${
+                                  vuln.severity === "high" ? "text-red-500" :
+                                  vuln.severity === "medium" ? "text-orange-500" : "text-yellow-500"
+                                }`} />
+                                <div>
+                                  <div className="text-sm font-medium text-gray-900">{vuln.name}</div>
+                                  <div className="text-xs text-gray-500">
+                                    {vuln.category}
+                                    {vuln.cweIds && vuln.cweIds.length > 0 && ` · ${vuln.cweIds.join(", ")}`}
+                                  </div>
+                                </div>
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <div className="text-sm text-gray-900 truncate max-w-[250px]">{vuln.url}</div>
+                            </TableCell>
+                            <TableCell>
+                              {getSeverityBadge(vuln.severity)}
+                            </TableCell>
+                            <TableCell>
+                              {getStatusBadge(vuln.status)}
+                            </TableCell>
+                            <TableCell>
+                              {new Date(vuln.createdAt).toLocaleString("ja-JP")}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Link href={`/vulnerabilities/${vuln.id}`}>
+                                <Button size="sm" variant="outline">
+                                  詳細
+                                </Button>
+                              </Link>
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      ) : (
+                        <TableRow>
+                          <TableCell colSpan={6} className="text-center py-6">
+                            <div className="flex flex-col items-center justify-center text-gray-500">
+                              <Search className="h-10 w-10 mb-2 opacity-20" />
+                              <p>検索条件に一致する脆弱性はありません</p>
                             </div>
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          <div className="text-sm text-gray-900 truncate max-w-[250px]">{vuln.url}</div>
-                        </TableCell>
-                        <TableCell>
-                          {getSeverityBadge(vuln.severity)}
-                        </TableCell>
-                        <TableCell>
-                          {getStatusBadge(vuln.status)}
-                        </TableCell>
-                        <TableCell>
-                          {new Date(vuln.createdAt).toLocaleString("ja-JP")}
-                        </TableCell>
-                        <TableCell className="text-right">
-                          <Link href={`/vulnerabilities/${vuln.id}`}>
-                            <Button size="sm" variant="outline">
-                              詳細
-                            </Button>
-                          </Link>
-                        </TableCell>
-                      </TableRow>
-                    ))
-                  ) : (
-                    <TableRow>
-                      <TableCell colSpan={6} className="text-center py-6">
-                        <div className="flex flex-col items-center justify-center text-gray-500">
-                          <Search className="h-10 w-10 mb-2 opacity-20" />
-                          <p>検索条件に一致する脆弱性はありません</p>
-                        </div>
-                      </TableCell>
-                    </TableRow>
-                  )}
-                </TableBody>
-              </Table>
-            </div>
-          </CardContent>
-        </Card>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="issues" className="mt-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">課題一覧</CardTitle>
+                <CardDescription>
+                  スキャンをまたいで同じ検出結果を1つの課題にまとめています。設定したステータスは次回以降のスキャンにも引き継がれます。
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <IssuesTable />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
       </div>
     </AppLayout>
   );
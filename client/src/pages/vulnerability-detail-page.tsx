@@ -1,7 +1,7 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useRoute, Link } from "wouter";
-import { Vulnerability } from "@/types";
+import { RetestResult, Vulnerability } from "@/types";
 import { AppLayout } from "@/components/layout/app-layout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
@@ -13,6 +13,7 @@ import {
   Clock, 
   FileText, 
   Loader2, 
+  RefreshCw,
   Shield, 
   ShieldAlert,
   Terminal,
@@ -22,6 +23,15 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatOwaspCategory } from "@/lib/owasp";
+import { useToast } from "@/hooks/use-toast";
+
+const retestOutcomeLabels: Record<RetestResult["outcome"], string> = {
+  fixed: "検出されず",
+  still_present: "再検出",
+  error: "エラー",
+};
 
 export default function VulnerabilityDetailPage() {
   const [, params] = useRoute<{ id: string }>("/vulnerabilities/:id");
@@ -33,6 +43,37 @@ export default function VulnerabilityDetailPage() {
     enabled: !!vulnerabilityId,
   });
 
+  const { toast } = useToast();
+
+  // Re-run only the check that produced this finding against its URL
+  const retestMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/vulnerabilities/${vulnerabilityId}/retest`);
+      return (await res.json()) as { vulnerability: Vulnerability; result: RetestResult };
+    },
+    onSuccess: ({ result }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/vulnerabilities/${vulnerabilityId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vulnerabilities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/issues"] });
+      toast({
+        title: `再テスト結果: ${retestOutcomeLabels[result.outcome]}`,
+        description: result.outcome === "fixed"
+          ? "脆弱性は検出されませんでした。修正済みにしました。"
+          : result.outcome === "still_present"
+            ? "脆弱性は引き続き検出されています。"
+            : result.error,
+        variant: result.outcome === "error" ? "destructive" : "default",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "再テストに失敗しました",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Format date
   const formatDate = (dateString?: string | null) => {
     if (!dateString) return "N/A";
@@ -67,6 +108,8 @@ export default function VulnerabilityDetailPage() {
         return <Badge variant="outline" className="flex items-center gap-1 text-green-800 bg-green-100 border-green-200"><CheckCircle className="h-3 w-3" /> 修正済</Badge>;
       case "false_positive":
         return <Badge variant="outline" className="flex items-center gap-1 text-purple-800 bg-purple-100 border-purple-200"><XCircle className="h-3 w-3" /> 誤検知</Badge>;
+      case "resolved_by_scan":
+        return <Badge variant="outline" className="flex items-center gap-1 text-teal-800 bg-teal-100 border-teal-200"><CheckCircle className="h-3 w-3" /> スキャンで解消</Badge>;
       case "open":
         return <Badge variant="outline" className="flex items-center gap-1 text-red-800 bg-red-100 border-red-200"><AlertTriangle className="h-3 w-3" /> 未対応</Badge>;
       case "safe":
@@ -137,6 +180,46 @@ export default function VulnerabilityDetailPage() {
         description: "Content-Security-Policy (CSP) はクロスサイトスクリプティング (XSS) やデータインジェクション攻撃などといったコード・インジェクション攻撃を防ぐのに役立ちます。",
         solution: "ウェブサーバー設定またはアプリケーションコードで適切なCSPヘッダーを設定してください。例: Content-Security-Policy: default-src 'self'"
       },
+      "Content-Security-Policy Is Report-Only": {
+        title: "Content-Security-Policy がレポート専用モードです",
+        description: "Content-Security-Policy-Report-Only ヘッダーだけが設定されているため、ポリシー違反は報告されますがブロックされません。",
+        solution: "レポートで問題がないことを確認したら、同じポリシーを Content-Security-Policy ヘッダーで送信して適用してください。"
+      },
+      "Content-Security-Policy Allows Inline Scripts": {
+        title: "CSP がインラインスクリプトを許可しています",
+        description: "script-src（または default-src）に 'unsafe-inline' が含まれており、nonce やハッシュがないため、注入されたスクリプトが実行されてしまいます。",
+        solution: "'unsafe-inline' を削除し、インラインスクリプトには nonce またはハッシュを使用してください。例: script-src 'nonce-<ランダム値>' 'strict-dynamic'"
+      },
+      "Content-Security-Policy Allows eval()": {
+        title: "CSP が eval() を許可しています",
+        description: "'unsafe-eval' が許可されているため、eval() や new Function() などで文字列をコードとして実行できてしまいます。",
+        solution: "'unsafe-eval' を削除し、文字列をコードとして実行する処理を使わないようにしてください。"
+      },
+      "Content-Security-Policy Allows Scripts from Any Host": {
+        title: "CSP が任意のホストからのスクリプトを許可しています",
+        description: "script-src に * や https: などのワイルドカード・スキームのみのソースが含まれているか、スクリプトの読み込み元が制限されていません。",
+        solution: "スクリプトの読み込み元を必要なホストに限定するか、nonce と 'strict-dynamic' を使用してください。"
+      },
+      "Content-Security-Policy Allows data: Scripts": {
+        title: "CSP が data: URL のスクリプトを許可しています",
+        description: "script-src に data: が含まれており、攻撃者が任意のコードを data: URL として読み込ませることができます。",
+        solution: "script-src から data: を削除してください。"
+      },
+      "Content-Security-Policy Missing object-src": {
+        title: "CSP に object-src が設定されていません",
+        description: "object-src も default-src も設定されていないため、<object> や <embed> によるプラグインコンテンツがどこからでも読み込めます。",
+        solution: "object-src 'none' を設定してください。"
+      },
+      "Content-Security-Policy Missing base-uri": {
+        title: "CSP に base-uri が設定されていません",
+        description: "base-uri が設定されていないため、注入された <base> 要素によってページ内の相対URLのスクリプトが別のサーバーから読み込まれる可能性があります。",
+        solution: "base-uri 'none' または base-uri 'self' を設定してください。"
+      },
+      "Content-Security-Policy Missing frame-ancestors": {
+        title: "CSP に frame-ancestors が設定されていません",
+        description: "Content-Security-Policy ヘッダーに frame-ancestors がないため、ページを iframe に表示できるサイトが制限されていません。<meta> 要素の frame-ancestors は無視されます。",
+        solution: "Content-Security-Policy ヘッダーで frame-ancestors 'none' または frame-ancestors 'self' を設定してください。"
+      },
       "Missing X-Content-Type-Options Header": {
         title: "X-Content-Type-Options ヘッダーが設定されていません",
         description: "X-Content-Type-Options ヘッダーはMIMEタイプスニッフィングによる攻撃を防ぎます。これが設定されていないと、ブラウザがファイルのMIMEタイプを勝手に判断し、セキュリティリスクが生じる可能性があります。",
@@ -153,6 +236,57 @@ export default function VulnerabilityDetailPage() {
         solution: "ウェブサーバー設定またはアプリケーションコードでStrict-Transport-Security: max-age=31536000; includeSubDomains ヘッダーを設定してください。"
       },
       
+      "Deprecated X-XSS-Protection Filter Enabled": {
+        title: "非推奨の X-XSS-Protection フィルターが有効です",
+        description: "X-XSS-Protection ヘッダーが有効にする XSS フィルターは最新のブラウザでは削除されており、古いブラウザでは情報漏えいに悪用される可能性があります。",
+        solution: "X-XSS-Protection: 0 を設定するかヘッダーを削除し、XSS 対策には Content-Security-Policy を使用してください。"
+      },
+      "Ineffective Strict-Transport-Security Header": {
+        title: "Strict-Transport-Security ヘッダーが機能していません",
+        description: "max-age が 0 または不正なため、ブラウザはこの HSTS ポリシーを適用しません。",
+        solution: "Strict-Transport-Security: max-age=31536000; includeSubDomains のように有効な max-age を設定してください。"
+      },
+      "Short Strict-Transport-Security max-age": {
+        title: "Strict-Transport-Security の max-age が短すぎます",
+        description: "max-age が1年未満のため、訪問の間隔が空くとポリシーが失効し、HTTP での接続が可能になります。",
+        solution: "max-age を 31536000（1年）以上に設定してください。"
+      },
+      "Strict-Transport-Security Without includeSubDomains": {
+        title: "Strict-Transport-Security に includeSubDomains がありません",
+        description: "サブドメインには HTTP で接続できるため、サブドメイン経由でこのサイトの Cookie が攻撃される可能性があります。",
+        solution: "すべてのサブドメインが HTTPS に対応していることを確認してから includeSubDomains を設定してください。"
+      },
+      "Strict-Transport-Security Not Preload Eligible": {
+        title: "HSTS プリロードの要件を満たしていません",
+        description: "HSTS プリロードリストに登録されていないサイトでは、初回アクセス時の通信が HTTPS で保護されません。",
+        solution: "max-age=31536000 以上、includeSubDomains、preload を設定し、https://hstspreload.org で登録してください。"
+      },
+      "Missing Permissions-Policy Header": {
+        title: "Permissions-Policy ヘッダーが設定されていません",
+        description: "ページや埋め込まれたフレームが、カメラ・マイク・位置情報などの強力なブラウザ機能を制限なく要求できます。",
+        solution: "使用しない機能を無効にしてください。例: Permissions-Policy: camera=(), microphone=(), geolocation=()"
+      },
+      "Permissions-Policy Allows Sensitive Features for Any Origin": {
+        title: "Permissions-Policy がすべてのオリジンに機密性の高い機能を許可しています",
+        description: "カメラや位置情報などの機能が * で許可されており、埋め込まれたどのサイトからも利用できます。",
+        solution: "許可リストを self や必要なオリジンに限定してください。"
+      },
+      "Missing Cross-Origin-Opener-Policy Header": {
+        title: "Cross-Origin-Opener-Policy ヘッダーが設定されていません",
+        description: "他のオリジンのウィンドウがこのページへの参照を保持でき、クロスサイトリークに利用される可能性があります。",
+        solution: "Cross-Origin-Opener-Policy: same-origin を設定してください。"
+      },
+      "Missing Cross-Origin-Embedder-Policy Header": {
+        title: "Cross-Origin-Embedder-Policy ヘッダーが設定されていません",
+        description: "埋め込むクロスオリジンのリソースに許可を求めないため、ページをクロスオリジン分離できません。",
+        solution: "Cross-Origin-Embedder-Policy: require-corp または credentialless を設定してください。"
+      },
+      "Missing Cross-Origin-Resource-Policy Header": {
+        title: "Cross-Origin-Resource-Policy ヘッダーが設定されていません",
+        description: "他のサイトがこのリソースを自分のページに読み込むことができ、サイドチャネルによって内容が漏えいする可能性があります。",
+        solution: "Cross-Origin-Resource-Policy: same-origin または same-site を設定してください。"
+      },
+      
       // Cookieセキュリティ関連
       "Insecure Cookie (Missing Secure Flag)": {
         title: "Cookieに Secure フラグが設定されていません",
@@ -164,6 +298,11 @@ export default function VulnerabilityDetailPage() {
         description: "HttpOnly フラグがないと、JavaScriptからCookieにアクセスできてしまい、XSS攻撃に対して脆弱になります。",
         solution: "セッションCookieやその他の機密情報を含むCookieにHttpOnlyフラグを設定してください。"
       },
+      "Invalid Cookie Name Prefix": {
+        title: "Cookie 名のプレフィックスの要件を満たしていません",
+        description: "__Secure- または __Host- で始まる Cookie が要件を満たしていないため、ブラウザに拒否されます。",
+        solution: "__Secure- の Cookie には Secure を、__Host- の Cookie には Secure と Path=/ を設定し、Domain は設定しないでください。"
+      },
       "Insecure Cookie (Missing SameSite Attribute)": {
         title: "Cookieに SameSite 属性が設定されていません",
         description: "SameSite属性がないと、クロスサイトリクエストフォージェリ (CSRF) 攻撃に対して脆弱になります。",
@@ -183,6 +322,11 @@ export default function VulnerabilityDetailPage() {
         description: "ユーザー入力がフィルタリングされずにページに反映されると、攻撃者が悪意のあるスクリプトを実行できる可能性があります。",
         solution: "すべてのユーザー入力に対して適切なサニタイズ処理を行い、出力時にはHTMLエンコーディングを使用してください。またContent-Security-Policyの実装も検討してください。"
       },
+      "Reflected Cross-Site Scripting": {
+        title: "反射型XSS（クロスサイトスクリプティング）脆弱性",
+        description: "スキャナーが送信した検査用の値が、スクリプトを実行できる形でページに反映されました。リクエストとレスポンスの証跡は技術情報タブで確認できます。",
+        solution: "値を出力する場所（HTML本文、属性、スクリプト、URL）に合ったエンコーディングを行ってください。URL属性には http/https 以外のスキームを許可せず、Content-Security-Policyで被害を抑えることも検討してください。"
+      },
       "Potential DOM-based XSS": {
         title: "DOM Based XSS脆弱性の可能性",
         description: "クライアントサイドのJavaScriptコードがURLハッシュやクエリパラメータなどのデータを安全に処理していない可能性があります。",
@@ -202,6 +346,16 @@ export default function VulnerabilityDetailPage() {
         description: "ユーザー入力がSQL文に直接組み込まれると、攻撃者がデータベースに不正にアクセスする可能性があります。",
         solution: "パラメータ化クエリやプリペアドステートメントを使用し、ユーザー入力を直接SQLに組み込まないようにしてください。また、データベースの権限も最小限に設定すべきです。"
       },
+      "SQL Injection": {
+        title: "SQLインジェクション脆弱性",
+        description: "パラメータに送信した引用符や真偽条件によってデータベースのエラーや応答の変化が起き、2回目の検査でも同じ結果が確認されました。攻撃者がデータベースを読み書きできる可能性があります。",
+        solution: "パラメータ化クエリやプリペアドステートメントを使用し、ユーザー入力を文字列連結でSQLに組み込まないでください。データベースのエラーメッセージをレスポンスに含めないようにし、権限も最小限に設定してください。"
+      },
+      "Possible SQL Injection": {
+        title: "SQLインジェクション脆弱性の疑い",
+        description: "パラメータに送信した値でデータベースのエラーや応答の変化が起きましたが、確認のための検査では再現しませんでした。証跡を確認し、手動で検証してください。",
+        solution: "該当するパラメータを使うクエリがパラメータ化されているか確認してください。ユーザー入力を文字列連結でSQLに組み込んでいる場合は、プリペアドステートメントに置き換えてください。"
+      },
       
       // ファイルアップロード関連
       "Insecure File Upload Configuration": {
@@ -318,6 +472,35 @@ export default function VulnerabilityDetailPage() {
                   <span className="text-sm text-muted-foreground">ステータス:</span>
                   {getStatusBadge(vulnerability.status)}
                 </div>
+                {vulnerability.cweIds && vulnerability.cweIds.length > 0 && (
+                  <div className="flex gap-2 mt-1">
+                    <span className="text-sm text-muted-foreground">CWE:</span>
+                    {vulnerability.cweIds.map((cwe) => (
+                      <a
+                        key={cwe}
+                        href={`https://cwe.mitre.org/data/definitions/${cwe.slice(4)}.html`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                      >
+                        <Badge variant="outline">{cwe}</Badge>
+                      </a>
+                    ))}
+                  </div>
+                )}
+                {vulnerability.owaspCategory && (
+                  <div className="flex gap-2 mt-1">
+                    <span className="text-sm text-muted-foreground">OWASP:</span>
+                    <Badge variant="outline">{formatOwaspCategory(vulnerability.owaspCategory)}</Badge>
+                  </div>
+                )}
+                {vulnerability.cvssScore !== null && (
+                  <div className="flex gap-2 mt-1">
+                    <span className="text-sm text-muted-foreground">CVSS:</span>
+                    <span className="text-sm font-medium" title={vulnerability.cvssVector ?? undefined}>
+                      {vulnerability.cvssScore.toFixed(1)}
+                    </span>
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -333,6 +516,11 @@ export default function VulnerabilityDetailPage() {
               <div className="flex flex-col gap-1">
                 <div className="text-sm text-muted-foreground">検出日: {formatDate(vulnerability.createdAt)}</div>
                 <div className="text-sm text-muted-foreground">最終更新: {formatDate(vulnerability.updatedAt)}</div>
+                {vulnerability.retestedAt && vulnerability.retestResult && (
+                  <div className="text-sm text-muted-foreground">
+                    最終再テスト: {formatDate(vulnerability.retestedAt)} ({retestOutcomeLabels[vulnerability.retestResult.outcome]})
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -343,6 +531,18 @@ export default function VulnerabilityDetailPage() {
             </CardHeader>
             <CardContent>
               <div className="flex flex-col gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => retestMutation.mutate()}
+                  disabled={retestMutation.isPending || !vulnerability.checkId || vulnerability.severity === 'safe'}
+                >
+                  {retestMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                  )}
+                  再テスト
+                </Button>
                 <Button variant="outline" disabled={vulnerability.status === 'fixed'}>
                   <CheckCircle className="h-4 w-4 mr-2" />
                   修正済みにする
@@ -423,6 +623,20 @@ export default function VulnerabilityDetailPage() {
                   <pre className="bg-slate-950 text-slate-50 p-4 rounded-md overflow-x-auto">
                     <code>{JSON.stringify(vulnerability.details, null, 2)}</code>
                   </pre>
+                  {vulnerability.cvssVector && (
+                    <>
+                      <h3 className="text-lg font-bold mt-4">CVSS v3.1 ベクトル</h3>
+                      <p className="font-mono text-sm break-all">{vulnerability.cvssVector}</p>
+                    </>
+                  )}
+                  {vulnerability.retestResult && (
+                    <>
+                      <h3 className="text-lg font-bold mt-4">再テストの証跡</h3>
+                      <pre className="bg-slate-950 text-slate-50 p-4 rounded-md overflow-x-auto">
+                        <code>{JSON.stringify(vulnerability.retestResult, null, 2)}</code>
+                      </pre>
+                    </>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -14,12 +14,97 @@ export interface Scan {
   crawlLimit: number;
   useAuthentication: boolean;
   includeCustomRules: boolean;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+  options: ScanOptions | null;
+  scheduleId: number | null;
+  targetId: number | null;
+  profileId: number | null;
   startedAt: string;
   completedAt: string | null;
   result: ScanResult | null;
 }
 
+export interface ScanDiffSide {
+  id: number;
+  url: string;
+  targetId: number | null;
+  scanLevel: string;
+  startedAt: string;
+  completedAt: string | null;
+  securityScore: number | null;
+}
+
+// Changes from a base scan to a later one
+export interface ScanDiff {
+  base: ScanDiffSide;
+  compare: ScanDiffSide;
+  scoreDelta: number | null;
+  findings: {
+    new: Vulnerability[];
+    resolved: Vulnerability[];
+    unchanged: Vulnerability[];
+  };
+  pages: {
+    added: string[];
+    removed: string[];
+  };
+}
+
+export interface CrawlSettings {
+  concurrency: number;
+  requestsPerSecond: number;
+  politeDelayMs: number;
+  timeBudgetSeconds: number;
+  requestTimeoutMs: number;
+}
+
+export interface AuthenticationSettings {
+  loginUrl: string;
+  usernameField: string;
+  passwordField: string;
+  username: string;
+  password: string;
+  loggedInIndicator?: string;
+  loggedOutIndicator?: string;
+}
+
+// Secret values come back from the API masked
+export interface RequestSettings {
+  headers: { name: string; value: string }[];
+  cookies: { name: string; value: string }[];
+  tokenAuth?:
+    | { type: 'bearer'; value: string }
+    | { type: 'api-key'; headerName: string; value: string };
+  userAgent?: string;
+}
+
+export interface ScopeSettings {
+  include: string[];
+  exclude: string[];
+  maxDepth?: number;
+  queryParameters: 'keep' | 'sort' | 'ignore-values' | 'strip';
+  includeSubdomains: boolean;
+}
+
+export interface ScanOptions {
+  crawl?: CrawlSettings;
+  scope?: ScopeSettings;
+  authentication?: AuthenticationSettings;
+  request?: RequestSettings;
+  limits?: {
+    requested: PageLimit;
+    cappedBy?: 'role-maximum' | 'safety-ceiling';
+  };
+  // The scan profile the scan runs with, as it was when the scan was created
+  profile?: {
+    id: number | null;
+    name: string;
+    checkIds: string[];
+    followLinks: boolean;
+    allowActiveChecks: boolean;
+  };
+}
+
 export interface ScanResult {
   totalVulnerabilities: number;
   highSeverity: number;
@@ -27,6 +112,106 @@ export interface ScanResult {
   lowSeverity: number;
   securityScore: number;
   error?: string;
+  partial?: boolean;
+  partialReason?: 'time-budget';
+  crawlLimit?: CrawlLimitResult;
+  discoveredUrls?: DiscoveredUrl[];
+  outOfScopeUrls?: OutOfScopeUrl[];
+}
+
+export type DiscoverySource =
+  | 'seed'
+  | 'robots'
+  | 'sitemap'
+  | 'anchor'
+  | 'form'
+  | 'iframe'
+  | 'link'
+  | 'script'
+  | 'meta-refresh';
+
+export interface DiscoveredUrl {
+  url: string;
+  source: DiscoverySource;
+  foundOn: string | null;
+  depth: number;
+}
+
+export type OutOfScopeReason =
+  | 'other-host'
+  | 'excluded'
+  | 'not-included'
+  | 'max-depth'
+  | 'logout'
+  | 'internal-address';
+
+export interface OutOfScopeUrl {
+  url: string;
+  reason: OutOfScopeReason;
+  foundOn: string | null;
+}
+
+export type PageLimit = number | 'unlimited';
+
+export interface CrawlLimitResult {
+  requested: PageLimit;
+  applied: number;
+  cappedBy: 'role-maximum' | 'safety-ceiling' | null;
+  limitReached: boolean;
+  note?: string;
+}
+
+export interface CrawlLimitsPolicy {
+  roleMaximums: Record<string, PageLimit>;
+  defaultMaximum: PageLimit;
+  unlimitedCeiling: number;
+}
+
+export interface EgressPolicy {
+  allowedRanges: string[];
+}
+
+// Advisory database that the vulnerable JavaScript library check uses (GET /api/settings/js-advisories)
+export interface JsAdvisoryDatabaseInfo {
+  source: 'bundled' | 'custom';
+  libraries: number;
+  advisories: number;
+  updatedAt: string | null;
+  updatedBy: number | null;
+}
+
+// A built-in scan profile (scan level) or one of the user's own (GET /api/scan-profiles)
+export interface ScanProfile {
+  // Null for the built-in profiles
+  id: number | null;
+  scanLevel: 'quick' | 'standard' | 'detailed' | 'custom';
+  builtIn: boolean;
+  name: string;
+  description: string | null;
+  checkIds: string[];
+  followLinks: boolean;
+  crawl: Partial<CrawlSettings> | null;
+  allowActiveChecks: boolean;
+  requiresVerification: boolean;
+}
+
+// A built-in check of the scanner (GET /api/checks)
+export interface Check {
+  id: string;
+  title: string;
+  category: string;
+  severity: 'high' | 'medium' | 'low';
+  cwe: string[];
+  owasp: string;
+  cvssVector: string;
+  scanLevels: Array<'quick' | 'standard' | 'detailed'>;
+  mode: 'passive' | 'active';
+  enabled: boolean;
+}
+
+export interface CrawlLimitsResponse {
+  policy: CrawlLimitsPolicy;
+  maxPagesForUser: number;
 }
 
 export interface Vulnerability {
@@ -38,11 +223,63 @@ export interface Vulnerability {
   severity: 'high' | 'medium' | 'low' | 'safe';
   category: string;
   details: any;
-  status: 'pending' | 'in_progress' | 'fixed' | 'false_positive' | 'open' | 'safe';
+  status: 'pending' | 'in_progress' | 'fixed' | 'false_positive' | 'resolved_by_scan' | 'open' | 'safe';
+  checkId: string | null;
+  fingerprint: string | null;
+  issueId: number | null;
+  retestedAt: string | null;
+  retestResult: RetestResult | null;
+  cweIds: string[] | null;
+  owaspCategory: string | null;
+  cvssVector: string | null;
+  cvssScore: number | null;
   createdAt: string;
   updatedAt: string | null;
 }
 
+// Outcome of re-running a finding's check against its URL
+export interface RetestResult {
+  outcome: 'fixed' | 'still_present' | 'error';
+  checkedAt: string;
+  url: string;
+  statusCode?: number;
+  evidence?: unknown;
+  error?: string;
+}
+
+// resolved_by_scan is only set by scans that no longer detect the finding
+export type IssueStatus = 'pending' | 'in_progress' | 'fixed' | 'false_positive' | 'resolved_by_scan';
+
+// A finding tracked across the scans it shows up in
+export interface Issue {
+  id: number;
+  userId: number;
+  targetId: number | null;
+  fingerprint: string;
+  checkId: string;
+  name: string;
+  category: string;
+  severity: 'high' | 'medium' | 'low';
+  url: string;
+  parameter: string | null;
+  status: IssueStatus;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  firstScanId: number;
+  lastScanId: number;
+  occurrenceCount: number;
+  resolvedAt: string | null;
+  resolvedByScanId: number | null;
+  regressionCount: number;
+  reopenedAt: string | null;
+  createdAt: string;
+  updatedAt: string | null;
+}
+
+export interface IssueDetail extends Issue {
+  occurrences: Vulnerability[];
+}
+
 export interface Task {
   id: number;
   vulnerabilityId: number | null;
@@ -56,6 +293,78 @@ export interface Task {
   updatedAt: string | null;
 }
 
+export interface TargetVerification {
+  id: number;
+  userId: number;
+  host: string;
+  origin: string;
+  token: string;
+  status: 'pending' | 'verified' | 'failed';
+  method: 'file' | 'meta' | null;
+  verifiedAt: string | null;
+  verifiedUntil: string | null;
+  lastCheckedAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+}
+
+export type TargetEnvironment = 'production' | 'staging' | 'development';
+export type TargetCriticality = 'low' | 'medium' | 'high' | 'critical';
+
+export interface TargetSummary {
+  scanCount: number;
+  lastScan: Pick<Scan, 'id' | 'status' | 'startedAt' | 'completedAt'> | null;
+  latestScore: number | null;
+  openFindings: { total: number; high: number; medium: number; low: number };
+}
+
+export interface Target {
+  id: number;
+  userId: number;
+  name: string;
+  baseUrl: string;
+  tags: string[];
+  environment: TargetEnvironment;
+  criticality: TargetCriticality;
+  createdAt: string;
+  updatedAt: string | null;
+  summary: TargetSummary;
+}
+
+export interface ScanSchedule {
+  id: number;
+  userId: number;
+  name: string;
+  url: string;
+  cronExpression: string;
+  timezone: string;
+  options: ScanOptions & {
+    scanLevel: 'quick' | 'standard' | 'detailed' | 'custom';
+    profileId?: number;
+    crawlLimit: PageLimit;
+    useAuthentication: boolean;
+    includeCustomRules: boolean;
+  };
+  enabled: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastRunStatus: 'started' | 'skipped' | null;
+  lastRunReason: string | null;
+  lastScanId: number | null;
+  createdAt: string;
+  updatedAt: string | null;
+}
+
+export interface ScanScheduleRun {
+  id: number;
+  scheduleId: number;
+  scheduledFor: string;
+  status: 'started' | 'skipped';
+  scanId: number | null;
+  reason: string | null;
+  createdAt: string;
+}
+
 export interface CustomRule {
   id: number;
   userId: number;
@@ -148,6 +457,22 @@ export interface SecurityMetrics {
   vulnerabilitiesPending: number;
   topVulnerableUrls: {url: string, count: number}[];
   vulnerabilityCategories: Record<string, number>;
+  byTarget?: TargetMetrics[]; // only with ?groupBy=target
+}
+
+export interface TargetMetrics {
+  targetId: number | null; // null groups scans without a target
+  name: string | null;
+  baseUrl: string | null;
+  environment: TargetEnvironment | null;
+  criticality: TargetCriticality | null;
+  scanCount: number;
+  securityScore: number;
+  totalVulnerabilities: number;
+  highSeverityCount: number;
+  mediumSeverityCount: number;
+  lowSeverityCount: number;
+  openVulnerabilities: number;
 }
 
 export interface TrendDataPoint {
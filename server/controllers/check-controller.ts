@@ -0,0 +1,71 @@
+import { Request, Response } from 'express';
+import { storage } from '../storage';
+import { z } from 'zod';
+import { listChecks, setCheckEnabled } from '../utils/check-settings';
+
+// Validate check update request
+const updateCheckSchema = z.object({
+  enabled: z.boolean(),
+});
+
+export const checkController = {
+  // Get every built-in check with its scan levels and whether it is enabled
+  getChecks: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      return res.status(200).json(await listChecks());
+    } catch (error) {
+      console.error('Error getting checks:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+
+  // Enable or disable a check for every scan (admin only)
+  updateCheck: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const user = req.user;
+
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Admin access required' });
+      }
+
+      const checkId = req.params.id;
+      const check = (await listChecks()).find((c) => c.id === checkId);
+      if (!check) {
+        return res.status(404).json({ message: 'Check not found' });
+      }
+
+      const validation = updateCheckSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: 'Invalid check data', errors: validation.error.errors });
+      }
+
+      const { enabled } = validation.data;
+      await setCheckEnabled(checkId, enabled, user.id);
+
+      // Log security event
+      await storage.createSecurityEvent({
+        userId: user.id,
+        type: 'check_updated',
+        description: `Check ${checkId} ${enabled ? 'enabled' : 'disabled'}`,
+        metadata: {
+          checkId,
+          oldEnabled: check.enabled,
+          newEnabled: enabled,
+        },
+      });
+
+      return res.status(200).json({ ...check, enabled });
+    } catch (error) {
+      console.error('Error updating check:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+};
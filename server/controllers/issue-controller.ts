@@ -0,0 +1,127 @@
+import { Request, Response } from 'express';
+import { storage } from '../storage';
+import { z } from 'zod';
+import { ISSUE_STATUSES, setIssueStatus } from '../utils/issues';
+
+// Validate issue list filters
+const issueFiltersSchema = z.object({
+  status: z.enum(ISSUE_STATUSES).optional(),
+  targetId: z.coerce.number().int().positive().optional(),
+});
+
+// Validate issue update request
+const updateIssueSchema = z.object({
+  status: z.enum(ISSUE_STATUSES),
+});
+
+export const issueController = {
+  // Get the issues of the current user, most recently seen first
+  getUserIssues: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const validation = issueFiltersSchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ message: 'Invalid issue filters', errors: validation.error.errors });
+      }
+
+      const { status, targetId } = validation.data;
+      const issues = (await storage.getIssuesByUserId(req.user.id)).filter((issue) =>
+        (status === undefined || issue.status === status) &&
+        (targetId === undefined || issue.targetId === targetId));
+
+      return res.status(200).json(issues);
+    } catch (error) {
+      console.error('Error getting issues:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+
+  // Get an issue with the findings of every scan it showed up in
+  getIssue: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const user = req.user;
+      const issueId = parseInt(req.params.id, 10);
+
+      if (isNaN(issueId)) {
+        return res.status(400).json({ message: 'Invalid issue ID' });
+      }
+
+      const issue = await storage.getIssue(issueId);
+
+      if (!issue) {
+        return res.status(404).json({ message: 'Issue not found' });
+      }
+
+      if (issue.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized access to issue' });
+      }
+
+      const occurrences = (await storage.getVulnerabilitiesByIssueId(issue.id))
+        .sort((a, b) => b.scanId - a.scanId);
+
+      return res.status(200).json({ ...issue, occurrences });
+    } catch (error) {
+      console.error('Error getting issue:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+
+  // Triage an issue; the status applies to all of its findings, including those of later scans
+  updateIssue: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const user = req.user;
+      const issueId = parseInt(req.params.id, 10);
+
+      if (isNaN(issueId)) {
+        return res.status(400).json({ message: 'Invalid issue ID' });
+      }
+
+      const validation = updateIssueSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: 'Invalid issue data', errors: validation.error.errors });
+      }
+
+      const issue = await storage.getIssue(issueId);
+
+      if (!issue) {
+        return res.status(404).json({ message: 'Issue not found' });
+      }
+
+      if (issue.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized access to issue' });
+      }
+
+      const { status } = validation.data;
+      const updatedIssue = await setIssueStatus(issue, status);
+
+      // Log security event
+      await storage.createSecurityEvent({
+        userId: user.id,
+        type: 'issue_updated',
+        description: `Issue status updated to ${status}`,
+        metadata: {
+          issueId: issue.id,
+          name: issue.name,
+          oldStatus: issue.status,
+          newStatus: status,
+        },
+      });
+
+      return res.status(200).json(updatedIssue);
+    } catch (error) {
+      console.error('Error updating issue:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+};
@@ -1,7 +1,9 @@
 import { Request, Response } from 'express';
 import { storage } from '../storage';
 import { z } from 'zod';
-import { Vulnerability } from '@shared/schema';
+import { Scan, Target, Vulnerability } from '@shared/schema';
+import { vulnerabilityDetector } from '../utils/vulnerability-detector';
+import { OWASP_TOP_10_2021 } from '../utils/owasp';
 
 // Utility functions for advanced metrics calculations
 
@@ -42,6 +44,48 @@ function getTopVulnerableUrls(vulnerabilities: Vulnerability[], limit = 5): {url
     .slice(0, limit);
 }
 
+/**
+ * Calculate the weighted security score (0-100) of a set of vulnerabilities
+ */
+function calculateSecurityScore(vulnerabilities: Vulnerability[]): number {
+  const highCount = vulnerabilities.filter(v => v.severity === 'high').length;
+  const mediumCount = vulnerabilities.filter(v => v.severity === 'medium').length;
+  const lowCount = vulnerabilities.filter(v => v.severity === 'low').length;
+  
+  const score = 100 - (highCount * 10 + mediumCount * 5 + lowCount * 2);
+  return Math.max(0, Math.min(100, score));
+}
+
+/**
+ * Get per-target metrics; scans without a target are grouped under targetId null
+ */
+function getTargetBreakdown(targets: Target[], scans: Scan[], vulnerabilities: Vulnerability[]) {
+  const groups = [
+    ...targets.map(target => ({ target, scans: scans.filter(s => s.targetId === target.id) })),
+    { target: null, scans: scans.filter(s => s.targetId === null || !targets.some(t => t.id === s.targetId)) },
+  ].filter(group => group.target || group.scans.length > 0);
+  
+  return groups.map(({ target, scans: targetScans }) => {
+    const scanIds = new Set(targetScans.map(s => s.id));
+    const targetVulnerabilities = vulnerabilities.filter(v => scanIds.has(v.scanId));
+    
+    return {
+      targetId: target?.id ?? null,
+      name: target?.name ?? null,
+      baseUrl: target?.baseUrl ?? null,
+      environment: target?.environment ?? null,
+      criticality: target?.criticality ?? null,
+      scanCount: targetScans.length,
+      securityScore: Math.round(calculateSecurityScore(targetVulnerabilities)),
+      totalVulnerabilities: targetVulnerabilities.length,
+      highSeverityCount: targetVulnerabilities.filter(v => v.severity === 'high').length,
+      mediumSeverityCount: targetVulnerabilities.filter(v => v.severity === 'medium').length,
+      lowSeverityCount: targetVulnerabilities.filter(v => v.severity === 'low').length,
+      openVulnerabilities: targetVulnerabilities.filter(v => v.status !== 'fixed' && v.status !== 'false_positive').length,
+    };
+  });
+}
+
 /**
  * Get scan activity data
  */
@@ -198,6 +242,11 @@ export const reportController = {
       
       const user = req.user;
       const timeframe = req.query.timeframe as string || 'month';
+      const groupBy = req.query.groupBy as string | undefined;
+      
+      if (groupBy !== undefined && groupBy !== 'target') {
+        return res.status(400).json({ message: 'Invalid groupBy, expected "target"' });
+      }
       
       // Get all scans, vulnerabilities, and tasks
       const scans = await storage.getScansByUserId(user.id);
@@ -351,6 +400,10 @@ export const reportController = {
         vulnerabilitiesPending,
         topVulnerableUrls,
         vulnerabilityCategories,
+        // Same figures per target when requested with ?groupBy=target
+        byTarget: groupBy === 'target'
+          ? getTargetBreakdown(await storage.getTargetsByUserId(user.id), filteredScans, filteredVulnerabilities)
+          : undefined,
       };
       
       return res.status(200).json({
@@ -793,68 +846,33 @@ export const reportController = {
         const vulnerabilitiesArrays = await Promise.all(vulnerabilitiesPromises);
         const vulnerabilities = vulnerabilitiesArrays.flat();
         
-        // Compliance checks
-        const complianceChecks = [
-          {
-            id: 'secure-headers',
-            name: 'Security Headers Implementation',
-            description: 'Checks if proper security headers are implemented across scanned sites',
-            vulnerabilityTypes: ['Missing Content-Security-Policy Header', 'Missing X-XSS-Protection Header', 
-                                'Missing Strict-Transport-Security Header', 'Missing X-Content-Type-Options Header', 
-                                'Missing X-Frame-Options Header', 'Missing Referrer-Policy Header'],
-            status: 'pass', // Will be updated
-            details: [],
-          },
-          {
-            id: 'cookie-security',
-            name: 'Secure Cookie Configuration',
-            description: 'Verifies that cookies are properly secured with necessary flags',
-            vulnerabilityTypes: ['Insecure Cookie (Missing Secure Flag)', 'Insecure Cookie (Missing HttpOnly Flag)', 
-                                'Insecure Cookie (Missing SameSite Attribute)'],
-            status: 'pass', // Will be updated
-            details: [],
-          },
-          {
-            id: 'xss-prevention',
-            name: 'Cross-Site Scripting Prevention',
-            description: 'Checks for potential XSS vulnerabilities',
-            vulnerabilityTypes: ['Potential Reflected XSS', 'Potential DOM-based XSS'],
-            status: 'pass', // Will be updated
-            details: [],
-          },
-          {
-            id: 'csrf-protection',
-            name: 'CSRF Protection',
-            description: 'Verifies that forms implement CSRF protection',
-            vulnerabilityTypes: ['Potential CSRF Vulnerability'],
-            status: 'pass', // Will be updated
-            details: [],
-          },
-          {
-            id: 'sql-injection',
-            name: 'SQL Injection Prevention',
-            description: 'Checks for potential SQL injection vulnerabilities',
-            vulnerabilityTypes: ['Potential SQL Injection Point', 'Potential SQL Injection Point in Form'],
-            status: 'pass', // Will be updated
-            details: [],
-          },
-        ];
-        
-        // Check each compliance requirement
-        complianceChecks.forEach(check => {
-          const matchingVulnerabilities = vulnerabilities.filter(v => 
-            check.vulnerabilityTypes.includes(v.name)
-          );
-          
-          if (matchingVulnerabilities.length > 0) {
-            check.status = 'fail';
-            check.details = matchingVulnerabilities.map(v => ({
-              url: v.url,
-              name: v.name,
-              description: v.description,
-              severity: v.severity,
-            }));
+        // One compliance check per OWASP Top 10 2021 category, failed by the findings mapped to it
+        const complianceChecks = OWASP_TOP_10_2021.map(category => ({
+          id: category.id,
+          name: category.name,
+          description: `Checks for findings in OWASP Top 10 2021 ${category.id} ${category.name}`,
+          status: 'pass',
+          details: [] as { url: string; name: string; description: string; severity: string; cweIds: string[] | null }[],
+        }));
+        
+        vulnerabilities.forEach(v => {
+          if (v.severity === 'safe') {
+            return;
           }
+          // Findings stored before they were classified take the category of their check
+          const owaspCategory = v.owaspCategory ?? (v.checkId ? vulnerabilityDetector.getCheck(v.checkId)?.owasp : undefined);
+          const check = complianceChecks.find(c => c.id === owaspCategory);
+          if (!check) {
+            return;
+          }
+          check.status = 'fail';
+          check.details.push({
+            url: v.url,
+            name: v.name,
+            description: v.description,
+            severity: v.severity,
+            cweIds: v.cweIds,
+          });
         });
         
         // Calculate overall compliance score
@@ -1,19 +1,13 @@
 import { Request, Response } from 'express';
 import { storage } from '../storage';
-import { runScan } from '../utils/scan-utils';
-import { z } from 'zod';
+import { scanQueue } from '../utils/scan-queue';
+import { scanEvents, ScanEventEnvelope } from '../utils/scan-events';
+import { maskScan } from '../utils/secrets';
+import { scanRequestSchema, startScan } from '../utils/scan-service';
+import { diffScans } from '../utils/scan-diff';
 import { insertScanSchema, User, InsertScan, Scan } from '@shared/schema';
 import { fromZodError } from 'zod-validation-error';
 
-// Validate scan request
-const scanRequestSchema = z.object({
-  url: z.string().url('Invalid URL'),
-  scanLevel: z.enum(['quick', 'standard', 'detailed']),
-  crawlLimit: z.number().int().positive(),
-  useAuthentication: z.boolean().optional().default(false),
-  includeCustomRules: z.boolean().optional().default(false),
-});
-
 export const scanController = {
   // Delete scan results by ID
   deleteScan: async (req: Request, res: Response) => {
@@ -40,6 +34,14 @@ export const scanController = {
         return res.status(403).json({ message: 'Unauthorized access to scan' });
       }
       
+      // 実行中のスキャンはクロールを止めてから削除する。ワーカーが停止するまでは結果を書き込むため削除しない
+      if (await scanQueue.requestCancel(scan) === 'cancelling') {
+        return res.status(409).json({
+          message: 'Scan is being cancelled',
+          reason: 'The scan is still running. Delete it again once it has been cancelled.',
+        });
+      }
+      
       // スキャンと関連する脆弱性を削除
       await storage.deleteScan(scanId);
       
@@ -69,6 +71,24 @@ export const scanController = {
       
       const user = req.user;
       
+      // 実行中のスキャンはクロールを止めてから削除する
+      const userScans = await storage.getScansByUserId(user.id);
+      let stillRunning = 0;
+      for (const scan of userScans) {
+        if (scan.status === 'pending' || scan.status === 'running' || scan.status === 'paused') {
+          if (await scanQueue.requestCancel(scan) === 'cancelling') {
+            stillRunning++;
+          }
+        }
+      }
+      
+      if (stillRunning > 0) {
+        return res.status(409).json({
+          message: 'Scans are being cancelled',
+          reason: `${stillRunning} scan(s) are still running. Delete them again once they have been cancelled.`,
+        });
+      }
+      
       // ユーザーのすべてのスキャンと関連データを削除
       await storage.deleteAllScansByUserId(user.id);
       
@@ -101,127 +121,13 @@ export const scanController = {
         return res.status(400).json({ message: 'Invalid scan parameters', errors: validation.error.errors });
       }
       
-      const scanData = validation.data;
-      
-      // Create scan record
-      const scan = await storage.createScan({
-        userId: user.id,
-        url: scanData.url,
-        scanLevel: scanData.scanLevel,
-        crawlLimit: scanData.crawlLimit,
-        useAuthentication: scanData.useAuthentication,
-        includeCustomRules: scanData.includeCustomRules,
-        status: 'pending',
-      });
+      const { scan, rejection } = await startScan(user, validation.data);
+      if (rejection) {
+        return res.status(rejection.status).json(rejection.body);
+      }
       
       // Return the scan immediately so the client can see it's pending
-      res.status(201).json(scan);
-      
-      // 開始時間を記録して、scan.startedAtの可能性のあるnull問題を回避
-      const startTime = new Date();
-      
-      // Start scanning process (async) - Don't use setTimeout as it can be unreliable
-      (async function doScan(scanObj, scanDataObj, userObj, startTimeObj) {
-        try {
-          console.log(`Starting scan #${scanObj.id} for ${scanDataObj.url}`);
-          
-          // Update scan status to running and set startedAt
-          await storage.updateScan(scanObj.id, { 
-            status: 'running',
-            startedAt: startTimeObj
-          });
-          
-          // Get custom rules if needed
-          let customRules: any[] = [];
-          if (scanDataObj.includeCustomRules) {
-            customRules = await storage.getCustomRulesByUserId(userObj.id);
-          }
-          
-          // Run the scan - pass a limited crawl count for demo purposes
-          const scanResult = await runScan({
-            url: scanDataObj.url,
-            scanLevel: scanDataObj.scanLevel,
-            crawlLimit: Math.min(scanDataObj.crawlLimit, 5), // Limit to 5 pages for demo
-            useAuthentication: scanDataObj.useAuthentication,
-            includeCustomRules: scanDataObj.includeCustomRules,
-            customRules,
-          });
-          
-          console.log(`Scan #${scanObj.id} completed. Found ${scanResult.vulnerabilities.length} vulnerabilities.`);
-          
-          // Store vulnerabilities
-          for (const vulnerability of scanResult.vulnerabilities) {
-            await storage.createVulnerability({
-              ...vulnerability,
-              scanId: scanObj.id,
-            });
-          }
-          
-          // Calculate scan duration in seconds
-          const scanDuration = (new Date().getTime() - startTimeObj.getTime()) / 1000;
-          
-          // Update scan with detailed results and summary
-          await storage.updateScan(scanObj.id, {
-            status: 'completed',
-            completedAt: new Date(),
-            result: {
-              summary: scanResult.summary,
-              scannedUrls: scanResult.scannedUrls,
-              scanLevel: scanDataObj.scanLevel,
-              scanDuration: scanDuration,
-              totalPages: scanResult.scannedUrls.length,
-              vulnerabilitiesCount: scanResult.vulnerabilities.length,
-              timestamp: new Date().toISOString(),
-            },
-          });
-          
-          // Log security event
-          await storage.createSecurityEvent({
-            userId: userObj.id,
-            type: 'scan_completed',
-            description: `Scan completed for ${scanDataObj.url}`,
-            metadata: {
-              scanId: scanObj.id,
-              vulnerabilities: scanResult.summary,
-            },
-          });
-        } catch (error: any) {
-          console.error('Scan error:', error);
-          
-          const errorMessage = error && typeof error.message === 'string' 
-            ? error.message 
-            : 'Unknown error occurred';
-          
-          // Calculate scan duration in seconds even in error case
-          const scanDuration = (new Date().getTime() - startTimeObj.getTime()) / 1000;
-          
-          // Update scan status to failed with detailed error information
-          await storage.updateScan(scanObj.id, {
-            status: 'failed',
-            completedAt: new Date(),
-            result: { 
-              error: errorMessage,
-              scanLevel: scanDataObj.scanLevel,
-              scanDuration: scanDuration,
-              url: scanDataObj.url,
-              timestamp: new Date().toISOString(),
-              failureReason: error.code || 'UNKNOWN_ERROR',
-              stackTrace: error.stack || 'No stack trace available',
-            },
-          });
-          
-          // Log security event
-          await storage.createSecurityEvent({
-            userId: userObj.id,
-            type: 'scan_failed',
-            description: `Scan failed for ${scanDataObj.url}: ${errorMessage}`,
-            metadata: {
-              scanId: scanObj.id,
-              error: errorMessage,
-            },
-          });
-        }
-      })(scan, scanData, user, startTime);
+      return res.status(201).json(maskScan(scan));
     } catch (error) {
       console.error('Error creating scan:', error);
       return res.status(500).json({ message: 'Internal server error' });
@@ -252,7 +158,7 @@ export const scanController = {
         return res.status(403).json({ message: 'Unauthorized access to scan' });
       }
       
-      return res.status(200).json(scan);
+      return res.status(200).json(maskScan(scan));
     } catch (error) {
       console.error('Error getting scan:', error);
       return res.status(500).json({ message: 'Internal server error' });
@@ -269,7 +175,7 @@ export const scanController = {
       const user = req.user;
       const scans = await storage.getScansByUserId(user.id);
       
-      return res.status(200).json(scans);
+      return res.status(200).json(scans.map(maskScan));
     } catch (error) {
       console.error('Error getting user scans:', error);
       return res.status(500).json({ message: 'Internal server error' });
@@ -308,4 +214,247 @@ export const scanController = {
       return res.status(500).json({ message: 'Internal server error' });
     }
   },
+  
+  // Compare two completed scans: new, resolved and unchanged findings, crawled pages and score change
+  getScanDiff: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      
+      const user = req.user;
+      const scanId = parseInt(req.params.id, 10);
+      const otherId = parseInt(req.params.otherId, 10);
+      
+      if (isNaN(scanId) || isNaN(otherId)) {
+        return res.status(400).json({ message: 'Invalid scan ID' });
+      }
+      
+      const [scan, other] = await Promise.all([storage.getScan(scanId), storage.getScan(otherId)]);
+      
+      if (!scan || !other) {
+        return res.status(404).json({ message: 'Scan not found' });
+      }
+      
+      if (scan.userId !== user.id || other.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized access to scan' });
+      }
+      
+      if (scan.status !== 'completed' || other.status !== 'completed') {
+        return res.status(409).json({ message: 'Only completed scans can be compared' });
+      }
+      
+      const [scanVulnerabilities, otherVulnerabilities] = await Promise.all([
+        storage.getVulnerabilitiesByScanId(scan.id),
+        storage.getVulnerabilitiesByScanId(other.id),
+      ]);
+      
+      return res.status(200).json(diffScans(scan, scanVulnerabilities, other, otherVulnerabilities));
+    } catch (error) {
+      console.error('Error comparing scans:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+  
+  // Cancel a pending, running or paused scan
+  cancelScan: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      
+      const user = req.user;
+      const scanId = parseInt(req.params.id, 10);
+      
+      if (isNaN(scanId)) {
+        return res.status(400).json({ message: 'Invalid scan ID' });
+      }
+      
+      const scan = await storage.getScan(scanId);
+      
+      if (!scan) {
+        return res.status(404).json({ message: 'Scan not found' });
+      }
+      
+      if (scan.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized access to scan' });
+      }
+      
+      const outcome = await scanQueue.requestCancel(scan);
+      if (!outcome) {
+        return res.status(409).json({ message: `Scan cannot be cancelled while ${scan.status}` });
+      }
+      
+      await storage.createSecurityEvent({
+        userId: user.id,
+        type: 'scan_cancelled',
+        description: `Scan cancelled for ${scan.url}`,
+        metadata: {
+          scanId,
+        },
+      });
+      
+      const updatedScan = await storage.getScan(scanId);
+      return res.status(outcome === 'cancelled' ? 200 : 202).json(updatedScan && maskScan(updatedScan));
+    } catch (error) {
+      console.error('Error cancelling scan:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+  
+  // Pause a pending or running scan, keeping its crawl state
+  pauseScan: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      
+      const user = req.user;
+      const scanId = parseInt(req.params.id, 10);
+      
+      if (isNaN(scanId)) {
+        return res.status(400).json({ message: 'Invalid scan ID' });
+      }
+      
+      const scan = await storage.getScan(scanId);
+      
+      if (!scan) {
+        return res.status(404).json({ message: 'Scan not found' });
+      }
+      
+      if (scan.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized access to scan' });
+      }
+      
+      const outcome = await scanQueue.requestPause(scan);
+      if (!outcome) {
+        return res.status(409).json({ message: `Scan cannot be paused while ${scan.status}` });
+      }
+      
+      await storage.createSecurityEvent({
+        userId: user.id,
+        type: 'scan_paused',
+        description: `Scan paused for ${scan.url}`,
+        metadata: {
+          scanId,
+        },
+      });
+      
+      const updatedScan = await storage.getScan(scanId);
+      return res.status(outcome === 'paused' ? 200 : 202).json(updatedScan && maskScan(updatedScan));
+    } catch (error) {
+      console.error('Error pausing scan:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+  
+  // Resume a paused scan from where it stopped
+  resumeScan: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      
+      const user = req.user;
+      const scanId = parseInt(req.params.id, 10);
+      
+      if (isNaN(scanId)) {
+        return res.status(400).json({ message: 'Invalid scan ID' });
+      }
+      
+      const scan = await storage.getScan(scanId);
+      
+      if (!scan) {
+        return res.status(404).json({ message: 'Scan not found' });
+      }
+      
+      if (scan.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized access to scan' });
+      }
+      
+      const resumed = await scanQueue.resume(scan);
+      if (!resumed) {
+        return res.status(409).json({ message: `Scan cannot be resumed while ${scan.status}` });
+      }
+      
+      await storage.createSecurityEvent({
+        userId: user.id,
+        type: 'scan_resumed',
+        description: `Scan resumed for ${scan.url}`,
+        metadata: {
+          scanId,
+        },
+      });
+      
+      const updatedScan = await storage.getScan(scanId);
+      return res.status(200).json(updatedScan && maskScan(updatedScan));
+    } catch (error) {
+      console.error('Error resuming scan:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+  
+  // Stream live scan progress as Server-Sent Events
+  streamScanEvents: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      
+      const user = req.user;
+      const scanId = parseInt(req.params.id, 10);
+      
+      if (isNaN(scanId)) {
+        return res.status(400).json({ message: 'Invalid scan ID' });
+      }
+      
+      const scan = await storage.getScan(scanId);
+      
+      if (!scan) {
+        return res.status(404).json({ message: 'Scan not found' });
+      }
+      
+      if (scan.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized access to scan' });
+      }
+      
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+      
+      const send = (envelope: ScanEventEnvelope) => {
+        res.write(`id: ${envelope.id}\nevent: ${envelope.event.type}\ndata: ${JSON.stringify({ ...envelope.event, timestamp: envelope.timestamp })}\n\n`);
+      };
+      
+      // Start with the persisted status so the client is in sync even without history
+      res.write(`event: status\ndata: ${JSON.stringify({ type: 'status', status: scan.status, timestamp: new Date().toISOString() })}\n\n`);
+      
+      // Replay what the client missed (everything on first connect, the gap on reconnect)
+      const lastEventId = parseInt(String(req.headers['last-event-id'] || '0'), 10) || 0;
+      for (const envelope of scanEvents.getHistory(scanId, lastEventId)) {
+        send(envelope);
+      }
+      
+      const unsubscribe = scanEvents.subscribe(scanId, send);
+      
+      // Comment lines keep proxies from closing an idle connection
+      const keepAlive = setInterval(() => {
+        res.write(': keep-alive\n\n');
+      }, 15000);
+      
+      req.on('close', () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+      });
+    } catch (error) {
+      console.error('Error streaming scan events:', error);
+      if (!res.headersSent) {
+        return res.status(500).json({ message: 'Internal server error' });
+      }
+      res.end();
+    }
+  },
 };
@@ -0,0 +1,166 @@
+import { Request, Response } from 'express';
+import { storage } from '../storage';
+import { ScanProfile } from '@shared/schema';
+import { describeScanProfile, listScanProfiles, scanProfileSettingsSchema } from '../utils/scan-profiles';
+
+// Validate scan profile update request; omitted fields are left unchanged
+const updateScanProfileSchema = scanProfileSettingsSchema.partial();
+
+export const scanProfileController = {
+  // Get the built-in profiles and the current user's own
+  getScanProfiles: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      return res.status(200).json(await listScanProfiles(req.user.id));
+    } catch (error) {
+      console.error('Error getting scan profiles:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+
+  // Create a custom scan profile
+  createScanProfile: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const user = req.user;
+
+      const validation = scanProfileSettingsSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: 'Invalid scan profile data', errors: validation.error.errors });
+      }
+
+      const data = validation.data;
+
+      const profile = await storage.createScanProfile({
+        userId: user.id,
+        name: data.name,
+        description: data.description ?? null,
+        checkIds: Array.from(new Set(data.checkIds)),
+        followLinks: data.followLinks,
+        crawl: data.crawl ?? null,
+        allowActiveChecks: data.allowActiveChecks,
+      });
+
+      // Log security event
+      await storage.createSecurityEvent({
+        userId: user.id,
+        type: 'scan_profile_created',
+        description: `Scan profile "${profile.name}" created`,
+        metadata: {
+          profileId: profile.id,
+          checkIds: profile.checkIds,
+          allowActiveChecks: profile.allowActiveChecks,
+        },
+      });
+
+      return res.status(201).json(describeScanProfile(profile));
+    } catch (error) {
+      console.error('Error creating scan profile:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+
+  // Update a custom scan profile; scans that were already created keep the settings they started with
+  updateScanProfile: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const user = req.user;
+      const profileId = parseInt(req.params.id, 10);
+
+      if (isNaN(profileId)) {
+        return res.status(400).json({ message: 'Invalid scan profile ID' });
+      }
+
+      const profile = await storage.getScanProfile(profileId);
+
+      if (!profile) {
+        return res.status(404).json({ message: 'Scan profile not found' });
+      }
+
+      if (profile.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized access to scan profile' });
+      }
+
+      const validation = updateScanProfileSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: 'Invalid scan profile data', errors: validation.error.errors });
+      }
+
+      const { checkIds, ...rest } = validation.data;
+      const updates: Partial<ScanProfile> = { ...rest };
+      if (checkIds) {
+        updates.checkIds = Array.from(new Set(checkIds));
+      }
+
+      const updatedProfile = await storage.updateScanProfile(profile.id, updates);
+
+      // Log security event
+      await storage.createSecurityEvent({
+        userId: user.id,
+        type: 'scan_profile_updated',
+        description: `Scan profile "${updatedProfile?.name ?? profile.name}" updated`,
+        metadata: {
+          profileId: profile.id,
+          fields: Object.keys(validation.data),
+        },
+      });
+
+      return res.status(200).json(updatedProfile && describeScanProfile(updatedProfile));
+    } catch (error) {
+      console.error('Error updating scan profile:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+
+  // Delete a custom scan profile; its scans keep a copy of it
+  deleteScanProfile: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const user = req.user;
+      const profileId = parseInt(req.params.id, 10);
+
+      if (isNaN(profileId)) {
+        return res.status(400).json({ message: 'Invalid scan profile ID' });
+      }
+
+      const profile = await storage.getScanProfile(profileId);
+
+      if (!profile) {
+        return res.status(404).json({ message: 'Scan profile not found' });
+      }
+
+      if (profile.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized access to scan profile' });
+      }
+
+      await storage.deleteScanProfile(profile.id);
+
+      // Log security event
+      await storage.createSecurityEvent({
+        userId: user.id,
+        type: 'scan_profile_deleted',
+        description: `Scan profile "${profile.name}" deleted`,
+        metadata: {
+          profileId: profile.id,
+        },
+      });
+
+      return res.status(200).json({ message: 'Scan profile deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting scan profile:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+};
@@ -0,0 +1,286 @@
+import { Request, Response } from 'express';
+import { storage } from '../storage';
+import { z } from 'zod';
+import { ScanSchedule } from '@shared/schema';
+import { isValidTimeZone, parseCron, getNextRun } from '../utils/cron';
+import { getNextScheduledRun } from '../utils/scan-scheduler';
+import { checkScanRequest, scanSettingsSchema, ScanSettings } from '../utils/scan-service';
+import { maskScanSchedule, restoreMaskedSecrets } from '../utils/secrets';
+
+// Number of past runs returned by the run history endpoint
+const SCHEDULE_RUN_HISTORY_LIMIT = 50;
+
+const cronExpressionSchema = z.string().trim().min(1).max(100).superRefine((expression, ctx) => {
+  try {
+    getNextRun(parseCron(expression), 'UTC', new Date());
+  } catch (error: any) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error?.message || 'Invalid cron expression' });
+  }
+});
+
+const scheduleFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  url: z.string().url('Invalid URL'),
+  cronExpression: cronExpressionSchema,
+  timezone: z.string().refine(isValidTimeZone, 'Unknown time zone'),
+  enabled: z.boolean(),
+  options: scanSettingsSchema,
+});
+
+// Validate schedule creation request
+const createScheduleSchema = scheduleFieldsSchema.extend({
+  timezone: scheduleFieldsSchema.shape.timezone.default('UTC'),
+  enabled: z.boolean().default(true),
+});
+
+// Validate schedule update request; omitted fields are left unchanged
+const updateScheduleSchema = scheduleFieldsSchema.partial();
+
+export const scheduleController = {
+  // Create a recurring scan schedule
+  createSchedule: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const user = req.user;
+
+      const validation = createScheduleSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: 'Invalid schedule data', errors: validation.error.errors });
+      }
+
+      const data = validation.data;
+
+      // Refuse schedules that could never start a scan now rather than at every run
+      const rejection = await checkScanRequest(user, { ...data.options, url: data.url });
+      if (rejection) {
+        return res.status(rejection.status).json(rejection.body);
+      }
+
+      const schedule = await storage.createScanSchedule({
+        userId: user.id,
+        name: data.name,
+        url: data.url,
+        cronExpression: data.cronExpression,
+        timezone: data.timezone,
+        options: data.options,
+        enabled: data.enabled,
+        nextRunAt: data.enabled ? getNextScheduledRun(data, new Date()) : null,
+      });
+
+      // Log security event
+      await storage.createSecurityEvent({
+        userId: user.id,
+        type: 'scan_schedule_created',
+        description: `Scan schedule "${schedule.name}" created for ${schedule.url}`,
+        metadata: {
+          scheduleId: schedule.id,
+          cronExpression: schedule.cronExpression,
+          timezone: schedule.timezone,
+        },
+      });
+
+      return res.status(201).json(maskScanSchedule(schedule));
+    } catch (error) {
+      console.error('Error creating scan schedule:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+
+  // Get all scan schedules for the current user
+  getUserSchedules: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const schedules = await storage.getScanSchedulesByUserId(req.user.id);
+      return res.status(200).json(schedules.map(maskScanSchedule));
+    } catch (error) {
+      console.error('Error getting scan schedules:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+
+  // Get scan schedule by ID
+  getSchedule: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const user = req.user;
+      const scheduleId = parseInt(req.params.id, 10);
+
+      if (isNaN(scheduleId)) {
+        return res.status(400).json({ message: 'Invalid schedule ID' });
+      }
+
+      const schedule = await storage.getScanSchedule(scheduleId);
+
+      if (!schedule) {
+        return res.status(404).json({ message: 'Schedule not found' });
+      }
+
+      if (schedule.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized access to schedule' });
+      }
+
+      return res.status(200).json(maskScanSchedule(schedule));
+    } catch (error) {
+      console.error('Error getting scan schedule:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+
+  // Get the started and skipped runs of a scan schedule, newest first
+  getScheduleRuns: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const user = req.user;
+      const scheduleId = parseInt(req.params.id, 10);
+
+      if (isNaN(scheduleId)) {
+        return res.status(400).json({ message: 'Invalid schedule ID' });
+      }
+
+      const schedule = await storage.getScanSchedule(scheduleId);
+
+      if (!schedule) {
+        return res.status(404).json({ message: 'Schedule not found' });
+      }
+
+      if (schedule.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized access to schedule' });
+      }
+
+      const runs = await storage.getScanScheduleRuns(schedule.id, SCHEDULE_RUN_HISTORY_LIMIT);
+      return res.status(200).json(runs);
+    } catch (error) {
+      console.error('Error getting scan schedule runs:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+
+  // Update a scan schedule
+  updateSchedule: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const user = req.user;
+      const scheduleId = parseInt(req.params.id, 10);
+
+      if (isNaN(scheduleId)) {
+        return res.status(400).json({ message: 'Invalid schedule ID' });
+      }
+
+      const schedule = await storage.getScanSchedule(scheduleId);
+
+      if (!schedule) {
+        return res.status(404).json({ message: 'Schedule not found' });
+      }
+
+      if (schedule.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized access to schedule' });
+      }
+
+      const validation = updateScheduleSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: 'Invalid schedule data', errors: validation.error.errors });
+      }
+
+      const data = validation.data;
+      const storedOptions = schedule.options as ScanSettings;
+      const updates: Partial<ScanSchedule> = { ...data };
+
+      // Settings come back from the client with their credentials masked
+      if (data.options) {
+        updates.options = restoreMaskedSecrets(data.options, storedOptions);
+      }
+
+      if (data.url || data.options) {
+        const rejection = await checkScanRequest(user, {
+          ...(updates.options as ScanSettings ?? storedOptions),
+          url: data.url ?? schedule.url,
+        });
+        if (rejection) {
+          return res.status(rejection.status).json(rejection.body);
+        }
+      }
+
+      // A new timing (or re-enabling) counts from now; pending occurrences of the old one are dropped
+      if (data.cronExpression !== undefined || data.timezone !== undefined || data.enabled !== undefined) {
+        const updated = { ...schedule, ...updates };
+        updates.nextRunAt = updated.enabled ? getNextScheduledRun(updated, new Date()) : null;
+      }
+
+      const updatedSchedule = await storage.updateScanSchedule(schedule.id, updates);
+
+      // Log security event
+      await storage.createSecurityEvent({
+        userId: user.id,
+        type: 'scan_schedule_updated',
+        description: `Scan schedule "${updatedSchedule?.name ?? schedule.name}" updated`,
+        metadata: {
+          scheduleId: schedule.id,
+          fields: Object.keys(data),
+        },
+      });
+
+      return res.status(200).json(updatedSchedule && maskScanSchedule(updatedSchedule));
+    } catch (error) {
+      console.error('Error updating scan schedule:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+
+  // Delete a scan schedule and its run history; scans it started are kept
+  deleteSchedule: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const user = req.user;
+      const scheduleId = parseInt(req.params.id, 10);
+
+      if (isNaN(scheduleId)) {
+        return res.status(400).json({ message: 'Invalid schedule ID' });
+      }
+
+      const schedule = await storage.getScanSchedule(scheduleId);
+
+      if (!schedule) {
+        return res.status(404).json({ message: 'Schedule not found' });
+      }
+
+      if (schedule.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized access to schedule' });
+      }
+
+      await storage.deleteScanSchedule(schedule.id);
+
+      // Log security event
+      await storage.createSecurityEvent({
+        userId: user.id,
+        type: 'scan_schedule_deleted',
+        description: `Scan schedule "${schedule.name}" deleted`,
+        metadata: {
+          scheduleId: schedule.id,
+        },
+      });
+
+      return res.status(200).json({ message: 'Schedule deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting scan schedule:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+};
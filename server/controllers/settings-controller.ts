@@ -0,0 +1,200 @@
+import { Request, Response } from 'express';
+import { storage } from '../storage';
+import { z } from 'zod';
+import {
+  CRAWL_LIMITS_SETTING_KEY,
+  crawlLimitsPolicySchema,
+  getCrawlLimitsPolicy,
+  getRoleMaximum,
+} from '../utils/crawl-limits';
+import { EGRESS_POLICY_SETTING_KEY, egressPolicySchema, getEgressPolicy } from '../utils/egress-guard';
+import { jsAdvisoryDatabaseSchema, loadJsAdvisoryDatabase, setJsAdvisoryDatabase } from '../utils/js-advisories';
+
+// Validate advisory database update request; null goes back to the bundled database
+const updateJsAdvisoriesSchema = z.object({
+  database: jsAdvisoryDatabaseSchema.nullable(),
+});
+
+export const settingsController = {
+  // Get the crawl limits policy and the maximum that applies to the current user
+  getCrawlLimits: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const user = req.user;
+      const policy = await getCrawlLimitsPolicy();
+
+      return res.status(200).json({
+        policy,
+        maxPagesForUser: getRoleMaximum(policy, user.role),
+      });
+    } catch (error) {
+      console.error('Error getting crawl limits:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+
+  // Update the crawl limits policy (admin only)
+  updateCrawlLimits: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const user = req.user;
+
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Admin access required' });
+      }
+
+      const validation = crawlLimitsPolicySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: 'Invalid crawl limits', errors: validation.error.errors });
+      }
+
+      const policy = validation.data;
+
+      await storage.upsertSetting({
+        key: CRAWL_LIMITS_SETTING_KEY,
+        value: policy,
+        updatedBy: user.id,
+      });
+
+      // Log security event
+      await storage.createSecurityEvent({
+        userId: user.id,
+        type: 'crawl_limits_updated',
+        description: 'Crawl limits policy updated',
+        metadata: policy,
+      });
+
+      return res.status(200).json({
+        policy,
+        maxPagesForUser: getRoleMaximum(policy, user.role),
+      });
+    } catch (error) {
+      console.error('Error updating crawl limits:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+
+  // Get the internal ranges that scans may reach (admin only)
+  getEgressPolicy: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      if (req.user.role !== 'admin') {
+        return res.status(403).json({ message: 'Admin access required' });
+      }
+
+      return res.status(200).json(await getEgressPolicy());
+    } catch (error) {
+      console.error('Error getting egress policy:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+
+  // Update the internal ranges that scans may reach (admin only)
+  updateEgressPolicy: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const user = req.user;
+
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Admin access required' });
+      }
+
+      const validation = egressPolicySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: 'Invalid egress policy', errors: validation.error.errors });
+      }
+
+      const policy = validation.data;
+
+      await storage.upsertSetting({
+        key: EGRESS_POLICY_SETTING_KEY,
+        value: policy,
+        updatedBy: user.id,
+      });
+
+      // Log security event
+      await storage.createSecurityEvent({
+        userId: user.id,
+        type: 'egress_policy_updated',
+        description: 'Scanner egress policy updated',
+        metadata: policy,
+      });
+
+      return res.status(200).json(policy);
+    } catch (error) {
+      console.error('Error updating egress policy:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+
+  // Get which JavaScript library advisory database scans use (admin only)
+  getJsAdvisories: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      if (req.user.role !== 'admin') {
+        return res.status(403).json({ message: 'Admin access required' });
+      }
+
+      return res.status(200).json(await loadJsAdvisoryDatabase());
+    } catch (error) {
+      console.error('Error getting JavaScript advisory database:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+
+  // Replace the JavaScript library advisory database, or restore the bundled one (admin only)
+  updateJsAdvisories: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const user = req.user;
+
+      if (user.role !== 'admin') {
+        return res.status(403).json({ message: 'Admin access required' });
+      }
+
+      const validation = updateJsAdvisoriesSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: 'Invalid advisory database', errors: validation.error.errors });
+      }
+
+      const info = await setJsAdvisoryDatabase(validation.data.database, user.id);
+
+      // Log security event
+      await storage.createSecurityEvent({
+        userId: user.id,
+        type: 'js_advisories_updated',
+        description: info.source === 'custom'
+          ? 'JavaScript library advisory database replaced'
+          : 'JavaScript library advisory database restored to the bundled version',
+        metadata: {
+          source: info.source,
+          libraries: info.libraries,
+          advisories: info.advisories,
+        },
+      });
+
+      return res.status(200).json(info);
+    } catch (error) {
+      console.error('Error updating JavaScript advisory database:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+};
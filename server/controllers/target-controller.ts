@@ -0,0 +1,241 @@
+import { Request, Response } from 'express';
+import { storage } from '../storage';
+import { z } from 'zod';
+import { Target } from '@shared/schema';
+import {
+  isUrlInTarget,
+  normalizeTargetUrl,
+  summarizeTarget,
+  TARGET_CRITICALITIES,
+  TARGET_ENVIRONMENTS,
+} from '../utils/targets';
+
+const targetFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  baseUrl: z.string().url('Invalid URL').refine((url) => /^https?:/i.test(url), 'Only http and https URLs can be targets'),
+  tags: z.array(z.string().trim().min(1).max(50)).max(20),
+  environment: z.enum(TARGET_ENVIRONMENTS),
+  criticality: z.enum(TARGET_CRITICALITIES),
+});
+
+// Validate target creation request
+const createTargetSchema = targetFieldsSchema.extend({
+  tags: targetFieldsSchema.shape.tags.default([]),
+  environment: targetFieldsSchema.shape.environment.default('production'),
+  criticality: targetFieldsSchema.shape.criticality.default('medium'),
+});
+
+// Validate target update request; omitted fields are left unchanged
+const updateTargetSchema = targetFieldsSchema.partial();
+
+export const targetController = {
+  // Create a target; earlier scans of URLs under its base URL that have no target are filed under it
+  createTarget: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const user = req.user;
+
+      const validation = createTargetSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: 'Invalid target data', errors: validation.error.errors });
+      }
+
+      const data = validation.data;
+      const baseUrl = normalizeTargetUrl(data.baseUrl);
+
+      const existing = (await storage.getTargetsByUserId(user.id)).find((target) => target.baseUrl === baseUrl);
+      if (existing) {
+        return res.status(409).json({ message: `Target already exists for ${baseUrl}`, targetId: existing.id });
+      }
+
+      const target = await storage.createTarget({
+        userId: user.id,
+        name: data.name,
+        baseUrl,
+        tags: Array.from(new Set(data.tags)),
+        environment: data.environment,
+        criticality: data.criticality,
+      });
+
+      const scans = await storage.getScansByUserId(user.id);
+      for (const scan of scans) {
+        if (scan.targetId === null && isUrlInTarget(scan.url, baseUrl)) {
+          await storage.updateScan(scan.id, { targetId: target.id });
+        }
+      }
+
+      // Log security event
+      await storage.createSecurityEvent({
+        userId: user.id,
+        type: 'target_created',
+        description: `Target "${target.name}" created for ${target.baseUrl}`,
+        metadata: {
+          targetId: target.id,
+        },
+      });
+
+      return res.status(201).json({ ...target, summary: await summarizeTarget(target) });
+    } catch (error) {
+      console.error('Error creating target:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+
+  // Get all targets of the current user with their latest score and open findings
+  getUserTargets: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const targets = await storage.getTargetsByUserId(req.user.id);
+      const summaries = await Promise.all(targets.map((target) => summarizeTarget(target)));
+
+      return res.status(200).json(targets.map((target, index) => ({ ...target, summary: summaries[index] })));
+    } catch (error) {
+      console.error('Error getting targets:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+
+  // Get target by ID
+  getTarget: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const user = req.user;
+      const targetId = parseInt(req.params.id, 10);
+
+      if (isNaN(targetId)) {
+        return res.status(400).json({ message: 'Invalid target ID' });
+      }
+
+      const target = await storage.getTarget(targetId);
+
+      if (!target) {
+        return res.status(404).json({ message: 'Target not found' });
+      }
+
+      if (target.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized access to target' });
+      }
+
+      return res.status(200).json({ ...target, summary: await summarizeTarget(target) });
+    } catch (error) {
+      console.error('Error getting target:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+
+  // Update a target
+  updateTarget: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const user = req.user;
+      const targetId = parseInt(req.params.id, 10);
+
+      if (isNaN(targetId)) {
+        return res.status(400).json({ message: 'Invalid target ID' });
+      }
+
+      const target = await storage.getTarget(targetId);
+
+      if (!target) {
+        return res.status(404).json({ message: 'Target not found' });
+      }
+
+      if (target.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized access to target' });
+      }
+
+      const validation = updateTargetSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: 'Invalid target data', errors: validation.error.errors });
+      }
+
+      const { baseUrl, tags, ...rest } = validation.data;
+      const updates: Partial<Target> = { ...rest };
+      if (tags) {
+        updates.tags = Array.from(new Set(tags));
+      }
+      if (baseUrl) {
+        updates.baseUrl = normalizeTargetUrl(baseUrl);
+        const duplicate = (await storage.getTargetsByUserId(user.id))
+          .find((other) => other.id !== target.id && other.baseUrl === updates.baseUrl);
+        if (duplicate) {
+          return res.status(409).json({ message: `Target already exists for ${updates.baseUrl}`, targetId: duplicate.id });
+        }
+      }
+
+      const updatedTarget = await storage.updateTarget(target.id, updates);
+
+      // Log security event
+      await storage.createSecurityEvent({
+        userId: user.id,
+        type: 'target_updated',
+        description: `Target "${updatedTarget?.name ?? target.name}" updated`,
+        metadata: {
+          targetId: target.id,
+          fields: Object.keys(validation.data),
+        },
+      });
+
+      return res.status(200).json(updatedTarget && { ...updatedTarget, summary: await summarizeTarget(updatedTarget) });
+    } catch (error) {
+      console.error('Error updating target:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+
+  // Delete a target; its scans are kept without a target
+  deleteTarget: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const user = req.user;
+      const targetId = parseInt(req.params.id, 10);
+
+      if (isNaN(targetId)) {
+        return res.status(400).json({ message: 'Invalid target ID' });
+      }
+
+      const target = await storage.getTarget(targetId);
+
+      if (!target) {
+        return res.status(404).json({ message: 'Target not found' });
+      }
+
+      if (target.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized access to target' });
+      }
+
+      await storage.deleteTarget(target.id);
+
+      // Log security event
+      await storage.createSecurityEvent({
+        userId: user.id,
+        type: 'target_deleted',
+        description: `Target "${target.name}" deleted`,
+        metadata: {
+          targetId: target.id,
+          baseUrl: target.baseUrl,
+        },
+      });
+
+      return res.status(200).json({ message: 'Target deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting target:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+};
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { storage } from '../storage';
 import { z } from 'zod';
+import { setIssueStatus } from '../utils/issues';
 
 // Validate task creation request
 const createTaskSchema = z.object({
@@ -199,10 +200,27 @@ export const taskController = {
         
         // If task is linked to a vulnerability, update the vulnerability status to fixed
         if (task.vulnerabilityId) {
-          await storage.updateVulnerability(task.vulnerabilityId, {
+          const vulnerability = await storage.updateVulnerability(task.vulnerabilityId, {
             status: 'fixed',
             updatedAt: new Date(),
           });
+          
+          // Mark the whole issue fixed so that the next scan verifies the fix or reopens it
+          const issue = vulnerability?.issueId ? await storage.getIssue(vulnerability.issueId) : undefined;
+          if (issue && issue.userId === user.id && issue.status !== 'fixed') {
+            await setIssueStatus(issue, 'fixed');
+            await storage.createSecurityEvent({
+              userId: user.id,
+              type: 'issue_updated',
+              description: `Issue status updated to fixed by remediation task: ${task.title}`,
+              metadata: {
+                issueId: issue.id,
+                taskId,
+                oldStatus: issue.status,
+                newStatus: 'fixed',
+              },
+            });
+          }
         }
       }
       
@@ -0,0 +1,164 @@
+import { Request, Response } from 'express';
+import { storage } from '../storage';
+import { z } from 'zod';
+import {
+  checkVerificationToken,
+  generateVerificationToken,
+  getTargetHost,
+  getVerifiedUntil,
+} from '../utils/target-verification';
+
+// Validate verification creation request
+const createVerificationSchema = z.object({
+  url: z.string().url().refine((url) => /^https?:/i.test(url), 'Only http and https URLs can be verified'),
+});
+
+export const verificationController = {
+  // Start verifying a target host, or return the existing verification for it
+  createVerification: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const user = req.user;
+
+      const validation = createVerificationSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: 'Invalid verification data', errors: validation.error.errors });
+      }
+
+      const host = getTargetHost(validation.data.url);
+      const existing = await storage.getTargetVerificationByHost(user.id, host);
+      if (existing) {
+        return res.status(200).json(existing);
+      }
+
+      const verification = await storage.createTargetVerification({
+        userId: user.id,
+        host,
+        origin: new URL(validation.data.url).origin,
+        token: generateVerificationToken(),
+        status: 'pending',
+      });
+
+      return res.status(201).json(verification);
+    } catch (error) {
+      console.error('Error creating target verification:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+
+  // Get all target verifications for the current user
+  getUserVerifications: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const verifications = await storage.getTargetVerificationsByUserId(req.user.id);
+      return res.status(200).json(verifications);
+    } catch (error) {
+      console.error('Error getting target verifications:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+
+  // Check that the token is served by the target and record the result
+  verifyTarget: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const user = req.user;
+      const verificationId = parseInt(req.params.id, 10);
+
+      if (isNaN(verificationId)) {
+        return res.status(400).json({ message: 'Invalid verification ID' });
+      }
+
+      const verification = await storage.getTargetVerification(verificationId);
+
+      if (!verification) {
+        return res.status(404).json({ message: 'Verification not found' });
+      }
+
+      if (verification.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized access to verification' });
+      }
+
+      const result = await checkVerificationToken(verification.origin, verification.token);
+      const now = new Date();
+
+      // A failed re-check does not revoke a verification that is still valid
+      const updated = await storage.updateTargetVerification(verification.id, result.verified
+        ? {
+            status: 'verified',
+            method: result.method,
+            verifiedAt: now,
+            verifiedUntil: getVerifiedUntil(now),
+            lastCheckedAt: now,
+            lastError: null,
+          }
+        : {
+            status: verification.status === 'verified' ? 'verified' : 'failed',
+            lastCheckedAt: now,
+            lastError: result.error,
+          });
+
+      // Log security event
+      await storage.createSecurityEvent({
+        userId: user.id,
+        type: result.verified ? 'target_verified' : 'target_verification_failed',
+        description: result.verified
+          ? `Ownership of ${verification.host} verified`
+          : `Ownership verification of ${verification.host} failed`,
+        metadata: {
+          verificationId: verification.id,
+          host: verification.host,
+          method: result.method,
+          error: result.error,
+        },
+      });
+
+      return res.status(200).json(updated);
+    } catch (error) {
+      console.error('Error verifying target:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+
+  // Delete a target verification
+  deleteVerification: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const user = req.user;
+      const verificationId = parseInt(req.params.id, 10);
+
+      if (isNaN(verificationId)) {
+        return res.status(400).json({ message: 'Invalid verification ID' });
+      }
+
+      const verification = await storage.getTargetVerification(verificationId);
+
+      if (!verification) {
+        return res.status(404).json({ message: 'Verification not found' });
+      }
+
+      if (verification.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized access to verification' });
+      }
+
+      await storage.deleteTargetVerification(verification.id);
+
+      return res.status(200).json({ message: 'Verification deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting target verification:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+};
@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { storage } from '../storage';
 import { z } from 'zod';
+import { isIssueStatus, setIssueStatus } from '../utils/issues';
+import { checkRetestRequest, isRetestable, retestVulnerability } from '../utils/retest';
 
 // Validate vulnerability update request
 const updateVulnerabilitySchema = z.object({
@@ -107,7 +109,14 @@ export const vulnerabilityController = {
       }
       
       // Update vulnerability
-      const updatedVulnerability = await storage.updateVulnerability(vulnerabilityId, updateData);
+      let updatedVulnerability = await storage.updateVulnerability(vulnerabilityId, updateData);
+      
+      // Triage applies to the issue, so that the status carries over to the other scans of the finding
+      const issue = vulnerability.issueId ? await storage.getIssue(vulnerability.issueId) : undefined;
+      if (issue && issue.userId === user.id && updateData.status && isIssueStatus(updateData.status)) {
+        await setIssueStatus(issue, updateData.status);
+        updatedVulnerability = await storage.getVulnerability(vulnerabilityId);
+      }
       
       // Log security event
       if (updateData.status) {
@@ -120,6 +129,7 @@ export const vulnerabilityController = {
             name: vulnerability.name,
             oldStatus: vulnerability.status,
             newStatus: updateData.status,
+            issueId: vulnerability.issueId,
           },
         });
       }
@@ -131,6 +141,73 @@ export const vulnerabilityController = {
     }
   },
   
+  // Re-run the check that produced a finding against its URL only, without a crawl
+  retestVulnerability: async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+      
+      const user = req.user;
+      const vulnerabilityId = parseInt(req.params.id, 10);
+      
+      if (isNaN(vulnerabilityId)) {
+        return res.status(400).json({ message: 'Invalid vulnerability ID' });
+      }
+      
+      const vulnerability = await storage.getVulnerability(vulnerabilityId);
+      
+      if (!vulnerability) {
+        return res.status(404).json({ message: 'Vulnerability not found' });
+      }
+      
+      // Check if the vulnerability belongs to the user's scan
+      const scan = await storage.getScan(vulnerability.scanId);
+      
+      if (!scan || scan.userId !== user.id) {
+        return res.status(403).json({ message: 'Unauthorized access to vulnerability' });
+      }
+      
+      if (!isRetestable(vulnerability)) {
+        return res.status(422).json({ message: 'This finding cannot be retested' });
+      }
+      
+      const rejection = await checkRetestRequest(scan, vulnerability);
+      if (rejection) {
+        return res.status(rejection.status).json(rejection.body);
+      }
+      
+      let retest;
+      try {
+        retest = await retestVulnerability(scan, vulnerability);
+      } catch (error: any) {
+        if (error?.code !== 'EGRESS_BLOCKED') {
+          throw error;
+        }
+        return res.status(403).json({ message: 'Scanning internal network addresses is not allowed', reason: error.message });
+      }
+      
+      // Log security event
+      await storage.createSecurityEvent({
+        userId: user.id,
+        type: 'vulnerability_retested',
+        description: `Vulnerability retested: ${retest.result.outcome}`,
+        metadata: {
+          vulnerabilityId,
+          name: vulnerability.name,
+          outcome: retest.result.outcome,
+          oldStatus: retest.previousStatus,
+          newStatus: retest.vulnerability?.status,
+        },
+      });
+      
+      return res.status(200).json({ vulnerability: retest.vulnerability, result: retest.result });
+    } catch (error) {
+      console.error('Error retesting vulnerability:', error);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  },
+  
   // Get vulnerability count by severity
   getVulnerabilitySummary: async (req: Request, res: Response) => {
     try {
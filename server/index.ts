@@ -1,8 +1,12 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { scanQueue } from "./utils/scan-queue";
+import { scanScheduler } from "./utils/scan-scheduler";
 
 const app = express();
+// Full advisory databases are larger than the default body limit
+app.use("/api/settings/js-advisories", express.json({ limit: "10mb" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -66,5 +70,20 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    
+    // Start processing queued scans (and recover any left behind by a previous process)
+    scanQueue.start();
+    
+    // Start scans of recurring scan schedules as they come due
+    scanScheduler.start();
   });
+
+  // Release running scan jobs on shutdown so the next process picks them up immediately
+  for (const signal of ["SIGTERM", "SIGINT"] as const) {
+    process.once(signal, async () => {
+      scanScheduler.shutdown();
+      await scanQueue.shutdown();
+      process.exit(0);
+    });
+  }
 })();
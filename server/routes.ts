@@ -6,6 +6,13 @@ import { vulnerabilityController } from "./controllers/vulnerability-controller"
 import { taskController } from "./controllers/task-controller";
 import { ruleController } from "./controllers/rule-controller";
 import { reportController } from "./controllers/report-controller";
+import { settingsController } from "./controllers/settings-controller";
+import { verificationController } from "./controllers/verification-controller";
+import { scheduleController } from "./controllers/schedule-controller";
+import { targetController } from "./controllers/target-controller";
+import { issueController } from "./controllers/issue-controller";
+import { checkController } from "./controllers/check-controller";
+import { scanProfileController } from "./controllers/scan-profile-controller";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication routes
@@ -28,6 +35,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/scans", scanController.getUserScans);
   app.get("/api/scans/:id", scanController.getScan);
   app.get("/api/scans/:id/vulnerabilities", scanController.getScanVulnerabilities);
+  app.get("/api/scans/:id/diff/:otherId", scanController.getScanDiff);
+  app.get("/api/scans/:id/events", scanController.streamScanEvents);
+  app.post("/api/scans/:id/cancel", scanController.cancelScan);
+  app.post("/api/scans/:id/pause", scanController.pauseScan);
+  app.post("/api/scans/:id/resume", scanController.resumeScan);
   app.delete("/api/scans/:id", scanController.deleteScan);
   app.delete("/api/scans", scanController.deleteAllScans);
   
@@ -36,6 +48,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/vulnerabilities/summary", vulnerabilityController.getVulnerabilitySummary);
   app.get("/api/vulnerabilities/:id", vulnerabilityController.getVulnerability);
   app.patch("/api/vulnerabilities/:id", vulnerabilityController.updateVulnerability);
+  app.post("/api/vulnerabilities/:id/retest", vulnerabilityController.retestVulnerability);
+  
+  // Issue routes (findings tracked across scans)
+  app.get("/api/issues", issueController.getUserIssues);
+  app.get("/api/issues/:id", issueController.getIssue);
+  app.patch("/api/issues/:id", issueController.updateIssue);
   
   // Task routes
   app.post("/api/tasks", taskController.createTask);
@@ -57,6 +75,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/reports/metrics", reportController.getMetrics);
   app.get("/api/reports/trends", reportController.getTrends);
   app.get("/api/reports/:id", reportController.getReport);
+  
+  // Target verification routes
+  app.post("/api/verifications", verificationController.createVerification);
+  app.get("/api/verifications", verificationController.getUserVerifications);
+  app.post("/api/verifications/:id/verify", verificationController.verifyTarget);
+  app.delete("/api/verifications/:id", verificationController.deleteVerification);
+  
+  // Target routes
+  app.post("/api/targets", targetController.createTarget);
+  app.get("/api/targets", targetController.getUserTargets);
+  app.get("/api/targets/:id", targetController.getTarget);
+  app.patch("/api/targets/:id", targetController.updateTarget);
+  app.delete("/api/targets/:id", targetController.deleteTarget);
+  
+  // Scan profile routes
+  app.get("/api/scan-profiles", scanProfileController.getScanProfiles);
+  app.post("/api/scan-profiles", scanProfileController.createScanProfile);
+  app.patch("/api/scan-profiles/:id", scanProfileController.updateScanProfile);
+  app.delete("/api/scan-profiles/:id", scanProfileController.deleteScanProfile);
+  
+  // Scan schedule routes
+  app.post("/api/schedules", scheduleController.createSchedule);
+  app.get("/api/schedules", scheduleController.getUserSchedules);
+  app.get("/api/schedules/:id", scheduleController.getSchedule);
+  app.get("/api/schedules/:id/runs", scheduleController.getScheduleRuns);
+  app.patch("/api/schedules/:id", scheduleController.updateSchedule);
+  app.delete("/api/schedules/:id", scheduleController.deleteSchedule);
+  
+  // Settings routes
+  app.get("/api/settings/crawl-limits", settingsController.getCrawlLimits);
+  app.put("/api/settings/crawl-limits", settingsController.updateCrawlLimits);
+  app.get("/api/settings/egress-policy", settingsController.getEgressPolicy);
+  app.put("/api/settings/egress-policy", settingsController.updateEgressPolicy);
+  app.get("/api/settings/js-advisories", settingsController.getJsAdvisories);
+  app.put("/api/settings/js-advisories", settingsController.updateJsAdvisories);
+  
+  // Check registry routes
+  app.get("/api/checks", checkController.getChecks);
+  app.patch("/api/checks/:id", checkController.updateCheck);
 
   const httpServer = createServer(app);
 
@@ -1,16 +1,24 @@
 import { 
   users, type User, type InsertUser,
   scans, type Scan, type InsertScan,
+  scanJobs, type ScanJob, type InsertScanJob,
   vulnerabilities, type Vulnerability, type InsertVulnerability,
   tasks, type Task, type InsertTask,
   customRules, type CustomRule, type InsertCustomRule,
   reports, type Report, type InsertReport,
-  securityEvents, type SecurityEvent, type InsertSecurityEvent
+  securityEvents, type SecurityEvent, type InsertSecurityEvent,
+  settings, type Setting, type InsertSetting,
+  targetVerifications, type TargetVerification, type InsertTargetVerification,
+  scanSchedules, type ScanSchedule, type InsertScanSchedule,
+  scanScheduleRuns, type ScanScheduleRun, type InsertScanScheduleRun,
+  targets, type Target, type InsertTarget,
+  scanProfiles, type ScanProfile, type InsertScanProfile,
+  issues, type Issue, type InsertIssue
 } from "@shared/schema";
 import createMemoryStore from "memorystore";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
-import { eq, and } from 'drizzle-orm';
+import { eq, and, or, lt, lte, asc, desc, inArray, isNull, sql } from 'drizzle-orm';
 import { db, pool } from './db';
 
 // Storage interface for all CRUD operations
@@ -26,16 +34,30 @@ export interface IStorage {
   createScan(scan: InsertScan): Promise<Scan>;
   getScan(id: number): Promise<Scan | undefined>;
   getScansByUserId(userId: number): Promise<Scan[]>;
+  getScansByStatus(statuses: string[]): Promise<Scan[]>;
+  getScansByTargetId(targetId: number): Promise<Scan[]>;
   updateScan(id: number, updates: Partial<Scan>): Promise<Scan | undefined>;
   deleteScan(id: number): Promise<boolean>;
   deleteAllScansByUserId(userId: number): Promise<boolean>;
   
+  // Scan job operations
+  createScanJob(job: InsertScanJob): Promise<ScanJob>;
+  getScanJobByScanId(scanId: number): Promise<ScanJob | undefined>;
+  updateScanJob(id: number, updates: Partial<ScanJob>): Promise<ScanJob | undefined>;
+  claimNextScanJob(workerId: string, leaseMs: number): Promise<ScanJob | undefined>;
+  renewScanJobLease(id: number, workerId: string, leaseMs: number): Promise<boolean>;
+  getExpiredScanJobs(now: Date): Promise<ScanJob[]>;
+  // Take over a running job whose lease has expired; undefined if another worker renewed or took it first
+  claimExpiredScanJob(id: number, workerId: string, leaseMs: number): Promise<ScanJob | undefined>;
+  
   // Vulnerability operations
   createVulnerability(vulnerability: InsertVulnerability): Promise<Vulnerability>;
   getVulnerability(id: number): Promise<Vulnerability | undefined>;
   getVulnerabilitiesByScanId(scanId: number): Promise<Vulnerability[]>;
   updateVulnerability(id: number, updates: Partial<Vulnerability>): Promise<Vulnerability | undefined>;
   deleteVulnerabilitiesByScanId(scanId: number): Promise<boolean>;
+  getVulnerabilitiesByIssueId(issueId: number): Promise<Vulnerability[]>;
+  updateVulnerabilitiesByIssueId(issueId: number, updates: Partial<Vulnerability>): Promise<void>;
   
   // Task operations
   createTask(task: InsertTask): Promise<Task>;
@@ -59,6 +81,54 @@ export interface IStorage {
   createSecurityEvent(event: InsertSecurityEvent): Promise<SecurityEvent>;
   getSecurityEventsByUserId(userId: number): Promise<SecurityEvent[]>;
   
+  // Settings operations
+  getSetting(key: string): Promise<Setting | undefined>;
+  upsertSetting(setting: InsertSetting): Promise<Setting>;
+  
+  // Target verification operations
+  createTargetVerification(verification: InsertTargetVerification): Promise<TargetVerification>;
+  getTargetVerification(id: number): Promise<TargetVerification | undefined>;
+  getTargetVerificationsByUserId(userId: number): Promise<TargetVerification[]>;
+  getTargetVerificationByHost(userId: number, host: string): Promise<TargetVerification | undefined>;
+  updateTargetVerification(id: number, updates: Partial<TargetVerification>): Promise<TargetVerification | undefined>;
+  deleteTargetVerification(id: number): Promise<boolean>;
+  
+  // Target operations
+  createTarget(target: InsertTarget): Promise<Target>;
+  getTarget(id: number): Promise<Target | undefined>;
+  getTargetsByUserId(userId: number): Promise<Target[]>;
+  updateTarget(id: number, updates: Partial<Target>): Promise<Target | undefined>;
+  // Scans of a deleted target are kept and unlinked
+  deleteTarget(id: number): Promise<boolean>;
+  
+  // Scan schedule operations
+  createScanSchedule(schedule: InsertScanSchedule): Promise<ScanSchedule>;
+  getScanSchedule(id: number): Promise<ScanSchedule | undefined>;
+  getScanSchedulesByUserId(userId: number): Promise<ScanSchedule[]>;
+  getDueScanSchedules(now: Date): Promise<ScanSchedule[]>;
+  updateScanSchedule(id: number, updates: Partial<ScanSchedule>): Promise<ScanSchedule | undefined>;
+  // Move nextRunAt forward only if it still has the expected value, so that one process runs each occurrence
+  claimScanScheduleRun(id: number, expectedNextRunAt: Date, nextRunAt: Date | null): Promise<boolean>;
+  deleteScanSchedule(id: number): Promise<boolean>;
+  createScanScheduleRun(run: InsertScanScheduleRun): Promise<ScanScheduleRun>;
+  getScanScheduleRuns(scheduleId: number, limit: number): Promise<ScanScheduleRun[]>;
+  
+  // Issue operations
+  createIssue(issue: InsertIssue): Promise<Issue>;
+  getIssue(id: number): Promise<Issue | undefined>;
+  getIssuesByUserId(userId: number): Promise<Issue[]>;
+  getIssuesByTargetId(targetId: number): Promise<Issue[]>;
+  getIssueByFingerprint(userId: number, fingerprint: string): Promise<Issue | undefined>;
+  updateIssue(id: number, updates: Partial<Issue>): Promise<Issue | undefined>;
+  
+  // Scan profile operations
+  createScanProfile(profile: InsertScanProfile): Promise<ScanProfile>;
+  getScanProfile(id: number): Promise<ScanProfile | undefined>;
+  getScanProfilesByUserId(userId: number): Promise<ScanProfile[]>;
+  updateScanProfile(id: number, updates: Partial<ScanProfile>): Promise<ScanProfile | undefined>;
+  // Scans keep a copy of the profile they ran with in their options
+  deleteScanProfile(id: number): Promise<boolean>;
+  
   // Session store
   sessionStore: session.Store;
 }
@@ -69,38 +139,68 @@ const MemoryStore = createMemoryStore(session);
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private scans: Map<number, Scan>;
+  private scanJobs: Map<number, ScanJob>;
   private vulnerabilities: Map<number, Vulnerability>;
   private tasks: Map<number, Task>;
   private customRules: Map<number, CustomRule>;
   private reports: Map<number, Report>;
   private securityEvents: Map<number, SecurityEvent>;
+  private settings: Map<string, Setting>;
+  private targetVerifications: Map<number, TargetVerification>;
+  private scanSchedules: Map<number, ScanSchedule>;
+  private targets: Map<number, Target>;
+  private scanScheduleRuns: Map<number, ScanScheduleRun>;
+  private issues: Map<number, Issue>;
+  private scanProfiles: Map<number, ScanProfile>;
   
   public sessionStore: session.Store;
   
   private userId: number;
   private scanId: number;
+  private scanJobId: number;
   private vulnerabilityId: number;
   private taskId: number;
   private customRuleId: number;
   private reportId: number;
   private securityEventId: number;
+  private targetVerificationId: number;
+  private scanScheduleId: number;
+  private targetId: number;
+  private scanScheduleRunId: number;
+  private issueId: number;
+  private scanProfileId: number;
 
   constructor() {
     this.users = new Map();
     this.scans = new Map();
+    this.scanJobs = new Map();
     this.vulnerabilities = new Map();
     this.tasks = new Map();
     this.customRules = new Map();
     this.reports = new Map();
     this.securityEvents = new Map();
+    this.settings = new Map();
+    this.targetVerifications = new Map();
+    this.scanSchedules = new Map();
+    this.targets = new Map();
+    this.scanScheduleRuns = new Map();
+    this.issues = new Map();
+    this.scanProfiles = new Map();
     
     this.userId = 1;
     this.scanId = 1;
+    this.scanJobId = 1;
     this.vulnerabilityId = 1;
     this.taskId = 1;
     this.customRuleId = 1;
     this.reportId = 1;
     this.securityEventId = 1;
+    this.targetVerificationId = 1;
+    this.scanScheduleId = 1;
+    this.targetId = 1;
+    this.scanScheduleRunId = 1;
+    this.issueId = 1;
+    this.scanProfileId = 1;
     
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000, // prune expired entries every day
@@ -162,6 +262,10 @@ export class MemStorage implements IStorage {
       startedAt, 
       completedAt: null, 
       result: null,
+      options: insertScan.options ?? null,
+      scheduleId: insertScan.scheduleId ?? null,
+      targetId: insertScan.targetId ?? null,
+      profileId: insertScan.profileId ?? null,
       useAuthentication,
       includeCustomRules
     };
@@ -179,6 +283,18 @@ export class MemStorage implements IStorage {
     );
   }
   
+  async getScansByStatus(statuses: string[]): Promise<Scan[]> {
+    return Array.from(this.scans.values()).filter(
+      (scan) => statuses.includes(scan.status),
+    );
+  }
+  
+  async getScansByTargetId(targetId: number): Promise<Scan[]> {
+    return Array.from(this.scans.values()).filter(
+      (scan) => scan.targetId === targetId,
+    );
+  }
+  
   async updateScan(id: number, updates: Partial<Scan>): Promise<Scan | undefined> {
     const scan = this.scans.get(id);
     if (!scan) return undefined;
@@ -192,6 +308,13 @@ export class MemStorage implements IStorage {
     // スキャン自体を削除
     const deleted = this.scans.delete(id);
     
+    // 関連するスキャンジョブを削除
+    for (const job of Array.from(this.scanJobs.values())) {
+      if (job.scanId === id) {
+        this.scanJobs.delete(job.id);
+      }
+    }
+    
     // 関連する脆弱性を削除
     await this.deleteVulnerabilitiesByScanId(id);
     
@@ -210,6 +333,83 @@ export class MemStorage implements IStorage {
     return true;
   }
   
+  // Scan job operations
+  async createScanJob(insertJob: InsertScanJob): Promise<ScanJob> {
+    const id = this.scanJobId++;
+    const createdAt = new Date();
+    
+    const job: ScanJob = {
+      scanId: insertJob.scanId,
+      id,
+      status: insertJob.status || 'queued',
+      control: null,
+      checkpoint: null,
+      attempts: 0,
+      maxAttempts: insertJob.maxAttempts ?? 3,
+      runAt: insertJob.runAt ?? createdAt,
+      lockedBy: null,
+      lockedUntil: null,
+      lastError: null,
+      createdAt,
+      updatedAt: createdAt,
+    };
+    this.scanJobs.set(id, job);
+    return job;
+  }
+  
+  async getScanJobByScanId(scanId: number): Promise<ScanJob | undefined> {
+    // 同じスキャンに複数のジョブがある場合は最新のものを返す
+    return Array.from(this.scanJobs.values())
+      .filter((job) => job.scanId === scanId)
+      .sort((a, b) => b.id - a.id)[0];
+  }
+  
+  async updateScanJob(id: number, updates: Partial<ScanJob>): Promise<ScanJob | undefined> {
+    const job = this.scanJobs.get(id);
+    if (!job) return undefined;
+    
+    const updatedJob = { ...job, ...updates, updatedAt: new Date() };
+    this.scanJobs.set(id, updatedJob);
+    return updatedJob;
+  }
+  
+  async claimNextScanJob(workerId: string, leaseMs: number): Promise<ScanJob | undefined> {
+    const now = new Date();
+    const next = Array.from(this.scanJobs.values())
+      .filter((job) => job.status === 'queued' && job.runAt <= now)
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())[0];
+    if (!next) return undefined;
+    
+    return this.updateScanJob(next.id, {
+      status: 'running',
+      attempts: next.attempts + 1,
+      lockedBy: workerId,
+      lockedUntil: new Date(now.getTime() + leaseMs),
+    });
+  }
+  
+  async renewScanJobLease(id: number, workerId: string, leaseMs: number): Promise<boolean> {
+    const job = this.scanJobs.get(id);
+    if (!job || job.status !== 'running' || job.lockedBy !== workerId) return false;
+    
+    await this.updateScanJob(id, { lockedUntil: new Date(Date.now() + leaseMs) });
+    return true;
+  }
+  
+  async getExpiredScanJobs(now: Date): Promise<ScanJob[]> {
+    return Array.from(this.scanJobs.values()).filter(
+      (job) => job.status === 'running' && (!job.lockedUntil || job.lockedUntil < now),
+    );
+  }
+  
+  async claimExpiredScanJob(id: number, workerId: string, leaseMs: number): Promise<ScanJob | undefined> {
+    const now = new Date();
+    const job = this.scanJobs.get(id);
+    if (!job || job.status !== 'running' || (job.lockedUntil && job.lockedUntil >= now)) return undefined;
+    
+    return this.updateScanJob(id, { lockedBy: workerId, lockedUntil: new Date(now.getTime() + leaseMs) });
+  }
+  
   // Vulnerability operations
   async createVulnerability(insertVulnerability: InsertVulnerability): Promise<Vulnerability> {
     const id = this.vulnerabilityId++;
@@ -224,7 +424,16 @@ export class MemStorage implements IStorage {
       createdAt, 
       updatedAt: createdAt,
       status,
-      details
+      details,
+      checkId: insertVulnerability.checkId ?? null,
+      fingerprint: insertVulnerability.fingerprint ?? null,
+      issueId: insertVulnerability.issueId ?? null,
+      retestedAt: null,
+      retestResult: null,
+      cweIds: insertVulnerability.cweIds ?? null,
+      owaspCategory: insertVulnerability.owaspCategory ?? null,
+      cvssVector: insertVulnerability.cvssVector ?? null,
+      cvssScore: insertVulnerability.cvssScore ?? null,
     };
     this.vulnerabilities.set(id, vulnerability);
     return vulnerability;
@@ -265,6 +474,18 @@ export class MemStorage implements IStorage {
     return true;
   }
   
+  async getVulnerabilitiesByIssueId(issueId: number): Promise<Vulnerability[]> {
+    return Array.from(this.vulnerabilities.values()).filter(
+      (vulnerability) => vulnerability.issueId === issueId,
+    );
+  }
+  
+  async updateVulnerabilitiesByIssueId(issueId: number, updates: Partial<Vulnerability>): Promise<void> {
+    for (const vulnerability of await this.getVulnerabilitiesByIssueId(issueId)) {
+      this.vulnerabilities.set(vulnerability.id, { ...vulnerability, ...updates, updatedAt: new Date() });
+    }
+  }
+  
   // Task operations
   async createTask(insertTask: InsertTask): Promise<Task> {
     const id = this.taskId++;
@@ -412,6 +633,292 @@ export class MemStorage implements IStorage {
       (event) => !event.userId || event.userId === userId,
     );
   }
+  
+  // Settings operations
+  async getSetting(key: string): Promise<Setting | undefined> {
+    return this.settings.get(key);
+  }
+  
+  async upsertSetting(insertSetting: InsertSetting): Promise<Setting> {
+    const setting: Setting = {
+      key: insertSetting.key,
+      value: insertSetting.value,
+      updatedBy: insertSetting.updatedBy ?? null,
+      updatedAt: new Date(),
+    };
+    this.settings.set(setting.key, setting);
+    return setting;
+  }
+  
+  // Target verification operations
+  async createTargetVerification(insertVerification: InsertTargetVerification): Promise<TargetVerification> {
+    const id = this.targetVerificationId++;
+    const verification: TargetVerification = {
+      ...insertVerification,
+      id,
+      status: insertVerification.status || 'pending',
+      method: null,
+      verifiedAt: null,
+      verifiedUntil: null,
+      lastCheckedAt: null,
+      lastError: null,
+      createdAt: new Date(),
+    };
+    this.targetVerifications.set(id, verification);
+    return verification;
+  }
+  
+  async getTargetVerification(id: number): Promise<TargetVerification | undefined> {
+    return this.targetVerifications.get(id);
+  }
+  
+  async getTargetVerificationsByUserId(userId: number): Promise<TargetVerification[]> {
+    return Array.from(this.targetVerifications.values()).filter(
+      (verification) => verification.userId === userId,
+    );
+  }
+  
+  async getTargetVerificationByHost(userId: number, host: string): Promise<TargetVerification | undefined> {
+    return Array.from(this.targetVerifications.values()).find(
+      (verification) => verification.userId === userId && verification.host === host,
+    );
+  }
+  
+  async updateTargetVerification(id: number, updates: Partial<TargetVerification>): Promise<TargetVerification | undefined> {
+    const verification = this.targetVerifications.get(id);
+    if (!verification) return undefined;
+    
+    const updatedVerification = { ...verification, ...updates };
+    this.targetVerifications.set(id, updatedVerification);
+    return updatedVerification;
+  }
+  
+  async deleteTargetVerification(id: number): Promise<boolean> {
+    return this.targetVerifications.delete(id);
+  }
+  
+  // Target operations
+  async createTarget(insertTarget: InsertTarget): Promise<Target> {
+    const id = this.targetId++;
+    const target: Target = {
+      ...insertTarget,
+      id,
+      environment: insertTarget.environment || 'production',
+      criticality: insertTarget.criticality || 'medium',
+      createdAt: new Date(),
+      updatedAt: null,
+    };
+    this.targets.set(id, target);
+    return target;
+  }
+  
+  async getTarget(id: number): Promise<Target | undefined> {
+    return this.targets.get(id);
+  }
+  
+  async getTargetsByUserId(userId: number): Promise<Target[]> {
+    return Array.from(this.targets.values()).filter(
+      (target) => target.userId === userId,
+    );
+  }
+  
+  async updateTarget(id: number, updates: Partial<Target>): Promise<Target | undefined> {
+    const target = this.targets.get(id);
+    if (!target) return undefined;
+    
+    const updatedTarget = { ...target, ...updates, updatedAt: new Date() };
+    this.targets.set(id, updatedTarget);
+    return updatedTarget;
+  }
+  
+  async deleteTarget(id: number): Promise<boolean> {
+    for (const scan of Array.from(this.scans.values())) {
+      if (scan.targetId === id) {
+        this.scans.set(scan.id, { ...scan, targetId: null });
+      }
+    }
+    for (const issue of Array.from(this.issues.values())) {
+      if (issue.targetId === id) {
+        this.issues.set(issue.id, { ...issue, targetId: null });
+      }
+    }
+    return this.targets.delete(id);
+  }
+  
+  // Scan schedule operations
+  async createScanSchedule(insertSchedule: InsertScanSchedule): Promise<ScanSchedule> {
+    const id = this.scanScheduleId++;
+    const schedule: ScanSchedule = {
+      ...insertSchedule,
+      id,
+      timezone: insertSchedule.timezone || 'UTC',
+      enabled: insertSchedule.enabled ?? true,
+      nextRunAt: insertSchedule.nextRunAt ?? null,
+      lastRunAt: null,
+      lastRunStatus: null,
+      lastRunReason: null,
+      lastScanId: null,
+      createdAt: new Date(),
+      updatedAt: null,
+    };
+    this.scanSchedules.set(id, schedule);
+    return schedule;
+  }
+  
+  async getScanSchedule(id: number): Promise<ScanSchedule | undefined> {
+    return this.scanSchedules.get(id);
+  }
+  
+  async getScanSchedulesByUserId(userId: number): Promise<ScanSchedule[]> {
+    return Array.from(this.scanSchedules.values()).filter(
+      (schedule) => schedule.userId === userId,
+    );
+  }
+  
+  async getDueScanSchedules(now: Date): Promise<ScanSchedule[]> {
+    return Array.from(this.scanSchedules.values()).filter(
+      (schedule) => schedule.enabled && !!schedule.nextRunAt && schedule.nextRunAt <= now,
+    );
+  }
+  
+  async updateScanSchedule(id: number, updates: Partial<ScanSchedule>): Promise<ScanSchedule | undefined> {
+    const schedule = this.scanSchedules.get(id);
+    if (!schedule) return undefined;
+    
+    const updatedSchedule = { ...schedule, ...updates, updatedAt: new Date() };
+    this.scanSchedules.set(id, updatedSchedule);
+    return updatedSchedule;
+  }
+  
+  async claimScanScheduleRun(id: number, expectedNextRunAt: Date, nextRunAt: Date | null): Promise<boolean> {
+    const schedule = this.scanSchedules.get(id);
+    if (!schedule || schedule.nextRunAt?.getTime() !== expectedNextRunAt.getTime()) return false;
+    
+    await this.updateScanSchedule(id, { nextRunAt });
+    return true;
+  }
+  
+  async deleteScanSchedule(id: number): Promise<boolean> {
+    for (const run of Array.from(this.scanScheduleRuns.values())) {
+      if (run.scheduleId === id) {
+        this.scanScheduleRuns.delete(run.id);
+      }
+    }
+    return this.scanSchedules.delete(id);
+  }
+  
+  async createScanScheduleRun(insertRun: InsertScanScheduleRun): Promise<ScanScheduleRun> {
+    const id = this.scanScheduleRunId++;
+    const run: ScanScheduleRun = {
+      ...insertRun,
+      id,
+      scanId: insertRun.scanId ?? null,
+      reason: insertRun.reason ?? null,
+      createdAt: new Date(),
+    };
+    this.scanScheduleRuns.set(id, run);
+    return run;
+  }
+  
+  async getScanScheduleRuns(scheduleId: number, limit: number): Promise<ScanScheduleRun[]> {
+    return Array.from(this.scanScheduleRuns.values())
+      .filter((run) => run.scheduleId === scheduleId)
+      .sort((a, b) => b.scheduledFor.getTime() - a.scheduledFor.getTime())
+      .slice(0, limit);
+  }
+  
+  // Issue operations
+  async createIssue(insertIssue: InsertIssue): Promise<Issue> {
+    const id = this.issueId++;
+    const createdAt = new Date();
+    const issue: Issue = {
+      ...insertIssue,
+      id,
+      targetId: insertIssue.targetId ?? null,
+      parameter: insertIssue.parameter ?? null,
+      status: insertIssue.status || 'pending',
+      occurrenceCount: insertIssue.occurrenceCount ?? 1,
+      resolvedAt: null,
+      resolvedByScanId: null,
+      regressionCount: 0,
+      reopenedAt: null,
+      createdAt,
+      updatedAt: null,
+    };
+    this.issues.set(id, issue);
+    return issue;
+  }
+  
+  async getIssue(id: number): Promise<Issue | undefined> {
+    return this.issues.get(id);
+  }
+  
+  async getIssuesByUserId(userId: number): Promise<Issue[]> {
+    return Array.from(this.issues.values())
+      .filter((issue) => issue.userId === userId)
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+  }
+  
+  async getIssuesByTargetId(targetId: number): Promise<Issue[]> {
+    return Array.from(this.issues.values()).filter(
+      (issue) => issue.targetId === targetId,
+    );
+  }
+  
+  async getIssueByFingerprint(userId: number, fingerprint: string): Promise<Issue | undefined> {
+    return Array.from(this.issues.values()).find(
+      (issue) => issue.userId === userId && issue.fingerprint === fingerprint,
+    );
+  }
+  
+  async updateIssue(id: number, updates: Partial<Issue>): Promise<Issue | undefined> {
+    const issue = this.issues.get(id);
+    if (!issue) return undefined;
+    
+    const updatedIssue = { ...issue, ...updates, updatedAt: new Date() };
+    this.issues.set(id, updatedIssue);
+    return updatedIssue;
+  }
+  
+  // Scan profile operations
+  async createScanProfile(insertProfile: InsertScanProfile): Promise<ScanProfile> {
+    const id = this.scanProfileId++;
+    const profile: ScanProfile = {
+      ...insertProfile,
+      id,
+      description: insertProfile.description ?? null,
+      followLinks: insertProfile.followLinks ?? true,
+      crawl: insertProfile.crawl ?? null,
+      allowActiveChecks: insertProfile.allowActiveChecks ?? false,
+      createdAt: new Date(),
+      updatedAt: null,
+    };
+    this.scanProfiles.set(id, profile);
+    return profile;
+  }
+  
+  async getScanProfile(id: number): Promise<ScanProfile | undefined> {
+    return this.scanProfiles.get(id);
+  }
+  
+  async getScanProfilesByUserId(userId: number): Promise<ScanProfile[]> {
+    return Array.from(this.scanProfiles.values())
+      .filter((profile) => profile.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async updateScanProfile(id: number, updates: Partial<ScanProfile>): Promise<ScanProfile | undefined> {
+    const profile = this.scanProfiles.get(id);
+    if (!profile) return undefined;
+    
+    const updatedProfile = { ...profile, ...updates, updatedAt: new Date() };
+    this.scanProfiles.set(id, updatedProfile);
+    return updatedProfile;
+  }
+  
+  async deleteScanProfile(id: number): Promise<boolean> {
+    return this.scanProfiles.delete(id);
+  }
 }
 
 // PostgreSQL database implementation
@@ -507,6 +1014,18 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
+  async getScansByStatus(statuses: string[]): Promise<Scan[]> {
+    return await this.db.query.scans.findMany({
+      where: inArray(scans.status, statuses)
+    });
+  }
+
+  async getScansByTargetId(targetId: number): Promise<Scan[]> {
+    return await this.db.query.scans.findMany({
+      where: eq(scans.targetId, targetId)
+    });
+  }
+
   async updateScan(id: number, updates: Partial<Scan>): Promise<Scan | undefined> {
     const result = await this.db.update(scans)
       .set(updates)
@@ -519,6 +1038,10 @@ export class DatabaseStorage implements IStorage {
     // 関連する脆弱性を削除
     await this.deleteVulnerabilitiesByScanId(id);
     
+    // 関連するスキャンジョブを削除
+    await this.db.delete(scanJobs)
+      .where(eq(scanJobs.scanId, id));
+    
     // スキャン自体を削除
     const result = await this.db.delete(scans)
       .where(eq(scans.id, id))
@@ -539,6 +1062,104 @@ export class DatabaseStorage implements IStorage {
     return true;
   }
 
+  // Scan job operations
+  async createScanJob(job: InsertScanJob): Promise<ScanJob> {
+    const now = new Date();
+    // Set default values for required fields
+    const insertData = {
+      ...job,
+      status: job.status || 'queued',
+      runAt: job.runAt ?? now,
+      createdAt: now,
+      updatedAt: now
+    };
+    
+    const result = await this.db.insert(scanJobs)
+      .values(insertData)
+      .returning();
+    return result[0];
+  }
+
+  async getScanJobByScanId(scanId: number): Promise<ScanJob | undefined> {
+    const result = await this.db.query.scanJobs.findFirst({
+      where: eq(scanJobs.scanId, scanId),
+      orderBy: desc(scanJobs.id)
+    });
+    return result || undefined;
+  }
+
+  async updateScanJob(id: number, updates: Partial<ScanJob>): Promise<ScanJob | undefined> {
+    const result = await this.db.update(scanJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(scanJobs.id, id))
+      .returning();
+    return result[0] || undefined;
+  }
+
+  async claimNextScanJob(workerId: string, leaseMs: number): Promise<ScanJob | undefined> {
+    const now = new Date();
+    
+    // SKIP LOCKEDで他のワーカーが取得中の行を飛ばし、1件だけ原子的に取得する
+    const candidate = this.db.select({ id: scanJobs.id })
+      .from(scanJobs)
+      .where(and(eq(scanJobs.status, 'queued'), lte(scanJobs.runAt, now)))
+      .orderBy(asc(scanJobs.runAt))
+      .limit(1)
+      .for('update', { skipLocked: true });
+    
+    const result = await this.db.update(scanJobs)
+      .set({
+        status: 'running',
+        attempts: sql`${scanJobs.attempts} + 1`,
+        lockedBy: workerId,
+        lockedUntil: new Date(now.getTime() + leaseMs),
+        updatedAt: now
+      })
+      .where(inArray(scanJobs.id, candidate))
+      .returning();
+    return result[0] || undefined;
+  }
+
+  async renewScanJobLease(id: number, workerId: string, leaseMs: number): Promise<boolean> {
+    const result = await this.db.update(scanJobs)
+      .set({ lockedUntil: new Date(Date.now() + leaseMs) })
+      .where(and(
+        eq(scanJobs.id, id),
+        eq(scanJobs.status, 'running'),
+        eq(scanJobs.lockedBy, workerId)
+      ))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getExpiredScanJobs(now: Date): Promise<ScanJob[]> {
+    return await this.db.query.scanJobs.findMany({
+      where: and(
+        eq(scanJobs.status, 'running'),
+        or(isNull(scanJobs.lockedUntil), lt(scanJobs.lockedUntil, now))
+      )
+    });
+  }
+
+  async claimExpiredScanJob(id: number, workerId: string, leaseMs: number): Promise<ScanJob | undefined> {
+    const now = new Date();
+    
+    // 期限切れの条件ごと更新するので、同時に回復しようとしたプロセスのうち1つだけが取得できる
+    const result = await this.db.update(scanJobs)
+      .set({
+        lockedBy: workerId,
+        lockedUntil: new Date(now.getTime() + leaseMs),
+        updatedAt: now
+      })
+      .where(and(
+        eq(scanJobs.id, id),
+        eq(scanJobs.status, 'running'),
+        or(isNull(scanJobs.lockedUntil), lt(scanJobs.lockedUntil, now))
+      ))
+      .returning();
+    return result[0] || undefined;
+  }
+
   // Vulnerability operations
   async createVulnerability(vulnerability: InsertVulnerability): Promise<Vulnerability> {
     const now = new Date();
@@ -585,6 +1206,18 @@ export class DatabaseStorage implements IStorage {
     return true;
   }
 
+  async getVulnerabilitiesByIssueId(issueId: number): Promise<Vulnerability[]> {
+    return await this.db.select()
+      .from(vulnerabilities)
+      .where(eq(vulnerabilities.issueId, issueId));
+  }
+
+  async updateVulnerabilitiesByIssueId(issueId: number, updates: Partial<Vulnerability>): Promise<void> {
+    await this.db.update(vulnerabilities)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(vulnerabilities.issueId, issueId));
+  }
+
   // Task operations
   async createTask(task: InsertTask): Promise<Task> {
     const now = new Date();
@@ -720,6 +1353,262 @@ export class DatabaseStorage implements IStorage {
       where: eq(securityEvents.userId, userId)
     });
   }
+
+  // Settings operations
+  async getSetting(key: string): Promise<Setting | undefined> {
+    const result = await this.db.select()
+      .from(settings)
+      .where(eq(settings.key, key));
+    return result[0];
+  }
+
+  async upsertSetting(setting: InsertSetting): Promise<Setting> {
+    const updatedAt = new Date();
+    const result = await this.db.insert(settings)
+      .values({ ...setting, updatedAt })
+      .onConflictDoUpdate({
+        target: settings.key,
+        set: { value: setting.value, updatedBy: setting.updatedBy ?? null, updatedAt },
+      })
+      .returning();
+    return result[0];
+  }
+
+  // Target verification operations
+  async createTargetVerification(verification: InsertTargetVerification): Promise<TargetVerification> {
+    const result = await this.db.insert(targetVerifications)
+      .values({ ...verification, createdAt: new Date() })
+      .returning();
+    return result[0];
+  }
+
+  async getTargetVerification(id: number): Promise<TargetVerification | undefined> {
+    const result = await this.db.select()
+      .from(targetVerifications)
+      .where(eq(targetVerifications.id, id));
+    return result[0];
+  }
+
+  async getTargetVerificationsByUserId(userId: number): Promise<TargetVerification[]> {
+    return await this.db.select()
+      .from(targetVerifications)
+      .where(eq(targetVerifications.userId, userId))
+      .orderBy(asc(targetVerifications.host));
+  }
+
+  async getTargetVerificationByHost(userId: number, host: string): Promise<TargetVerification | undefined> {
+    const result = await this.db.select()
+      .from(targetVerifications)
+      .where(and(eq(targetVerifications.userId, userId), eq(targetVerifications.host, host)));
+    return result[0];
+  }
+
+  async updateTargetVerification(id: number, updates: Partial<TargetVerification>): Promise<TargetVerification | undefined> {
+    const result = await this.db.update(targetVerifications)
+      .set(updates)
+      .where(eq(targetVerifications.id, id))
+      .returning();
+    return result[0] || undefined;
+  }
+
+  async deleteTargetVerification(id: number): Promise<boolean> {
+    const result = await this.db.delete(targetVerifications)
+      .where(eq(targetVerifications.id, id))
+      .returning();
+    return result.length > 0;
+  }
+
+  // Target operations
+  async createTarget(target: InsertTarget): Promise<Target> {
+    const result = await this.db.insert(targets)
+      .values({ ...target, createdAt: new Date() })
+      .returning();
+    return result[0];
+  }
+
+  async getTarget(id: number): Promise<Target | undefined> {
+    const result = await this.db.select()
+      .from(targets)
+      .where(eq(targets.id, id));
+    return result[0];
+  }
+
+  async getTargetsByUserId(userId: number): Promise<Target[]> {
+    return await this.db.select()
+      .from(targets)
+      .where(eq(targets.userId, userId))
+      .orderBy(asc(targets.name));
+  }
+
+  async updateTarget(id: number, updates: Partial<Target>): Promise<Target | undefined> {
+    const result = await this.db.update(targets)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(targets.id, id))
+      .returning();
+    return result[0] || undefined;
+  }
+
+  async deleteTarget(id: number): Promise<boolean> {
+    await this.db.update(scans)
+      .set({ targetId: null })
+      .where(eq(scans.targetId, id));
+    await this.db.update(issues)
+      .set({ targetId: null })
+      .where(eq(issues.targetId, id));
+    const result = await this.db.delete(targets)
+      .where(eq(targets.id, id))
+      .returning();
+    return result.length > 0;
+  }
+
+  // Scan schedule operations
+  async createScanSchedule(schedule: InsertScanSchedule): Promise<ScanSchedule> {
+    const result = await this.db.insert(scanSchedules)
+      .values({ ...schedule, createdAt: new Date() })
+      .returning();
+    return result[0];
+  }
+
+  async getScanSchedule(id: number): Promise<ScanSchedule | undefined> {
+    const result = await this.db.select()
+      .from(scanSchedules)
+      .where(eq(scanSchedules.id, id));
+    return result[0];
+  }
+
+  async getScanSchedulesByUserId(userId: number): Promise<ScanSchedule[]> {
+    return await this.db.select()
+      .from(scanSchedules)
+      .where(eq(scanSchedules.userId, userId))
+      .orderBy(asc(scanSchedules.id));
+  }
+
+  async getDueScanSchedules(now: Date): Promise<ScanSchedule[]> {
+    return await this.db.select()
+      .from(scanSchedules)
+      .where(and(eq(scanSchedules.enabled, true), lte(scanSchedules.nextRunAt, now)))
+      .orderBy(asc(scanSchedules.nextRunAt));
+  }
+
+  async updateScanSchedule(id: number, updates: Partial<ScanSchedule>): Promise<ScanSchedule | undefined> {
+    const result = await this.db.update(scanSchedules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(scanSchedules.id, id))
+      .returning();
+    return result[0] || undefined;
+  }
+
+  async claimScanScheduleRun(id: number, expectedNextRunAt: Date, nextRunAt: Date | null): Promise<boolean> {
+    const result = await this.db.update(scanSchedules)
+      .set({ nextRunAt, updatedAt: new Date() })
+      .where(and(eq(scanSchedules.id, id), eq(scanSchedules.nextRunAt, expectedNextRunAt)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async deleteScanSchedule(id: number): Promise<boolean> {
+    await this.db.delete(scanScheduleRuns)
+      .where(eq(scanScheduleRuns.scheduleId, id));
+    const result = await this.db.delete(scanSchedules)
+      .where(eq(scanSchedules.id, id))
+      .returning();
+    return result.length > 0;
+  }
+
+  async createScanScheduleRun(run: InsertScanScheduleRun): Promise<ScanScheduleRun> {
+    const result = await this.db.insert(scanScheduleRuns)
+      .values({ ...run, createdAt: new Date() })
+      .returning();
+    return result[0];
+  }
+
+  async getScanScheduleRuns(scheduleId: number, limit: number): Promise<ScanScheduleRun[]> {
+    return await this.db.select()
+      .from(scanScheduleRuns)
+      .where(eq(scanScheduleRuns.scheduleId, scheduleId))
+      .orderBy(desc(scanScheduleRuns.scheduledFor))
+      .limit(limit);
+  }
+
+  // Issue operations
+  async createIssue(issue: InsertIssue): Promise<Issue> {
+    const result = await this.db.insert(issues)
+      .values({ ...issue, createdAt: new Date() })
+      .returning();
+    return result[0];
+  }
+
+  async getIssue(id: number): Promise<Issue | undefined> {
+    const result = await this.db.select()
+      .from(issues)
+      .where(eq(issues.id, id));
+    return result[0];
+  }
+
+  async getIssuesByUserId(userId: number): Promise<Issue[]> {
+    return await this.db.select()
+      .from(issues)
+      .where(eq(issues.userId, userId))
+      .orderBy(desc(issues.lastSeenAt));
+  }
+
+  async getIssuesByTargetId(targetId: number): Promise<Issue[]> {
+    return await this.db.select()
+      .from(issues)
+      .where(eq(issues.targetId, targetId));
+  }
+
+  async getIssueByFingerprint(userId: number, fingerprint: string): Promise<Issue | undefined> {
+    const result = await this.db.select()
+      .from(issues)
+      .where(and(eq(issues.userId, userId), eq(issues.fingerprint, fingerprint)));
+    return result[0];
+  }
+
+  async updateIssue(id: number, updates: Partial<Issue>): Promise<Issue | undefined> {
+    const result = await this.db.update(issues)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(issues.id, id))
+      .returning();
+    return result[0] || undefined;
+  }
+
+  // Scan profile operations
+  async createScanProfile(profile: InsertScanProfile): Promise<ScanProfile> {
+    const result = await this.db.insert(scanProfiles)
+      .values({ ...profile, createdAt: new Date() })
+      .returning();
+    return result[0];
+  }
+
+  async getScanProfile(id: number): Promise<ScanProfile | undefined> {
+    const result = await this.db.select()
+      .from(scanProfiles)
+      .where(eq(scanProfiles.id, id));
+    return result[0];
+  }
+
+  async getScanProfilesByUserId(userId: number): Promise<ScanProfile[]> {
+    return await this.db.select()
+      .from(scanProfiles)
+      .where(eq(scanProfiles.userId, userId))
+      .orderBy(asc(scanProfiles.name));
+  }
+
+  async updateScanProfile(id: number, updates: Partial<ScanProfile>): Promise<ScanProfile | undefined> {
+    const result = await this.db.update(scanProfiles)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(scanProfiles.id, id))
+      .returning();
+    return result[0] || undefined;
+  }
+
+  async deleteScanProfile(id: number): Promise<boolean> {
+    const result = await this.db.delete(scanProfiles)
+      .where(eq(scanProfiles.id, id))
+      .returning();
+    return result.length > 0;
+  }
 }
 
 // メモリストレージからデータベースストレージに切り替え
@@ -0,0 +1,3 @@
+// Loaded before every test file. db.ts refuses to load without a database URL; tests never query
+// the database, so any URL will do
+process.env.DATABASE_URL ??= 'postgres://test@127.0.0.1:1/test';
@@ -0,0 +1,90 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+
+// A deliberately vulnerable app for the SQL injection probes, listening on a free local port.
+//   /products/error?id=1  shows the MySQL error of a query the id breaks
+//   /products/blind?id=1  evaluates conditions appended to the id but shows no errors
+//   /products/safe?id=1   looks the id up as a bound parameter
+//   /search?q=shoes       echoes the search term into a results page that never changes with it
+//   / and /about          both have a product lookup form that submits to /products/error
+
+const products: Record<number, string> = {
+  1: 'Blue running shoes, lightweight mesh upper with a cushioned sole',
+  2: 'Red rain jacket, waterproof shell with taped seams and a hood',
+};
+
+function page(title: string, content: string): string {
+  return `<!DOCTYPE html><html><head><title>${title}</title></head><body>
+<nav><a href="/">Home</a> <a href="/products">Products</a> <a href="/about">About us</a></nav>
+<h1>${title}</h1>
+<main>${content}</main>
+<footer>Example Store, 1 Market Street. Free returns within thirty days of delivery.</footer>
+</body></html>`;
+}
+
+function productPage(id: number | null): { status: number; body: string } {
+  if (id === null || !products[id]) {
+    return { status: 404, body: page('Not found', '<p>No product matches your request.</p>') };
+  }
+  return { status: 200, body: page(`Product ${id}`, `<p>${products[id]}</p><p>In stock, ships tomorrow.</p>`) };
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+// What `SELECT * FROM products WHERE id = ${value}` would do: the id, or a syntax error for stray quotes
+function evaluateNumericCondition(value: string): { id: number | null; syntaxError: boolean } {
+  const condition = value.match(/^(\d+)(?: AND (\d+)=(\d+))?$/);
+  if (condition) {
+    const holds = condition[2] === undefined || condition[2] === condition[3];
+    return { id: holds ? Number(condition[1]) : null, syntaxError: false };
+  }
+  // Doubled quotes are an escaped quote inside a string, which compares unequal to every id
+  const unbalanced = (value.replace(/''/g, '').match(/'/g) || []).length % 2 === 1;
+  return { id: null, syntaxError: unbalanced };
+}
+
+function route(path: string, params: URLSearchParams): { status: number; body: string } {
+  const value = params.get('id') ?? '';
+  switch (path) {
+    case '/products/error': {
+      const { id, syntaxError } = evaluateNumericCondition(value);
+      if (syntaxError) {
+        return {
+          status: 500,
+          body: page('Error', `<pre>You have an error in your SQL syntax; check the manual that corresponds to your MySQL server version for the right syntax to use near '${escapeHtml(value)}' at line 1</pre>`),
+        };
+      }
+      return productPage(id);
+    }
+    case '/products/blind':
+      return productPage(evaluateNumericCondition(value).id);
+    case '/products/safe':
+      return productPage(/^\d+$/.test(value) ? Number(value) : null);
+    case '/search': {
+      const term = escapeHtml(params.get('q') ?? '');
+      return { status: 200, body: page('Search', `<p>Results for ${term}</p><ul><li>${products[1]}</li><li>${products[2]}</li></ul>`) };
+    }
+    case '/':
+    case '/about':
+      return {
+        status: 200,
+        body: page(path === '/' ? 'Home' : 'About us', '<form action="/products/error"><input name="id" value="1"><button>Look up</button></form>'),
+      };
+    default:
+      return { status: 404, body: page('Not found', '<p>No page here.</p>') };
+  }
+}
+
+export async function startSqliFixture(): Promise<{ baseUrl: string; server: Server }> {
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const { status, body } = route(url.pathname, url.searchParams);
+    res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(body);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { baseUrl: `http://127.0.0.1:${port}`, server };
+}
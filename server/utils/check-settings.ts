@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+import { CheckInfo, vulnerabilityDetector } from './vulnerability-detector';
+
+export const DISABLED_CHECKS_SETTING_KEY = 'disabled-checks';
+
+// Admin-managed ids of the built-in checks that scans leave out
+const disabledChecksSchema = z.array(z.string());
+
+export interface CheckListing extends CheckInfo {
+  enabled: boolean;
+}
+
+export async function getDisabledChecks(): Promise<string[]> {
+  const setting = await storage.getSetting(DISABLED_CHECKS_SETTING_KEY);
+  if (!setting) {
+    return [];
+  }
+
+  // A malformed stored list should not block scans; run every check
+  const parsed = disabledChecksSchema.safeParse(setting.value);
+  if (!parsed.success) {
+    console.error('Invalid disabled checks in settings, running all checks:', parsed.error.message);
+    return [];
+  }
+  return parsed.data;
+}
+
+// Every built-in check with whether scans run it
+export async function listChecks(): Promise<CheckListing[]> {
+  const disabled = new Set(await getDisabledChecks());
+  return vulnerabilityDetector.listChecks().map((check) => ({ ...check, enabled: !disabled.has(check.id) }));
+}
+
+export async function setCheckEnabled(checkId: string, enabled: boolean, updatedBy: number): Promise<void> {
+  const disabled = new Set(await getDisabledChecks());
+  if (enabled) {
+    disabled.delete(checkId);
+  } else {
+    disabled.add(checkId);
+  }
+
+  await storage.upsertSetting({
+    key: DISABLED_CHECKS_SETTING_KEY,
+    value: Array.from(disabled).sort(),
+    updatedBy,
+  });
+}
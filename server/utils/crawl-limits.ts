@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+import { ABSOLUTE_MAX_PAGES, CrawlLimitInfo, PageLimit, pageLimitSchema } from './scan-options';
+
+export const CRAWL_LIMITS_SETTING_KEY = 'crawl-limits';
+
+// Admin-managed crawl limits policy
+export const crawlLimitsPolicySchema = z.object({
+  // Maximum pages per scan for each user role; "unlimited" lets the role use the safety ceiling
+  roleMaximums: z.record(z.string(), pageLimitSchema),
+  // Maximum for roles that are not listed in roleMaximums
+  defaultMaximum: pageLimitSchema,
+  // Page count that an unlimited crawl stops at
+  unlimitedCeiling: z.number().int().positive().max(ABSOLUTE_MAX_PAGES),
+});
+
+export type CrawlLimitsPolicy = z.infer<typeof crawlLimitsPolicySchema>;
+
+export const defaultCrawlLimitsPolicy: CrawlLimitsPolicy = {
+  roleMaximums: {
+    user: 500,
+    admin: 'unlimited',
+  },
+  defaultMaximum: 100,
+  unlimitedCeiling: 2000,
+};
+
+export interface ResolvedCrawlLimit extends CrawlLimitInfo {
+  crawlLimit: number;
+}
+
+export async function getCrawlLimitsPolicy(): Promise<CrawlLimitsPolicy> {
+  const setting = await storage.getSetting(CRAWL_LIMITS_SETTING_KEY);
+  if (!setting) {
+    return defaultCrawlLimitsPolicy;
+  }
+
+  // A malformed stored policy should not block scans; fall back to the defaults
+  const parsed = crawlLimitsPolicySchema.safeParse(setting.value);
+  if (!parsed.success) {
+    console.error('Invalid crawl limits policy in settings, using defaults:', parsed.error.message);
+    return defaultCrawlLimitsPolicy;
+  }
+  return parsed.data;
+}
+
+export function getRoleMaximum(policy: CrawlLimitsPolicy, role: string): number {
+  const maximum = policy.roleMaximums[role] ?? policy.defaultMaximum;
+  return maximum === 'unlimited' ? policy.unlimitedCeiling : Math.min(maximum, policy.unlimitedCeiling);
+}
+
+// Apply the policy to the page limit requested for a scan
+export function resolveCrawlLimit(policy: CrawlLimitsPolicy, role: string, requested: PageLimit): ResolvedCrawlLimit {
+  const roleLimit = policy.roleMaximums[role] ?? policy.defaultMaximum;
+  const maximum = getRoleMaximum(policy, role);
+
+  if (requested === 'unlimited') {
+    return {
+      requested,
+      crawlLimit: maximum,
+      cappedBy: roleLimit === 'unlimited' ? 'safety-ceiling' : 'role-maximum',
+    };
+  }
+
+  if (requested > maximum) {
+    return {
+      requested,
+      crawlLimit: maximum,
+      cappedBy: roleLimit !== 'unlimited' && roleLimit <= policy.unlimitedCeiling ? 'role-maximum' : 'safety-ceiling',
+    };
+  }
+
+  return { requested, crawlLimit: requested };
+}
@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CrawlScope } from './crawl-scope';
+
+describe('CrawlScope', () => {
+  it('matches globs against the path and query', () => {
+    const scope = new CrawlScope('https://example.com/', { include: ['/admin/**', '/Docs/*.html', '/p?ge'] });
+    const check = (path: string) => scope.check(`https://example.com${path}`, 0);
+    assert.equal(check('/admin/users/1'), null);
+    assert.equal(check('/docs/intro.html'), null);
+    assert.equal(check('/docs/guide/intro.html'), 'not-included');
+    assert.equal(check('/page'), null);
+    assert.equal(check('/pages'), 'not-included');
+  });
+
+  it('matches globs with many wildcards without backtracking', () => {
+    const scope = new CrawlScope('https://example.com/', { exclude: ['**a'.repeat(20) + 'b'] });
+    const started = Date.now();
+    assert.equal(scope.check(`https://example.com/${'a'.repeat(2000)}`, 0), null);
+    assert.ok(Date.now() - started < 1000);
+  });
+
+  it('refuses regular expressions that backtrack exponentially', () => {
+    assert.throws(() => new CrawlScope('https://example.com/', { exclude: ['/^\\/(a|aa)+$/'] }), /repetition or alternation/);
+  });
+});
@@ -0,0 +1,142 @@
+import { URL } from 'url';
+import { ScopeSettings, scopeSettingsSchema } from './scan-options';
+
+// Why the crawler did not queue a URL
+export type OutOfScopeReason =
+  | 'other-host'
+  | 'excluded'
+  | 'not-included'
+  | 'max-depth'
+  | 'logout'
+  // Blocked by the egress policy when it was requested
+  | 'internal-address';
+
+export interface OutOfScopeUrl {
+  url: string;
+  reason: OutOfScopeReason;
+  foundOn: string | null;
+}
+
+type Matcher = (target: string) => boolean;
+
+// Matches a glob without a regular expression, in time proportional to the pattern times the target, so that
+// patterns with many wildcards cannot make matching backtrack
+function matchGlob(glob: string, target: string): boolean {
+  const tokens: string[] = [];
+  for (let i = 0; i < glob.length; i++) {
+    if (glob[i] === '*' && glob[i + 1] === '*') {
+      tokens.push('**');
+      i++;
+    } else {
+      tokens.push(glob[i]);
+    }
+  }
+
+  // matched[j]: whether the tokens so far match the first j characters of the target
+  let matched = Array.from({ length: target.length + 1 }, (_, j) => j === 0);
+  for (const token of tokens) {
+    const next = new Array<boolean>(target.length + 1).fill(false);
+    for (let j = 0; j <= target.length; j++) {
+      const char = target[j - 1];
+      if (token === '**') {
+        next[j] = matched[j] || (j > 0 && next[j - 1]);
+      } else if (token === '*') {
+        next[j] = matched[j] || (j > 0 && char !== '/' && next[j - 1]);
+      } else if (token === '?') {
+        next[j] = j > 0 && char !== '/' && matched[j - 1];
+      } else {
+        next[j] = j > 0 && char.toLowerCase() === token.toLowerCase() && matched[j - 1];
+      }
+    }
+    matched = next;
+  }
+  return matched[target.length];
+}
+
+// Regular expressions were checked by scopeSettingsSchema, which rejects patterns that backtrack exponentially
+function compilePattern(pattern: string): Matcher {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (!regex) {
+    return (target) => matchGlob(pattern, target);
+  }
+  const compiled = new RegExp(regex[1], regex[2]);
+  return (target) => compiled.test(target);
+}
+
+/**
+ * Decides which discovered URLs a scan may crawl and how URLs are normalized for de-duplication.
+ */
+export class CrawlScope {
+  private settings: ScopeSettings;
+  private target: URL;
+  // Host that subdomains are matched against; www. is dropped so that www.example.com includes api.example.com
+  private baseDomain: string;
+  private include: Matcher[];
+  private exclude: Matcher[];
+
+  constructor(targetUrl: string, settings?: Partial<ScopeSettings> | null) {
+    this.settings = scopeSettingsSchema.parse(settings || {});
+    this.target = new URL(targetUrl);
+    this.baseDomain = this.target.hostname.replace(/^www\./, '');
+    this.include = this.settings.include.map(compilePattern);
+    this.exclude = this.settings.exclude.map(compilePattern);
+  }
+
+  // Returns why the URL is out of scope, or null when it may be crawled
+  check(url: string, depth: number): OutOfScopeReason | null {
+    const parsed = new URL(url);
+
+    if (!this.isAllowedHost(parsed)) {
+      return 'other-host';
+    }
+
+    const target = `${parsed.pathname}${parsed.search}`;
+    if (this.exclude.some((matches) => matches(target))) {
+      return 'excluded';
+    }
+    if (this.include.length > 0 && !this.include.some((matches) => matches(target))) {
+      return 'not-included';
+    }
+    if (this.settings.maxDepth !== undefined && depth > this.settings.maxDepth) {
+      return 'max-depth';
+    }
+
+    return null;
+  }
+
+  // The URL the crawler should request, after applying the query-parameter strategy
+  normalize(url: string): string {
+    const parsed = new URL(url);
+    parsed.hash = '';
+
+    if (this.settings.queryParameters === 'strip') {
+      parsed.search = '';
+    } else if (this.settings.queryParameters === 'sort') {
+      parsed.searchParams.sort();
+    }
+
+    return parsed.href;
+  }
+
+  // Key used to recognise URLs that count as the same page
+  canonicalKey(url: string): string {
+    if (this.settings.queryParameters !== 'ignore-values') {
+      return url;
+    }
+
+    const parsed = new URL(url);
+    const names = Array.from(new Set(Array.from(parsed.searchParams.keys()))).sort();
+    parsed.search = names.map((name) => `${encodeURIComponent(name)}=`).join('&');
+    return parsed.href;
+  }
+
+  private isAllowedHost(url: URL): boolean {
+    if (url.origin === this.target.origin) {
+      return true;
+    }
+    if (!this.settings.includeSubdomains) {
+      return false;
+    }
+    return url.hostname === this.baseDomain || url.hostname.endsWith(`.${this.baseDomain}`);
+  }
+}
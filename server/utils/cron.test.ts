@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { getNextRun, isValidTimeZone, parseCron } from './cron';
+
+const sorted = (values: Set<number>) => Array.from(values).sort((a, b) => a - b);
+
+describe('parseCron', () => {
+  it('expands lists, ranges and steps', () => {
+    const cron = parseCron('5/15 9-11 1,15 */3 *');
+    assert.deepEqual(sorted(cron.minutes.values), [5, 20, 35, 50]);
+    assert.deepEqual(sorted(cron.hours.values), [9, 10, 11]);
+    assert.deepEqual(sorted(cron.daysOfMonth.values), [1, 15]);
+    assert.deepEqual(sorted(cron.months.values), [1, 4, 7, 10]);
+    assert.equal(cron.months.restricted, false);
+    assert.equal(cron.daysOfWeek.restricted, false);
+  });
+
+  it('accepts month and day names, and 7 for Sunday', () => {
+    const cron = parseCron('0 0 * jan-mar sat,7');
+    assert.deepEqual(sorted(cron.months.values), [1, 2, 3]);
+    assert.deepEqual(sorted(cron.daysOfWeek.values), [0, 6]);
+  });
+
+  it('expands macros', () => {
+    assert.deepEqual(parseCron('@weekly'), parseCron('0 0 * * 0'));
+  });
+
+  it('rejects malformed expressions', () => {
+    assert.throws(() => parseCron('0 0 * *'), /5 fields/);
+    assert.throws(() => parseCron('60 * * * *'), /out of range/);
+    assert.throws(() => parseCron('*/0 * * * *'), /Invalid cron step/);
+    assert.throws(() => parseCron('0 5-1 * * *'), /Invalid cron range/);
+    assert.throws(() => parseCron('0 0 * * someday'), /Invalid cron value/);
+  });
+});
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA names only', () => {
+    assert.equal(isValidTimeZone('Asia/Tokyo'), true);
+    assert.equal(isValidTimeZone('Mars/Olympus_Mons'), false);
+  });
+});
+
+describe('getNextRun', () => {
+  it('fires at the wall time of the time zone', () => {
+    // Friday 2026-01-09 10:00 in Tokyo; the next weekday 09:00 is Monday
+    const next = getNextRun('0 9 * * 1-5', 'Asia/Tokyo', new Date('2026-01-09T01:00:00Z'));
+    assert.equal(next.toISOString(), '2026-01-12T00:00:00.000Z');
+  });
+
+  it('is exclusive of the given time', () => {
+    const next = getNextRun('*/5 * * * *', 'UTC', new Date('2026-01-01T00:05:00Z'));
+    assert.equal(next.toISOString(), '2026-01-01T00:10:00.000Z');
+  });
+
+  it('runs when either the day of the month or the day of the week matches', () => {
+    // The 13th and every Friday; 2026-02-06 is a Friday
+    const next = getNextRun('0 0 13 * 5', 'UTC', new Date('2026-02-01T00:00:00Z'));
+    assert.equal(next.toISOString(), '2026-02-06T00:00:00.000Z');
+  });
+
+  it('skips wall times that daylight saving time skips', () => {
+    // 02:30 does not exist in New York on 2026-03-08
+    const next = getNextRun('30 2 * * *', 'America/New_York', new Date('2026-03-08T05:00:00Z'));
+    assert.equal(next.toISOString(), '2026-03-09T06:30:00.000Z');
+  });
+
+  it('runs once on wall times that daylight saving time repeats', () => {
+    // 01:30 happens twice in New York on 2026-11-01
+    const first = getNextRun('30 1 * * *', 'America/New_York', new Date('2026-11-01T04:00:00Z'));
+    assert.equal(first.toISOString(), '2026-11-01T05:30:00.000Z');
+    const second = getNextRun('30 1 * * *', 'America/New_York', first);
+    assert.equal(second.toISOString(), '2026-11-02T06:30:00.000Z');
+  });
+
+  it('gives up on expressions that never match', () => {
+    assert.throws(() => getNextRun('0 0 30 2 *', 'UTC', new Date('2026-01-01T00:00:00Z')), /never matches/);
+  });
+});
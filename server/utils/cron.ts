@@ -0,0 +1,220 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week) evaluated in an IANA time zone
+
+interface CronField {
+  values: Set<number>;
+  // False for "*", which matters for the day-of-month / day-of-week rule below
+  restricted: boolean;
+}
+
+export interface CronExpression {
+  minutes: CronField;
+  hours: CronField;
+  daysOfMonth: CronField;
+  months: CronField;
+  daysOfWeek: CronField;
+}
+
+interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const macros: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const monthNames = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const dayNames = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Give up on expressions that cannot match, such as "0 0 30 2 *"; five years covers every leap-day schedule
+const MAX_SEARCH_YEARS = 5;
+
+function parseValue(text: string, min: number, max: number, names?: string[]): number {
+  const name = names?.indexOf(text.toLowerCase()) ?? -1;
+  const value = name >= 0 ? name + min : Number(text);
+  if (!/^\d+$/.test(text) && name < 0) {
+    throw new Error(`Invalid cron value "${text}"`);
+  }
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`Cron value ${text} is out of range ${min}-${max}`);
+  }
+  return value;
+}
+
+function parseField(text: string, min: number, max: number, names?: string[]): CronField {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [range, stepText, ...rest] = part.split('/');
+    if (rest.length > 0 || !range) {
+      throw new Error(`Invalid cron field "${text}"`);
+    }
+
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step "${stepText}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, min, max, names);
+      end = parseValue(to, min, max, names);
+      if (start > end) {
+        throw new Error(`Invalid cron range "${range}"`);
+      }
+    } else {
+      start = parseValue(range, min, max, names);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, restricted: text !== '*' && !text.startsWith('*/') };
+}
+
+export function parseCron(expression: string): CronExpression {
+  const normalized = macros[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Cron expression must have 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const daysOfWeek = parseField(fields[4], 0, 7, dayNames);
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.values.delete(7)) {
+    daysOfWeek.values.add(0);
+  }
+
+  return {
+    minutes: parseField(fields[0], 0, 59),
+    hours: parseField(fields[1], 0, 23),
+    daysOfMonth: parseField(fields[2], 1, 31),
+    months: parseField(fields[3], 1, 12, monthNames),
+    daysOfWeek,
+  };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getWallTime(date: Date, timeZone: string): WallTime {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(
+    formatter.formatToParts(date).map((part) => [part.type, Number(part.value)]),
+  );
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute };
+}
+
+function wallTimeAsUtc(wall: WallTime): number {
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+}
+
+// The instant at which the clocks in the time zone show the given wall time; null when the
+// wall time does not exist there (skipped by a daylight saving change)
+function toInstant(wall: WallTime, timeZone: string): Date | null {
+  const guess = wallTimeAsUtc(wall);
+  const offsetAt = (instant: number) => wallTimeAsUtc(getWallTime(new Date(instant), timeZone)) - instant;
+
+  let instant = guess - offsetAt(guess);
+  const offset = offsetAt(instant);
+  if (guess - offset !== instant) {
+    instant = guess - offset;
+  }
+
+  return wallTimeAsUtc(getWallTime(new Date(instant), timeZone)) === guess ? new Date(instant) : null;
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.values.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.values.has(date.getUTCDay());
+
+  // As in classic cron, a schedule that restricts both fields runs when either matches
+  if (cron.daysOfMonth.restricted && cron.daysOfWeek.restricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+// The first time after `after` (exclusive) at which the expression fires in the time zone
+export function getNextRun(expression: string | CronExpression, timeZone: string, after: Date): Date {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+
+  // Walk the wall clock of the time zone; `cursor` holds wall time in its UTC fields
+  const start = getWallTime(new Date(after.getTime() + 60 * 1000), timeZone);
+  const cursor = new Date(wallTimeAsUtc(start));
+  const limit = Date.UTC(start.year + MAX_SEARCH_YEARS, 0, 1);
+
+  while (cursor.getTime() < limit) {
+    if (!cron.months.values.has(cursor.getUTCMonth() + 1)) {
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1, 1);
+      cursor.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, cursor)) {
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+      cursor.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.values.has(cursor.getUTCHours())) {
+      cursor.setUTCHours(cursor.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.values.has(cursor.getUTCMinutes())) {
+      cursor.setUTCMinutes(cursor.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    const instant = toInstant({
+      year: cursor.getUTCFullYear(),
+      month: cursor.getUTCMonth() + 1,
+      day: cursor.getUTCDate(),
+      hour: cursor.getUTCHours(),
+      minute: cursor.getUTCMinutes(),
+    }, timeZone);
+    if (instant && instant > after) {
+      return instant;
+    }
+    cursor.setUTCMinutes(cursor.getUTCMinutes() + 1, 0, 0);
+  }
+
+  throw new Error('Cron expression never matches');
+}
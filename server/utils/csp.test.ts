@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CSP_WEAKNESSES, findCspWeakness, parseCspHeader, parseCspPolicy } from './csp';
+
+const weakness = (checkId: string) => CSP_WEAKNESSES.find((candidate) => candidate.checkId === checkId)!;
+
+const evaluate = (checkId: string, value: string, source: 'header' | 'meta' = 'header') =>
+  weakness(checkId).evaluate(parseCspPolicy(value, source));
+
+describe('parseCspPolicy', () => {
+  it('lower-cases directive names and keeps the first occurrence', () => {
+    const policy = parseCspPolicy("Script-Src 'self'; script-src *; img-src data:", 'header');
+    assert.deepEqual(Array.from(policy.directives.entries()), [['script-src', ["'self'"]], ['img-src', ['data:']]]);
+  });
+
+  it('ignores directives that a meta policy cannot set', () => {
+    const policy = parseCspPolicy("default-src 'self'; frame-ancestors 'none'", 'meta');
+    assert.equal(policy.directives.has('frame-ancestors'), false);
+  });
+});
+
+describe('parseCspHeader', () => {
+  it('splits comma-separated policies and repeated headers', () => {
+    const policies = parseCspHeader(["default-src 'self', script-src 'none'", "object-src 'none'"], 'header');
+    assert.deepEqual(policies.map((policy) => policy.value), ["default-src 'self'", "script-src 'none'", "object-src 'none'"]);
+    assert.deepEqual(parseCspHeader(undefined, 'header'), []);
+  });
+});
+
+describe('CSP weaknesses', () => {
+  it("reports 'unsafe-inline' unless a nonce, hash or 'strict-dynamic' overrides it", () => {
+    assert.deepEqual(evaluate('csp.unsafe-inline', "script-src 'self' 'unsafe-inline'"),
+      { directive: 'script-src', value: "'self' 'unsafe-inline'" });
+    assert.equal(evaluate('csp.unsafe-inline', "script-src 'unsafe-inline' 'nonce-abc'"), null);
+    assert.equal(evaluate('csp.unsafe-inline', "script-src 'unsafe-inline' 'strict-dynamic'"), null);
+  });
+
+  it('falls back to default-src for script sources', () => {
+    assert.deepEqual(evaluate('csp.unsafe-eval', "default-src 'self' 'unsafe-eval'"),
+      { directive: 'default-src', value: "'self' 'unsafe-eval'" });
+  });
+
+  it('reports wildcard and scheme-only script sources, and missing ones', () => {
+    assert.notEqual(evaluate('csp.wildcard-script-source', 'script-src https:'), null);
+    assert.notEqual(evaluate('csp.wildcard-script-source', 'script-src https://*'), null);
+    assert.deepEqual(evaluate('csp.wildcard-script-source', "img-src 'self'"),
+      { directive: 'script-src', value: null, missing: true });
+    assert.equal(evaluate('csp.wildcard-script-source', 'script-src https://cdn.example.com'), null);
+    assert.equal(evaluate('csp.wildcard-script-source', "script-src * 'nonce-abc' 'strict-dynamic'"), null);
+  });
+
+  it('reports data: script sources', () => {
+    assert.notEqual(evaluate('csp.data-script-source', "script-src 'self' data:"), null);
+    assert.equal(evaluate('csp.data-script-source', "script-src 'self'; img-src data:"), null);
+  });
+
+  it('lets default-src stand in for object-src but not for base-uri', () => {
+    assert.equal(evaluate('csp.missing-object-src', "default-src 'none'"), null);
+    assert.notEqual(evaluate('csp.missing-base-uri', "default-src 'none'"), null);
+  });
+
+  it('notes that frame-ancestors has no effect in a meta policy', () => {
+    assert.deepEqual(evaluate('csp.missing-frame-ancestors', "default-src 'self'", 'meta'), {
+      directive: 'frame-ancestors',
+      value: null,
+      missing: true,
+      note: 'frame-ancestors has no effect in a <meta> policy',
+    });
+  });
+});
+
+describe('findCspWeakness', () => {
+  it('only reports a weakness that every enforced policy has', () => {
+    const unsafeEval = weakness('csp.unsafe-eval');
+    const weak = parseCspPolicy("script-src 'unsafe-eval'", 'header');
+    const strict = parseCspPolicy("script-src 'self'", 'meta');
+    assert.equal(findCspWeakness(unsafeEval, [weak, strict]), null);
+    assert.deepEqual(findCspWeakness(unsafeEval, [weak, weak]),
+      { directive: 'script-src', value: "'unsafe-eval'", source: 'header' });
+  });
+});
@@ -0,0 +1,194 @@
+// Content-Security-Policy parsing and evaluation (https://www.w3.org/TR/CSP3/)
+
+// Where a policy came from; report-only policies are not enforced
+export type CspPolicySource = 'header' | 'meta' | 'report-only';
+
+export interface CspPolicy {
+  source: CspPolicySource;
+  value: string;
+  // Directive names are lower-case; the first occurrence of a directive wins
+  directives: Map<string, string[]>;
+}
+
+// Directives that a <meta> element cannot set
+const headerOnlyDirectives = ['frame-ancestors', 'report-uri', 'sandbox'];
+
+export function parseCspPolicy(value: string, source: CspPolicySource): CspPolicy {
+  const directives = new Map<string, string[]>();
+  for (const part of value.split(';')) {
+    const [name, ...sources] = part.trim().split(/\s+/);
+    if (!name) continue;
+    const directive = name.toLowerCase();
+    if (directives.has(directive) || (source === 'meta' && headerOnlyDirectives.includes(directive))) {
+      continue;
+    }
+    directives.set(directive, sources);
+  }
+  return { source, value: value.trim(), directives };
+}
+
+// A header can carry several policies separated by commas, and may be sent more than once
+export function parseCspHeader(value: string | string[] | undefined, source: CspPolicySource): CspPolicy[] {
+  if (!value) {
+    return [];
+  }
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .flatMap((v) => v.split(','))
+    .map((policy) => policy.trim())
+    .filter(Boolean)
+    .map((policy) => parseCspPolicy(policy, source));
+}
+
+// Directive that governs a fetch directive, falling back to default-src; undefined if neither is set
+function getEffectiveDirective(policy: CspPolicy, directive: string): { directive: string; sources: string[] } | undefined {
+  for (const name of [directive, 'default-src']) {
+    const sources = policy.directives.get(name);
+    if (sources) {
+      return { directive: name, sources };
+    }
+  }
+  return undefined;
+}
+
+const isNonceOrHash = (source: string) => /^'(nonce-|sha256-|sha384-|sha512-)/i.test(source);
+const hasKeyword = (sources: string[], keyword: string) => sources.some((s) => s.toLowerCase() === `'${keyword}'`);
+
+// With a nonce or hash, 'strict-dynamic' makes browsers ignore host and scheme sources and 'unsafe-inline'
+function isStrictDynamic(sources: string[]): boolean {
+  return hasKeyword(sources, 'strict-dynamic') && sources.some(isNonceOrHash);
+}
+
+// Sources that let any host serve scripts
+const isWildcardSource = (source: string) => /^(\*|https?:|(https?:\/\/)?\*(:\*)?\/?)$/i.test(source);
+
+// The part of a policy that makes it weak
+export interface CspWeaknessDetails {
+  directive: string;
+  // Sources of the directive; null when the directive is not set
+  value: string | null;
+  missing?: boolean;
+  note?: string;
+}
+
+export interface CspWeakness {
+  checkId: string;
+  severity: 'high' | 'medium' | 'low';
+  name: string;
+  description: string;
+  passedName: string;
+  passedDescription: string;
+  // The offending directive of a single policy, or null if the policy is not weak in this way
+  evaluate: (policy: CspPolicy) => CspWeaknessDetails | null;
+}
+
+function scriptSourcesWith(policy: CspPolicy, test: (sources: string[]) => boolean): CspWeaknessDetails | null {
+  const effective = getEffectiveDirective(policy, 'script-src');
+  if (!effective || !test(effective.sources)) {
+    return null;
+  }
+  return { directive: effective.directive, value: effective.sources.join(' ') };
+}
+
+// fallback: whether default-src stands in for the directive
+function missingDirective(policy: CspPolicy, directive: string, fallback: boolean): CspWeaknessDetails | null {
+  const set = fallback ? !!getEffectiveDirective(policy, directive) : policy.directives.has(directive);
+  return set ? null : { directive, value: null, missing: true };
+}
+
+// Weaknesses of an enforced policy, each reported by its own check
+export const CSP_WEAKNESSES: CspWeakness[] = [
+  {
+    checkId: 'csp.unsafe-inline',
+    severity: 'medium',
+    name: 'Content-Security-Policy Allows Inline Scripts',
+    description: "The policy allows 'unsafe-inline' scripts without a nonce or hash, so it does not stop injected scripts.",
+    passedName: 'Content-Security-Policy Blocks Inline Scripts',
+    passedDescription: 'The policy does not allow inline scripts without a nonce or hash.',
+    evaluate: (policy) => scriptSourcesWith(policy, (sources) =>
+      hasKeyword(sources, 'unsafe-inline') && !sources.some(isNonceOrHash) && !hasKeyword(sources, 'strict-dynamic')),
+  },
+  {
+    checkId: 'csp.unsafe-eval',
+    severity: 'medium',
+    name: 'Content-Security-Policy Allows eval()',
+    description: "The policy allows 'unsafe-eval', so injected strings can be run as code with eval() and similar functions.",
+    passedName: 'Content-Security-Policy Blocks eval()',
+    passedDescription: "The policy does not allow 'unsafe-eval'.",
+    evaluate: (policy) => scriptSourcesWith(policy, (sources) => hasKeyword(sources, 'unsafe-eval')),
+  },
+  {
+    checkId: 'csp.wildcard-script-source',
+    severity: 'medium',
+    name: 'Content-Security-Policy Allows Scripts from Any Host',
+    description: 'The policy lets any host serve scripts, through a wildcard or scheme-only source or by not restricting script sources at all.',
+    passedName: 'Content-Security-Policy Restricts Script Hosts',
+    passedDescription: 'The policy only allows scripts from specific hosts.',
+    evaluate: (policy) => {
+      const effective = getEffectiveDirective(policy, 'script-src');
+      if (!effective) {
+        return { directive: 'script-src', value: null, missing: true };
+      }
+      if (isStrictDynamic(effective.sources) || !effective.sources.some(isWildcardSource)) {
+        return null;
+      }
+      return { directive: effective.directive, value: effective.sources.join(' ') };
+    },
+  },
+  {
+    checkId: 'csp.data-script-source',
+    severity: 'medium',
+    name: 'Content-Security-Policy Allows data: Scripts',
+    description: 'The policy allows scripts from data: URLs, which an attacker can fill with any code.',
+    passedName: 'Content-Security-Policy Blocks data: Scripts',
+    passedDescription: 'The policy does not allow scripts from data: URLs.',
+    evaluate: (policy) => scriptSourcesWith(policy, (sources) =>
+      !isStrictDynamic(sources) && sources.some((s) => s.toLowerCase() === 'data:')),
+  },
+  {
+    checkId: 'csp.missing-object-src',
+    severity: 'low',
+    name: 'Content-Security-Policy Missing object-src',
+    description: "Neither object-src nor default-src is set, so plugins such as <object> and <embed> can load content from anywhere. Set object-src 'none'.",
+    passedName: 'Content-Security-Policy Restricts Plugins',
+    passedDescription: 'The policy restricts plugin content with object-src or default-src.',
+    evaluate: (policy) => missingDirective(policy, 'object-src', true),
+  },
+  {
+    checkId: 'csp.missing-base-uri',
+    severity: 'low',
+    name: 'Content-Security-Policy Missing base-uri',
+    description: "base-uri is not set, so an injected <base> element can redirect the page's relative script URLs. Set base-uri 'none' or 'self'.",
+    passedName: 'Content-Security-Policy Restricts base-uri',
+    passedDescription: 'The policy restricts the URLs a <base> element can set.',
+    evaluate: (policy) => missingDirective(policy, 'base-uri', false),
+  },
+  {
+    checkId: 'csp.missing-frame-ancestors',
+    severity: 'low',
+    name: 'Content-Security-Policy Missing frame-ancestors',
+    description: 'frame-ancestors is not set in a Content-Security-Policy header, so the policy does not control which sites can frame the page.',
+    passedName: 'Content-Security-Policy Restricts Framing',
+    passedDescription: 'The policy controls which sites can frame the page with frame-ancestors.',
+    evaluate: (policy) => {
+      const missing = missingDirective(policy, 'frame-ancestors', false);
+      if (missing && policy.source === 'meta') {
+        return { ...missing, note: 'frame-ancestors has no effect in a <meta> policy' };
+      }
+      return missing;
+    },
+  },
+];
+
+// A weakness is only real if every enforced policy has it, since each policy is enforced on its own
+export function findCspWeakness(weakness: CspWeakness, policies: CspPolicy[]): (CspWeaknessDetails & { source: CspPolicySource }) | null {
+  let first: (CspWeaknessDetails & { source: CspPolicySource }) | null = null;
+  for (const policy of policies) {
+    const details = weakness.evaluate(policy);
+    if (!details) {
+      return null;
+    }
+    first = first ?? { ...details, source: policy.source };
+  }
+  return first;
+}
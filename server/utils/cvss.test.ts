@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { getCvssBaseScore, parseCvssVector } from './cvss';
+
+describe('parseCvssVector', () => {
+  it('reads every base metric', () => {
+    assert.deepEqual(parseCvssVector('CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:C/C:L/I:L/A:N'), {
+      AV: 'N', AC: 'L', PR: 'N', UI: 'R', S: 'C', C: 'L', I: 'L', A: 'N',
+    });
+  });
+
+  it('rejects other versions, unknown values and missing or repeated metrics', () => {
+    assert.equal(parseCvssVector('CVSS:3.0/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H'), undefined);
+    assert.equal(parseCvssVector('CVSS:3.1/AV:X/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H'), undefined);
+    assert.equal(parseCvssVector('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H'), undefined);
+    assert.equal(parseCvssVector('CVSS:3.1/AV:N/AV:L/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H'), undefined);
+  });
+});
+
+describe('getCvssBaseScore', () => {
+  // Scores from the FIRST CVSS v3.1 calculator
+  const cases: [string, number][] = [
+    ['CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H', 9.8],
+    ['CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:C/C:H/I:H/A:H', 10],
+    ['CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:C/C:L/I:L/A:N', 6.1],
+    ['CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:L/A:N', 4.2],
+    ['CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:L/I:N/A:N', 5.3],
+    ['CVSS:3.1/AV:L/AC:L/PR:L/UI:N/S:U/C:H/I:H/A:H', 7.8],
+    ['CVSS:3.1/AV:N/AC:L/PR:H/UI:R/S:C/C:L/I:L/A:N', 4.8],
+    ['CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:N/I:N/A:N', 0],
+  ];
+
+  for (const [vector, score] of cases) {
+    it(`scores ${vector} as ${score}`, () => {
+      assert.equal(getCvssBaseScore(vector), score);
+    });
+  }
+
+  it('is null for invalid vectors', () => {
+    assert.equal(getCvssBaseScore('AV:N/AC:L'), null);
+  });
+});
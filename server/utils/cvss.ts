@@ -0,0 +1,94 @@
+// CVSS v3.1 base score calculation, following the formulas of the specification
+// (https://www.first.org/cvss/v3.1/specification-document)
+
+export interface CvssBaseMetrics {
+  AV: 'N' | 'A' | 'L' | 'P';
+  AC: 'L' | 'H';
+  PR: 'N' | 'L' | 'H';
+  UI: 'N' | 'R';
+  S: 'U' | 'C';
+  C: 'H' | 'L' | 'N';
+  I: 'H' | 'L' | 'N';
+  A: 'H' | 'L' | 'N';
+}
+
+const metricValues: Record<keyof CvssBaseMetrics, string[]> = {
+  AV: ['N', 'A', 'L', 'P'],
+  AC: ['L', 'H'],
+  PR: ['N', 'L', 'H'],
+  UI: ['N', 'R'],
+  S: ['U', 'C'],
+  C: ['H', 'L', 'N'],
+  I: ['H', 'L', 'N'],
+  A: ['H', 'L', 'N'],
+};
+
+const attackVector = { N: 0.85, A: 0.62, L: 0.55, P: 0.2 };
+const attackComplexity = { L: 0.77, H: 0.44 };
+const userInteraction = { N: 0.85, R: 0.62 };
+const impactWeight = { H: 0.56, L: 0.22, N: 0 };
+
+function privilegesRequired(metrics: CvssBaseMetrics): number {
+  switch (metrics.PR) {
+    case 'N': return 0.85;
+    case 'L': return metrics.S === 'C' ? 0.68 : 0.62;
+    case 'H': return metrics.S === 'C' ? 0.5 : 0.27;
+  }
+}
+
+// Smallest number with one decimal that is equal to or higher than the input, without
+// the floating point errors of Math.ceil(x * 10) / 10
+function roundUp(value: number): number {
+  const scaled = Math.round(value * 100000);
+  if (scaled % 10000 === 0) {
+    return scaled / 100000;
+  }
+  return (Math.floor(scaled / 10000) + 1) / 10;
+}
+
+// Base metrics of a "CVSS:3.1/AV:N/AC:L/..." vector; undefined unless every base metric is given once
+export function parseCvssVector(vector: string): CvssBaseMetrics | undefined {
+  const [prefix, ...parts] = vector.trim().split('/');
+  if (prefix !== 'CVSS:3.1') {
+    return undefined;
+  }
+
+  const metrics: Partial<Record<string, string>> = {};
+  for (const part of parts) {
+    const [name, value] = part.split(':');
+    if (!(name in metricValues) || name in metrics || !metricValues[name as keyof CvssBaseMetrics].includes(value)) {
+      return undefined;
+    }
+    metrics[name] = value;
+  }
+
+  if (Object.keys(metricValues).some((name) => !(name in metrics))) {
+    return undefined;
+  }
+  return metrics as unknown as CvssBaseMetrics;
+}
+
+export function calculateCvssBaseScore(metrics: CvssBaseMetrics): number {
+  const iss = 1 - (1 - impactWeight[metrics.C]) * (1 - impactWeight[metrics.I]) * (1 - impactWeight[metrics.A]);
+  const impact = metrics.S === 'U'
+    ? 6.42 * iss
+    : 7.52 * (iss - 0.029) - 3.25 * Math.pow(iss - 0.02, 15);
+  const exploitability = 8.22
+    * attackVector[metrics.AV]
+    * attackComplexity[metrics.AC]
+    * privilegesRequired(metrics)
+    * userInteraction[metrics.UI];
+
+  if (impact <= 0) {
+    return 0;
+  }
+  return metrics.S === 'U'
+    ? roundUp(Math.min(impact + exploitability, 10))
+    : roundUp(Math.min(1.08 * (impact + exploitability), 10));
+}
+
+// Base score of a vector string; null for vectors that are not valid CVSS v3.1
+export function getCvssBaseScore(vector: string): number | null {
+  const metrics = parseCvssVector(vector);
+  return metrics ? calculateCvssBaseScore(metrics) : null;
+}
@@ -0,0 +1,175 @@
+import { LookupAddressEntry } from 'axios';
+import dns from 'dns';
+import net from 'net';
+import { URL } from 'url';
+import { z } from 'zod';
+import { storage } from '../storage';
+
+export const EGRESS_POLICY_SETTING_KEY = 'egress-policy';
+
+// Loopback, private, link-local (cloud metadata) and other non-public ranges
+const blockedRanges: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+];
+
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix, type] of blockedRanges) {
+  blockedAddresses.addSubnet(network, prefix, type);
+}
+
+function parseCidr(cidr: string): { network: string; prefix: number; type: 'ipv4' | 'ipv6' } | null {
+  const [network, prefixText, ...rest] = cidr.trim().split('/');
+  const version = net.isIP(network);
+  if (version === 0 || rest.length > 0) {
+    return null;
+  }
+
+  const maxPrefix = version === 4 ? 32 : 128;
+  const prefix = prefixText === undefined ? maxPrefix : Number(prefixText);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefix) {
+    return null;
+  }
+
+  return { network, prefix, type: version === 4 ? 'ipv4' : 'ipv6' };
+}
+
+// Admin-managed exceptions for scanning on-prem applications
+export const egressPolicySchema = z.object({
+  // Internal ranges that scans may reach, in CIDR notation (a bare address is a single host)
+  allowedRanges: z.array(
+    z.string().refine((cidr) => parseCidr(cidr) !== null, 'Invalid CIDR range'),
+  ).max(100),
+});
+
+export type EgressPolicy = z.infer<typeof egressPolicySchema>;
+
+export const defaultEgressPolicy: EgressPolicy = {
+  allowedRanges: [],
+};
+
+export async function getEgressPolicy(): Promise<EgressPolicy> {
+  const setting = await storage.getSetting(EGRESS_POLICY_SETTING_KEY);
+  if (!setting) {
+    return defaultEgressPolicy;
+  }
+
+  // Falling back to the defaults only ever blocks more, never less
+  const parsed = egressPolicySchema.safeParse(setting.value);
+  if (!parsed.success) {
+    console.error('Invalid egress policy in settings, using defaults:', parsed.error.message);
+    return defaultEgressPolicy;
+  }
+  return parsed.data;
+}
+
+function egressBlockedError(message: string) {
+  return Object.assign(new Error(message), { code: 'EGRESS_BLOCKED' });
+}
+
+// ::ffff:127.0.0.1 reaches 127.0.0.1, so check the embedded IPv4 address instead
+// (URL parsing writes it as ::ffff:7f00:1)
+function unwrapMappedAddress(address: string): string {
+  const dotted = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (dotted) {
+    return dotted[1];
+  }
+
+  const hex = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+  if (hex) {
+    const value = (parseInt(hex[1], 16) << 16 | parseInt(hex[2], 16)) >>> 0;
+    return [24, 16, 8, 0].map((shift) => (value >>> shift) & 0xff).join('.');
+  }
+
+  return address;
+}
+
+type LookupCallback = (error: Error | null, addresses: LookupAddressEntry[]) => void;
+
+/**
+ * Keeps the scanner's outbound requests away from internal networks.
+ *
+ * Hostnames are checked when the connection resolves them (see lookup), so the address that was
+ * checked is the address that is connected to; a DNS answer that changes between a check and the
+ * request cannot slip through. Redirects are checked hop by hop by the HttpClient.
+ */
+export class EgressGuard {
+  private allowedAddresses = new net.BlockList();
+
+  constructor(policy: EgressPolicy = defaultEgressPolicy) {
+    for (const cidr of policy.allowedRanges) {
+      const range = parseCidr(cidr);
+      if (range) {
+        this.allowedAddresses.addSubnet(range.network, range.prefix, range.type);
+      }
+    }
+  }
+
+  isAllowedAddress(address: string): boolean {
+    const unwrapped = unwrapMappedAddress(address);
+    const type = net.isIPv6(unwrapped) ? 'ipv6' : 'ipv4';
+    return !blockedAddresses.check(unwrapped, type) || this.allowedAddresses.check(unwrapped, type);
+  }
+
+  // Checks that can be made without DNS: the scheme and IP-literal hosts, which are never looked up
+  assertUrlAllowed(url: string) {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw egressBlockedError(`Blocked request to ${url}: only http and https are allowed`);
+    }
+
+    const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(hostname) && !this.isAllowedAddress(hostname)) {
+      throw egressBlockedError(`Blocked request to ${url}: ${hostname} is an internal address`);
+    }
+  }
+
+  // Resolve the URL's host up front, e.g. to reject a scan target before it is queued
+  async checkUrl(url: string): Promise<void> {
+    this.assertUrlAllowed(url);
+
+    const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(hostname)) {
+      return;
+    }
+
+    const addresses = await dns.promises.lookup(hostname, { all: true });
+    const blocked = addresses.find((entry) => !this.isAllowedAddress(entry.address));
+    if (blocked) {
+      throw egressBlockedError(`Blocked request to ${url}: ${hostname} resolves to internal address ${blocked.address}`);
+    }
+  }
+
+  // DNS lookup for outgoing connections that fails when any resolved address is internal
+  lookup = (hostname: string, options: object, callback: LookupCallback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        return callback(error, []);
+      }
+
+      const blocked = addresses.find((entry) => !this.isAllowedAddress(entry.address));
+      if (blocked) {
+        return callback(
+          egressBlockedError(`Blocked request to ${hostname}: resolves to internal address ${blocked.address}`),
+          [],
+        );
+      }
+
+      callback(null, addresses.map(({ address, family }) => ({ address, family: family === 6 ? 6 : 4 })));
+    });
+  };
+}
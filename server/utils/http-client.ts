@@ -0,0 +1,250 @@
+import axios, { AxiosResponse } from 'axios';
+import { URL } from 'url';
+import { EgressGuard } from './egress-guard';
+
+export const SCANNER_USER_AGENT = 'AppSafeguard Security Scanner';
+
+interface StoredCookie {
+  name: string;
+  value: string;
+  domain: string;
+  // Cookies without a Domain attribute are only sent back to the exact host that set them
+  hostOnly: boolean;
+  path: string;
+  secure: boolean;
+  expires?: number;
+}
+
+/**
+ * Minimal cookie jar (RFC 6265 domain/path matching) so that a scan keeps its session across requests.
+ */
+export class CookieJar {
+  private cookies: StoredCookie[] = [];
+
+  // Store the cookies from a response's Set-Cookie headers
+  setCookies(url: string, setCookieHeaders: string[] | string | undefined) {
+    if (!setCookieHeaders) {
+      return;
+    }
+
+    const headers = Array.isArray(setCookieHeaders) ? setCookieHeaders : [setCookieHeaders];
+    for (const header of headers) {
+      const cookie = this.parseSetCookie(url, header);
+      if (cookie) {
+        this.store(cookie);
+      }
+    }
+  }
+
+  getCookieHeader(url: string): string | undefined {
+    const { hostname, pathname, protocol } = new URL(url);
+    const now = Date.now();
+
+    this.cookies = this.cookies.filter((cookie) => cookie.expires === undefined || cookie.expires > now);
+
+    const matching = this.cookies.filter((cookie) => {
+      const domainMatches = cookie.hostOnly
+        ? hostname === cookie.domain
+        : hostname === cookie.domain || hostname.endsWith(`.${cookie.domain}`);
+      const pathMatches = pathname === cookie.path
+        || pathname.startsWith(cookie.path.endsWith('/') ? cookie.path : `${cookie.path}/`);
+      return domainMatches && pathMatches && (!cookie.secure || protocol === 'https:');
+    });
+
+    if (matching.length === 0) {
+      return undefined;
+    }
+
+    // More specific paths first, as browsers do
+    return matching
+      .sort((a, b) => b.path.length - a.path.length)
+      .map((cookie) => `${cookie.name}=${cookie.value}`)
+      .join('; ');
+  }
+
+  clear() {
+    this.cookies = [];
+  }
+
+  private store(cookie: StoredCookie) {
+    this.cookies = this.cookies.filter((existing) =>
+      !(existing.name === cookie.name && existing.domain === cookie.domain && existing.path === cookie.path));
+
+    // An expiry in the past is how servers delete cookies
+    if (cookie.expires === undefined || cookie.expires > Date.now()) {
+      this.cookies.push(cookie);
+    }
+  }
+
+  private parseSetCookie(url: string, header: string): StoredCookie | null {
+    const [pair, ...attributes] = header.split(';');
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      return null;
+    }
+
+    const requestUrl = new URL(url);
+    const cookie: StoredCookie = {
+      name: pair.slice(0, separator).trim(),
+      value: pair.slice(separator + 1).trim(),
+      domain: requestUrl.hostname,
+      hostOnly: true,
+      path: requestUrl.pathname.replace(/\/[^/]*$/, '') || '/',
+      secure: false,
+    };
+
+    for (const attribute of attributes) {
+      const [rawKey, ...rest] = attribute.split('=');
+      const key = rawKey.trim().toLowerCase();
+      const value = rest.join('=').trim();
+
+      if (key === 'domain' && value) {
+        const domain = value.replace(/^\./, '').toLowerCase();
+        // Ignore cookies for domains the response's host does not belong to
+        if (requestUrl.hostname !== domain && !requestUrl.hostname.endsWith(`.${domain}`)) {
+          return null;
+        }
+        cookie.domain = domain;
+        cookie.hostOnly = false;
+      } else if (key === 'path' && value.startsWith('/')) {
+        cookie.path = value;
+      } else if (key === 'secure') {
+        cookie.secure = true;
+      } else if (key === 'max-age') {
+        const seconds = parseInt(value, 10);
+        if (!isNaN(seconds)) {
+          cookie.expires = Date.now() + seconds * 1000;
+        }
+      } else if (key === 'expires' && cookie.expires === undefined) {
+        const expires = Date.parse(value);
+        if (!isNaN(expires)) {
+          cookie.expires = expires;
+        }
+      }
+    }
+
+    return cookie;
+  }
+}
+
+export interface HttpRequestOptions {
+  method?: 'GET' | 'POST';
+  data?: string;
+  headers?: Record<string, string>;
+  timeout?: number;
+  maxRedirects?: number;
+  responseType?: 'text';
+  // Defaults to accepting any status below 500 so that 4xx responses can be analyzed
+  validateStatus?: (status: number) => boolean;
+}
+
+export type HttpResponse = AxiosResponse & {
+  requestedUrl: string;
+  // URL of the last response after following redirects
+  finalUrl: string;
+};
+
+const redirectStatuses = [301, 302, 303, 307, 308];
+
+/**
+ * HTTP client used by the scanner.
+ *
+ * Follows redirects itself so that cookies set on intermediate responses (typically a login
+ * redirect) end up in the jar.
+ */
+export interface HttpClientDefaults {
+  timeout: number;
+  userAgent?: string;
+  // Static credentials; only sent to credentialOrigin so they cannot leak through off-site redirects
+  credentialOrigin?: string;
+  headers?: Record<string, string>;
+  cookies?: { name: string; value: string }[];
+  // Blocks requests to internal networks, including on every redirect hop
+  egress?: EgressGuard;
+}
+
+export class HttpClient {
+  readonly jar = new CookieJar();
+
+  constructor(private defaults: HttpClientDefaults) {}
+
+  async get(url: string, options: HttpRequestOptions = {}): Promise<HttpResponse> {
+    return this.request(url, { ...options, method: 'GET' });
+  }
+
+  async post(url: string, data: string, options: HttpRequestOptions = {}): Promise<HttpResponse> {
+    return this.request(url, {
+      ...options,
+      method: 'POST',
+      data,
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', ...options.headers },
+    });
+  }
+
+  async request(url: string, options: HttpRequestOptions = {}): Promise<HttpResponse> {
+    const maxRedirects = options.maxRedirects ?? 5;
+    const validateStatus = options.validateStatus || ((status: number) => status < 500);
+    let currentUrl = url;
+    let method = options.method || 'GET';
+    let data = options.data;
+
+    for (let redirects = 0; ; redirects++) {
+      this.defaults.egress?.assertUrlAllowed(currentUrl);
+
+      const sendCredentials = !this.defaults.credentialOrigin
+        || new URL(currentUrl).origin === this.defaults.credentialOrigin;
+      const cookieHeader = this.buildCookieHeader(currentUrl, sendCredentials);
+      const response = await axios.request({
+        url: currentUrl,
+        method,
+        data,
+        headers: {
+          'User-Agent': this.defaults.userAgent || SCANNER_USER_AGENT,
+          ...(sendCredentials ? this.defaults.headers : {}),
+          ...options.headers,
+          ...(cookieHeader ? { Cookie: cookieHeader } : {}),
+        },
+        maxRedirects: 0,
+        timeout: options.timeout ?? this.defaults.timeout,
+        responseType: options.responseType,
+        validateStatus: () => true,
+        lookup: this.defaults.egress?.lookup,
+      });
+
+      this.jar.setCookies(currentUrl, response.headers['set-cookie']);
+
+      const location = response.headers['location'];
+      if (redirectStatuses.includes(response.status) && location && redirects < maxRedirects) {
+        currentUrl = new URL(location, currentUrl).href;
+        // Browsers turn the request into a GET after 303, and after 301/302 for POSTs
+        if (response.status === 303 || ((response.status === 301 || response.status === 302) && method === 'POST')) {
+          method = 'GET';
+          data = undefined;
+        }
+        continue;
+      }
+
+      if (!validateStatus(response.status)) {
+        throw new Error(`Request failed with status code ${response.status}`);
+      }
+
+      return Object.assign(response, { requestedUrl: url, finalUrl: currentUrl });
+    }
+  }
+
+  // Static cookies first; cookies the site has set since take precedence over ones with the same name
+  private buildCookieHeader(url: string, sendCredentials: boolean): string | undefined {
+    const jarHeader = this.jar.getCookieHeader(url);
+    const staticCookies = sendCredentials ? this.defaults.cookies || [] : [];
+    const jarNames = new Set((jarHeader || '').split('; ').map((pair) => pair.split('=')[0]));
+
+    const parts = staticCookies
+      .filter((cookie) => !jarNames.has(cookie.name))
+      .map((cookie) => `${cookie.name}=${cookie.value}`);
+    if (jarHeader) {
+      parts.push(jarHeader);
+    }
+
+    return parts.length > 0 ? parts.join('; ') : undefined;
+  }
+}
@@ -0,0 +1,185 @@
+import { AxiosResponse } from 'axios';
+import * as cheerio from 'cheerio';
+import { URL } from 'url';
+import { HttpResponse } from './http-client';
+import { resolveUrl } from './url-discovery';
+
+// Bounds on the requests an active check sends for one page
+const MAX_FORMS_PER_PAGE = 10;
+const MAX_PARAMETERS_PER_POINT = 20;
+
+// Forms whose submission may change or end something: account deletion, logout, payments and the like
+const destructivePattern = /delete|remove|destroy|erase|purge|log[-_ ]?out|sign[-_ ]?out|log[-_ ]?off|unsubscribe|deactivate|cancel|revoke|purchase|checkout|pay(ment)?|transfer|place[-_ ]?order/i;
+
+// Input types whose value a user types in, and which probes therefore inject into
+const textInputTypes = ['', 'text', 'search', 'url', 'email', 'tel', 'number', 'hidden'];
+
+// Request parameters that an active check can put a payload into
+export interface InjectionPoint {
+  // A query parameter of the page's own URL, or a field of a form on the page
+  source: 'query' | 'form';
+  method: 'GET' | 'POST';
+  // URL the parameters are sent to; for GET they replace its query string
+  action: string;
+  // Every parameter of the request with its value on the page
+  parameters: [string, string][];
+  // Parameters that probes replace, one at a time
+  injectable: string[];
+}
+
+// A request an active check wants to send
+export interface ProbeRequest {
+  method: 'GET' | 'POST';
+  url: string;
+  // URL-encoded form body of POST requests
+  body?: string;
+}
+
+// Sends the requests of active checks within the limits of the scan
+export interface Prober {
+  // Response to the request whatever its status, or null when it was not sent (out of scope or out of time) or failed
+  send(request: ProbeRequest): Promise<HttpResponse | null>;
+  // Whether the check has yet to probe the parameter in this scan; forms that appear on every page are probed once
+  claim(checkId: string, point: InjectionPoint, parameter: string): boolean;
+}
+
+// Whether a form's action, name or buttons suggest that submitting it does something irreversible
+function isDestructiveForm($: cheerio.CheerioAPI, form: any): boolean {
+  const $form = $(form);
+  const labels = [
+    $form.attr('action') || '',
+    $form.attr('id') || '',
+    $form.attr('name') || '',
+    $form.attr('class') || '',
+    ...$form.find('button, input[type="submit"], input[type="button"]').map((_, button) =>
+      [$(button).text(), $(button).attr('value') || '', $(button).attr('name') || ''].join(' ')).get(),
+  ];
+  if (labels.some((label) => destructivePattern.test(label))) {
+    return true;
+  }
+
+  // Login, registration and password forms could lock accounts; file uploads are not sent URL-encoded
+  return $form.find('input[type="password"], input[type="file"]').length > 0
+    || ($form.attr('enctype') || '').toLowerCase() === 'multipart/form-data';
+}
+
+function getFormParameters($: cheerio.CheerioAPI, form: any): { parameters: [string, string][]; injectable: string[] } {
+  const parameters: [string, string][] = [];
+  const injectable: string[] = [];
+
+  $(form).find('input[name], textarea[name], select[name]').each((_, field) => {
+    const $field = $(field);
+    const name = $field.attr('name')!;
+    if ($field.is('[disabled]')) {
+      return;
+    }
+
+    if ($field.is('textarea')) {
+      parameters.push([name, $field.text()]);
+      injectable.push(name);
+    } else if ($field.is('select')) {
+      const option = $field.find('option[selected]').first().length > 0
+        ? $field.find('option[selected]').first()
+        : $field.find('option').first();
+      parameters.push([name, option.attr('value') ?? option.text()]);
+    } else {
+      const type = ($field.attr('type') || '').toLowerCase();
+      if (textInputTypes.includes(type)) {
+        parameters.push([name, $field.attr('value') || '']);
+        injectable.push(name);
+      } else if ((type === 'checkbox' || type === 'radio') && $field.is('[checked]')) {
+        parameters.push([name, $field.attr('value') ?? 'on']);
+      }
+    }
+  });
+
+  return { parameters, injectable: Array.from(new Set(injectable)).slice(0, MAX_PARAMETERS_PER_POINT) };
+}
+
+// Query parameters of the page and the fields of its forms, leaving out forms that look destructive
+export function findInjectionPoints(url: string, response: AxiosResponse): InjectionPoint[] {
+  const points: InjectionPoint[] = [];
+
+  const page = new URL(url);
+  const query = Array.from(page.searchParams.entries());
+  if (query.length > 0) {
+    page.search = '';
+    page.hash = '';
+    points.push({
+      source: 'query',
+      method: 'GET',
+      action: page.href,
+      parameters: query,
+      injectable: Array.from(new Set(query.map(([name]) => name))).slice(0, MAX_PARAMETERS_PER_POINT),
+    });
+  }
+
+  if (!response.headers['content-type']?.includes('text/html') || typeof response.data !== 'string') {
+    return points;
+  }
+
+  const $ = cheerio.load(response.data);
+  $('form').slice(0, MAX_FORMS_PER_PAGE).each((_, form) => {
+    if (isDestructiveForm($, form)) {
+      return;
+    }
+
+    // A form without an action submits to the page itself
+    const action = resolveUrl($(form).attr('action') || url, url);
+    const { parameters, injectable } = getFormParameters($, form);
+    if (!action || injectable.length === 0) {
+      return;
+    }
+
+    points.push({
+      source: 'form',
+      method: ($(form).attr('method') || '').toLowerCase() === 'post' ? 'POST' : 'GET',
+      action,
+      parameters,
+      injectable,
+    });
+  });
+
+  return points;
+}
+
+// Request that submits the injection point with one parameter set to the value
+export function buildProbeRequest(point: InjectionPoint, parameter: string, value: string): ProbeRequest {
+  const params = new URLSearchParams();
+  let replaced = false;
+  for (const [name, original] of point.parameters) {
+    // Only the first of repeated parameters carries the payload
+    if (name === parameter && !replaced) {
+      params.append(name, value);
+      replaced = true;
+    } else {
+      params.append(name, original);
+    }
+  }
+
+  if (point.method === 'POST') {
+    return { method: 'POST', url: point.action, body: params.toString() };
+  }
+
+  const target = new URL(point.action);
+  target.search = params.toString();
+  return { method: 'GET', url: target.href };
+}
+
+// URL that findings about a parameter of the injection point are filed under. It depends on the
+// request, not on the page the form was found on, so a form that appears on many pages is the same
+// finding in every scan; GET requests keep their parameters, whose names tell findings apart.
+export function getInjectionPointUrl(point: InjectionPoint): string {
+  if (point.method === 'POST') {
+    return point.action;
+  }
+  const target = new URL(point.action);
+  target.search = new URLSearchParams(point.parameters).toString();
+  return target.href;
+}
+
+// Part of a probe's response around what gave the vulnerability away, as evidence
+export function getEvidenceSnippet(body: string, index: number, length = 200): string {
+  const start = Math.max(0, index - Math.floor(length / 2));
+  return body.slice(start, start + length);
+}
@@ -0,0 +1,268 @@
+import { createHash } from 'crypto';
+import { URL } from 'url';
+import { InsertVulnerability, Issue, Scan, Vulnerability } from '@shared/schema';
+import { storage } from '../storage';
+import { getScanOptions } from './scan-options';
+import { collectSecrets, redactSecrets } from './secrets';
+
+// Triage statuses of an issue; they carry over to every later occurrence of the finding
+export const ISSUE_STATUSES = ['pending', 'in_progress', 'fixed', 'false_positive'] as const;
+export type IssueStatus = typeof ISSUE_STATUSES[number];
+
+export function isIssueStatus(status: string): status is IssueStatus {
+  return (ISSUE_STATUSES as readonly string[]).includes(status);
+}
+
+// URL of a finding without what changes between scans of the same page: lower-case origin,
+// no fragment or trailing slash, and only the sorted names of the query parameters
+export function normalizeFindingUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const path = parsed.pathname.replace(/\/+$/, '') || '/';
+    const keys = Array.from(new Set(Array.from(parsed.searchParams.keys()))).sort();
+    return `${parsed.origin.toLowerCase()}${path}${keys.length > 0 ? `?${keys.join('&')}` : ''}`;
+  } catch {
+    return url;
+  }
+}
+
+// The parameter, field, cookie or other item on the page that a finding is about, if any
+export function getFindingParameter(details: unknown): string | null {
+  if (!details || typeof details !== 'object') {
+    return null;
+  }
+
+  const record = details as Record<string, unknown>;
+  for (const key of ['parameter', 'field', 'element', 'library', 'pattern', 'action']) {
+    if (typeof record[key] === 'string' && record[key]) {
+      return record[key] as string;
+    }
+  }
+  // Set-Cookie headers carry the cookie value, which changes on every scan
+  if (typeof record.cookie === 'string' && record.cookie) {
+    return record.cookie.split(';')[0].split('=')[0].trim();
+  }
+  return null;
+}
+
+export interface FindingIdentity {
+  checkId: string;
+  url: string;
+  parameter: string | null;
+  fingerprint: string;
+}
+
+// Identity of a finding that is the same in every scan that reports it
+export function getFindingIdentity(finding: { checkId?: string | null; name: string; url: string; details?: unknown }): FindingIdentity {
+  // Findings stored before check ids existed fall back to their name
+  const checkId = finding.checkId || finding.name;
+  const url = normalizeFindingUrl(finding.url);
+  const parameter = getFindingParameter(finding.details);
+  // Active probes also tell a GET and a POST to the same URL apart
+  const method = (finding.details as Record<string, unknown> | null | undefined)?.method;
+  const fingerprint = createHash('sha256')
+    .update([checkId, url, parameter ?? '', ...(typeof method === 'string' ? [method] : [])].join('\n'))
+    .digest('hex');
+  return { checkId, url, parameter, fingerprint };
+}
+
+// Statuses of issues that a later scan can confirm are gone
+const resolvableStatuses = ['pending', 'in_progress', 'fixed'];
+// Statuses of issues whose return is a regression
+const closedStatuses = ['fixed', 'resolved_by_scan'];
+
+// Store the findings of a completed scan and file each one under its issue. Issues seen before
+// are updated and keep their status, so a finding marked false_positive stays one on rescans;
+// fixed issues that show up again are reopened, and open issues the scan no longer finds on the
+// pages it covered are resolved.
+export async function recordScanFindings(
+  scan: Scan,
+  findings: InsertVulnerability[],
+  scannedUrls: string[],
+  checksRun: string[],
+): Promise<Vulnerability[]> {
+  const seenAt = new Date();
+  const issuesByFingerprint = new Map<string, Issue>();
+  const stored: Vulnerability[] = [];
+  const secrets = collectSecrets(getScanOptions(scan));
+
+  for (const scanned of findings) {
+    // Identified as found, so that retests recognise it; stored with the scan's credentials masked,
+    // as pages and probe responses can echo them back
+    const identity = getFindingIdentity(scanned);
+    const finding = redactSecrets(scanned, secrets);
+
+    // Checks that passed are kept for the scan report but are not issues
+    if (finding.severity === 'safe') {
+      stored.push(await storage.createVulnerability({
+        ...finding,
+        scanId: scan.id,
+        checkId: identity.checkId,
+        fingerprint: identity.fingerprint,
+      }));
+      continue;
+    }
+
+    let issue = issuesByFingerprint.get(identity.fingerprint);
+    if (!issue) {
+      issue = await upsertIssue(scan, finding, identity, seenAt);
+      issuesByFingerprint.set(identity.fingerprint, issue);
+    }
+
+    stored.push(await storage.createVulnerability({
+      ...finding,
+      scanId: scan.id,
+      checkId: identity.checkId,
+      fingerprint: identity.fingerprint,
+      issueId: issue.id,
+      status: issue.status,
+    }));
+  }
+
+  await resolveMissingIssues(scan, findings, new Set(issuesByFingerprint.keys()), scannedUrls, new Set(checksRun), seenAt);
+
+  return stored;
+}
+
+async function upsertIssue(scan: Scan, finding: InsertVulnerability, identity: FindingIdentity, seenAt: Date): Promise<Issue> {
+  const existing = await storage.getIssueByFingerprint(scan.userId, identity.fingerprint);
+
+  if (!existing) {
+    return await storage.createIssue({
+      userId: scan.userId,
+      targetId: scan.targetId,
+      fingerprint: identity.fingerprint,
+      checkId: identity.checkId,
+      name: finding.name,
+      category: finding.category,
+      severity: finding.severity,
+      url: identity.url,
+      parameter: identity.parameter,
+      status: 'pending',
+      firstSeenAt: seenAt,
+      lastSeenAt: seenAt,
+      firstScanId: scan.id,
+      lastScanId: scan.id,
+      occurrenceCount: 1,
+    });
+  }
+
+  const updates: Partial<Issue> = {
+    name: finding.name,
+    category: finding.category,
+    severity: finding.severity,
+    targetId: scan.targetId ?? existing.targetId,
+    lastSeenAt: seenAt,
+    lastScanId: scan.id,
+    // A retried scan records its findings again; count each scan once
+    occurrenceCount: existing.lastScanId === scan.id ? existing.occurrenceCount : existing.occurrenceCount + 1,
+  };
+
+  const regressed = closedStatuses.includes(existing.status);
+  if (regressed) {
+    Object.assign(updates, {
+      status: 'pending',
+      regressionCount: existing.regressionCount + 1,
+      reopenedAt: seenAt,
+      resolvedAt: null,
+      resolvedByScanId: null,
+    });
+  }
+
+  const updated = await storage.updateIssue(existing.id, updates);
+
+  if (regressed) {
+    await storage.updateVulnerabilitiesByIssueId(existing.id, { status: 'pending' });
+    await storage.createSecurityEvent({
+      userId: scan.userId,
+      type: 'issue_regressed',
+      description: `Issue "${existing.name}" was found again on ${existing.url} and has been reopened`,
+      metadata: {
+        issueId: existing.id,
+        scanId: scan.id,
+        oldStatus: existing.status,
+        newStatus: 'pending',
+      },
+    });
+  }
+
+  return updated ?? existing;
+}
+
+// Resolve the open issues of the scanned target that the scan looked for but did not find again.
+// Fixed issues stay fixed; the scan records that it verified the fix.
+async function resolveMissingIssues(
+  scan: Scan,
+  findings: InsertVulnerability[],
+  seenFingerprints: Set<string>,
+  scannedUrls: string[],
+  checksRun: Set<string>,
+  seenAt: Date,
+) {
+  if (scan.targetId === null) {
+    return;
+  }
+
+  const coveredUrls = new Set(scannedUrls.map(normalizeFindingUrl));
+  // Pages that could not be fetched say nothing about their findings
+  for (const finding of findings) {
+    if (finding.checkId === 'scanner.access-error') {
+      coveredUrls.delete(normalizeFindingUrl(finding.url));
+    }
+  }
+
+  const issues = await storage.getIssuesByTargetId(scan.targetId);
+
+  for (const issue of issues) {
+    if (
+      issue.userId !== scan.userId ||
+      seenFingerprints.has(issue.fingerprint) ||
+      !resolvableStatuses.includes(issue.status) ||
+      !coveredUrls.has(issue.url) ||
+      // Only a scan that ran the check can tell that the finding is gone
+      !checksRun.has(issue.checkId)
+    ) {
+      continue;
+    }
+    // The fix of this issue was verified before
+    if (issue.status === 'fixed' && issue.resolvedByScanId !== null) {
+      continue;
+    }
+
+    if (issue.status === 'fixed') {
+      await storage.updateIssue(issue.id, { resolvedAt: seenAt, resolvedByScanId: scan.id });
+      await storage.createSecurityEvent({
+        userId: scan.userId,
+        type: 'issue_fix_verified',
+        description: `Fix of issue "${issue.name}" on ${issue.url} verified by scan`,
+        metadata: {
+          issueId: issue.id,
+          scanId: scan.id,
+        },
+      });
+      continue;
+    }
+
+    await storage.updateIssue(issue.id, { status: 'resolved_by_scan', resolvedAt: seenAt, resolvedByScanId: scan.id });
+    await storage.updateVulnerabilitiesByIssueId(issue.id, { status: 'resolved_by_scan' });
+    await storage.createSecurityEvent({
+      userId: scan.userId,
+      type: 'issue_resolved_by_scan',
+      description: `Issue "${issue.name}" is no longer detected on ${issue.url}`,
+      metadata: {
+        issueId: issue.id,
+        scanId: scan.id,
+        oldStatus: issue.status,
+        newStatus: 'resolved_by_scan',
+      },
+    });
+  }
+}
+
+// Set the status of an issue and of all of its occurrences. A triage decision replaces any earlier
+// scan verdict, so a fix claimed now is verified again by the next scan.
+export async function setIssueStatus(issue: Issue, status: IssueStatus): Promise<Issue | undefined> {
+  const updated = await storage.updateIssue(issue.id, { status, resolvedAt: null, resolvedByScanId: null });
+  await storage.updateVulnerabilitiesByIssueId(issue.id, { status });
+  return updated;
+}
@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  detectLibrariesInContent,
+  detectLibrariesInUrl,
+  findAdvisories,
+  getAdvisoryIds,
+  getFixedInVersion,
+  jsAdvisoryDatabaseSchema,
+} from './js-advisories';
+
+// These use the bundled advisory database
+
+describe('detectLibrariesInUrl', () => {
+  it('reads the version from the path or the file name', () => {
+    assert.deepEqual(detectLibrariesInUrl('https://cdn.example.com/ajax/libs/jquery/3.4.1/jquery.min.js'),
+      [{ library: 'jquery', version: '3.4.1', detectedBy: 'uri' }]);
+    assert.deepEqual(detectLibrariesInUrl('/static/js/jquery-1.8.3.min.js?v=2'),
+      [{ library: 'jquery', version: '1.8.3', detectedBy: 'filename' }]);
+  });
+
+  it('finds nothing in scripts without a version', () => {
+    assert.deepEqual(detectLibrariesInUrl('https://example.com/js/app.js'), []);
+  });
+});
+
+describe('detectLibrariesInContent', () => {
+  it('reads the version from a banner comment', () => {
+    assert.deepEqual(detectLibrariesInContent('/*! jQuery v2.2.4 | (c) jQuery Foundation | jquery.org/license */\n!function(a){}'),
+      [{ library: 'jquery', version: '2.2.4', detectedBy: 'filecontent' }]);
+  });
+});
+
+describe('findAdvisories', () => {
+  it('returns the advisories whose range contains the version', () => {
+    const ids = findAdvisories('jquery', '3.4.1').flatMap(getAdvisoryIds);
+    assert.deepEqual(ids, ['CVE-2020-11022', 'CVE-2020-11023']);
+    assert.deepEqual(findAdvisories('jquery', '3.5.0'), []);
+    assert.deepEqual(findAdvisories('unknown-library', '1.0.0'), []);
+  });
+});
+
+describe('getAdvisoryIds', () => {
+  it('prefers CVEs and falls back to the GitHub or retire.js id', () => {
+    const advisory = { below: '1.0.0', severity: 'low' as const, info: [] };
+    assert.deepEqual(getAdvisoryIds({ ...advisory, identifiers: { CVE: ['CVE-2020-1'], githubID: 'GHSA-x' } }), ['CVE-2020-1']);
+    assert.deepEqual(getAdvisoryIds({ ...advisory, identifiers: { githubID: 'GHSA-x', retid: '42' } }), ['GHSA-x', '42']);
+  });
+});
+
+describe('getFixedInVersion', () => {
+  it('is the highest upper bound of the advisories', () => {
+    assert.equal(getFixedInVersion(findAdvisories('lodash', '4.17.4')), '4.17.21');
+    assert.equal(getFixedInVersion([]), null);
+  });
+});
+
+describe('jsAdvisoryDatabaseSchema', () => {
+  it('rejects extractors that are not valid regular expressions', () => {
+    const result = jsAdvisoryDatabaseSchema.safeParse({
+      example: { vulnerabilities: [], extractors: { filename: ['example-(§§version§§.js'] } },
+    });
+    assert.equal(result.success, false);
+    assert.deepEqual(result.error?.issues[0].path, ['example', 'extractors', 'filename', 0]);
+  });
+});
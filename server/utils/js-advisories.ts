@@ -0,0 +1,236 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+import bundledDatabase from '../data/js-library-advisories.json';
+import { cleanVersion, compareVersions, isVersionInRange } from './versions';
+
+export const JS_ADVISORIES_SETTING_KEY = 'js-advisory-database';
+
+// Extractor patterns mark the version with this placeholder, as in retire.js repositories
+const VERSION_PLACEHOLDER = '§§version§§';
+const VERSION_PATTERN = '[0-9][0-9.a-z_\\-]+';
+
+// Only the start of a script is searched for banners; they come first, and minified bundles are large
+const MAX_CONTENT_SCAN_LENGTH = 50000;
+
+const advisorySchema = z.object({
+  atOrAbove: z.string().optional(),
+  below: z.string(),
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+  identifiers: z.object({
+    summary: z.string().optional(),
+    CVE: z.array(z.string()).optional(),
+    githubID: z.string().optional(),
+    retid: z.string().optional(),
+  }).passthrough(),
+  info: z.array(z.string()).default([]),
+}).passthrough();
+
+const librarySchema = z.object({
+  vulnerabilities: z.array(advisorySchema),
+  extractors: z.object({
+    filename: z.array(z.string()).default([]),
+    uri: z.array(z.string()).default([]),
+    filecontent: z.array(z.string()).default([]),
+  }).passthrough(),
+}).passthrough();
+
+// Advisory database in the retire.js repository format: advisories and version extractors by library
+export const jsAdvisoryDatabaseSchema = z.record(librarySchema).superRefine((database, ctx) => {
+  for (const [library, entry] of Object.entries(database)) {
+    // Other retire.js extractors (func, hashes) are not regular expressions and are not used
+    for (const kind of ['uri', 'filename', 'filecontent'] as const) {
+      entry.extractors[kind].forEach((pattern, index) => {
+        try {
+          compileExtractor(pattern);
+        } catch {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [library, 'extractors', kind, index],
+            message: 'Invalid regular expression',
+          });
+        }
+      });
+    }
+  }
+});
+
+export type JsAdvisoryDatabase = z.infer<typeof jsAdvisoryDatabaseSchema>;
+export type JsAdvisory = z.infer<typeof advisorySchema>;
+
+// How a library version was found
+export type DetectionMethod = 'uri' | 'filename' | 'filecontent';
+
+export interface DetectedLibrary {
+  library: string;
+  version: string;
+  detectedBy: DetectionMethod;
+}
+
+interface CompiledLibrary {
+  library: string;
+  advisories: JsAdvisory[];
+  extractors: Record<DetectionMethod, RegExp[]>;
+}
+
+export interface JsAdvisoryDatabaseInfo {
+  source: 'bundled' | 'custom';
+  libraries: number;
+  advisories: number;
+  updatedAt: Date | null;
+  updatedBy: number | null;
+}
+
+function compileExtractor(pattern: string): RegExp {
+  return new RegExp(pattern.split(VERSION_PLACEHOLDER).join(VERSION_PATTERN), 'i');
+}
+
+function compileDatabase(database: JsAdvisoryDatabase): CompiledLibrary[] {
+  return Object.entries(database).map(([library, entry]) => ({
+    library,
+    advisories: entry.vulnerabilities,
+    extractors: {
+      uri: entry.extractors.uri.map(compileExtractor),
+      filename: entry.extractors.filename.map(compileExtractor),
+      filecontent: entry.extractors.filecontent.map(compileExtractor),
+    },
+  }));
+}
+
+const bundled = jsAdvisoryDatabaseSchema.parse(bundledDatabase);
+
+// The database checks use; scans load the admin's replacement, if any, before they start
+let active = {
+  info: describeDatabase(bundled, 'bundled', null, null),
+  libraries: compileDatabase(bundled),
+};
+
+function describeDatabase(
+  database: JsAdvisoryDatabase,
+  source: JsAdvisoryDatabaseInfo['source'],
+  updatedAt: Date | null,
+  updatedBy: number | null,
+): JsAdvisoryDatabaseInfo {
+  const entries = Object.values(database);
+  return {
+    source,
+    libraries: entries.length,
+    advisories: entries.reduce((count, entry) => count + entry.vulnerabilities.length, 0),
+    updatedAt,
+    updatedBy,
+  };
+}
+
+function activate(database: JsAdvisoryDatabase | null, updatedAt: Date | null, updatedBy: number | null) {
+  active = database
+    ? { info: describeDatabase(database, 'custom', updatedAt, updatedBy), libraries: compileDatabase(database) }
+    : { info: describeDatabase(bundled, 'bundled', updatedAt, updatedBy), libraries: compileDatabase(bundled) };
+}
+
+// Make the stored database the one checks use; the bundled one is used if none was uploaded
+export async function loadJsAdvisoryDatabase(): Promise<JsAdvisoryDatabaseInfo> {
+  const setting = await storage.getSetting(JS_ADVISORIES_SETTING_KEY);
+  const updatedAt = setting?.updatedAt ?? null;
+
+  // Unchanged since it was last loaded
+  if (active.info.updatedAt?.getTime() === updatedAt?.getTime()) {
+    return active.info;
+  }
+
+  const stored = setting?.value as { database?: unknown } | undefined;
+  if (!stored?.database) {
+    activate(null, updatedAt, setting?.updatedBy ?? null);
+    return active.info;
+  }
+
+  // A malformed stored database should not block scans; use the bundled one
+  const parsed = jsAdvisoryDatabaseSchema.safeParse(stored.database);
+  if (!parsed.success) {
+    console.error('Invalid JavaScript advisory database in settings, using the bundled one:', parsed.error.message);
+    activate(null, updatedAt, setting?.updatedBy ?? null);
+    return active.info;
+  }
+
+  activate(parsed.data, updatedAt, setting?.updatedBy ?? null);
+  return active.info;
+}
+
+// Replace the advisory database, or go back to the bundled one with null
+export async function setJsAdvisoryDatabase(database: JsAdvisoryDatabase | null, updatedBy: number): Promise<JsAdvisoryDatabaseInfo> {
+  await storage.upsertSetting({
+    key: JS_ADVISORIES_SETTING_KEY,
+    value: { database },
+    updatedBy,
+  });
+  return await loadJsAdvisoryDatabase();
+}
+
+function extractVersion(patterns: RegExp[], text: string): string | null {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    const version = match?.[1] ? cleanVersion(match[1]) : null;
+    if (version) {
+      return version;
+    }
+  }
+  return null;
+}
+
+// Libraries and versions a script URL reveals, by its path and its file name
+export function detectLibrariesInUrl(scriptUrl: string): DetectedLibrary[] {
+  let path = scriptUrl;
+  try {
+    path = new URL(scriptUrl).pathname;
+  } catch {
+    path = scriptUrl.split(/[?#]/)[0];
+  }
+  const filename = path.substring(path.lastIndexOf('/') + 1);
+
+  const detected: DetectedLibrary[] = [];
+  for (const { library, extractors } of active.libraries) {
+    const fromUri = extractVersion(extractors.uri, path);
+    const fromFilename = fromUri ? null : extractVersion(extractors.filename, filename);
+    if (fromUri || fromFilename) {
+      detected.push({ library, version: (fromUri || fromFilename)!, detectedBy: fromUri ? 'uri' : 'filename' });
+    }
+  }
+  return detected;
+}
+
+// Libraries and versions named in the banner comments or version constants of script content
+export function detectLibrariesInContent(content: string): DetectedLibrary[] {
+  const head = content.slice(0, MAX_CONTENT_SCAN_LENGTH);
+  const detected: DetectedLibrary[] = [];
+  for (const { library, extractors } of active.libraries) {
+    const version = extractVersion(extractors.filecontent, head);
+    if (version) {
+      detected.push({ library, version, detectedBy: 'filecontent' });
+    }
+  }
+  return detected;
+}
+
+// Advisories that affect the given version of a library
+export function findAdvisories(library: string, version: string): JsAdvisory[] {
+  const entry = active.libraries.find((candidate) => candidate.library === library);
+  if (!entry) {
+    return [];
+  }
+  return entry.advisories.filter((advisory) => isVersionInRange(version, advisory));
+}
+
+// Ids of an advisory: its CVEs, else its GitHub or retire.js id
+export function getAdvisoryIds(advisory: JsAdvisory): string[] {
+  const { CVE, githubID, retid } = advisory.identifiers;
+  if (CVE && CVE.length > 0) {
+    return CVE;
+  }
+  return [githubID, retid].filter((id): id is string => !!id);
+}
+
+// Lowest version that none of the advisories affect, assuming later releases keep the fixes
+export function getFixedInVersion(advisories: JsAdvisory[]): string | null {
+  return advisories.reduce<string | null>(
+    (highest, advisory) => highest === null || compareVersions(advisory.below, highest) > 0 ? advisory.below : highest,
+    null,
+  );
+}
@@ -0,0 +1,30 @@
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Spaces out requests to each host so that no host receives more than
+ * `requestsPerSecond` requests, no matter how many workers are crawling it.
+ */
+export class HostRateLimiter {
+  private nextSlot: Map<string, number> = new Map();
+  private intervalMs: number;
+
+  constructor(requestsPerSecond: number) {
+    this.intervalMs = 1000 / requestsPerSecond;
+  }
+
+  // Resolves when the caller may send its request to the URL's host
+  async acquire(url: string): Promise<void> {
+    const host = new URL(url).host;
+    const now = Date.now();
+
+    // Reserve the next free slot for this host before waiting so concurrent callers queue up
+    const slot = Math.max(now, this.nextSlot.get(host) ?? 0);
+    this.nextSlot.set(host, slot + this.intervalMs);
+
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+  }
+}
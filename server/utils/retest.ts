@@ -0,0 +1,221 @@
+import { URL } from 'url';
+import { Scan, Vulnerability } from '@shared/schema';
+import { storage } from '../storage';
+import { vulnerabilityDetector } from './vulnerability-detector';
+import { getScanOptions } from './scan-options';
+import { buildRequestHeaders } from './scan-utils';
+import { EgressGuard, getEgressPolicy } from './egress-guard';
+import { HttpClient, HttpResponse } from './http-client';
+import { CrawlScope } from './crawl-scope';
+import { Prober } from './injection-points';
+import { FormLoginSession } from './scan-auth';
+import { getFindingIdentity, isIssueStatus, setIssueStatus } from './issues';
+import { loadJsAdvisoryDatabase } from './js-advisories';
+import { getDisabledChecks } from './check-settings';
+import { getTargetHost, isTargetVerified, VERIFICATION_FILE_PATH, VERIFICATION_META_NAME } from './target-verification';
+import { ScanRejection } from './scan-service';
+import { collectSecrets, redactSecrets } from './secrets';
+
+export type RetestOutcome = 'fixed' | 'still_present' | 'error';
+
+// Stored on the finding as evidence of its last retest
+export interface RetestResult {
+  outcome: RetestOutcome;
+  checkedAt: string;
+  url: string;
+  statusCode?: number;
+  // Details of the finding as detected again, or of the passed check
+  evidence?: unknown;
+  error?: string;
+}
+
+const customRulePrefix = 'custom.rule-';
+
+// Whether the check that produced the finding can be run on its own
+export function isRetestable(vulnerability: Vulnerability): boolean {
+  const { checkId } = vulnerability;
+  if (!checkId || vulnerability.severity === 'safe') {
+    return false;
+  }
+  return checkId === 'scanner.access-error'
+    || checkId.startsWith(customRulePrefix)
+    || vulnerabilityDetector.hasCheck(checkId);
+}
+
+// The policy checks a new scan with the finding's check would have to pass; null when the retest may run
+export async function checkRetestRequest(scan: Scan, vulnerability: Vulnerability): Promise<ScanRejection | null> {
+  const check = vulnerability.checkId ? vulnerabilityDetector.getCheck(vulnerability.checkId) : undefined;
+  if (!check) {
+    return null;
+  }
+
+  if ((await getDisabledChecks()).includes(check.id)) {
+    return {
+      status: 422,
+      body: { message: 'Check disabled', reason: `The "${check.title}" check has been disabled by an administrator` },
+    };
+  }
+
+  // Active checks send probes of their own, which scans only do against hosts the user has proved they own
+  if (check.mode === 'active' && !(await isTargetVerified(scan.userId, vulnerability.url))) {
+    const host = getTargetHost(vulnerability.url);
+    return {
+      status: 403,
+      body: {
+        message: 'Target ownership not verified',
+        reason: `Retesting "${check.title}" requires verified ownership of ${host}. Serve your verification token at ${VERIFICATION_FILE_PATH} or in a ${VERIFICATION_META_NAME} meta tag, verify the target and try again.`,
+        host,
+      },
+    };
+  }
+
+  return null;
+}
+
+// Client with the scan's request settings and login
+async function createScanClient(scan: Scan): Promise<HttpClient> {
+  const options = getScanOptions(scan);
+  const client = new HttpClient({
+    timeout: options.crawl.requestTimeoutMs,
+    userAgent: options.request?.userAgent,
+    credentialOrigin: new URL(scan.url).origin,
+    headers: buildRequestHeaders(options.request),
+    cookies: options.request?.cookies,
+    egress: new EgressGuard(await getEgressPolicy()),
+  });
+
+  if (scan.useAuthentication && options.authentication) {
+    await new FormLoginSession(client, options.authentication).login();
+  }
+
+  return client;
+}
+
+// Sends the probes of an active check to URLs within the scan's scope, on the host whose ownership
+// checkRetestRequest verified
+function createRetestProber(scan: Scan, client: HttpClient, verifiedUrl: string): Prober {
+  const scope = new CrawlScope(scan.url, getScanOptions(scan).scope);
+  const host = getTargetHost(verifiedUrl);
+  return {
+    send: async (request) => {
+      if (scope.check(request.url, 0) || getTargetHost(request.url) !== host) {
+        return null;
+      }
+      try {
+        const options = { validateStatus: () => true };
+        return request.method === 'POST'
+          ? await client.post(request.url, request.body ?? '', options)
+          : await client.get(request.url, options);
+      } catch {
+        return null;
+      }
+    },
+    claim: () => true,
+  };
+}
+
+// Page the check runs on: active probe findings are filed under the request they sent, and the page
+// the probes started from is kept in their details
+function getFindingPage(vulnerability: Vulnerability): string {
+  const foundOn = (vulnerability.details as Record<string, unknown> | null)?.foundOn;
+  return typeof foundOn === 'string' ? foundOn : vulnerability.url;
+}
+
+// Run the check again for the finding's page only
+async function runFindingCheck(scan: Scan, vulnerability: Vulnerability): Promise<RetestResult> {
+  const checkedAt = new Date().toISOString();
+  const checkId = vulnerability.checkId!;
+  const page = getFindingPage(vulnerability);
+
+  let client: HttpClient;
+  let response: HttpResponse;
+  try {
+    client = await createScanClient(scan);
+    response = await client.get(page);
+  } catch (error: any) {
+    if (error?.code === 'EGRESS_BLOCKED') {
+      throw error;
+    }
+    const message = error?.message || 'Unknown error occurred';
+    return {
+      outcome: checkId === 'scanner.access-error' ? 'still_present' : 'error',
+      checkedAt,
+      url: page,
+      error: message,
+    };
+  }
+
+  const fetched = { checkedAt, url: page, statusCode: response.status };
+
+  if (checkId === 'scanner.access-error') {
+    return { ...fetched, outcome: 'fixed' };
+  }
+
+  if (checkId.startsWith(customRulePrefix)) {
+    const rule = await storage.getCustomRule(parseInt(checkId.slice(customRulePrefix.length), 10));
+    if (!rule || rule.userId !== scan.userId) {
+      return { ...fetched, outcome: 'error', error: 'The custom rule no longer exists' };
+    }
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(rule.pattern, 'i');
+    } catch (error: any) {
+      return { ...fetched, outcome: 'error', error: `The custom rule has an invalid pattern: ${error?.message || rule.pattern}` };
+    }
+    const content = typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
+    const matched = pattern.test(content);
+    return { ...fetched, outcome: matched ? 'still_present' : 'fixed', evidence: { rule: rule.id, matched } };
+  }
+
+  await loadJsAdvisoryDatabase();
+  const prober = vulnerabilityDetector.getCheck(checkId)?.mode === 'active' ? createRetestProber(scan, client, vulnerability.url) : undefined;
+  const results = (await vulnerabilityDetector.runCheck(checkId, page, response, prober)) ?? [];
+  const fingerprint = vulnerability.fingerprint ?? getFindingIdentity(vulnerability).fingerprint;
+  const match = results.find((result) => result.severity !== 'safe' && getFindingIdentity(result).fingerprint === fingerprint);
+  const passed = results.find((result) => result.severity === 'safe');
+
+  return {
+    ...fetched,
+    outcome: match ? 'still_present' : 'fixed',
+    evidence: match ? match.details : passed?.details,
+  };
+}
+
+// Statuses that a retest may change; a false positive is a triage decision that it leaves alone
+const retestableStatuses = ['pending', 'in_progress', 'fixed', 'resolved_by_scan'];
+
+// Status a finding gets from a retest; errors leave it unchanged
+function getRetestStatus(status: string, outcome: RetestOutcome): string {
+  if (!retestableStatuses.includes(status)) {
+    return status;
+  }
+  if (outcome === 'fixed') {
+    return 'fixed';
+  }
+  if (outcome === 'still_present' && (status === 'fixed' || status === 'resolved_by_scan')) {
+    return 'pending';
+  }
+  return status;
+}
+
+// Retest a single finding without crawling and record the outcome on it and on its issue
+export async function retestVulnerability(scan: Scan, vulnerability: Vulnerability) {
+  // The evidence is shown to the user, so the scan's credentials are masked in it as in scan results
+  const result = redactSecrets(await runFindingCheck(scan, vulnerability), collectSecrets(getScanOptions(scan)));
+  const issue = vulnerability.issueId ? await storage.getIssue(vulnerability.issueId) : undefined;
+  // The issue holds the triage status that all of its findings share
+  const status = getRetestStatus(issue?.status ?? vulnerability.status, result.outcome);
+
+  let updated = await storage.updateVulnerability(vulnerability.id, {
+    status,
+    retestedAt: new Date(result.checkedAt),
+    retestResult: result,
+  });
+
+  if (issue && issue.status !== status && isIssueStatus(status)) {
+    await setIssueStatus(issue, status);
+    updated = await storage.getVulnerability(vulnerability.id);
+  }
+
+  return { vulnerability: updated, result, previousStatus: vulnerability.status };
+}
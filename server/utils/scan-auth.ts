@@ -0,0 +1,138 @@
+import * as cheerio from 'cheerio';
+import { URL } from 'url';
+import { HttpClient, HttpResponse } from './http-client';
+import { AuthenticationSettings } from './scan-options';
+
+// Give up re-authenticating after this many logins in one scan; the session is evidently not sticking
+const MAX_LOGINS_PER_SCAN = 5;
+
+// Links that would end the scanner's own session
+const logoutUrlPattern = /log[-_]?out|sign[-_]?out|log[-_]?off/i;
+
+function authenticationError(message: string) {
+  return Object.assign(new Error(message), { code: 'AUTHENTICATION_FAILED' });
+}
+
+/**
+ * Logs the scanner in through an HTML login form and keeps the session alive.
+ *
+ * Session cookies live in the HttpClient's cookie jar, so every request made through the same
+ * client is authenticated once login() has succeeded.
+ */
+export class FormLoginSession {
+  private loggedInIndicator?: RegExp;
+  private loggedOutIndicator?: RegExp;
+  private logins = 0;
+  // Shared by all workers so that a dropped session triggers a single login
+  private pendingLogin: Promise<boolean> | null = null;
+
+  constructor(private client: HttpClient, private settings: AuthenticationSettings) {
+    if (settings.loggedInIndicator) {
+      this.loggedInIndicator = new RegExp(settings.loggedInIndicator, 'i');
+    }
+    if (settings.loggedOutIndicator) {
+      this.loggedOutIndicator = new RegExp(settings.loggedOutIndicator, 'i');
+    }
+  }
+
+  get loginUrl(): string {
+    return this.settings.loginUrl;
+  }
+
+  // Log in, throwing if the login could not be confirmed
+  async login(): Promise<void> {
+    this.logins++;
+
+    // Load the login page first for its session cookie and any hidden (e.g. CSRF) fields
+    const loginPage = await this.client.get(this.settings.loginUrl);
+    const form = this.findLoginForm(loginPage);
+
+    const body = new URLSearchParams(form.fields);
+    body.set(this.settings.usernameField, this.settings.username);
+    body.set(this.settings.passwordField, this.settings.password);
+
+    const response = await this.client.post(form.action, body.toString());
+    const content = typeof response.data === 'string' ? response.data : '';
+
+    if (this.loggedInIndicator && !this.loggedInIndicator.test(content)) {
+      throw authenticationError(`Login to ${this.settings.loginUrl} failed: logged-in indicator not found after login`);
+    }
+    if (this.isLoggedOut(response)) {
+      throw authenticationError(`Login to ${this.settings.loginUrl} failed: still logged out after login`);
+    }
+
+    console.log(`Logged in at ${this.settings.loginUrl} as ${this.settings.username}`);
+  }
+
+  // Log in again after the session dropped. Returns false once re-authentication has been given up on.
+  async reauthenticate(): Promise<boolean> {
+    if (!this.pendingLogin) {
+      this.pendingLogin = (async () => {
+        if (this.logins >= MAX_LOGINS_PER_SCAN) {
+          return false;
+        }
+        try {
+          console.log(`Session dropped, logging in again at ${this.settings.loginUrl}`);
+          this.client.jar.clear();
+          await this.login();
+          return true;
+        } catch (error: any) {
+          console.error('Re-authentication failed:', error?.message);
+          return false;
+        }
+      })().finally(() => {
+        this.pendingLogin = null;
+      });
+    }
+    return this.pendingLogin;
+  }
+
+  // Whether a response shows that the session is no longer valid
+  isLoggedOut(response: HttpResponse): boolean {
+    if (this.loggedOutIndicator && typeof response.data === 'string' && this.loggedOutIndicator.test(response.data)) {
+      return true;
+    }
+
+    // Being bounced to the login page from somewhere else means the session expired
+    return response.finalUrl !== response.requestedUrl && this.isLoginPage(response.finalUrl);
+  }
+
+  // Don't let the crawler follow links that would log it out
+  isLogoutUrl(url: string): boolean {
+    return logoutUrlPattern.test(new URL(url).pathname);
+  }
+
+  private isLoginPage(url: string): boolean {
+    const login = new URL(this.settings.loginUrl);
+    const target = new URL(url);
+    return target.origin === login.origin && target.pathname === login.pathname;
+  }
+
+  private findLoginForm(response: HttpResponse): { action: string; fields: Record<string, string> } {
+    const fields: Record<string, string> = {};
+    let action = response.finalUrl;
+
+    if (typeof response.data === 'string') {
+      const $ = cheerio.load(response.data);
+      // Compared as a string rather than put into a selector, where quotes or brackets in the name would break it
+      const passwordInput = $('input[name]').filter((_, el) => $(el).attr('name') === this.settings.passwordField).first();
+      const form = passwordInput.length > 0 ? passwordInput.closest('form') : $('form').first();
+
+      if (form.length > 0) {
+        const formAction = form.attr('action');
+        if (formAction) {
+          action = new URL(formAction, response.finalUrl).href;
+        }
+
+        form.find('input[name]').each((_, el) => {
+          const type = ($(el).attr('type') || 'text').toLowerCase();
+          if (type !== 'submit' && type !== 'button' && type !== 'checkbox' && type !== 'radio') {
+            fields[$(el).attr('name')!] = $(el).attr('value') || '';
+          }
+        });
+      }
+    }
+
+    return { action, fields };
+  }
+}
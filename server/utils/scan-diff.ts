@@ -0,0 +1,95 @@
+import { Scan, Vulnerability } from '@shared/schema';
+import { getFindingIdentity, normalizeFindingUrl } from './issues';
+
+// Security score of a completed scan, as calculated by the scanner
+export function getScanScore(scan: Scan): number | null {
+  const result = scan.result as { summary?: { securityScore?: number } } | null;
+  const score = result?.summary?.securityScore;
+  return typeof score === 'number' ? score : null;
+}
+
+function getScannedUrls(scan: Scan): string[] {
+  const result = scan.result as { scannedUrls?: unknown } | null;
+  return Array.isArray(result?.scannedUrls) ? result.scannedUrls.filter((url): url is string => typeof url === 'string') : [];
+}
+
+// Actual findings of a scan by fingerprint; checks that passed are left out
+function indexFindings(vulnerabilities: Vulnerability[]): Map<string, Vulnerability> {
+  const findings = new Map<string, Vulnerability>();
+  for (const vulnerability of vulnerabilities) {
+    if (vulnerability.severity === 'safe') continue;
+    // Findings stored before fingerprints existed get theirs computed the same way
+    const fingerprint = vulnerability.fingerprint ?? getFindingIdentity(vulnerability).fingerprint;
+    if (!findings.has(fingerprint)) {
+      findings.set(fingerprint, vulnerability);
+    }
+  }
+  return findings;
+}
+
+function describeScan(scan: Scan) {
+  return {
+    id: scan.id,
+    url: scan.url,
+    targetId: scan.targetId,
+    scanLevel: scan.scanLevel,
+    startedAt: scan.startedAt,
+    completedAt: scan.completedAt,
+    securityScore: getScanScore(scan),
+  };
+}
+
+export interface ScanDiff {
+  base: ReturnType<typeof describeScan>;
+  compare: ReturnType<typeof describeScan>;
+  // compare minus base; null unless both scans have a score
+  scoreDelta: number | null;
+  findings: {
+    new: Vulnerability[];
+    resolved: Vulnerability[];
+    unchanged: Vulnerability[];
+  };
+  pages: {
+    added: string[];
+    removed: string[];
+  };
+}
+
+// What changed from the base scan to the compared one. New and unchanged findings are those of the
+// compared scan, resolved findings those of the base scan.
+export function diffScans(
+  base: Scan,
+  baseVulnerabilities: Vulnerability[],
+  compare: Scan,
+  compareVulnerabilities: Vulnerability[],
+): ScanDiff {
+  const baseFindings = indexFindings(baseVulnerabilities);
+  const compareFindings = indexFindings(compareVulnerabilities);
+
+  const findings: ScanDiff['findings'] = { new: [], resolved: [], unchanged: [] };
+  Array.from(compareFindings.entries()).forEach(([fingerprint, vulnerability]) => {
+    (baseFindings.has(fingerprint) ? findings.unchanged : findings.new).push(vulnerability);
+  });
+  Array.from(baseFindings.entries()).forEach(([fingerprint, vulnerability]) => {
+    if (!compareFindings.has(fingerprint)) {
+      findings.resolved.push(vulnerability);
+    }
+  });
+
+  const basePages = new Set(getScannedUrls(base).map(normalizeFindingUrl));
+  const comparePages = new Set(getScannedUrls(compare).map(normalizeFindingUrl));
+
+  const baseScore = getScanScore(base);
+  const compareScore = getScanScore(compare);
+
+  return {
+    base: describeScan(base),
+    compare: describeScan(compare),
+    scoreDelta: baseScore !== null && compareScore !== null ? compareScore - baseScore : null,
+    findings,
+    pages: {
+      added: Array.from(comparePages).filter((url) => !basePages.has(url)).sort(),
+      removed: Array.from(basePages).filter((url) => !comparePages.has(url)).sort(),
+    },
+  };
+}
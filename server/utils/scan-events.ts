@@ -0,0 +1,108 @@
+import { EventEmitter } from 'events';
+import { DiscoverySource } from './url-discovery';
+
+// Events emitted while a scan runs and streamed to the client over SSE
+export type ScanEvent =
+  | { type: 'url-started'; url: string; index: number; limit: number; source: DiscoverySource }
+  | { type: 'finding-found'; url: string; name: string; severity: string; category: string }
+  | { type: 'progress'; percent: number; scanned: number; queued: number; limit: number }
+  | { type: 'status'; status: string; message?: string };
+
+export interface ScanEventEnvelope {
+  id: number;
+  scanId: number;
+  event: ScanEvent;
+  timestamp: string;
+}
+
+type ScanEventListener = (envelope: ScanEventEnvelope) => void;
+
+// How many recent events to replay to clients that connect mid-scan
+const HISTORY_LIMIT = 200;
+// How long to keep the history of a finished scan around for late subscribers
+const HISTORY_TTL_MS = 5 * 60 * 1000;
+
+const terminalStatuses = ['completed', 'failed', 'cancelled', 'paused'];
+
+/**
+ * In-process pub/sub for scan progress.
+ *
+ * Events only reach subscribers connected to the process that is running the scan;
+ * the persisted scan status remains the source of truth.
+ */
+class ScanEventBus {
+  private emitter = new EventEmitter();
+  private history: Map<number, ScanEventEnvelope[]> = new Map();
+  private cleanupTimers: Map<number, NodeJS.Timeout> = new Map();
+  // Last event ID of each scan. IDs follow the clock, so they keep increasing across restarts and
+  // a reconnecting client's Last-Event-ID never hides the events of a new process
+  private lastIds: Map<number, number> = new Map();
+
+  constructor() {
+    // One listener per open SSE connection
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(scanId: number, event: ScanEvent) {
+    const envelope: ScanEventEnvelope = {
+      id: this.nextId(scanId),
+      scanId,
+      event,
+      timestamp: new Date().toISOString(),
+    };
+
+    const history = this.history.get(scanId) || [];
+    history.push(envelope);
+    if (history.length > HISTORY_LIMIT) {
+      history.splice(0, history.length - HISTORY_LIMIT);
+    }
+    this.history.set(scanId, history);
+
+    const pendingCleanup = this.cleanupTimers.get(scanId);
+    if (pendingCleanup) {
+      clearTimeout(pendingCleanup);
+      this.cleanupTimers.delete(scanId);
+    }
+    if (event.type === 'status' && terminalStatuses.includes(event.status)) {
+      this.scheduleCleanup(scanId);
+    }
+
+    this.emitter.emit(`scan:${scanId}`, envelope);
+  }
+
+  publishStatus(scanId: number, status: string, message?: string) {
+    this.publish(scanId, { type: 'status', status, message });
+  }
+
+  subscribe(scanId: number, listener: ScanEventListener): () => void {
+    this.emitter.on(`scan:${scanId}`, listener);
+    return () => {
+      this.emitter.off(`scan:${scanId}`, listener);
+    };
+  }
+
+  // Recent events, optionally only those after the given event ID (SSE Last-Event-ID)
+  getHistory(scanId: number, afterId = 0): ScanEventEnvelope[] {
+    // An ID ahead of ours comes from another process or a clock that went back; replay everything
+    const after = afterId > (this.lastIds.get(scanId) ?? 0) ? 0 : afterId;
+    return (this.history.get(scanId) || []).filter((envelope) => envelope.id > after);
+  }
+
+  private nextId(scanId: number): number {
+    const id = Math.max(Date.now(), (this.lastIds.get(scanId) ?? 0) + 1);
+    this.lastIds.set(scanId, id);
+    return id;
+  }
+
+  private scheduleCleanup(scanId: number) {
+    const timer = setTimeout(() => {
+      this.history.delete(scanId);
+      this.lastIds.delete(scanId);
+      this.cleanupTimers.delete(scanId);
+    }, HISTORY_TTL_MS);
+    timer.unref();
+    this.cleanupTimers.set(scanId, timer);
+  }
+}
+
+export const scanEvents = new ScanEventBus();
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { authenticationSchema, scopeSettingsSchema } from './scan-options';
+
+describe('authenticationSchema', () => {
+  const login = { loginUrl: 'https://example.com/login', username: 'scanner', password: 'secret' };
+  const acceptsIndicator = (pattern: string) => authenticationSchema.safeParse({ ...login, loggedInIndicator: pattern }).success;
+
+  it('accepts ordinary login indicators', () => {
+    assert.equal(acceptsIndicator('Welcome, \\w+'), true);
+    assert.equal(acceptsIndicator('Log ?out'), true);
+    assert.equal(acceptsIndicator('(ab)+'), true);
+    assert.equal(acceptsIndicator('[(a+)|b]+'), true);
+    assert.equal(acceptsIndicator('sign (in|up)'), true);
+  });
+
+  it('rejects indicators that backtrack exponentially', () => {
+    for (const pattern of ['(a+)+$', '(.*)*', '(\\w+\\s?)*x', '((ab)*c)+', '(a{1,5})+', '(a|a)*', '(a|aa)+$', '(?:x|y)+']) {
+      assert.equal(acceptsIndicator(pattern), false, pattern);
+    }
+  });
+
+  it('rejects invalid and overlong indicators', () => {
+    assert.equal(acceptsIndicator('(unclosed'), false);
+    assert.equal(acceptsIndicator('a'.repeat(201)), false);
+  });
+});
+
+describe('scopeSettingsSchema', () => {
+  const acceptsPattern = (pattern: string) => scopeSettingsSchema.safeParse({ exclude: [pattern] }).success;
+
+  it('accepts globs and ordinary regular expressions', () => {
+    assert.equal(acceptsPattern('/admin/**'), true);
+    assert.equal(acceptsPattern('**a**a**a**a**b'), true);
+    assert.equal(acceptsPattern('/^\\/api\\/v\\d+/i'), true);
+  });
+
+  it('rejects regular expressions that backtrack exponentially', () => {
+    for (const pattern of ['/(a+)+$/', '/^\\/(\\w+\\/?)*$/', '/(a|aa)+$/i']) {
+      assert.equal(acceptsPattern(pattern), false, pattern);
+    }
+  });
+});
@@ -0,0 +1,209 @@
+import { z } from 'zod';
+import { Scan } from '@shared/schema';
+
+// Crawler engine settings
+export const crawlSettingsSchema = z.object({
+  // Number of pages fetched in parallel
+  concurrency: z.number().int().min(1).max(10).default(2),
+  // Per-host request rate
+  requestsPerSecond: z.number().positive().max(20).default(2),
+  // Pause each worker takes between pages
+  politeDelayMs: z.number().int().min(0).max(10000).default(250),
+  // Overall time budget for the crawl; the result is marked partial when it runs out
+  timeBudgetSeconds: z.number().int().min(10).max(6 * 60 * 60).default(600),
+  // Timeout for a single request
+  requestTimeoutMs: z.number().int().min(1000).max(60000).default(15000),
+});
+
+export type CrawlSettings = z.infer<typeof crawlSettingsSchema>;
+
+// Hard upper bound that no policy can exceed, including "unlimited" crawls
+export const ABSOLUTE_MAX_PAGES = 10000;
+
+// Page limit requested for a scan
+export const pageLimitSchema = z.union([
+  z.number().int().positive().max(ABSOLUTE_MAX_PAGES),
+  z.literal('unlimited'),
+]);
+
+export type PageLimit = z.infer<typeof pageLimitSchema>;
+
+// How the stored crawl limit was derived from the request (see crawl-limits.ts)
+export const crawlLimitInfoSchema = z.object({
+  requested: pageLimitSchema,
+  cappedBy: z.enum(['role-maximum', 'safety-ceiling']).optional(),
+});
+
+export type CrawlLimitInfo = z.infer<typeof crawlLimitInfoSchema>;
+
+// User-supplied patterns run against every response or URL of a scan, so they are kept short
+const MAX_PATTERN_LENGTH = 200;
+
+// Whether a quantifier that matches a varying number of times starts at the position: *, + or {n,} and {n,m}
+function isRepeatingQuantifier(pattern: string, index: number): boolean {
+  if (pattern[index] === '*' || pattern[index] === '+') {
+    return true;
+  }
+  const range = pattern.slice(index).match(/^\{\d+,(\d*)\}/);
+  return !!range && (range[1] === '' || Number(range[1]) > 1);
+}
+
+// Whether a repeated group contains a repetition or an alternation, as in (a+)+, (\w+\s?)* or (a|aa)+,
+// which backtracks exponentially on input that almost matches
+function isBacktrackingProne(pattern: string): boolean {
+  // Open groups, with whether a repetition or an alternation appeared inside each
+  const groups: { repeats: boolean; alternates: boolean }[] = [];
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const group = groups[groups.length - 1];
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push({ repeats: false, alternates: false });
+    } else if (char === '|' && group) {
+      group.alternates = true;
+    } else if (char === ')') {
+      const closed = groups.pop() ?? { repeats: false, alternates: false };
+      const repeated = isRepeatingQuantifier(pattern, i + 1);
+      if (repeated && (closed.repeats || closed.alternates)) {
+        return true;
+      }
+      if ((closed.repeats || repeated) && groups.length > 0) {
+        groups[groups.length - 1].repeats = true;
+      }
+    } else if (isRepeatingQuantifier(pattern, i) && group) {
+      group.repeats = true;
+    }
+  }
+  return false;
+}
+
+function isValidRegExp(pattern: string, flags?: string): boolean {
+  try {
+    new RegExp(pattern, flags);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const regexSchema = z.string().min(1).max(MAX_PATTERN_LENGTH)
+  .refine((pattern) => isValidRegExp(pattern), 'Invalid regular expression')
+  .refine((pattern) => !isBacktrackingProne(pattern), 'Regular expressions cannot repeat a group that contains a repetition or alternation');
+
+// Form login used for authenticated scans
+export const authenticationSchema = z.object({
+  loginUrl: z.string().url('Invalid login URL'),
+  usernameField: z.string().min(1).max(100).default('username'),
+  passwordField: z.string().min(1).max(100).default('password'),
+  username: z.string().min(1).max(200),
+  password: z.string().min(1).max(200),
+  // Matched against the page after login to confirm that it succeeded
+  loggedInIndicator: regexSchema.optional(),
+  // Matched against every response; a match means the session dropped and triggers a new login
+  loggedOutIndicator: regexSchema.optional(),
+});
+
+export type AuthenticationSettings = z.infer<typeof authenticationSchema>;
+
+// Headers the scanner manages itself and that must not be overridden
+const reservedHeaders = ['host', 'cookie', 'content-length', 'content-type', 'transfer-encoding', 'connection', 'user-agent'];
+
+const headerNameSchema = z.string()
+  .min(1)
+  .max(100)
+  .regex(/^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/, 'Invalid header name')
+  .refine((name) => !reservedHeaders.includes(name.toLowerCase()), 'This header cannot be set');
+
+// Header values must not contain line breaks (header injection)
+const headerValueSchema = z.string().max(4000).regex(/^[^\r\n]*$/, 'Header values cannot contain line breaks');
+
+// Static credentials and request customisation sent with every request to the target
+export const requestSettingsSchema = z.object({
+  headers: z.array(z.object({
+    name: headerNameSchema,
+    value: headerValueSchema,
+  })).max(50).default([]),
+  cookies: z.array(z.object({
+    name: z.string().min(1).max(200).regex(/^[^\s;=,]+$/, 'Invalid cookie name'),
+    value: z.string().max(4000).regex(/^[^\r\n;]*$/, 'Invalid cookie value'),
+  })).max(50).default([]),
+  tokenAuth: z.discriminatedUnion('type', [
+    z.object({
+      type: z.literal('bearer'),
+      value: headerValueSchema.min(1),
+    }),
+    z.object({
+      type: z.literal('api-key'),
+      headerName: headerNameSchema.default('X-API-Key'),
+      value: headerValueSchema.min(1),
+    }),
+  ]).optional(),
+  userAgent: headerValueSchema.min(1).max(500).optional(),
+});
+
+export type RequestSettings = z.infer<typeof requestSettingsSchema>;
+
+// Scope pattern: a glob matched against the URL path and query (`*` within a segment, `**` across
+// segments), or a regular expression written as /pattern/flags
+const scopePatternSchema = z.string().min(1).max(MAX_PATTERN_LENGTH).superRefine((pattern, ctx) => {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (!regex) {
+    return;
+  }
+  if (!isValidRegExp(regex[1], regex[2])) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid regular expression' });
+  } else if (isBacktrackingProne(regex[1])) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Regular expressions cannot repeat a group that contains a repetition or alternation' });
+  }
+});
+
+export const scopeSettingsSchema = z.object({
+  include: z.array(scopePatternSchema).max(50).default([]),
+  exclude: z.array(scopePatternSchema).max(50).default([]),
+  // Link hops from the start URL, robots.txt and sitemaps; unlimited when left out
+  maxDepth: z.number().int().min(0).max(100).optional(),
+  // keep: URLs as found / sort: order parameters by name / ignore-values: treat URLs that only
+  // differ in parameter values as the same page / strip: drop the query string
+  queryParameters: z.enum(['keep', 'sort', 'ignore-values', 'strip']).default('keep'),
+  includeSubdomains: z.boolean().default(false),
+});
+
+export type ScopeSettings = z.infer<typeof scopeSettingsSchema>;
+
+// The scan profile a scan runs with, copied when the scan is created so that later edits of the
+// profile do not change queued or paused scans
+export const scanProfileSnapshotSchema = z.object({
+  // Null for the built-in profiles
+  id: z.number().int().nullable(),
+  name: z.string(),
+  checkIds: z.array(z.string()),
+  followLinks: z.boolean(),
+  allowActiveChecks: z.boolean(),
+});
+
+export type ScanProfileSnapshot = z.infer<typeof scanProfileSnapshotSchema>;
+
+// Options stored on the scan record alongside the top-level scan columns
+export const scanOptionsSchema = z.object({
+  crawl: crawlSettingsSchema.default({}),
+  // Missing for scans created before scan profiles existed; their scan level decides
+  profile: scanProfileSnapshotSchema.optional(),
+  limits: crawlLimitInfoSchema.optional(),
+  authentication: authenticationSchema.optional(),
+  request: requestSettingsSchema.optional(),
+  scope: scopeSettingsSchema.default({}),
+});
+
+export type StoredScanOptions = z.infer<typeof scanOptionsSchema>;
+
+// Read the options of a stored scan, filling in defaults for scans created before they existed
+export function getScanOptions(scan: Scan): StoredScanOptions {
+  const parsed = scanOptionsSchema.safeParse(scan.options || {});
+  return parsed.success ? parsed.data : scanOptionsSchema.parse({});
+}
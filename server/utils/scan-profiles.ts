@@ -0,0 +1,146 @@
+import { z } from 'zod';
+import { Scan, ScanProfile } from '@shared/schema';
+import { storage } from '../storage';
+import { CrawlSettings, crawlSettingsSchema, getScanOptions, ScanProfileSnapshot } from './scan-options';
+import { ScanLevel, vulnerabilityDetector } from './vulnerability-detector';
+
+export const BUILT_IN_SCAN_LEVELS: ScanLevel[] = ['quick', 'standard', 'detailed'];
+
+// Settings of a user-defined scan profile
+export const scanProfileSettingsSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).nullable().optional(),
+  checkIds: z.array(z.string()).min(1, 'Select at least one check').max(200)
+    .refine((ids) => ids.every((id) => vulnerabilityDetector.hasCheck(id)), 'Unknown check id'),
+  // Off: scan the start URL only, like quick scans
+  followLinks: z.boolean().default(true),
+  // Replace the crawler settings of scans run with the profile
+  crawl: crawlSettingsSchema.partial().nullable().optional(),
+  allowActiveChecks: z.boolean().default(false),
+});
+
+export type ScanProfileSettings = z.infer<typeof scanProfileSettingsSchema>;
+
+// A built-in or custom profile as listed to the user
+export interface ScanProfileListing {
+  // Null for the built-in profiles, which are picked by their scan level
+  id: number | null;
+  scanLevel: ScanLevel | 'custom';
+  builtIn: boolean;
+  name: string;
+  description: string | null;
+  checkIds: string[];
+  followLinks: boolean;
+  crawl: Partial<CrawlSettings> | null;
+  allowActiveChecks: boolean;
+  requiresVerification: boolean;
+}
+
+const builtInProfiles: Record<ScanLevel, { name: string; description: string }> = {
+  quick: {
+    name: 'Quick',
+    description: 'Header, cookie and basic content checks of the start URL only',
+  },
+  standard: {
+    name: 'Standard',
+    description: 'Crawls the site and adds library, CSRF, CORS and robots.txt checks',
+  },
+  detailed: {
+    name: 'Detailed',
+    description: 'Crawls the site and runs every passive check',
+  },
+};
+
+// Profiles that run more than the standard checks are intrusive enough to need proof that the
+// user owns the target, like detailed scans
+export function requiresVerification(profile: { checkIds: string[]; allowActiveChecks: boolean }): boolean {
+  const standardChecks = new Set(vulnerabilityDetector.getCheckIdsForLevel('standard'));
+  return profile.allowActiveChecks || profile.checkIds.some((id) => !standardChecks.has(id));
+}
+
+export function getBuiltInProfile(scanLevel: ScanLevel): ScanProfileListing {
+  const checkIds = vulnerabilityDetector.getCheckIdsForLevel(scanLevel);
+  return {
+    id: null,
+    scanLevel,
+    builtIn: true,
+    ...builtInProfiles[scanLevel],
+    checkIds,
+    followLinks: scanLevel !== 'quick',
+    crawl: null,
+    allowActiveChecks: false,
+    requiresVerification: requiresVerification({ checkIds, allowActiveChecks: false }),
+  };
+}
+
+export function describeScanProfile(profile: ScanProfile): ScanProfileListing {
+  return {
+    id: profile.id,
+    scanLevel: 'custom',
+    builtIn: false,
+    name: profile.name,
+    description: profile.description,
+    checkIds: profile.checkIds,
+    followLinks: profile.followLinks,
+    crawl: profile.crawl as Partial<CrawlSettings> | null,
+    allowActiveChecks: profile.allowActiveChecks,
+    requiresVerification: requiresVerification(profile),
+  };
+}
+
+// The built-in profiles followed by the user's own
+export async function listScanProfiles(userId: number): Promise<ScanProfileListing[]> {
+  const custom = await storage.getScanProfilesByUserId(userId);
+  return [
+    ...BUILT_IN_SCAN_LEVELS.map(getBuiltInProfile),
+    ...custom.map(describeScanProfile),
+  ];
+}
+
+// The profile a scan request picks; undefined for a custom profile that does not exist or belongs
+// to someone else
+export async function resolveScanProfile(
+  userId: number,
+  request: { scanLevel: string; profileId?: number },
+): Promise<ScanProfileListing | undefined> {
+  if (request.scanLevel !== 'custom') {
+    return getBuiltInProfile(request.scanLevel as ScanLevel);
+  }
+
+  const profile = request.profileId !== undefined ? await storage.getScanProfile(request.profileId) : undefined;
+  if (!profile || profile.userId !== userId) {
+    return undefined;
+  }
+  return describeScanProfile(profile);
+}
+
+export function toProfileSnapshot(profile: ScanProfileListing): ScanProfileSnapshot {
+  return {
+    id: profile.id,
+    name: profile.name,
+    checkIds: profile.checkIds,
+    followLinks: profile.followLinks,
+    allowActiveChecks: profile.allowActiveChecks,
+  };
+}
+
+// The profile a stored scan runs with
+export function getScanProfile(scan: Scan): ScanProfileSnapshot {
+  const { profile } = getScanOptions(scan);
+  if (profile) {
+    return profile;
+  }
+  // Scans created before scan profiles existed ran the checks of their level
+  const level = BUILT_IN_SCAN_LEVELS.includes(scan.scanLevel as ScanLevel) ? scan.scanLevel as ScanLevel : 'quick';
+  return toProfileSnapshot(getBuiltInProfile(level));
+}
+
+// Checks a scan with the profile runs: the profile's checks less those the admin disabled, and
+// less active checks unless the profile allows them
+export function getProfileCheckIds(profile: ScanProfileSnapshot, disabledChecks: string[]): string[] {
+  const disabled = new Set(disabledChecks);
+  return profile.checkIds.filter((id) => {
+    const check = vulnerabilityDetector.getCheck(id);
+    return !!check && !disabled.has(id) && (check.mode !== 'active' || profile.allowActiveChecks);
+  });
+}
@@ -0,0 +1,363 @@
+import { hostname } from 'os';
+import { randomBytes } from 'crypto';
+import { storage } from '../storage';
+import { executeScan, markScanCancelled, markScanFailed } from './scan-runner';
+import { ScanStopReason } from './scan-utils';
+import { scanEvents } from './scan-events';
+import { Scan, ScanJob } from '@shared/schema';
+
+interface ScanQueueOptions {
+  pollIntervalMs: number;
+  leaseMs: number;
+  heartbeatIntervalMs: number;
+  concurrency: number;
+  maxAttempts: number;
+  baseRetryDelayMs: number;
+  maxRetryDelayMs: number;
+}
+
+const defaultOptions: ScanQueueOptions = {
+  pollIntervalMs: 5000,
+  leaseMs: 60000,
+  heartbeatIntervalMs: 20000,
+  concurrency: 2,
+  maxAttempts: 3,
+  baseRetryDelayMs: 30000,
+  maxRetryDelayMs: 10 * 60 * 1000,
+};
+
+// Failures that a retry cannot fix
+const permanentFailureCodes = ['EGRESS_BLOCKED'];
+
+/**
+ * Durable scan queue backed by the storage layer.
+ *
+ * Jobs are claimed with a lease that the worker keeps renewing while the scan runs.
+ * If the process dies, the lease expires and the job is picked up again by the next
+ * poll (or the next process to start), so restarts never leave scans stuck.
+ */
+export class ScanQueue {
+  private options: ScanQueueOptions;
+  private workerId: string;
+  private timer: NodeJS.Timeout | null = null;
+  private activeJobs: Map<number, ScanJob> = new Map();
+  // Stop requests for scans running in this process, keyed by scan ID
+  private stopRequests: Map<number, ScanStopReason | null> = new Map();
+  private polling = false;
+  private started = false;
+
+  constructor(options: Partial<ScanQueueOptions> = {}) {
+    this.options = { ...defaultOptions, ...options };
+    this.workerId = `${hostname()}:${process.pid}:${randomBytes(4).toString('hex')}`;
+  }
+
+  // Queue a scan for execution
+  async enqueue(scanId: number): Promise<ScanJob> {
+    const job = await storage.createScanJob({
+      scanId,
+      status: 'queued',
+      maxAttempts: this.options.maxAttempts,
+      runAt: new Date(),
+    });
+
+    // Pick it up right away instead of waiting for the next poll
+    if (this.started) {
+      setImmediate(() => this.poll());
+    }
+
+    return job;
+  }
+
+  // Pause a scan. Queued scans pause immediately; running scans stop at the next page boundary.
+  async requestPause(scan: Scan): Promise<'paused' | 'pausing' | null> {
+    const job = await storage.getScanJobByScanId(scan.id);
+    if (!job) return null;
+
+    if (job.status === 'queued') {
+      await storage.updateScanJob(job.id, { status: 'paused' });
+      await storage.updateScan(scan.id, { status: 'paused' });
+      scanEvents.publishStatus(scan.id, 'paused');
+      return 'paused';
+    }
+
+    if (job.status === 'running') {
+      await this.requestStop(job, 'pause');
+      return 'pausing';
+    }
+
+    return null;
+  }
+
+  // Cancel a queued, running or paused scan
+  async requestCancel(scan: Scan): Promise<'cancelled' | 'cancelling' | null> {
+    const job = await storage.getScanJobByScanId(scan.id);
+    if (!job) return null;
+
+    if (job.status === 'queued' || job.status === 'paused') {
+      await storage.updateScanJob(job.id, { status: 'cancelled', control: null, checkpoint: null });
+      await markScanCancelled(scan);
+      return 'cancelled';
+    }
+
+    if (job.status === 'running') {
+      await this.requestStop(job, 'cancel');
+      return 'cancelling';
+    }
+
+    return null;
+  }
+
+  // Put a paused scan back on the queue; it continues from its saved checkpoint
+  async resume(scan: Scan): Promise<boolean> {
+    const job = await storage.getScanJobByScanId(scan.id);
+    if (!job || job.status !== 'paused') return false;
+
+    await storage.updateScanJob(job.id, {
+      status: 'queued',
+      control: null,
+      runAt: new Date(),
+    });
+    await storage.updateScan(scan.id, { status: 'pending' });
+    scanEvents.publishStatus(scan.id, 'pending');
+
+    if (this.started) {
+      setImmediate(() => this.poll());
+    }
+    return true;
+  }
+
+  // The request is stored on the job so that whichever worker holds it sees it on its next heartbeat
+  private async requestStop(job: ScanJob, reason: ScanStopReason) {
+    await storage.updateScanJob(job.id, { control: reason });
+    if (this.stopRequests.has(job.scanId) && this.stopRequests.get(job.scanId) !== 'lease-lost') {
+      this.stopRequests.set(job.scanId, reason);
+    }
+  }
+
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    console.log(`Scan queue started (worker ${this.workerId})`);
+
+    await this.recoverOrphanedScans();
+    this.schedulePoll(0);
+  }
+
+  // Stop polling and hand running jobs back to the queue so another process can resume them
+  async shutdown(): Promise<void> {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    for (const job of Array.from(this.activeJobs.values())) {
+      try {
+        await storage.updateScanJob(job.id, {
+          status: 'queued',
+          // 中断はジョブ自体の失敗ではないので試行回数に数えない
+          attempts: Math.max(0, job.attempts - 1),
+          lockedBy: null,
+          lockedUntil: null,
+          runAt: new Date(),
+        });
+        await storage.updateScan(job.scanId, { status: 'pending' });
+      } catch (error) {
+        console.error(`Error releasing scan job #${job.id}:`, error);
+      }
+    }
+    this.activeJobs.clear();
+  }
+
+  private schedulePoll(delayMs: number) {
+    if (!this.started) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.poll(), delayMs);
+  }
+
+  private async poll() {
+    if (!this.started || this.polling) return;
+    this.polling = true;
+
+    try {
+      await this.recoverExpiredJobs();
+
+      while (this.activeJobs.size < this.options.concurrency) {
+        const job = await storage.claimNextScanJob(this.workerId, this.options.leaseMs);
+        if (!job) break;
+
+        this.activeJobs.set(job.id, job);
+        this.processJob(job).finally(() => {
+          this.activeJobs.delete(job.id);
+          this.schedulePoll(0);
+        });
+      }
+    } catch (error) {
+      console.error('Error polling scan queue:', error);
+    } finally {
+      this.polling = false;
+      this.schedulePoll(this.options.pollIntervalMs);
+    }
+  }
+
+  private async processJob(job: ScanJob) {
+    this.stopRequests.set(job.scanId, (job.control as ScanStopReason | null) || null);
+
+    const heartbeat = setInterval(async () => {
+      try {
+        const renewed = await storage.renewScanJobLease(job.id, this.workerId, this.options.leaseMs);
+        if (!renewed) {
+          // The job may be claimed by another worker once the lease expires, so stop before both runs write results
+          console.warn(`Lost lease on scan job #${job.id}; stopping the scan`);
+          this.stopRequests.set(job.scanId, 'lease-lost');
+          clearInterval(heartbeat);
+          return;
+        }
+
+        // Pick up pause/cancel requests made through another process
+        const current = await storage.getScanJobByScanId(job.scanId);
+        if (current?.id === job.id && current.control && !this.stopRequests.get(job.scanId)) {
+          this.stopRequests.set(job.scanId, current.control as ScanStopReason);
+        }
+      } catch (error) {
+        console.error(`Error renewing lease on scan job #${job.id}:`, error);
+      }
+    }, this.options.heartbeatIntervalMs);
+
+    try {
+      const scan = await storage.getScan(job.scanId);
+      if (!scan) {
+        // スキャンが削除済みの場合はジョブを完了扱いにする
+        await storage.updateScanJob(job.id, { status: 'completed', lockedBy: null, lockedUntil: null });
+        return;
+      }
+
+      console.log(`Processing scan job #${job.id} for scan #${scan.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+      const outcome = await executeScan(scan, job, () => this.stopRequests.get(scan.id) || null);
+
+      if (outcome === 'completed') {
+        await storage.updateScanJob(job.id, {
+          status: 'completed',
+          lockedBy: null,
+          lockedUntil: null,
+          lastError: null,
+        });
+      }
+    } catch (error: any) {
+      console.error(`Scan job #${job.id} failed:`, error);
+      // The job is no longer ours to retry or fail
+      if (this.stopRequests.get(job.scanId) !== 'lease-lost') {
+        await this.handleFailure(job, error);
+      }
+    } finally {
+      clearInterval(heartbeat);
+      this.stopRequests.delete(job.scanId);
+    }
+  }
+
+  private async handleFailure(job: ScanJob, error: any) {
+    const errorMessage = error && typeof error.message === 'string'
+      ? error.message
+      : 'Unknown error occurred';
+
+    try {
+      if (job.attempts < job.maxAttempts && !permanentFailureCodes.includes(error?.code)) {
+        const runAt = new Date(Date.now() + this.getRetryDelay(job.attempts));
+        await storage.updateScanJob(job.id, {
+          status: 'queued',
+          lockedBy: null,
+          lockedUntil: null,
+          lastError: errorMessage,
+          runAt,
+        });
+        await storage.updateScan(job.scanId, { status: 'pending' });
+        scanEvents.publishStatus(job.scanId, 'pending', `Retrying after error: ${errorMessage}`);
+        console.log(`Scan job #${job.id} will be retried at ${runAt.toISOString()}`);
+        return;
+      }
+
+      await storage.updateScanJob(job.id, {
+        status: 'failed',
+        lockedBy: null,
+        lockedUntil: null,
+        lastError: errorMessage,
+      });
+
+      const scan = await storage.getScan(job.scanId);
+      if (scan) {
+        await markScanFailed(scan, error, job.attempts);
+      }
+    } catch (updateError) {
+      console.error(`Error recording failure for scan job #${job.id}:`, updateError);
+    }
+  }
+
+  // Exponential backoff with a little jitter so retries don't line up
+  private getRetryDelay(attempts: number): number {
+    const delay = this.options.baseRetryDelayMs * Math.pow(2, Math.max(0, attempts - 1));
+    const jitter = Math.floor(Math.random() * 1000);
+    return Math.min(delay, this.options.maxRetryDelayMs) + jitter;
+  }
+
+  // Jobs whose lease expired belong to a worker that died mid-scan
+  private async recoverExpiredJobs() {
+    const expiredJobs = await storage.getExpiredScanJobs(new Date());
+
+    for (const expired of expiredJobs) {
+      // Other processes poll too; only the one whose claim succeeds recovers the job
+      const job = await storage.claimExpiredScanJob(expired.id, this.workerId, this.options.leaseMs);
+      if (!job) {
+        continue;
+      }
+
+      console.log(`Recovering scan job #${job.id} (lease held by ${expired.lockedBy || 'unknown'} expired)`);
+
+      // Honour pause/cancel requests the dead worker never got to act on
+      if (job.control === 'cancel' || job.control === 'pause') {
+        const status = job.control === 'cancel' ? 'cancelled' : 'paused';
+        await storage.updateScanJob(job.id, { status, control: null, lockedBy: null, lockedUntil: null });
+
+        const scan = await storage.getScan(job.scanId);
+        if (scan && status === 'cancelled') {
+          await markScanCancelled(scan);
+        } else if (scan) {
+          await storage.updateScan(scan.id, { status: 'paused' });
+          scanEvents.publishStatus(scan.id, 'paused');
+        }
+        continue;
+      }
+
+      await this.handleFailure(job, new Error('Scan worker stopped before the scan finished'));
+    }
+  }
+
+  // Scans left pending/running without a live job (e.g. created before the queue existed)
+  private async recoverOrphanedScans() {
+    try {
+      await this.recoverExpiredJobs();
+
+      const scans = await storage.getScansByStatus(['pending', 'running']);
+      for (const scan of scans) {
+        const job = await storage.getScanJobByScanId(scan.id);
+        if (job && (job.status === 'queued' || job.status === 'running')) {
+          continue;
+        }
+
+        console.log(`Re-queueing orphaned scan #${scan.id} for ${scan.url}`);
+        await storage.updateScan(scan.id, { status: 'pending' });
+        await storage.createScanJob({
+          scanId: scan.id,
+          status: 'queued',
+          maxAttempts: this.options.maxAttempts,
+          runAt: new Date(),
+        });
+      }
+    } catch (error) {
+      console.error('Error recovering orphaned scans:', error);
+    }
+  }
+}
+
+export const scanQueue = new ScanQueue();
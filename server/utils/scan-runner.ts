@@ -0,0 +1,246 @@
+import { storage } from '../storage';
+import { runScan, ScanCheckpoint, ScanStopReason } from './scan-utils';
+import { scanEvents } from './scan-events';
+import { getScanOptions } from './scan-options';
+import { EgressGuard, getEgressPolicy } from './egress-guard';
+import { collectSecrets, redactSecrets } from './secrets';
+import { recordScanFindings } from './issues';
+import { getDisabledChecks } from './check-settings';
+import { getProfileCheckIds, getScanProfile } from './scan-profiles';
+import { loadJsAdvisoryDatabase } from './js-advisories';
+import { Scan, ScanJob } from '@shared/schema';
+
+// abandoned: the scan stopped without recording anything because its job went to another worker
+export type ScanOutcome = 'completed' | 'paused' | 'cancelled' | 'abandoned';
+
+// Run a single scan and persist its results.
+// Throws on failure so that the caller (the scan queue) can decide whether to retry.
+export async function executeScan(
+  scan: Scan,
+  job: ScanJob,
+  shouldStop: () => ScanStopReason | null,
+): Promise<ScanOutcome> {
+  const checkpoint = job.checkpoint as ScanCheckpoint | null;
+  
+  // 再開時は元の開始時間を維持する
+  const startTime = checkpoint && scan.startedAt ? new Date(scan.startedAt) : new Date();
+
+  console.log(`${checkpoint ? 'Resuming' : 'Starting'} scan #${scan.id} for ${scan.url}`);
+
+  // Update scan status to running and set startedAt
+  await storage.updateScan(scan.id, {
+    status: 'running',
+    startedAt: startTime,
+  });
+  scanEvents.publishStatus(scan.id, 'running');
+
+  // Get custom rules if needed
+  let customRules: any[] = [];
+  if (scan.includeCustomRules) {
+    customRules = await storage.getCustomRulesByUserId(scan.userId);
+  }
+
+  const options = getScanOptions(scan);
+  const profile = getScanProfile(scan);
+
+  // Checked again here because DNS may have changed, or the policy tightened, since the scan was created
+  const egress = new EgressGuard(await getEgressPolicy());
+  await egress.checkUrl(scan.url);
+
+  // Use the advisory database as it is now, in case an admin replaced it
+  await loadJsAdvisoryDatabase();
+
+  // scan.crawlLimit has already been capped by the crawl limits policy when the scan was created
+  const scanResult = await runScan({
+    url: scan.url,
+    profileName: profile.name,
+    checkIds: getProfileCheckIds(profile, await getDisabledChecks()),
+    followLinks: profile.followLinks,
+    crawlLimit: scan.crawlLimit,
+    useAuthentication: scan.useAuthentication,
+    includeCustomRules: scan.includeCustomRules,
+    customRules,
+    crawl: options.crawl,
+    authentication: options.authentication,
+    request: options.request,
+    scope: options.scope,
+    egress,
+    checkpoint,
+    shouldStop,
+    onEvent: (event) => scanEvents.publish(scan.id, event),
+  });
+
+  // Another worker may have claimed the job by now; only its run may write results
+  if (scanResult.interrupted === 'lease-lost') {
+    console.log(`Scan #${scan.id} abandoned after ${scanResult.scannedUrls.length} URLs: the job lease was lost.`);
+    return 'abandoned';
+  }
+
+  if (scanResult.interrupted === 'pause') {
+    // Keep the visited set and queue so that resume continues where the crawl stopped. A pause is
+    // not a failed attempt, so the claim that started this run is given back.
+    await storage.updateScanJob(job.id, {
+      status: 'paused',
+      attempts: Math.max(0, job.attempts - 1),
+      control: null,
+      checkpoint: scanResult.checkpoint,
+      lockedBy: null,
+      lockedUntil: null,
+    });
+    await storage.updateScan(scan.id, { status: 'paused' });
+    scanEvents.publishStatus(scan.id, 'paused');
+    console.log(`Scan #${scan.id} paused after ${scanResult.scannedUrls.length} URLs.`);
+    return 'paused';
+  }
+
+  if (scanResult.interrupted === 'cancel') {
+    await storage.updateScanJob(job.id, {
+      status: 'cancelled',
+      control: null,
+      checkpoint: null,
+      lockedBy: null,
+      lockedUntil: null,
+    });
+    await markScanCancelled(scan, scanResult.scannedUrls.length);
+    console.log(`Scan #${scan.id} cancelled after ${scanResult.scannedUrls.length} URLs.`);
+    return 'cancelled';
+  }
+
+  console.log(`Scan #${scan.id} completed${scanResult.partial ? ` (partial: ${scanResult.partial})` : ''}. Found ${scanResult.vulnerabilities.length} vulnerabilities.`);
+
+  // 再試行時に前回の試行で保存された脆弱性が重複しないよう削除しておく
+  await storage.deleteVulnerabilitiesByScanId(scan.id);
+
+  // Store vulnerabilities and track them as issues across scans
+  await recordScanFindings(scan, scanResult.vulnerabilities, scanResult.scannedUrls, scanResult.checksRun);
+
+  // Calculate scan duration in seconds
+  const scanDuration = (new Date().getTime() - startTime.getTime()) / 1000;
+
+  // Update scan with detailed results and summary
+  await storage.updateScan(scan.id, {
+    status: 'completed',
+    completedAt: new Date(),
+    result: redactSecrets({
+      summary: scanResult.summary,
+      scannedUrls: scanResult.scannedUrls,
+      discoveredUrls: scanResult.discoveredUrls,
+      outOfScopeUrls: scanResult.outOfScopeUrls,
+      checksRun: scanResult.checksRun,
+      scanLevel: scan.scanLevel,
+      scanProfile: profile.name,
+      scanDuration: scanDuration,
+      totalPages: scanResult.scannedUrls.length,
+      vulnerabilitiesCount: scanResult.vulnerabilities.length,
+      // 時間予算を使い切った場合はクロールが途中で打ち切られている
+      partial: !!scanResult.partial,
+      partialReason: scanResult.partial,
+      crawl: options.crawl,
+      authenticated: scanResult.authenticated,
+      crawlLimit: describeCrawlLimit(scan, scanResult.limitReached),
+      timestamp: new Date().toISOString(),
+    }, collectSecrets(options)),
+  });
+  scanEvents.publishStatus(
+    scan.id,
+    'completed',
+    scanResult.partial ? 'Time budget exhausted; results are partial' : undefined,
+  );
+
+  // Log security event
+  await storage.createSecurityEvent({
+    userId: scan.userId,
+    type: 'scan_completed',
+    description: `Scan completed for ${scan.url}`,
+    metadata: {
+      scanId: scan.id,
+      vulnerabilities: scanResult.summary,
+    },
+  });
+
+  return 'completed';
+}
+
+// Explain how the page limit affected the crawl so that capped scans are not mistaken for complete ones
+function describeCrawlLimit(scan: Scan, limitReached = false) {
+  const { limits } = getScanOptions(scan);
+  const requested = limits?.requested ?? scan.crawlLimit;
+  const cappedBy = limits?.cappedBy;
+
+  let note: string | undefined;
+  if (limitReached) {
+    if (cappedBy === 'role-maximum') {
+      note = `Crawl stopped at ${scan.crawlLimit} pages, the maximum allowed for your role (requested: ${requested}).`;
+    } else if (cappedBy === 'safety-ceiling') {
+      note = `Crawl stopped at the safety ceiling of ${scan.crawlLimit} pages (requested: ${requested}).`;
+    } else {
+      note = `Crawl stopped at the requested limit of ${scan.crawlLimit} pages; more pages were found.`;
+    }
+  }
+
+  return {
+    requested,
+    applied: scan.crawlLimit,
+    cappedBy: cappedBy ?? null,
+    limitReached,
+    note,
+  };
+}
+
+// Record a scan as cancelled; findings from a cancelled crawl are discarded
+export async function markScanCancelled(scan: Scan, pagesScanned = 0): Promise<void> {
+  await storage.updateScan(scan.id, {
+    status: 'cancelled',
+    completedAt: new Date(),
+    result: {
+      cancelled: true,
+      scanLevel: scan.scanLevel,
+      totalPages: pagesScanned,
+      timestamp: new Date().toISOString(),
+    },
+  });
+  scanEvents.publishStatus(scan.id, 'cancelled');
+}
+
+// Mark a scan as permanently failed once the queue has given up on it
+export async function markScanFailed(scan: Scan, error: any, attempts: number): Promise<void> {
+  // Error messages and stack traces can contain request details; keep the scan's credentials out of them
+  const secrets = collectSecrets(getScanOptions(scan));
+  const errorMessage = redactSecrets(
+    error && typeof error.message === 'string' ? error.message : 'Unknown error occurred',
+    secrets,
+  );
+
+  // Calculate scan duration in seconds even in error case
+  const startedAt = scan.startedAt ? new Date(scan.startedAt) : new Date();
+  const scanDuration = (new Date().getTime() - startedAt.getTime()) / 1000;
+
+  // Update scan status to failed with detailed error information
+  await storage.updateScan(scan.id, {
+    status: 'failed',
+    completedAt: new Date(),
+    result: {
+      error: errorMessage,
+      scanLevel: scan.scanLevel,
+      scanDuration: scanDuration,
+      url: scan.url,
+      timestamp: new Date().toISOString(),
+      failureReason: error?.code || 'UNKNOWN_ERROR',
+      stackTrace: redactSecrets(error?.stack || 'No stack trace available', secrets),
+      attempts,
+    },
+  });
+  scanEvents.publishStatus(scan.id, 'failed', errorMessage);
+
+  // Log security event
+  await storage.createSecurityEvent({
+    userId: scan.userId,
+    type: 'scan_failed',
+    description: `Scan failed for ${scan.url}: ${errorMessage}`,
+    metadata: {
+      scanId: scan.id,
+      error: errorMessage,
+      attempts,
+    },
+  });
+}
@@ -0,0 +1,151 @@
+import { storage } from '../storage';
+import { getNextRun } from './cron';
+import { scanSettingsSchema, startScan } from './scan-service';
+import { ScanSchedule } from '@shared/schema';
+
+interface ScanSchedulerOptions {
+  pollIntervalMs: number;
+}
+
+const defaultOptions: ScanSchedulerOptions = {
+  pollIntervalMs: 30000,
+};
+
+const activeScanStatuses = ['pending', 'running', 'paused'];
+
+type RunOutcome = { status: 'started'; scanId: number; reason: null } | { status: 'skipped'; scanId: null; reason: string };
+
+// The next time the schedule fires after `after`; null when the expression can no longer match
+export function getNextScheduledRun(schedule: Pick<ScanSchedule, 'cronExpression' | 'timezone'>, after: Date): Date | null {
+  try {
+    return getNextRun(schedule.cronExpression, schedule.timezone, after);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Starts the scans of due scan schedules.
+ *
+ * Each schedule stores its next run time; a run is claimed by moving that time forward, so
+ * several processes can poll the same storage without starting a run twice. Occurrences missed
+ * while no process was running are not made up: a schedule that is overdue runs once and then
+ * continues from the current time.
+ */
+export class ScanScheduler {
+  private options: ScanSchedulerOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private started = false;
+
+  constructor(options: Partial<ScanSchedulerOptions> = {}) {
+    this.options = { ...defaultOptions, ...options };
+  }
+
+  start() {
+    if (this.started) return;
+    this.started = true;
+
+    console.log('Scan scheduler started');
+    this.scheduleTick(0);
+  }
+
+  shutdown() {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private scheduleTick(delayMs: number) {
+    if (!this.started) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.tick(), delayMs);
+  }
+
+  private async tick() {
+    if (!this.started || this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const dueSchedules = await storage.getDueScanSchedules(new Date());
+      for (const schedule of dueSchedules) {
+        if (!this.started) break;
+        try {
+          await this.runSchedule(schedule);
+        } catch (error) {
+          console.error(`Error running scan schedule #${schedule.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Error polling scan schedules:', error);
+    } finally {
+      this.ticking = false;
+      this.scheduleTick(this.options.pollIntervalMs);
+    }
+  }
+
+  private async runSchedule(schedule: ScanSchedule) {
+    const scheduledFor = schedule.nextRunAt;
+    if (!scheduledFor) return;
+
+    const now = new Date();
+    const claimed = await storage.claimScanScheduleRun(schedule.id, scheduledFor, getNextScheduledRun(schedule, now));
+    if (!claimed) {
+      // Another process took this run
+      return;
+    }
+
+    const outcome = await this.startRun(schedule);
+
+    await storage.createScanScheduleRun({
+      scheduleId: schedule.id,
+      scheduledFor,
+      status: outcome.status,
+      scanId: outcome.scanId,
+      reason: outcome.reason,
+    });
+    await storage.updateScanSchedule(schedule.id, {
+      lastRunAt: now,
+      lastRunStatus: outcome.status,
+      lastRunReason: outcome.reason,
+      lastScanId: outcome.scanId ?? schedule.lastScanId,
+    });
+
+    if (outcome.status === 'skipped') {
+      console.log(`Scan schedule #${schedule.id} skipped: ${outcome.reason}`);
+    }
+  }
+
+  private async startRun(schedule: ScanSchedule): Promise<RunOutcome> {
+    const skip = (reason: string): RunOutcome => ({ status: 'skipped', scanId: null, reason });
+
+    const user = await storage.getUser(schedule.userId);
+    if (!user) {
+      return skip('Schedule owner no longer exists');
+    }
+
+    // Never stack runs on top of a scan that has not finished
+    if (schedule.lastScanId) {
+      const previous = await storage.getScan(schedule.lastScanId);
+      if (previous && activeScanStatuses.includes(previous.status)) {
+        return skip(`Previous scan #${previous.id} is still ${previous.status}`);
+      }
+    }
+
+    const settings = scanSettingsSchema.safeParse(schedule.options);
+    if (!settings.success) {
+      return skip(`Invalid scan settings: ${settings.error.errors.map((error) => error.message).join(', ')}`);
+    }
+
+    const { scan, rejection } = await startScan(user, { ...settings.data, url: schedule.url }, schedule.id);
+    if (rejection) {
+      return skip(`${rejection.body.message}: ${rejection.body.reason}`);
+    }
+
+    return { status: 'started', scanId: scan.id, reason: null };
+  }
+}
+
+export const scanScheduler = new ScanScheduler();
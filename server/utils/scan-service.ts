@@ -0,0 +1,197 @@
+import { z } from 'zod';
+import { Scan, User } from '@shared/schema';
+import { storage } from '../storage';
+import { scanQueue } from './scan-queue';
+import {
+  authenticationSchema,
+  crawlSettingsSchema,
+  pageLimitSchema,
+  requestSettingsSchema,
+  scopeSettingsSchema,
+} from './scan-options';
+import { EgressGuard, getEgressPolicy } from './egress-guard';
+import {
+  getTargetHost,
+  isTargetVerified,
+  VERIFICATION_FILE_PATH,
+  VERIFICATION_META_NAME,
+} from './target-verification';
+import { getCrawlLimitsPolicy, resolveCrawlLimit } from './crawl-limits';
+import { findOrCreateTargetForUrl, isUrlInTarget } from './targets';
+import { requiresVerification, resolveScanProfile, toProfileSnapshot } from './scan-profiles';
+
+// Everything a scan request configures besides the target URL (also stored on scan schedules)
+const scanSettingsObjectSchema = z.object({
+  // A built-in profile, or "custom" for the user's own profile given by profileId
+  scanLevel: z.enum(['quick', 'standard', 'detailed', 'custom']),
+  profileId: z.number().int().positive().optional(),
+  crawlLimit: pageLimitSchema,
+  useAuthentication: z.boolean().optional().default(false),
+  includeCustomRules: z.boolean().optional().default(false),
+  crawl: crawlSettingsSchema.optional().default({}),
+  authentication: authenticationSchema.optional(),
+  request: requestSettingsSchema.optional(),
+  scope: scopeSettingsSchema.optional().default({}),
+  // Target to file the scan under; found (or created) from the URL when left out
+  targetId: z.number().int().positive().optional(),
+});
+
+const loginConfigurationRequired = {
+  message: 'Login configuration is required for authenticated scans',
+  path: ['authentication'],
+};
+
+const scanProfileRequired = {
+  message: 'A scan profile is required for custom scans',
+  path: ['profileId'],
+};
+
+export const scanSettingsSchema = scanSettingsObjectSchema
+  .refine((data) => !data.useAuthentication || !!data.authentication, loginConfigurationRequired)
+  .refine((data) => data.scanLevel !== 'custom' || data.profileId !== undefined, scanProfileRequired);
+
+// Validate scan request
+export const scanRequestSchema = scanSettingsObjectSchema.extend({
+  url: z.string().url('Invalid URL'),
+})
+  .refine((data) => !data.useAuthentication || !!data.authentication, loginConfigurationRequired)
+  .refine((data) => data.scanLevel !== 'custom' || data.profileId !== undefined, scanProfileRequired);
+
+export type ScanSettings = z.infer<typeof scanSettingsSchema>;
+export type ScanRequest = z.infer<typeof scanRequestSchema>;
+
+// Why a scan request was refused, as sent to the client
+export interface ScanRejection {
+  status: number;
+  body: { message: string; reason: string; host?: string };
+}
+
+export type StartScanResult = { scan: Scan; rejection?: undefined } | { scan?: undefined; rejection: ScanRejection };
+
+function invalidScanProfile(data: ScanRequest): ScanRejection {
+  return { status: 400, body: { message: 'Invalid scan profile', reason: `Scan profile #${data.profileId} does not exist` } };
+}
+
+// Policy checks that apply to every scan, whoever starts it; null when the request may run
+export async function checkScanRequest(user: User, data: ScanRequest): Promise<ScanRejection | null> {
+  // Refuse targets in internal networks unless an admin has allowed the range
+  const egress = new EgressGuard(await getEgressPolicy());
+  const targets = [data.url];
+  if (data.useAuthentication && data.authentication) {
+    targets.push(data.authentication.loginUrl);
+  }
+  for (const target of targets) {
+    try {
+      await egress.checkUrl(target);
+    } catch (error: any) {
+      if (error?.code !== 'EGRESS_BLOCKED') {
+        // Hosts that do not resolve yet are left to fail when the scan runs
+        continue;
+      }
+
+      await storage.createSecurityEvent({
+        userId: user.id,
+        type: 'scan_target_blocked',
+        description: `Scan of internal address blocked: ${target}`,
+        metadata: { url: target, reason: error.message },
+      });
+      return {
+        status: 403,
+        body: { message: 'Scanning internal network addresses is not allowed', reason: error.message },
+      };
+    }
+  }
+
+  if (data.targetId !== undefined) {
+    const target = await storage.getTarget(data.targetId);
+    if (!target || target.userId !== user.id) {
+      return { status: 400, body: { message: 'Invalid target', reason: `Target #${data.targetId} does not exist` } };
+    }
+    if (!isUrlInTarget(data.url, target.baseUrl)) {
+      return {
+        status: 400,
+        body: { message: 'Invalid target', reason: `${data.url} is not part of target "${target.name}" (${target.baseUrl})` },
+      };
+    }
+  }
+
+  const profile = await resolveScanProfile(user.id, data);
+  if (!profile) {
+    return invalidScanProfile(data);
+  }
+
+  // Intrusive scans are only run against hosts the user has proved they own. Ownership is verified
+  // per host, so they cannot follow links to the target's other subdomains.
+  if (requiresVerification(profile) && data.scope.includeSubdomains) {
+    return {
+      status: 400,
+      body: {
+        message: 'Subdomains cannot be included',
+        reason: `${profile.name} scans only crawl the verified host ${getTargetHost(data.url)}. Verify each subdomain and scan it separately.`,
+        host: getTargetHost(data.url),
+      },
+    };
+  }
+  if (requiresVerification(profile) && !(await isTargetVerified(user.id, data.url))) {
+    const host = getTargetHost(data.url);
+    return {
+      status: 403,
+      body: {
+        message: 'Target ownership not verified',
+        reason: `${profile.name} scans require verified ownership of ${host}. Serve your verification token at ${VERIFICATION_FILE_PATH} or in a ${VERIFICATION_META_NAME} meta tag, verify the target and try again.`,
+        host,
+      },
+    };
+  }
+
+  return null;
+}
+
+// Create a scan and queue it. Used for scans requested through the API and for scheduled runs.
+export async function startScan(user: User, data: ScanRequest, scheduleId?: number): Promise<StartScanResult> {
+  const rejection = await checkScanRequest(user, data);
+  if (rejection) {
+    return { rejection };
+  }
+  const profile = await resolveScanProfile(user.id, data);
+  if (!profile) {
+    return { rejection: invalidScanProfile(data) };
+  }
+
+  // Apply the admin-configured per-role page limits
+  const policy = await getCrawlLimitsPolicy();
+  const limits = resolveCrawlLimit(policy, user.role, data.crawlLimit);
+
+  const targetId = data.targetId ?? (await findOrCreateTargetForUrl(user.id, data.url)).id;
+
+  // Create scan record
+  const scan = await storage.createScan({
+    userId: user.id,
+    url: data.url,
+    scanLevel: data.scanLevel,
+    profileId: profile.id,
+    crawlLimit: limits.crawlLimit,
+    useAuthentication: data.useAuthentication,
+    includeCustomRules: data.includeCustomRules,
+    status: 'pending',
+    options: {
+      // The crawler settings of a custom profile take precedence over those of the request
+      crawl: { ...data.crawl, ...profile.crawl },
+      profile: toProfileSnapshot(profile),
+      limits: {
+        requested: limits.requested,
+        cappedBy: limits.cappedBy,
+      },
+      authentication: data.useAuthentication ? data.authentication : undefined,
+      request: data.request,
+      scope: data.scope,
+    },
+    scheduleId: scheduleId ?? null,
+    targetId,
+  });
+
+  // Hand the scan to the durable queue; it survives restarts and is retried on failure
+  await scanQueue.enqueue(scan.id);
+
+  return { scan };
+}
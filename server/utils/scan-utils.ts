@@ -1,21 +1,81 @@
-import axios from 'axios';
-import * as cheerio from 'cheerio';
 import { URL } from 'url';
 import { vulnerabilityDetector } from './vulnerability-detector';
 import { InsertVulnerability } from '@shared/schema';
+import { ScanEvent } from './scan-events';
+import { AuthenticationSettings, CrawlSettings, crawlSettingsSchema, RequestSettings, ScopeSettings } from './scan-options';
+import { CrawlScope, OutOfScopeReason, OutOfScopeUrl } from './crawl-scope';
+import { EgressGuard } from './egress-guard';
+import { HttpClient, HttpResponse } from './http-client';
+import { FormLoginSession } from './scan-auth';
+import { HostRateLimiter, sleep } from './rate-limiter';
+import { DiscoveredUrl, discoverSeedUrls, extractPageUrls } from './url-discovery';
+import { Prober } from './injection-points';
+
+// lease-lost: the worker no longer holds the scan's job, so another worker may be running it
+export type ScanStopReason = 'pause' | 'cancel' | 'lease-lost';
+
+// Why a finished crawl did not cover everything it found
+export type ScanPartialReason = 'time-budget';
+
+// How long an idle worker waits for in-flight pages to discover more links
+const IDLE_WAIT_MS = 100;
+
+// Keep the list of skipped URLs reviewable on large sites
+const MAX_OUT_OF_SCOPE_URLS = 1000;
+
+// Crawler state that is persisted when a scan is paused so it can continue where it left off
+export interface ScanCheckpoint {
+  visited: string[];
+  queue: string[];
+  vulnerabilities: InsertVulnerability[];
+  sources?: DiscoveredUrl[];
+  outOfScope?: OutOfScopeUrl[];
+}
 
 interface ScanOptions {
   url: string;
-  scanLevel: string;
+  // Name of the scan profile, for logging
+  profileName: string;
+  // Built-in checks run on each page (see scan-profiles.ts)
+  checkIds: string[];
+  // Crawl the links, robots.txt and sitemaps of the site; otherwise only the start URL is scanned
+  followLinks: boolean;
   crawlLimit: number;
   useAuthentication: boolean;
   includeCustomRules: boolean;
   customRules?: any[];
+  checkpoint?: ScanCheckpoint | null;
+  // Crawler engine settings; defaults apply to anything left out
+  crawl?: Partial<CrawlSettings>;
+  // Login used when useAuthentication is set
+  authentication?: AuthenticationSettings | null;
+  // Extra headers, cookies and token sent with every request to the target
+  request?: RequestSettings | null;
+  // Include/exclude rules, depth limit and URL normalization
+  scope?: Partial<ScopeSettings> | null;
+  // Network policy for outbound requests; internal addresses are blocked when left out
+  egress?: EgressGuard;
+  // Polled between pages; returning a reason stops the crawl at the next page boundary
+  shouldStop?: () => ScanStopReason | null;
+  // Receives progress events as the crawl advances
+  onEvent?: (event: ScanEvent) => void;
 }
 
-interface ScanResult {
+export interface ScanResult {
   scannedUrls: string[];
+  // How each scanned URL was found
+  discoveredUrls: DiscoveredUrl[];
+  // URLs that were found but not crawled because of the scope rules
+  outOfScopeUrls: OutOfScopeUrl[];
   vulnerabilities: InsertVulnerability[];
+  // Ids of the checks that ran on the scanned pages, custom rules included
+  checksRun: string[];
+  interrupted?: ScanStopReason;
+  partial?: ScanPartialReason;
+  // The crawl stopped at the page limit with links still left to visit
+  limitReached?: boolean;
+  authenticated: boolean;
+  checkpoint?: ScanCheckpoint;
   summary: {
     totalVulnerabilities: number;
     highSeverity: number;
@@ -25,102 +85,132 @@ interface ScanResult {
   };
 }
 
+// Custom headers plus the bearer token or API key, as configured for the scan
+export function buildRequestHeaders(request?: RequestSettings | null): Record<string, string> {
+  const headers: Record<string, string> = {};
+  
+  for (const header of request?.headers || []) {
+    headers[header.name] = header.value;
+  }
+  
+  if (request?.tokenAuth?.type === 'bearer') {
+    headers['Authorization'] = `Bearer ${request.tokenAuth.value}`;
+  } else if (request?.tokenAuth?.type === 'api-key') {
+    headers[request.tokenAuth.headerName] = request.tokenAuth.value;
+  }
+  
+  return headers;
+}
+
 export class Scanner {
   private visited: Set<string> = new Set();
   private queue: string[] = [];
+  // Every URL that has been queued, with how it was found
+  private sources: Map<string, DiscoveredUrl> = new Map();
+  // Canonical keys of queued URLs, so that URLs the scope treats as the same page are crawled once
+  private knownKeys: Set<string> = new Set();
+  private outOfScope: Map<string, OutOfScopeUrl> = new Map();
+  // Parameters that active checks have probed, so that a form on every page is only probed once
+  private probedParameters: Set<string> = new Set();
+  private scope: CrawlScope;
   private maxPages: number;
   private baseUrl: string;
   private customRules: any[] = [];
-  private scanLevel: string;
+  private checkIds: string[];
+  private crawl: CrawlSettings;
+  private rateLimiter: HostRateLimiter;
+  private client: HttpClient;
+  private session?: FormLoginSession;
+  private vulnerabilities: InsertVulnerability[] = [];
+  // Pages that workers have taken from the queue but not finished yet
+  private inFlight = 0;
+  private deadline = 0;
+  private interrupted?: ScanStopReason;
+  private budgetExceeded = false;
 
   constructor(private options: ScanOptions) {
     this.maxPages = options.crawlLimit;
-    this.scanLevel = options.scanLevel;
+    this.checkIds = options.checkIds;
     this.customRules = options.customRules || [];
+    this.crawl = crawlSettingsSchema.parse(options.crawl || {});
+    this.rateLimiter = new HostRateLimiter(this.crawl.requestsPerSecond);
     
     try {
       const parsedUrl = new URL(options.url);
       this.baseUrl = `${parsedUrl.protocol}//${parsedUrl.host}`;
-      this.queue.push(options.url);
     } catch (err) {
       throw new Error('Invalid URL format');
     }
+    
+    this.scope = new CrawlScope(options.url, options.scope);
+    
+    this.client = new HttpClient({
+      timeout: this.crawl.requestTimeoutMs,
+      userAgent: options.request?.userAgent,
+      credentialOrigin: this.baseUrl,
+      headers: buildRequestHeaders(options.request),
+      cookies: options.request?.cookies,
+      egress: options.egress ?? new EgressGuard(),
+    });
+    
+    if (options.useAuthentication) {
+      if (!options.authentication) {
+        throw new Error('Authenticated scan has no login configuration');
+      }
+      this.session = new FormLoginSession(this.client, options.authentication);
+    }
+    
+    // Restore the crawl state of a paused scan, otherwise start from the target URL
+    if (options.checkpoint) {
+      this.visited = new Set(options.checkpoint.visited);
+      this.queue = [...options.checkpoint.queue];
+      this.vulnerabilities = [...options.checkpoint.vulnerabilities];
+      for (const discovered of options.checkpoint.sources || []) {
+        this.sources.set(discovered.url, discovered);
+      }
+      for (const url of [...Array.from(this.visited), ...this.queue, ...Array.from(this.sources.keys())]) {
+        this.knownKeys.add(this.scope.canonicalKey(url));
+      }
+      for (const skipped of options.checkpoint.outOfScope || []) {
+        this.outOfScope.set(skipped.url, skipped);
+      }
+    } else {
+      this.enqueue({ url: options.url, source: 'seed', foundOn: null, depth: 0 });
+    }
   }
 
   async run(): Promise<ScanResult> {
-    const vulnerabilities: InsertVulnerability[] = [];
-    
     // Make sure we at least scan the initial URL even if maxPages is 0
     if (this.maxPages <= 0) {
       this.maxPages = 1;
     }
     
-    console.log(`Starting scan for ${this.options.url} with scan level: ${this.scanLevel}, crawl limit: ${this.maxPages}`);
+    this.deadline = Date.now() + this.crawl.timeBudgetSeconds * 1000;
     
-    // Process queue
-    while (this.queue.length > 0 && this.visited.size < this.maxPages) {
-      const currentUrl = this.queue.shift()!;
-      
-      if (this.visited.has(currentUrl)) {
-        continue;
-      }
-      
-      console.log(`Scanning URL: ${currentUrl} (${this.visited.size + 1}/${this.maxPages})`);
-      this.visited.add(currentUrl);
-      
-      try {
-        // Fetch the page with a timeout
-        const response = await axios.get(currentUrl, {
-          headers: {
-            'User-Agent': 'AppSafeguard Security Scanner',
-          },
-          maxRedirects: 5,
-          timeout: 15000, // Increased timeout to 15 seconds
-          validateStatus: (status) => status < 500, // Accept any status < 500 to allow analyzing 4xx responses too
-        });
-        
-        // Check for vulnerabilities in the response
-        const detected = await vulnerabilityDetector.detectVulnerabilities(currentUrl, response, this.scanLevel);
-        
-        if (detected.length > 0) {
-          console.log(`Found ${detected.length} vulnerabilities on ${currentUrl}`);
-          vulnerabilities.push(...detected);
-        }
-        
-        // If custom rules are enabled, check them too
-        if (this.options.includeCustomRules && this.customRules.length > 0) {
-          const customVulnerabilities = this.checkCustomRules(currentUrl, response.data);
-          if (customVulnerabilities.length > 0) {
-            console.log(`Found ${customVulnerabilities.length} custom rule violations on ${currentUrl}`);
-            vulnerabilities.push(...customVulnerabilities);
-          }
-        }
-        
-        // If we're doing a standard or detailed scan, extract and follow links
-        if (this.scanLevel !== 'quick') {
-          this.extractLinks(currentUrl, response.data);
-        }
-      } catch (error: any) {
-        const errorMessage = error && typeof error.message === 'string' 
-          ? error.message 
-          : 'Unknown error occurred';
-          
-        console.error(`Error scanning ${currentUrl}:`, errorMessage);
-        
-        // Add an "access error" vulnerability for URLs that couldn't be accessed
-        vulnerabilities.push({
-          scanId: 0, // This will be set later
-          name: 'URL Access Error',
-          description: `Could not access ${currentUrl}: ${errorMessage}`,
-          url: currentUrl,
-          severity: 'low',
-          category: 'Accessibility',
-          details: { error: errorMessage },
-          status: 'pending',
-        });
-      }
+    console.log(`Starting scan for ${this.options.url} with scan profile: ${this.options.profileName}, crawl limit: ${this.maxPages}, concurrency: ${this.crawl.concurrency}, ${this.crawl.requestsPerSecond} req/s per host`);
+    
+    // Log in before anything else so that robots.txt, sitemaps and pages are fetched with the session
+    if (this.session) {
+      await this.session.login();
     }
     
+    // Profiles that follow links seed the queue from robots.txt and sitemaps; the others only look at the given page
+    if (!this.options.checkpoint && this.options.followLinks) {
+      await this.seedQueue();
+    }
+    
+    const workers = Array.from({ length: this.crawl.concurrency }, () => this.worker());
+    await Promise.all(workers);
+    
+    if (this.interrupted) {
+      console.log(`Scan of ${this.options.url} interrupted (${this.interrupted}) after ${this.visited.size} URLs`);
+    }
+    if (this.budgetExceeded) {
+      console.log(`Scan of ${this.options.url} ran out of its ${this.crawl.timeBudgetSeconds}s time budget after ${this.visited.size} URLs`);
+    }
+    
+    const vulnerabilities = this.vulnerabilities;
+    
     // Calculate summary statistics
     const summary = this.calculateSummary(vulnerabilities);
     
@@ -129,46 +219,316 @@ export class Scanner {
     
     return {
       scannedUrls: Array.from(this.visited),
+      discoveredUrls: Array.from(this.visited).map((url) => this.getSource(url)),
+      outOfScopeUrls: Array.from(this.outOfScope.values()),
       vulnerabilities,
+      checksRun: this.getChecksRun(),
       summary,
+      interrupted: this.interrupted,
+      partial: this.budgetExceeded && !this.interrupted ? 'time-budget' : undefined,
+      authenticated: !!this.session,
+      limitReached: this.visited.size >= this.maxPages && this.queue.some((url) => !this.visited.has(url)),
+      checkpoint: this.interrupted ? {
+        visited: Array.from(this.visited),
+        queue: [...this.queue],
+        vulnerabilities,
+        sources: Array.from(this.sources.values()),
+        outOfScope: Array.from(this.outOfScope.values()),
+      } : undefined,
     };
   }
   
-  private extractLinks(baseUrl: string, html: string) {
+  private async seedQueue() {
     try {
-      const $ = cheerio.load(html);
-      const links = $('a[href]')
-        .map((_, el) => $(el).attr('href'))
-        .get();
-      
-      for (const link of links) {
+      const seeds = await discoverSeedUrls(this.baseUrl, (url) => this.fetchText(url));
+      for (const seed of seeds) {
+        this.enqueue(seed);
+      }
+      console.log(`Seeded ${seeds.length} URLs from robots.txt and sitemaps for ${this.options.url}`);
+    } catch (error) {
+      console.error(`Error discovering seed URLs for ${this.options.url}:`, error);
+    }
+  }
+  
+  private async fetchText(url: string): Promise<string | null> {
+    try {
+      await this.rateLimiter.acquire(url);
+      const response = await this.client.get(url, {
+        responseType: 'text',
+        validateStatus: (status) => status === 200,
+      });
+      return typeof response.data === 'string' ? response.data : null;
+    } catch {
+      return null;
+    }
+  }
+  
+  // Fetch a page, logging in again and retrying once if the session turns out to have dropped
+  private async fetchPage(url: string, timeout: number): Promise<HttpResponse> {
+    await this.rateLimiter.acquire(url);
+    const response = await this.client.get(url, { timeout });
+    
+    if (this.session?.isLoggedOut(response) && await this.session.reauthenticate()) {
+      await this.rateLimiter.acquire(url);
+      return await this.client.get(url, { timeout });
+    }
+    
+    return response;
+  }
+  
+  // Sends the requests of active checks for a page, within the scope, rate limit and time budget of the crawl
+  private createProber(pageUrl: string): Prober {
+    const depth = this.getSource(pageUrl).depth;
+    return {
+      send: async (request) => {
+        if (this.interrupted || Date.now() >= this.deadline
+          || this.scope.check(request.url, depth) || this.session?.isLogoutUrl(request.url)) {
+          return null;
+        }
+        // Ownership is verified for the start URL's host only, so probes never go to other subdomains
+        if (new URL(request.url).host !== new URL(this.baseUrl).host) {
+          return null;
+        }
+        
         try {
-          // Skip empty links, javascript: links, mailto: links, etc.
-          if (!link || link.startsWith('javascript:') || link.startsWith('mailto:') || link.startsWith('#')) {
-            continue;
-          }
-          
-          // Convert relative URLs to absolute
-          let absoluteUrl;
-          try {
-            absoluteUrl = new URL(link, baseUrl).href;
-          } catch {
-            continue; // Skip invalid URLs
-          }
-          
-          // Only follow links to the same domain
-          if (absoluteUrl.startsWith(this.baseUrl) && !this.visited.has(absoluteUrl) && !this.queue.includes(absoluteUrl)) {
-            this.queue.push(absoluteUrl);
-          }
-        } catch (error) {
-          console.error(`Error processing link ${link}:`, error);
+          await this.rateLimiter.acquire(request.url);
+          // Error pages are evidence too, so every status is accepted
+          const options = {
+            timeout: Math.min(this.crawl.requestTimeoutMs, Math.max(1000, this.deadline - Date.now())),
+            validateStatus: () => true,
+          };
+          return request.method === 'POST'
+            ? await this.client.post(request.url, request.body ?? '', options)
+            : await this.client.get(request.url, options);
+        } catch (error: any) {
+          console.log(`Probe of ${request.url} failed: ${error?.message || error}`);
+          return null;
+        }
+      },
+      claim: (checkId, point, parameter) => {
+        const key = [checkId, point.method, this.scope.canonicalKey(this.scope.normalize(point.action)), parameter].join(' ');
+        if (this.probedParameters.has(key)) {
+          return false;
         }
+        this.probedParameters.add(key);
+        return true;
+      },
+    };
+  }
+  
+  // Queue a URL unless it is already known or out of scope
+  private enqueue(discovered: DiscoveredUrl) {
+    let url: string;
+    try {
+      url = this.scope.normalize(discovered.url);
+    } catch {
+      return;
+    }
+    
+    const key = this.scope.canonicalKey(url);
+    if (this.knownKeys.has(key) || this.visited.has(url)) {
+      return;
+    }
+    
+    // The start URL is always crawled, whatever the rules say
+    if (discovered.source !== 'seed') {
+      const reason = this.scope.check(url, discovered.depth)
+        ?? (this.session?.isLogoutUrl(url) ? 'logout' : null);
+      if (reason) {
+        this.recordOutOfScope(url, reason, discovered.foundOn);
+        return;
       }
+    }
+    
+    this.knownKeys.add(key);
+    this.sources.set(url, { ...discovered, url });
+    this.queue.push(url);
+  }
+  
+  private recordOutOfScope(url: string, reason: OutOfScopeReason, foundOn: string | null) {
+    if (!this.outOfScope.has(url) && this.outOfScope.size < MAX_OUT_OF_SCOPE_URLS) {
+      this.outOfScope.set(url, { url, reason, foundOn });
+    }
+  }
+  
+  private getSource(url: string): DiscoveredUrl {
+    // Checkpoints saved before sources were recorded have no entry
+    return this.sources.get(url) || { url, source: 'anchor', foundOn: null, depth: 0 };
+  }
+  
+  // Takes URLs off the shared queue until the crawl is done, stopped or out of time
+  private async worker() {
+    while (true) {
+      if (this.interrupted || this.budgetExceeded) {
+        return;
+      }
+      
+      const stopReason = this.options.shouldStop?.();
+      if (stopReason) {
+        this.interrupted = stopReason;
+        return;
+      }
+      
+      if (Date.now() >= this.deadline) {
+        this.budgetExceeded = true;
+        return;
+      }
+      
+      const currentUrl = this.takeNext();
+      if (!currentUrl) {
+        // Pages still being fetched by other workers may add more links to the queue
+        if (this.inFlight === 0) {
+          return;
+        }
+        await sleep(IDLE_WAIT_MS);
+        continue;
+      }
+      
+      this.inFlight++;
+      try {
+        await this.scanPage(currentUrl);
+      } finally {
+        this.inFlight--;
+      }
+      
+      this.emitProgress();
+      
+      if (this.crawl.politeDelayMs > 0) {
+        await sleep(this.crawl.politeDelayMs);
+      }
+    }
+  }
+  
+  private takeNext(): string | undefined {
+    while (this.queue.length > 0 && this.visited.size < this.maxPages) {
+      const url = this.queue.shift()!;
+      if (!this.visited.has(url)) {
+        this.visited.add(url);
+        return url;
+      }
+    }
+    return undefined;
+  }
+  
+  private async scanPage(currentUrl: string) {
+    console.log(`Scanning URL: ${currentUrl} (${this.visited.size}/${this.maxPages})`);
+    this.emit({
+      type: 'url-started',
+      url: currentUrl,
+      index: this.visited.size,
+      limit: this.maxPages,
+      source: this.getSource(currentUrl).source,
+    });
+    
+    try {
+      // Never let a single request run past the overall time budget
+      const remaining = Math.max(1000, this.deadline - Date.now());
+      const response = await this.fetchPage(currentUrl, Math.min(this.crawl.requestTimeoutMs, remaining));
+      
+      // Check for vulnerabilities in the response
+      const detected = await vulnerabilityDetector.detectVulnerabilities(currentUrl, response, this.checkIds);
+      
+      // Active checks, if the profile allows any, send requests of their own based on the page
+      detected.push(...await vulnerabilityDetector.probeVulnerabilities(
+        currentUrl, response, this.checkIds, this.createProber(currentUrl)));
+      
+      if (detected.length > 0) {
+        console.log(`Found ${detected.length} vulnerabilities on ${currentUrl}`);
+        this.vulnerabilities.push(...detected);
+        this.emitFindings(detected);
+      }
+      
+      // If custom rules are enabled, check them too
+      if (this.options.includeCustomRules && this.customRules.length > 0) {
+        const customVulnerabilities = this.checkCustomRules(currentUrl, response.data);
+        if (customVulnerabilities.length > 0) {
+          console.log(`Found ${customVulnerabilities.length} custom rule violations on ${currentUrl}`);
+          this.vulnerabilities.push(...customVulnerabilities);
+          this.emitFindings(customVulnerabilities);
+        }
+      }
+      
+      // Unless the profile only scans the given page, follow every resource the page references
+      if (this.options.followLinks && typeof response.data === 'string') {
+        for (const discovered of extractPageUrls(currentUrl, response.data, this.getSource(currentUrl).depth)) {
+          this.enqueue(discovered);
+        }
+      }
+    } catch (error: any) {
+      // A page (or a redirect from it) that leads into an internal network is skipped, not reported
+      if (error?.code === 'EGRESS_BLOCKED') {
+        console.log(error.message);
+        this.recordOutOfScope(currentUrl, 'internal-address', this.getSource(currentUrl).foundOn);
+        return;
+      }
+      
+      const errorMessage = error && typeof error.message === 'string' 
+        ? error.message 
+        : 'Unknown error occurred';
+        
+      console.error(`Error scanning ${currentUrl}:`, errorMessage);
+      
+      // Add an "access error" vulnerability for URLs that couldn't be accessed
+      const accessError: InsertVulnerability = {
+        scanId: 0, // This will be set later
+        checkId: 'scanner.access-error',
+        name: 'URL Access Error',
+        description: `Could not access ${currentUrl}: ${errorMessage}`,
+        url: currentUrl,
+        severity: 'low',
+        category: 'Accessibility',
+        details: { error: errorMessage },
+        status: 'pending',
+      };
+      this.vulnerabilities.push(accessError);
+      this.emitFindings([accessError]);
+    }
+  }
+  
+  private emit(event: ScanEvent) {
+    try {
+      this.options.onEvent?.(event);
     } catch (error) {
-      console.error(`Error extracting links from ${baseUrl}:`, error);
+      console.error('Error emitting scan event:', error);
+    }
+  }
+  
+  // Only report actual problems in the live log, not the checks that passed
+  private emitFindings(findings: InsertVulnerability[]) {
+    for (const finding of findings) {
+      if (finding.severity !== 'safe') {
+        this.emit({
+          type: 'finding-found',
+          url: finding.url,
+          name: finding.name,
+          severity: finding.severity,
+          category: finding.category,
+        });
+      }
     }
   }
   
+  private emitProgress() {
+    // The crawl ends at the page limit or when the queue runs dry, whichever comes first
+    const expectedTotal = Math.min(this.maxPages, this.visited.size + this.queue.length);
+    const percent = expectedTotal > 0 ? Math.round((this.visited.size / expectedTotal) * 100) : 100;
+    
+    this.emit({
+      type: 'progress',
+      percent: Math.min(100, percent),
+      scanned: this.visited.size,
+      queued: this.queue.length,
+      limit: this.maxPages,
+    });
+  }
+  
+  private getChecksRun(): string[] {
+    const customCheckIds = this.options.includeCustomRules
+      ? this.customRules.filter((rule) => rule.enabled).map((rule) => `custom.rule-${rule.id}`)
+      : [];
+    return [...this.checkIds, ...customCheckIds];
+  }
+  
   private checkCustomRules(url: string, content: string): InsertVulnerability[] {
     const vulnerabilities: InsertVulnerability[] = [];
     
@@ -179,6 +539,7 @@ export class Scanner {
           if (regex.test(content)) {
             vulnerabilities.push({
               scanId: 0, // This will be set later
+              checkId: `custom.rule-${rule.id}`,
               name: rule.name,
               description: rule.description,
               url,
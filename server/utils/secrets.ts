@@ -0,0 +1,119 @@
+import { Scan, ScanSchedule } from '@shared/schema';
+import { getScanOptions, StoredScanOptions } from './scan-options';
+
+export const SECRET_MASK = '********';
+
+// Values shorter than this are not redacted from free text; they would match far too much
+const MIN_REDACTABLE_LENGTH = 4;
+
+// Every credential a scan was configured with
+export function collectSecrets(options: StoredScanOptions): string[] {
+  const secrets: string[] = [];
+  const { request, authentication } = options;
+
+  if (authentication) {
+    secrets.push(authentication.password);
+  }
+  if (request) {
+    secrets.push(...request.headers.map((header) => header.value));
+    secrets.push(...request.cookies.map((cookie) => cookie.value));
+    if (request.tokenAuth) {
+      secrets.push(request.tokenAuth.value);
+    }
+  }
+
+  return secrets.filter((secret) => secret.length >= MIN_REDACTABLE_LENGTH);
+}
+
+// Replace every occurrence of the given secrets in a JSON-like value, e.g. an error message in a scan result
+export function redactSecrets<T>(value: T, secrets: string[]): T {
+  if (secrets.length === 0) {
+    return value;
+  }
+
+  if (typeof value === 'string') {
+    return secrets.reduce((text, secret) => text.split(secret).join(SECRET_MASK), value as string) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactSecrets(item, secrets)) as T;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactSecrets(item, secrets)]),
+    ) as T;
+  }
+  return value;
+}
+
+type CredentialOptions = Pick<StoredScanOptions, 'authentication' | 'request'>;
+
+// Scan options (or schedule settings) with every credential replaced by the mask, for API responses
+export function maskScanOptions<T extends CredentialOptions>(options: T): T {
+  const { request, authentication } = options;
+
+  return {
+    ...options,
+    authentication: authentication && { ...authentication, password: SECRET_MASK },
+    request: request && {
+      ...request,
+      headers: request.headers.map((header) => ({ ...header, value: SECRET_MASK })),
+      cookies: request.cookies.map((cookie) => ({ ...cookie, value: SECRET_MASK })),
+      tokenAuth: request.tokenAuth && { ...request.tokenAuth, value: SECRET_MASK },
+    },
+  };
+}
+
+// Put back the stored credentials for values the client sent back masked, e.g. when a schedule is
+// edited without retyping its password
+export function restoreMaskedSecrets<T extends CredentialOptions>(options: T, stored: CredentialOptions): T {
+  const { request, authentication } = options;
+  const restore = (value: string, original?: string) =>
+    value === SECRET_MASK && original !== undefined ? original : value;
+
+  return {
+    ...options,
+    authentication: authentication && {
+      ...authentication,
+      password: restore(authentication.password, stored.authentication?.password),
+    },
+    request: request && {
+      ...request,
+      headers: request.headers.map((header) => ({
+        ...header,
+        value: restore(header.value, stored.request?.headers
+          .find((original) => original.name.toLowerCase() === header.name.toLowerCase())?.value),
+      })),
+      cookies: request.cookies.map((cookie) => ({
+        ...cookie,
+        value: restore(cookie.value, stored.request?.cookies
+          .find((original) => original.name === cookie.name)?.value),
+      })),
+      tokenAuth: request.tokenAuth && {
+        ...request.tokenAuth,
+        value: restore(request.tokenAuth.value, stored.request?.tokenAuth?.value),
+      },
+    },
+  };
+}
+
+// A scan as it may be sent to the client: credentials masked in its options and result
+export function maskScan(scan: Scan): Scan {
+  if (!scan.options) {
+    return scan;
+  }
+
+  const options = getScanOptions(scan);
+  return {
+    ...scan,
+    options: maskScanOptions(options),
+    result: redactSecrets(scan.result, collectSecrets(options)),
+  };
+}
+
+// A schedule as it may be sent to the client, with the credentials in its scan settings masked
+export function maskScanSchedule(schedule: ScanSchedule): ScanSchedule {
+  return {
+    ...schedule,
+    options: maskScanOptions(schedule.options as CredentialOptions),
+  };
+}
@@ -0,0 +1,117 @@
+// Parsing of security header values whose content, not only presence, matters
+
+// max-age that HSTS preload lists require, and below which a policy lapses too soon (one year)
+export const HSTS_MIN_MAX_AGE = 31536000;
+
+export interface HstsPolicy {
+  // null when the header has no valid max-age directive, which makes browsers ignore it
+  maxAge: number | null;
+  includeSubDomains: boolean;
+  preload: boolean;
+}
+
+// Strict-Transport-Security (RFC 6797): directives separated by ';', names case-insensitive
+export function parseHsts(value: string): HstsPolicy {
+  const policy: HstsPolicy = { maxAge: null, includeSubDomains: false, preload: false };
+  for (const part of value.split(';')) {
+    const [rawName, ...rest] = part.split('=');
+    const name = rawName.trim().toLowerCase();
+    const directiveValue = rest.join('=').trim().replace(/^"(.*)"$/, '$1');
+    if (name === 'max-age' && /^\d+$/.test(directiveValue)) {
+      policy.maxAge = parseInt(directiveValue, 10);
+    } else if (name === 'includesubdomains') {
+      policy.includeSubDomains = true;
+    } else if (name === 'preload') {
+      policy.preload = true;
+    }
+  }
+  return policy;
+}
+
+// Requirements of the HSTS preload list (https://hstspreload.org) the policy does not meet
+export function getHstsPreloadIssues(policy: HstsPolicy): string[] {
+  const issues: string[] = [];
+  if (policy.maxAge === null || policy.maxAge < HSTS_MIN_MAX_AGE) {
+    issues.push(`max-age must be at least ${HSTS_MIN_MAX_AGE}`);
+  }
+  if (!policy.includeSubDomains) {
+    issues.push('includeSubDomains must be set');
+  }
+  if (!policy.preload) {
+    issues.push('preload must be set');
+  }
+  return issues;
+}
+
+// Features that expose sensitive device or user data and should not be delegated to every origin
+export const SENSITIVE_PERMISSIONS = [
+  'camera',
+  'microphone',
+  'geolocation',
+  'payment',
+  'usb',
+  'serial',
+  'hid',
+  'bluetooth',
+  'display-capture',
+];
+
+// Permissions-Policy is a structured-field dictionary: feature=(allowlist) or feature=*
+export function parsePermissionsPolicy(value: string): Map<string, string[]> {
+  const features = new Map<string, string[]>();
+  for (const part of value.split(',')) {
+    const [rawName, ...rest] = part.split('=');
+    const name = rawName.trim().toLowerCase();
+    if (!name) continue;
+    const allowlist = rest.join('=').trim().replace(/^\((.*)\)$/, '$1').trim();
+    features.set(name, allowlist ? allowlist.split(/\s+/) : []);
+  }
+  return features;
+}
+
+// First token of a header such as Cross-Origin-Opener-Policy, without parameters; lower-case
+export function getPolicyToken(value: string | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  const token = value.split(';')[0].trim().replace(/^"(.*)"$/, '$1').toLowerCase();
+  return token || null;
+}
+
+export interface SetCookie {
+  name: string;
+  // Attribute names are lower-case; valueless attributes map to ''
+  attributes: Map<string, string>;
+}
+
+export function parseSetCookie(header: string): SetCookie {
+  const [pair, ...attributeParts] = header.split(';');
+  const attributes = new Map<string, string>();
+  for (const part of attributeParts) {
+    const [name, ...rest] = part.split('=');
+    if (name.trim()) {
+      attributes.set(name.trim().toLowerCase(), rest.join('=').trim());
+    }
+  }
+  return { name: pair.split('=')[0].trim(), attributes };
+}
+
+// Rules of the __Secure- and __Host- cookie name prefixes the cookie breaks; browsers reject such cookies
+export function getCookiePrefixIssues(cookie: SetCookie): string[] {
+  const name = cookie.name.toLowerCase();
+  const issues: string[] = [];
+  if (name.startsWith('__secure-') || name.startsWith('__host-')) {
+    if (!cookie.attributes.has('secure')) {
+      issues.push('Secure must be set');
+    }
+  }
+  if (name.startsWith('__host-')) {
+    if (cookie.attributes.has('domain')) {
+      issues.push('Domain must not be set');
+    }
+    if (cookie.attributes.get('path') !== '/') {
+      issues.push('Path must be /');
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,142 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { Server } from 'http';
+import { startSqliFixture } from '../test/sqli-fixture';
+import { HttpClient } from './http-client';
+import { InjectionPoint, Prober } from './injection-points';
+import { getFindingIdentity } from './issues';
+import { buildBooleanPairs, findDbmsError, getSimilarity, withoutPayload } from './sqli-probe';
+import { vulnerabilityDetector } from './vulnerability-detector';
+
+describe('findDbmsError', () => {
+  it('names the database whose error message a response shows', () => {
+    const error = findDbmsError('<pre>ERROR: syntax error at or near "\'" LINE 1</pre>');
+    assert.equal(error?.dbms, 'PostgreSQL');
+    assert.equal(error?.message, 'ERROR: syntax error at or near');
+  });
+
+  it('finds nothing in an ordinary page', () => {
+    assert.equal(findDbmsError('<p>Your order has been placed.</p>'), null);
+  });
+});
+
+describe('buildBooleanPairs', () => {
+  it('adds a numeric pair for integer values', () => {
+    const pairs = buildBooleanPairs('42', 0);
+    assert.deepEqual(pairs.map((pair) => pair.kind), ['numeric', 'string']);
+    assert.equal(pairs[0].truePayload, '42 AND 1=1');
+    assert.equal(pairs[0].falsePayload, '42 AND 1=2');
+  });
+
+  it('uses different numbers on every attempt', () => {
+    const [first] = buildBooleanPairs('shoes', 0);
+    const [second] = buildBooleanPairs('shoes', 1);
+    assert.equal(first.kind, 'string');
+    assert.notEqual(first.truePayload, second.truePayload);
+  });
+});
+
+describe('getSimilarity', () => {
+  it('is 1 for the same page and lower for a different one', () => {
+    assert.equal(getSimilarity('<p>a b c</p>', '<p>a b c</p>'), 1);
+    assert.ok(getSimilarity('<p>a b c d</p>', '<p>a b x y</p>') < 1);
+  });
+
+  it('ignores the payload that a page echoes back', () => {
+    const body = withoutPayload('<p>Results for 1 AND 1=1</p>', '1 AND 1=1');
+    assert.equal(body, '<p>Results for </p>');
+  });
+});
+
+describe('SQL injection probe', () => {
+  let server: Server;
+  let baseUrl: string;
+  const client = new HttpClient({ timeout: 5000 });
+
+  // Sends every probe, as the scanner's prober does for in-scope URLs, and claims each parameter once
+  const createProber = (): Prober => {
+    const claimed = new Set<string>();
+    return {
+      send: async (request) => {
+        const options = { validateStatus: () => true };
+        return request.method === 'POST'
+          ? await client.post(request.url, request.body ?? '', options)
+          : await client.get(request.url, options);
+      },
+      claim: (checkId: string, point: InjectionPoint, parameter: string) => {
+        const key = [checkId, point.method, point.action, parameter].join(' ');
+        if (claimed.has(key)) {
+          return false;
+        }
+        claimed.add(key);
+        return true;
+      },
+    };
+  };
+
+  const probe = async (path: string) => {
+    const url = `${baseUrl}${path}`;
+    const response = await client.get(url, { validateStatus: () => true });
+    return await vulnerabilityDetector.probeVulnerabilities(url, response, ['sqli.active-probe'], createProber());
+  };
+
+  before(async () => {
+    ({ server, baseUrl } = await startSqliFixture());
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('confirms error-based injection from the database error a quote causes', async () => {
+    const [finding, ...rest] = await probe('/products/error?id=1');
+    assert.equal(rest.length, 0);
+    assert.equal(finding.name, 'SQL Injection');
+    assert.equal(finding.severity, 'high');
+    assert.equal(finding.url, `${baseUrl}/products/error?id=1`);
+    const { error, request, response, foundOn, ...details } = finding.details as Record<string, unknown>;
+    assert.deepEqual(details, {
+      parameter: 'id',
+      source: 'query',
+      method: 'GET',
+      action: `${baseUrl}/products/error`,
+      technique: 'error-based',
+      confidence: 'confirmed',
+      dbms: 'MySQL',
+      payload: `1'`,
+    });
+    assert.equal(error, 'You have an error in your SQL syntax');
+    assert.equal(foundOn, `${baseUrl}/products/error?id=1`);
+  });
+
+  it('files a form found on many pages under the URL the form submits to', async () => {
+    // Which page the crawler reaches first differs between scans
+    const [first] = await probe('/');
+    const [second] = await probe('/about');
+    assert.equal(first.name, 'SQL Injection');
+    assert.equal(first.url, `${baseUrl}/products/error?id=1`);
+    assert.equal(second.url, first.url);
+    assert.equal(getFindingIdentity(second).fingerprint, getFindingIdentity(first).fingerprint);
+    assert.equal((second.details as Record<string, unknown>).foundOn, `${baseUrl}/about`);
+  });
+
+  it('confirms boolean-based injection from the responses to true and false conditions', async () => {
+    const [finding, ...rest] = await probe('/products/blind?id=1');
+    assert.equal(rest.length, 0);
+    assert.equal(finding.name, 'SQL Injection');
+    const details = finding.details as Record<string, unknown>;
+    assert.equal(details.technique, 'boolean-based');
+    assert.equal(details.confidence, 'confirmed');
+    assert.equal(details.injectionKind, 'numeric');
+  });
+
+  it('reports nothing for a parameter bound in the query', async () => {
+    const findings = await probe('/products/safe?id=1');
+    assert.deepEqual(findings.map((finding) => [finding.name, finding.severity]), [['No SQL Injection Found', 'safe']]);
+  });
+
+  it('reports nothing for a page that echoes the payload back', async () => {
+    const findings = await probe('/search?q=shoes');
+    assert.deepEqual(findings.map((finding) => [finding.name, finding.severity]), [['No SQL Injection Found', 'safe']]);
+  });
+});
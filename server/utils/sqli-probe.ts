@@ -0,0 +1,152 @@
+// Payloads and response analysis for active SQL injection probes
+
+export type Dbms = 'PostgreSQL' | 'MySQL' | 'SQLite' | 'Microsoft SQL Server' | 'Oracle';
+
+// Error messages that database drivers put in responses when a query does not parse
+const dbmsErrorSignatures: { dbms: Dbms; patterns: RegExp[] }[] = [
+  {
+    dbms: 'PostgreSQL',
+    patterns: [
+      /PostgreSQL.{0,40}ERROR/i,
+      /ERROR:\s+syntax error at or near/i,
+      /unterminated quoted string at or near/i,
+      /\bpg_query\(\)/i,
+      /org\.postgresql\.util\.PSQLException/,
+      /\bPG::SyntaxError\b/,
+    ],
+  },
+  {
+    dbms: 'MySQL',
+    patterns: [
+      /You have an error in your SQL syntax/i,
+      /check the manual that (corresponds|fits) to your (MySQL|MariaDB) server version/i,
+      /Warning:.{0,80}\bmysqli?_/i,
+      /\bER_PARSE_ERROR\b/,
+      /com\.mysql\.jdbc/,
+      /MySqlException/,
+    ],
+  },
+  {
+    dbms: 'SQLite',
+    patterns: [
+      /\bSQLITE_ERROR\b/,
+      /sqlite3\.OperationalError/,
+      /System\.Data\.SQLite\.SQLiteException/,
+      /SQLite\/JDBCDriver|SQLite\.Exception/,
+      /unrecognized token: "[^"]*"/i,
+      /near "[^"]*": syntax error/i,
+    ],
+  },
+  {
+    dbms: 'Microsoft SQL Server',
+    patterns: [
+      /Unclosed quotation mark after the character string/i,
+      /Incorrect syntax near/i,
+      /\[Microsoft\]\[ODBC SQL Server Driver\]/,
+      /System\.Data\.SqlClient\.SqlException/,
+      /\[SQL Server\]/,
+    ],
+  },
+  {
+    dbms: 'Oracle',
+    patterns: [
+      /\bORA-\d{5}\b/,
+      /quoted string not properly terminated/i,
+      /oracle\.jdbc/i,
+    ],
+  },
+];
+
+export interface DbmsError {
+  dbms: Dbms;
+  // The error text as it appears in the response
+  message: string;
+}
+
+// Database error message in a response, if any
+export function findDbmsError(body: string): DbmsError | null {
+  for (const { dbms, patterns } of dbmsErrorSignatures) {
+    for (const pattern of patterns) {
+      const match = body.match(pattern);
+      if (match) {
+        return { dbms, message: match[0] };
+      }
+    }
+  }
+  return null;
+}
+
+// A quote that ends the string the value is put in, and the same quote escaped, which should parse
+export const quotePayloads = [
+  { broken: `'`, balanced: `''` },
+  { broken: `"`, balanced: `""` },
+];
+
+// Conditions appended to the value: the response to the true one should match the page, the false one should not
+export interface BooleanPair {
+  // Where the value goes in the query: a bare number or a quoted string
+  kind: 'numeric' | 'string';
+  truePayload: string;
+  falsePayload: string;
+}
+
+export function buildBooleanPairs(original: string, attempt: number): BooleanPair[] {
+  // Each attempt uses different numbers, so a second agreeing attempt is not a coincidence of the first
+  const a = 1 + attempt * 3;
+  const b = a + 1;
+  const pairs: BooleanPair[] = [];
+  if (/^-?\d+$/.test(original)) {
+    pairs.push({
+      kind: 'numeric',
+      truePayload: `${original} AND ${a}=${a}`,
+      falsePayload: `${original} AND ${a}=${b}`,
+    });
+  }
+  pairs.push({
+    kind: 'string',
+    truePayload: `${original}' AND '${a}'='${a}`,
+    falsePayload: `${original}' AND '${a}'='${b}`,
+  });
+  return pairs;
+}
+
+function tokenize(body: string): string[] {
+  return body.split(/[\s<>"'=/]+/).filter(Boolean);
+}
+
+// Share of the words of two responses that they have in common, from 0 (nothing) to 1 (the same)
+export function getSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  const left = tokenize(a);
+  const right = tokenize(b);
+  if (left.length + right.length === 0) {
+    return 1;
+  }
+
+  const counts = new Map<string, number>();
+  for (const token of left) {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+  let common = 0;
+  for (const token of right) {
+    const count = counts.get(token) ?? 0;
+    if (count > 0) {
+      common++;
+      counts.set(token, count - 1);
+    }
+  }
+  return (2 * common) / (left.length + right.length);
+}
+
+// Response body without the payload, which pages often echo back and which would otherwise differ between probes
+export function withoutPayload(body: string, payload: string): string {
+  const encoded = payload
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+  return body.split(payload).join('').split(encoded).join('');
+}
@@ -0,0 +1,99 @@
+import * as cheerio from 'cheerio';
+import { randomBytes } from 'crypto';
+import { URL } from 'url';
+import { storage } from '../storage';
+import { EgressGuard, getEgressPolicy } from './egress-guard';
+import { HttpClient, HttpResponse } from './http-client';
+
+export const VERIFICATION_FILE_PATH = '/.well-known/appsafeguard-verification.txt';
+export const VERIFICATION_META_NAME = 'appsafeguard-verification';
+
+// A successful check is trusted for this long; after that the token has to be checked again
+const VERIFICATION_VALIDITY_DAYS = 30;
+
+const VERIFICATION_TIMEOUT_MS = 10000;
+
+export type VerificationMethod = 'file' | 'meta';
+
+export interface VerificationCheckResult {
+  verified: boolean;
+  method?: VerificationMethod;
+  error?: string;
+}
+
+// Ownership is verified per host (with the port when it is not the default one)
+export function getTargetHost(url: string): string {
+  return new URL(url).host.toLowerCase();
+}
+
+export function generateVerificationToken(): string {
+  return randomBytes(20).toString('hex');
+}
+
+export function getVerifiedUntil(from: Date): Date {
+  return new Date(from.getTime() + VERIFICATION_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// Whether the user has verified the URL's host and the verification has not expired
+export async function isTargetVerified(userId: number, url: string): Promise<boolean> {
+  const verification = await storage.getTargetVerificationByHost(userId, getTargetHost(url));
+  return !!verification
+    && verification.status === 'verified'
+    && !!verification.verifiedUntil
+    && new Date(verification.verifiedUntil) > new Date();
+}
+
+// A redirect to another origin, e.g. through an open redirect on the target, would let whoever
+// controls that origin serve the token
+function assertSameOrigin(response: HttpResponse, origin: string) {
+  const finalOrigin = new URL(response.finalUrl).origin;
+  if (finalOrigin !== new URL(origin).origin) {
+    throw new Error(`redirected to ${finalOrigin}, which is not the target origin`);
+  }
+}
+
+// Look for the token in the well-known file, then in a meta tag on the home page
+export async function checkVerificationToken(origin: string, token: string): Promise<VerificationCheckResult> {
+  const client = new HttpClient({
+    timeout: VERIFICATION_TIMEOUT_MS,
+    egress: new EgressGuard(await getEgressPolicy()),
+  });
+  const errors: string[] = [];
+
+  const fileUrl = new URL(VERIFICATION_FILE_PATH, origin).href;
+  try {
+    const response = await client.get(fileUrl, {
+      responseType: 'text',
+      validateStatus: (status) => status === 200,
+    });
+    assertSameOrigin(response, origin);
+    const lines = String(response.data).split(/\r?\n/).map((line) => line.trim());
+    if (lines.includes(token)) {
+      return { verified: true, method: 'file' };
+    }
+    errors.push(`${fileUrl} does not contain the token`);
+  } catch (error: any) {
+    errors.push(`${fileUrl}: ${error?.message || 'request failed'}`);
+  }
+
+  const homeUrl = new URL('/', origin).href;
+  try {
+    const response = await client.get(homeUrl, {
+      responseType: 'text',
+      validateStatus: (status) => status === 200,
+    });
+    assertSameOrigin(response, origin);
+    const $ = cheerio.load(String(response.data));
+    const values = $(`meta[name="${VERIFICATION_META_NAME}"]`)
+      .map((_, el) => ($(el).attr('content') || '').trim())
+      .get();
+    if (values.includes(token)) {
+      return { verified: true, method: 'meta' };
+    }
+    errors.push(`no ${VERIFICATION_META_NAME} meta tag with the token on ${homeUrl}`);
+  } catch (error: any) {
+    errors.push(`${homeUrl}: ${error?.message || 'request failed'}`);
+  }
+
+  return { verified: false, error: `Verification token not found (${errors.join('; ')})` };
+}
@@ -0,0 +1,90 @@
+import { URL } from 'url';
+import { Scan, Target } from '@shared/schema';
+import { storage } from '../storage';
+import { getScanScore } from './scan-diff';
+
+export const TARGET_ENVIRONMENTS = ['production', 'staging', 'development'] as const;
+export const TARGET_CRITICALITIES = ['low', 'medium', 'high', 'critical'] as const;
+
+// Findings that no longer need attention
+const resolvedStatuses = ['fixed', 'resolved_by_scan', 'false_positive'];
+
+// Canonical form of a target's base URL, so https://Example.com/app/ and https://example.com/app
+// are the same target: lower-case origin without default port, no trailing slash, query or fragment
+export function normalizeTargetUrl(url: string): string {
+  const parsed = new URL(url);
+  const path = parsed.pathname.replace(/\/+$/, '');
+  return `${parsed.origin.toLowerCase()}${path}`;
+}
+
+// Whether the URL is the target's base URL or a page below it
+export function isUrlInTarget(url: string, baseUrl: string): boolean {
+  const normalized = normalizeTargetUrl(url);
+  return normalized === baseUrl || normalized.startsWith(`${baseUrl}/`);
+}
+
+// The most specific of the targets that covers the URL
+export function findTargetForUrl(targets: Target[], url: string): Target | undefined {
+  return targets
+    .filter((target) => isUrlInTarget(url, target.baseUrl))
+    .sort((a, b) => b.baseUrl.length - a.baseUrl.length)[0];
+}
+
+// The target a new scan of the URL belongs to; scans of URLs outside every known target start a
+// new target for the URL's origin
+export async function findOrCreateTargetForUrl(userId: number, url: string): Promise<Target> {
+  const targets = await storage.getTargetsByUserId(userId);
+  const existing = findTargetForUrl(targets, url);
+  if (existing) {
+    return existing;
+  }
+
+  const origin = normalizeTargetUrl(new URL(url).origin);
+  return await storage.createTarget({
+    userId,
+    name: new URL(origin).host,
+    baseUrl: origin,
+    tags: [],
+    environment: 'production',
+    criticality: 'medium',
+  });
+}
+
+export interface TargetSummary {
+  scanCount: number;
+  lastScan: Pick<Scan, 'id' | 'status' | 'startedAt' | 'completedAt'> | null;
+  // From the latest completed scan
+  latestScore: number | null;
+  openFindings: { total: number; high: number; medium: number; low: number };
+}
+
+// Latest score and open findings of a target, taken from its most recent completed scan
+export async function summarizeTarget(target: Target): Promise<TargetSummary> {
+  // Newest first by id, which follows creation order; scans that are still queued have no start time
+  const scans = (await storage.getScansByTargetId(target.id)).sort((a, b) => b.id - a.id);
+  const latestCompleted = scans.find((scan) => scan.status === 'completed' && scan.result);
+  const openFindings = { total: 0, high: 0, medium: 0, low: 0 };
+
+  if (latestCompleted) {
+    const vulnerabilities = await storage.getVulnerabilitiesByScanId(latestCompleted.id);
+    for (const vulnerability of vulnerabilities) {
+      // Checks that passed are stored with the findings but are not findings
+      if (vulnerability.severity === 'safe' || resolvedStatuses.includes(vulnerability.status)) continue;
+      openFindings.total++;
+      if (vulnerability.severity === 'high' || vulnerability.severity === 'medium' || vulnerability.severity === 'low') {
+        openFindings[vulnerability.severity]++;
+      }
+    }
+  }
+
+  const lastScan = scans[0];
+
+  return {
+    scanCount: scans.length,
+    lastScan: lastScan
+      ? { id: lastScan.id, status: lastScan.status, startedAt: lastScan.startedAt, completedAt: lastScan.completedAt }
+      : null,
+    latestScore: latestCompleted ? getScanScore(latestCompleted) : null,
+    openFindings,
+  };
+}
@@ -0,0 +1,205 @@
+import * as cheerio from 'cheerio';
+import { URL } from 'url';
+
+// How a URL entered the crawl queue
+export type DiscoverySource =
+  | 'seed'
+  | 'robots'
+  | 'sitemap'
+  | 'anchor'
+  | 'form'
+  | 'iframe'
+  | 'link'
+  | 'script'
+  | 'meta-refresh';
+
+export interface DiscoveredUrl {
+  url: string;
+  source: DiscoverySource;
+  // Page, robots.txt or sitemap the URL was found in; null for the scan's start URL
+  foundOn: string | null;
+  // Link hops from the start URL, robots.txt or a sitemap
+  depth: number;
+}
+
+// Fetches a resource as text; returns null when it does not exist or cannot be read
+export type TextFetcher = (url: string) => Promise<string | null>;
+
+// Upper bounds so that a huge sitemap tree cannot stall the start of a scan
+const MAX_SITEMAPS = 20;
+const MAX_SITEMAP_URLS = 5000;
+
+// Elements and attributes that reference other resources on the page
+const pageUrlSelectors: { selector: string; attribute: string; source: DiscoverySource }[] = [
+  { selector: 'a[href]', attribute: 'href', source: 'anchor' },
+  { selector: 'form[action]', attribute: 'action', source: 'form' },
+  { selector: 'iframe[src]', attribute: 'src', source: 'iframe' },
+  { selector: 'link[href]', attribute: 'href', source: 'link' },
+  { selector: 'script[src]', attribute: 'src', source: 'script' },
+];
+
+// Resolve a reference against the page it appeared on, dropping non-HTTP schemes and fragments
+export function resolveUrl(reference: string | undefined, base: string): string | null {
+  if (!reference) {
+    return null;
+  }
+
+  const trimmed = reference.trim();
+  if (!trimmed || trimmed.startsWith('#') || /^(javascript|mailto|tel|data):/i.test(trimmed)) {
+    return null;
+  }
+
+  try {
+    const resolved = new URL(trimmed, base);
+    if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') {
+      return null;
+    }
+    resolved.hash = '';
+    return resolved.href;
+  } catch {
+    return null;
+  }
+}
+
+export interface RobotsTxt {
+  sitemaps: string[];
+  // Paths listed under Allow/Disallow, without wildcards
+  paths: string[];
+}
+
+export function parseRobotsTxt(content: string, robotsUrl: string): RobotsTxt {
+  const sitemaps: string[] = [];
+  const paths: string[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const match = line.match(/^(sitemap|allow|disallow)\s*:\s*(.+)$/i);
+    if (!match) {
+      continue;
+    }
+
+    const directive = match[1].toLowerCase();
+    const value = match[2].trim();
+
+    if (directive === 'sitemap') {
+      const sitemapUrl = resolveUrl(value, robotsUrl);
+      if (sitemapUrl) {
+        sitemaps.push(sitemapUrl);
+      }
+    } else if (value.startsWith('/') && !value.includes('*') && !value.includes('$')) {
+      const pathUrl = resolveUrl(value, robotsUrl);
+      if (pathUrl) {
+        paths.push(pathUrl);
+      }
+    }
+  }
+
+  return { sitemaps, paths };
+}
+
+export interface Sitemap {
+  // Child sitemaps of a sitemap index
+  sitemaps: string[];
+  urls: string[];
+}
+
+export function parseSitemap(xml: string, sitemapUrl: string): Sitemap {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  const collect = (selector: string) =>
+    $(selector)
+      .map((_, el) => resolveUrl($(el).text(), sitemapUrl))
+      .get()
+      .filter((url): url is string => !!url);
+
+  return {
+    sitemaps: collect('sitemapindex > sitemap > loc'),
+    urls: collect('urlset > url > loc'),
+  };
+}
+
+// Fetch robots.txt and every sitemap it (or the conventional /sitemap.xml) points to
+export async function discoverSeedUrls(baseUrl: string, fetchText: TextFetcher): Promise<DiscoveredUrl[]> {
+  const discovered: DiscoveredUrl[] = [];
+  const robotsUrl = new URL('/robots.txt', baseUrl).href;
+  const sitemapQueue: string[] = [];
+
+  const robots = await fetchText(robotsUrl);
+  if (robots !== null) {
+    // Queue robots.txt itself so that its contents are analyzed like any other page
+    discovered.push({ url: robotsUrl, source: 'robots', foundOn: null, depth: 0 });
+
+    const parsed = parseRobotsTxt(robots, robotsUrl);
+    for (const path of parsed.paths) {
+      discovered.push({ url: path, source: 'robots', foundOn: robotsUrl, depth: 0 });
+    }
+    sitemapQueue.push(...parsed.sitemaps);
+  }
+
+  if (sitemapQueue.length === 0) {
+    sitemapQueue.push(new URL('/sitemap.xml', baseUrl).href);
+  }
+
+  const fetchedSitemaps = new Set<string>();
+  let sitemapUrlCount = 0;
+
+  while (sitemapQueue.length > 0 && fetchedSitemaps.size < MAX_SITEMAPS && sitemapUrlCount < MAX_SITEMAP_URLS) {
+    const sitemapUrl = sitemapQueue.shift()!;
+    if (fetchedSitemaps.has(sitemapUrl)) {
+      continue;
+    }
+    fetchedSitemaps.add(sitemapUrl);
+
+    const xml = await fetchText(sitemapUrl);
+    if (xml === null) {
+      continue;
+    }
+
+    try {
+      const sitemap = parseSitemap(xml, sitemapUrl);
+      sitemapQueue.push(...sitemap.sitemaps);
+
+      for (const url of sitemap.urls.slice(0, MAX_SITEMAP_URLS - sitemapUrlCount)) {
+        discovered.push({ url, source: 'sitemap', foundOn: sitemapUrl, depth: 0 });
+        sitemapUrlCount++;
+      }
+    } catch (error) {
+      console.error(`Error parsing sitemap ${sitemapUrl}:`, error);
+    }
+  }
+
+  return discovered;
+}
+
+// Collect every URL referenced by an HTML page; depth is the depth of the page itself
+export function extractPageUrls(pageUrl: string, html: string, depth: number): DiscoveredUrl[] {
+  const discovered: DiscoveredUrl[] = [];
+
+  try {
+    const $ = cheerio.load(html);
+
+    for (const { selector, attribute, source } of pageUrlSelectors) {
+      $(selector).each((_, el) => {
+        const url = resolveUrl($(el).attr(attribute), pageUrl);
+        if (url) {
+          discovered.push({ url, source, foundOn: pageUrl, depth: depth + 1 });
+        }
+      });
+    }
+
+    // <meta http-equiv="refresh" content="5; url=/next">
+    $('meta[http-equiv]').each((_, el) => {
+      if ($(el).attr('http-equiv')?.toLowerCase() !== 'refresh') {
+        return;
+      }
+      const match = ($(el).attr('content') || '').match(/url\s*=\s*['"]?([^'";]+)/i);
+      const url = resolveUrl(match?.[1], pageUrl);
+      if (url) {
+        discovered.push({ url, source: 'meta-refresh', foundOn: pageUrl, depth: depth + 1 });
+      }
+    });
+  } catch (error) {
+    console.error(`Error extracting links from ${pageUrl}:`, error);
+  }
+
+  return discovered;
+}
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { cleanVersion, compareVersions, isVersionInRange } from './versions';
+
+describe('cleanVersion', () => {
+  it('takes the leading version of a captured string', () => {
+    assert.equal(cleanVersion('1.8.3.min'), '1.8.3');
+    assert.equal(cleanVersion('v3.0.0-rc1'), '3.0.0-rc1');
+    assert.equal(cleanVersion(' 4.17.21 '), '4.17.21');
+    assert.equal(cleanVersion('latest'), null);
+  });
+});
+
+describe('compareVersions', () => {
+  it('compares numeric parts as numbers', () => {
+    assert.equal(compareVersions('1.10.0', '1.9.1'), 1);
+    assert.equal(compareVersions('2.0', '10.0'), -1);
+  });
+
+  it('treats missing parts as 0', () => {
+    assert.equal(compareVersions('1.9', '1.9.0'), 0);
+  });
+
+  it('sorts prereleases before their release', () => {
+    assert.equal(compareVersions('3.0.0-rc1', '3.0.0'), -1);
+    assert.equal(compareVersions('3.0.0', '3.0.0-rc1'), 1);
+    assert.equal(compareVersions('3.0.0-rc1', '2.9.9'), 1);
+  });
+
+  it('compares prerelease identifiers numerically where they are numbers', () => {
+    assert.equal(compareVersions('1.5.0-beta.2', '1.5.0-beta.10'), -1);
+    assert.equal(compareVersions('1.5.0-alpha', '1.5.0-beta'), -1);
+    assert.equal(compareVersions('1.5.0-1', '1.5.0-alpha'), -1);
+    assert.equal(compareVersions('1.5.0-beta', '1.5.0-beta.1'), -1);
+  });
+});
+
+describe('isVersionInRange', () => {
+  it('includes the lower bound and excludes the upper one', () => {
+    const range = { atOrAbove: '1.2.0', below: '3.5.0' };
+    assert.equal(isVersionInRange('1.2.0', range), true);
+    assert.equal(isVersionInRange('3.4.1', range), true);
+    assert.equal(isVersionInRange('3.5.0', range), false);
+    assert.equal(isVersionInRange('1.1.9', range), false);
+  });
+
+  it('leaves out bounds that are not given', () => {
+    assert.equal(isVersionInRange('0.1', { below: '1.0' }), true);
+    assert.equal(isVersionInRange('99', { atOrAbove: '1.0' }), true);
+  });
+});
@@ -0,0 +1,78 @@
+// Semantic version comparison for the versions that libraries put in file names and banners.
+// Versions may have any number of numeric parts ("1.12", "4.17.21") and a prerelease tag
+// ("3.0.0-rc1", "1.5.0-beta.2"), which sorts before the release.
+
+interface ParsedVersion {
+  numbers: number[];
+  prerelease: string[];
+}
+
+// Leading version in a captured string such as "1.8.3.min" or "3.0.0-rc1"; null if there is none
+export function cleanVersion(raw: string): string | null {
+  const match = raw.trim().replace(/^v/i, '').replace(/\.min$/i, '').match(/^\d+(?:\.\d+)*(?:-[0-9a-z]+(?:[.-][0-9a-z]+)*)?/i);
+  return match ? match[0] : null;
+}
+
+function parseVersion(version: string): ParsedVersion {
+  const [main, ...rest] = version.split('-');
+  return {
+    numbers: main.split('.').map((part) => parseInt(part, 10) || 0),
+    prerelease: rest.length > 0 ? rest.join('-').split(/[.-]/) : [],
+  };
+}
+
+function comparePrereleaseParts(a: string, b: string): number {
+  const aNumeric = /^\d+$/.test(a);
+  const bNumeric = /^\d+$/.test(b);
+  if (aNumeric && bNumeric) {
+    return Math.sign(parseInt(a, 10) - parseInt(b, 10));
+  }
+  // Numeric identifiers sort before alphanumeric ones
+  if (aNumeric !== bNumeric) {
+    return aNumeric ? -1 : 1;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Negative if a is lower than b, positive if it is higher, 0 if they are the same version
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+
+  // Missing parts count as 0, so "1.9" and "1.9.0" are the same version
+  const length = Math.max(left.numbers.length, right.numbers.length);
+  for (let i = 0; i < length; i++) {
+    const diff = (left.numbers[i] ?? 0) - (right.numbers[i] ?? 0);
+    if (diff !== 0) {
+      return Math.sign(diff);
+    }
+  }
+
+  // A release is higher than its prereleases
+  if (left.prerelease.length === 0 || right.prerelease.length === 0) {
+    if (left.prerelease.length === right.prerelease.length) return 0;
+    return left.prerelease.length === 0 ? 1 : -1;
+  }
+
+  const parts = Math.max(left.prerelease.length, right.prerelease.length);
+  for (let i = 0; i < parts; i++) {
+    if (left.prerelease[i] === undefined) return -1;
+    if (right.prerelease[i] === undefined) return 1;
+    const diff = comparePrereleaseParts(left.prerelease[i], right.prerelease[i]);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+// Whether a version lies in the range [atOrAbove, below); either bound may be left out
+export function isVersionInRange(version: string, range: { atOrAbove?: string; below?: string }): boolean {
+  if (range.atOrAbove && compareVersions(version, range.atOrAbove) < 0) {
+    return false;
+  }
+  if (range.below && compareVersions(version, range.below) >= 0) {
+    return false;
+  }
+  return true;
+}
@@ -1,10 +1,51 @@
 import { AxiosResponse } from 'axios';
 import * as cheerio from 'cheerio';
 import { InsertVulnerability } from '@shared/schema';
+import { getCvssBaseScore } from './cvss';
+import { OwaspCategory } from './owasp';
+import {
+  getCookiePrefixIssues,
+  getHstsPreloadIssues,
+  getPolicyToken,
+  HSTS_MIN_MAX_AGE,
+  parseHsts,
+  parsePermissionsPolicy,
+  parseSetCookie,
+  SENSITIVE_PERMISSIONS,
+} from './security-headers';
+import { CSP_WEAKNESSES, CspPolicy, findCspWeakness, parseCspHeader, parseCspPolicy } from './csp';
+import {
+  DetectedLibrary,
+  detectLibrariesInContent,
+  detectLibrariesInUrl,
+  findAdvisories,
+  getAdvisoryIds,
+  getFixedInVersion,
+} from './js-advisories';
+import {
+  buildProbeRequest,
+  findInjectionPoints,
+  getEvidenceSnippet,
+  getInjectionPointUrl,
+  InjectionPoint,
+  Prober,
+  ProbeRequest,
+} from './injection-points';
+import {
+  buildScriptUrlPayload,
+  buildXssPayload,
+  createCanary,
+  findReflections,
+  ReflectionContext,
+  reflectsScriptUrl,
+} from './xss-probe';
+import { BooleanPair, buildBooleanPairs, findDbmsError, getSimilarity, quotePayloads, withoutPayload } from './sqli-probe';
 
 // セキュリティチェック項目の結果（安全・脆弱性あり）を表すインターフェース
 interface SecurityCheckResult {
   scanId: number;
+  // Stable identifier of the check, "<group>.<check>"; the passed and failed results of a check share it
+  checkId: string;
   name: string;
   description: string;
   url: string;
@@ -15,95 +56,791 @@ interface SecurityCheckResult {
   passed: boolean;
 }
 
+// How the description of a reflected XSS finding names where the payload came back
+const reflectionContextDescriptions: Record<ReflectionContext, string> = {
+  'html-text': 'in the HTML of the page',
+  attribute: 'inside an HTML attribute',
+  url: 'at the start of a URL attribute',
+  script: 'inside a script',
+};
+
+// Boolean-based SQL injection probes compare responses by how much of their content they share
+// (see getSimilarity): the page must be this similar to itself between identical requests, the true
+// condition must come within the tolerance of that, and the false condition must fall the margin below
+const MIN_RESPONSE_STABILITY = 0.9;
+const SIMILARITY_TOLERANCE = 0.02;
+const SIMILARITY_MARGIN = 0.05;
+
+type CheckMethod = (url: string, response: AxiosResponse, results: SecurityCheckResult[]) => void;
+
+// Active checks send requests of their own through the prober, based on the page the crawler fetched
+type ProbeMethod = (url: string, response: AxiosResponse, prober: Prober, results: SecurityCheckResult[]) => Promise<void>;
+
+export type ScanLevel = 'quick' | 'standard' | 'detailed';
+
+const allLevels: ScanLevel[] = ['quick', 'standard', 'detailed'];
+const standardLevels: ScanLevel[] = ['standard', 'detailed'];
+const detailedLevels: ScanLevel[] = ['detailed'];
+
+// What a check declares about itself
+export interface CheckInfo {
+  // Stable id that the check's findings carry as checkId
+  id: string;
+  title: string;
+  category: string;
+  // Severity of a typical finding; some checks rate individual findings differently
+  severity: 'high' | 'medium' | 'low';
+  // Classification of the weakness a finding of the check reports
+  cwe: string[];
+  owasp: OwaspCategory;
+  // CVSS v3.1 base vector of a typical finding
+  cvssVector: string;
+  scanLevels: ScanLevel[];
+  // Passive checks only inspect the responses the crawler fetched; active checks send requests of their own
+  mode: 'passive' | 'active';
+}
+
+interface CheckDefinition extends CheckInfo {
+  // Checks that share a method run it once per page and each keep their own results
+  run?: CheckMethod;
+  // Set instead of run for active checks
+  probe?: ProbeMethod;
+  // Pages the check applies to, if not every page
+  appliesTo?: (url: string) => boolean;
+}
+
 class VulnerabilityDetector {
+  // Every check the detector can run, in the order they run on a page
+  private readonly checks: CheckDefinition[] = [
+    {
+      id: 'headers.csp',
+      title: 'Content-Security-Policy Header',
+      category: 'Header Configuration',
+      severity: 'medium',
+      cwe: ['CWE-693'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:L/A:N',
+      scanLevels: allLevels,
+      mode: 'passive',
+      run: this.checkContentSecurityPolicy,
+    },
+    {
+      id: 'csp.report-only',
+      title: 'Content-Security-Policy Enforcement',
+      category: 'Header Configuration',
+      severity: 'low',
+      cwe: ['CWE-693'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:L/A:N',
+      scanLevels: standardLevels,
+      mode: 'passive',
+      run: this.checkContentSecurityPolicy,
+    },
+    {
+      id: 'csp.unsafe-inline',
+      title: 'Content-Security-Policy unsafe-inline',
+      category: 'Header Configuration',
+      severity: 'medium',
+      cwe: ['CWE-693'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:L/A:N',
+      scanLevels: standardLevels,
+      mode: 'passive',
+      run: this.checkContentSecurityPolicy,
+    },
+    {
+      id: 'csp.unsafe-eval',
+      title: 'Content-Security-Policy unsafe-eval',
+      category: 'Header Configuration',
+      severity: 'medium',
+      cwe: ['CWE-693'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:L/A:N',
+      scanLevels: standardLevels,
+      mode: 'passive',
+      run: this.checkContentSecurityPolicy,
+    },
+    {
+      id: 'csp.wildcard-script-source',
+      title: 'Content-Security-Policy Script Hosts',
+      category: 'Header Configuration',
+      severity: 'medium',
+      cwe: ['CWE-693'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:L/A:N',
+      scanLevels: standardLevels,
+      mode: 'passive',
+      run: this.checkContentSecurityPolicy,
+    },
+    {
+      id: 'csp.data-script-source',
+      title: 'Content-Security-Policy data: Scripts',
+      category: 'Header Configuration',
+      severity: 'medium',
+      cwe: ['CWE-693'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:L/A:N',
+      scanLevels: standardLevels,
+      mode: 'passive',
+      run: this.checkContentSecurityPolicy,
+    },
+    {
+      id: 'csp.missing-object-src',
+      title: 'Content-Security-Policy object-src',
+      category: 'Header Configuration',
+      severity: 'low',
+      cwe: ['CWE-693'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:L/A:N',
+      scanLevels: standardLevels,
+      mode: 'passive',
+      run: this.checkContentSecurityPolicy,
+    },
+    {
+      id: 'csp.missing-base-uri',
+      title: 'Content-Security-Policy base-uri',
+      category: 'Header Configuration',
+      severity: 'low',
+      cwe: ['CWE-693'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:L/A:N',
+      scanLevels: standardLevels,
+      mode: 'passive',
+      run: this.checkContentSecurityPolicy,
+    },
+    {
+      id: 'csp.missing-frame-ancestors',
+      title: 'Content-Security-Policy frame-ancestors',
+      category: 'Header Configuration',
+      severity: 'low',
+      cwe: ['CWE-1021'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:U/C:N/I:L/A:N',
+      scanLevels: standardLevels,
+      mode: 'passive',
+      run: this.checkContentSecurityPolicy,
+    },
+    {
+      id: 'headers.x-xss-protection',
+      title: 'Deprecated X-XSS-Protection Filter',
+      category: 'Header Configuration',
+      severity: 'low',
+      cwe: ['CWE-693'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:N/I:L/A:N',
+      scanLevels: allLevels,
+      mode: 'passive',
+      run: this.checkSecurityHeaders,
+    },
+    {
+      id: 'headers.hsts',
+      title: 'Strict-Transport-Security Header',
+      category: 'Header Configuration',
+      severity: 'medium',
+      cwe: ['CWE-319'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:N/S:U/C:L/I:L/A:N',
+      scanLevels: allLevels,
+      mode: 'passive',
+      run: this.checkStrictTransportSecurity,
+    },
+    {
+      id: 'headers.hsts-max-age',
+      title: 'Strict-Transport-Security max-age',
+      category: 'Header Configuration',
+      severity: 'low',
+      cwe: ['CWE-319'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:N/S:U/C:L/I:L/A:N',
+      scanLevels: standardLevels,
+      mode: 'passive',
+      run: this.checkStrictTransportSecurity,
+    },
+    {
+      id: 'headers.hsts-include-subdomains',
+      title: 'Strict-Transport-Security includeSubDomains',
+      category: 'Header Configuration',
+      severity: 'low',
+      cwe: ['CWE-319'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:N/S:U/C:L/I:L/A:N',
+      scanLevels: standardLevels,
+      mode: 'passive',
+      run: this.checkStrictTransportSecurity,
+    },
+    {
+      id: 'headers.hsts-preload',
+      title: 'Strict-Transport-Security Preload Eligibility',
+      category: 'Header Configuration',
+      severity: 'low',
+      cwe: ['CWE-319'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:N/S:U/C:L/I:L/A:N',
+      scanLevels: detailedLevels,
+      mode: 'passive',
+      run: this.checkStrictTransportSecurity,
+    },
+    {
+      id: 'headers.x-content-type-options',
+      title: 'X-Content-Type-Options Header',
+      category: 'Header Configuration',
+      severity: 'low',
+      cwe: ['CWE-693'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:N/I:L/A:N',
+      scanLevels: allLevels,
+      mode: 'passive',
+      run: this.checkSecurityHeaders,
+    },
+    {
+      id: 'headers.x-frame-options',
+      title: 'X-Frame-Options Header',
+      category: 'Header Configuration',
+      severity: 'medium',
+      cwe: ['CWE-1021'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:U/C:N/I:L/A:N',
+      scanLevels: allLevels,
+      mode: 'passive',
+      run: this.checkSecurityHeaders,
+    },
+    {
+      id: 'headers.referrer-policy',
+      title: 'Referrer-Policy Header',
+      category: 'Header Configuration',
+      severity: 'low',
+      cwe: ['CWE-200'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:N/A:N',
+      scanLevels: allLevels,
+      mode: 'passive',
+      run: this.checkSecurityHeaders,
+    },
+    {
+      id: 'headers.permissions-policy',
+      title: 'Permissions-Policy Header',
+      category: 'Header Configuration',
+      severity: 'low',
+      cwe: ['CWE-693'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:N/A:N',
+      scanLevels: standardLevels,
+      mode: 'passive',
+      run: this.checkCrossOriginHeaders,
+    },
+    {
+      id: 'headers.coop',
+      title: 'Cross-Origin-Opener-Policy Header',
+      category: 'Header Configuration',
+      severity: 'low',
+      cwe: ['CWE-693'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:N/A:N',
+      scanLevels: standardLevels,
+      mode: 'passive',
+      run: this.checkCrossOriginHeaders,
+    },
+    {
+      id: 'headers.coep',
+      title: 'Cross-Origin-Embedder-Policy Header',
+      category: 'Header Configuration',
+      severity: 'low',
+      cwe: ['CWE-693'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:N/A:N',
+      scanLevels: detailedLevels,
+      mode: 'passive',
+      run: this.checkCrossOriginHeaders,
+    },
+    {
+      id: 'headers.corp',
+      title: 'Cross-Origin-Resource-Policy Header',
+      category: 'Header Configuration',
+      severity: 'low',
+      cwe: ['CWE-693'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:N/A:N',
+      scanLevels: detailedLevels,
+      mode: 'passive',
+      run: this.checkCrossOriginHeaders,
+    },
+    {
+      id: 'cookies.presence',
+      title: 'Cookies Set by the Page',
+      category: 'Cookie Security',
+      severity: 'low',
+      cwe: ['CWE-614', 'CWE-1004'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:N/S:U/C:L/I:N/A:N',
+      scanLevels: allLevels,
+      mode: 'passive',
+      run: this.checkCookies,
+    },
+    {
+      id: 'cookies.secure-flag',
+      title: 'Cookie Secure Flag',
+      category: 'Cookie Security',
+      severity: 'medium',
+      cwe: ['CWE-614'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:N/S:U/C:L/I:N/A:N',
+      scanLevels: allLevels,
+      mode: 'passive',
+      run: this.checkCookies,
+    },
+    {
+      id: 'cookies.httponly-flag',
+      title: 'Cookie HttpOnly Flag',
+      category: 'Cookie Security',
+      severity: 'medium',
+      cwe: ['CWE-1004'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:N/A:N',
+      scanLevels: allLevels,
+      mode: 'passive',
+      run: this.checkCookies,
+    },
+    {
+      id: 'cookies.samesite-attribute',
+      title: 'Cookie SameSite Attribute',
+      category: 'Cookie Security',
+      severity: 'low',
+      cwe: ['CWE-1275'],
+      owasp: 'A01:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:N/I:L/A:N',
+      scanLevels: allLevels,
+      mode: 'passive',
+      run: this.checkCookies,
+    },
+    {
+      id: 'cookies.prefix',
+      title: 'Cookie Name Prefixes',
+      category: 'Cookie Security',
+      severity: 'low',
+      cwe: ['CWE-614'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:N/S:U/C:L/I:N/A:N',
+      scanLevels: standardLevels,
+      mode: 'passive',
+      run: this.checkCookies,
+    },
+    {
+      id: 'xss.reflected-parameter',
+      title: 'Reflected URL Parameters',
+      category: 'Cross-Site Scripting',
+      severity: 'high',
+      cwe: ['CWE-79'],
+      owasp: 'A03:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:C/C:L/I:L/A:N',
+      scanLevels: allLevels,
+      mode: 'passive',
+      run: this.checkXssVulnerabilities,
+    },
+    {
+      id: 'xss.unprotected-inputs',
+      title: 'Inputs Without CSP Protection',
+      category: 'Cross-Site Scripting',
+      severity: 'medium',
+      cwe: ['CWE-79'],
+      owasp: 'A03:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:C/C:L/I:L/A:N',
+      scanLevels: allLevels,
+      mode: 'passive',
+      run: this.checkXssVulnerabilities,
+    },
+    {
+      id: 'xss.reflected-active',
+      title: 'Reflected XSS (Active Probe)',
+      category: 'Cross-Site Scripting',
+      severity: 'high',
+      cwe: ['CWE-79'],
+      owasp: 'A03:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:C/C:L/I:L/A:N',
+      scanLevels: detailedLevels,
+      mode: 'active',
+      probe: this.probeReflectedXss,
+    },
+    {
+      id: 'info-leak.server-header',
+      title: 'Server Header Disclosure',
+      category: 'Information Disclosure',
+      severity: 'medium',
+      cwe: ['CWE-497'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:L/I:N/A:N',
+      scanLevels: allLevels,
+      mode: 'passive',
+      run: this.checkServerInformationLeakage,
+    },
+    {
+      id: 'info-leak.powered-by-header',
+      title: 'X-Powered-By Header Disclosure',
+      category: 'Information Disclosure',
+      severity: 'low',
+      cwe: ['CWE-497'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:L/I:N/A:N',
+      scanLevels: allLevels,
+      mode: 'passive',
+      run: this.checkServerInformationLeakage,
+    },
+    {
+      id: 'transport.https',
+      title: 'HTTPS Usage',
+      category: 'Transport Security',
+      severity: 'medium',
+      cwe: ['CWE-319'],
+      owasp: 'A02:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:N/S:U/C:L/I:L/A:N',
+      scanLevels: allLevels,
+      mode: 'passive',
+      run: this.checkHttpsUsage,
+    },
+    {
+      id: 'libraries.vulnerable-js',
+      title: 'Vulnerable JavaScript Libraries',
+      category: 'Outdated Libraries',
+      severity: 'medium',
+      cwe: ['CWE-1104'],
+      owasp: 'A06:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:C/C:L/I:L/A:N',
+      scanLevels: standardLevels,
+      mode: 'passive',
+      run: this.checkJavaScriptLibraries,
+    },
+    {
+      id: 'csrf.missing-token',
+      title: 'Forms Without CSRF Token',
+      category: 'Cross-Site Request Forgery',
+      severity: 'medium',
+      cwe: ['CWE-352'],
+      owasp: 'A01:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:U/C:N/I:H/A:N',
+      scanLevels: standardLevels,
+      mode: 'passive',
+      run: this.checkCsrfVulnerabilities,
+    },
+    {
+      id: 'cors.wildcard-origin',
+      title: 'Wildcard CORS Origin',
+      category: 'CORS Misconfiguration',
+      severity: 'medium',
+      cwe: ['CWE-942'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:L/I:N/A:N',
+      scanLevels: standardLevels,
+      mode: 'passive',
+      run: this.checkCorsPolicy,
+    },
+    {
+      id: 'cors.reflected-origin',
+      title: 'Specific CORS Origin',
+      category: 'CORS Misconfiguration',
+      severity: 'low',
+      cwe: ['CWE-942'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:R/S:U/C:L/I:N/A:N',
+      scanLevels: standardLevels,
+      mode: 'passive',
+      run: this.checkCorsPolicy,
+    },
+    {
+      id: 'cors.credentials-with-wildcard',
+      title: 'CORS Credentials With Wildcard Origin',
+      category: 'CORS Misconfiguration',
+      severity: 'high',
+      cwe: ['CWE-942', 'CWE-346'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:U/C:H/I:N/A:N',
+      scanLevels: standardLevels,
+      mode: 'passive',
+      run: this.checkCorsPolicy,
+    },
+    // The crawler queues robots.txt up front for standard and detailed scans
+    {
+      id: 'info-leak.robots-txt',
+      title: 'Sensitive Paths in robots.txt',
+      category: 'Information Disclosure',
+      severity: 'medium',
+      cwe: ['CWE-200'],
+      owasp: 'A01:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:L/I:N/A:N',
+      scanLevels: standardLevels,
+      mode: 'passive',
+      run: this.checkRobotsTxt,
+      appliesTo: (url) => new URL(url).pathname === '/robots.txt',
+    },
+    {
+      id: 'sqli.url-parameter',
+      title: 'SQL Injection Prone URL Parameters',
+      category: 'SQL Injection',
+      severity: 'high',
+      cwe: ['CWE-89'],
+      owasp: 'A03:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H',
+      scanLevels: detailedLevels,
+      mode: 'passive',
+      run: this.checkSqlInjectionVulnerabilities,
+    },
+    {
+      id: 'sqli.form-field',
+      title: 'SQL Injection Prone Form Fields',
+      category: 'SQL Injection',
+      severity: 'high',
+      cwe: ['CWE-89'],
+      owasp: 'A03:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H',
+      scanLevels: detailedLevels,
+      mode: 'passive',
+      run: this.checkSqlInjectionVulnerabilities,
+    },
+    {
+      id: 'sqli.active-probe',
+      title: 'SQL Injection (Active Probe)',
+      category: 'SQL Injection',
+      severity: 'high',
+      cwe: ['CWE-89'],
+      owasp: 'A03:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H',
+      scanLevels: detailedLevels,
+      mode: 'active',
+      probe: this.probeSqlInjection,
+    },
+    {
+      id: 'info-leak.sensitive-data',
+      title: 'Sensitive Data in Page Content',
+      category: 'Information Leakage',
+      severity: 'high',
+      cwe: ['CWE-200'],
+      owasp: 'A01:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:N/A:N',
+      scanLevels: detailedLevels,
+      mode: 'passive',
+      run: this.checkSensitiveInformationLeakage,
+    },
+    {
+      id: 'info-leak.error-messages',
+      title: 'Error Messages in Page Content',
+      category: 'Information Leakage',
+      severity: 'medium',
+      cwe: ['CWE-209'],
+      owasp: 'A04:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:L/I:N/A:N',
+      scanLevels: detailedLevels,
+      mode: 'passive',
+      run: this.checkSensitiveInformationLeakage,
+    },
+    {
+      id: 'transport.password-over-http',
+      title: 'Password Fields Over HTTP',
+      category: 'Insecure Connection',
+      severity: 'high',
+      cwe: ['CWE-319', 'CWE-523'],
+      owasp: 'A02:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:N/S:U/C:H/I:N/A:N',
+      scanLevels: detailedLevels,
+      mode: 'passive',
+      run: this.checkInsecurePasswordFields,
+    },
+    {
+      id: 'file-upload.unrestricted',
+      title: 'Unrestricted File Uploads',
+      category: 'File Upload',
+      severity: 'high',
+      cwe: ['CWE-434'],
+      owasp: 'A04:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:L/UI:N/S:U/C:H/I:H/A:H',
+      scanLevels: detailedLevels,
+      mode: 'passive',
+      run: this.checkFileUploadVulnerabilities,
+    },
+    {
+      id: 'file-upload.dangerous-types',
+      title: 'Dangerous File Types Accepted',
+      category: 'File Upload',
+      severity: 'high',
+      cwe: ['CWE-434'],
+      owasp: 'A04:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:L/UI:N/S:U/C:H/I:H/A:H',
+      scanLevels: detailedLevels,
+      mode: 'passive',
+      run: this.checkFileUploadVulnerabilities,
+    },
+    {
+      id: 'file-upload.form-encoding',
+      title: 'File Upload Form Encoding',
+      category: 'File Upload',
+      severity: 'medium',
+      cwe: ['CWE-434'],
+      owasp: 'A04:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:L/UI:N/S:U/C:N/I:L/A:N',
+      scanLevels: detailedLevels,
+      mode: 'passive',
+      run: this.checkFileUploadVulnerabilities,
+    },
+    {
+      id: 'transport.http-version',
+      title: 'Outdated HTTP Version',
+      category: 'Outdated Technology',
+      severity: 'medium',
+      cwe: ['CWE-693'],
+      owasp: 'A06:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:N/S:U/C:L/I:N/A:N',
+      scanLevels: detailedLevels,
+      mode: 'passive',
+      run: this.checkOldHttpProtocol,
+    },
+    {
+      id: 'info-leak.html-comments',
+      title: 'Sensitive HTML Comments',
+      category: 'Information Disclosure',
+      severity: 'medium',
+      cwe: ['CWE-615'],
+      owasp: 'A05:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:L/I:N/A:N',
+      scanLevels: detailedLevels,
+      mode: 'passive',
+      run: this.checkCommentsForSensitiveInfo,
+    },
+    {
+      id: 'transport.tls-version',
+      title: 'Outdated TLS Versions',
+      category: 'Outdated Technology',
+      severity: 'high',
+      cwe: ['CWE-326', 'CWE-327'],
+      owasp: 'A02:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:N/S:U/C:H/I:N/A:N',
+      scanLevels: detailedLevels,
+      mode: 'passive',
+      run: this.checkOldTlsVersions,
+      appliesTo: (url) => url.startsWith('https'),
+    },
+    {
+      id: 'access-control.sensitive-endpoint',
+      title: 'Unprotected Sensitive Endpoints',
+      category: 'Access Control',
+      severity: 'high',
+      cwe: ['CWE-306', 'CWE-284'],
+      owasp: 'A01:2021',
+      cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:L/A:N',
+      scanLevels: detailedLevels,
+      mode: 'passive',
+      run: this.checkUnauthenticatedEndpoints,
+    },
+  ];
+  
+  private readonly checksById = new Map(this.checks.map((check) => [check.id, check]));
+  
+  // Every registered check, for listing
+  listChecks(): CheckInfo[] {
+    return this.checks.map(({ run, probe, appliesTo, ...info }) => info);
+  }
+  
+  getCheck(checkId: string): CheckInfo | undefined {
+    const check = this.checksById.get(checkId);
+    if (!check) {
+      return undefined;
+    }
+    const { run, probe, appliesTo, ...info } = check;
+    return info;
+  }
+  
+  // Ids of the checks that apply at the given level; the built-in scan profiles run these
+  getCheckIdsForLevel(scanLevel: string): string[] {
+    return this.checks
+      .filter((check) => check.scanLevels.includes(scanLevel as ScanLevel))
+      .map((check) => check.id);
+  }
+  
+  // Run the given passive checks against a page
   async detectVulnerabilities(
     url: string, 
     response: AxiosResponse, 
-    scanLevel: string
+    checkIds: string[]
   ): Promise<InsertVulnerability[]> {
-    const vulnerabilities: InsertVulnerability[] = [];
+    const checks = this.selectChecks(url, checkIds).filter((check) => check.run);
     const results: SecurityCheckResult[] = [];
     
-    // 基本的なセキュリティチェック（すべてのスキャンレベルで実行）
-    // Check security headers
-    this.checkSecurityHeaders(url, response, results);
-    
-    // Check for insecure cookies
-    this.checkCookies(url, response, results);
-    
-    // Check for XSS vulnerabilities in the page content
-    this.checkXssVulnerabilities(url, response, results);
+    const methods = new Set(checks.map((check) => check.run!));
+    methods.forEach((method) => method.call(this, url, response, results));
     
-    // サーバー情報の漏洩チェック
-    this.checkServerInformationLeakage(url, response, results);
+    const ran = new Set(checks.map((check) => check.id));
+    return this.toVulnerabilities(results.filter((result) => ran.has(result.checkId)));
+  }
+  
+  // Run the given active checks against a page, sending their requests through the prober
+  async probeVulnerabilities(
+    url: string,
+    response: AxiosResponse,
+    checkIds: string[],
+    prober: Prober
+  ): Promise<InsertVulnerability[]> {
+    const checks = this.selectChecks(url, checkIds).filter((check) => check.probe);
+    const results: SecurityCheckResult[] = [];
     
-    // HTTPSプロトコル検証
-    this.checkHttpsUsage(url, response, results);
+    const methods = new Set(checks.map((check) => check.probe!));
+    for (const method of Array.from(methods)) {
+      await method.call(this, url, response, prober, results);
+    }
     
-    // For standard and detailed scans, perform more checks
-    if (scanLevel === 'standard' || scanLevel === 'detailed') {
-      // Check for potentially vulnerable JavaScript libraries
-      this.checkJavaScriptLibraries(url, response, results);
-      
-      // Check for CSRF vulnerabilities
-      this.checkCsrfVulnerabilities(url, response, results);
-      
-      // Check for improper CORS policy
-      this.checkCorsPolicy(url, response, results);
-      
-      // Check robots.txt file
-      if (url.endsWith('/robots.txt') || url.endsWith('/')) {
-        this.checkRobotsTxt(url, response, results);
-      }
+    const ran = new Set(checks.map((check) => check.id));
+    return this.toVulnerabilities(results.filter((result) => ran.has(result.checkId)));
+  }
+  
+  hasCheck(checkId: string): boolean {
+    return this.checksById.has(checkId);
+  }
+  
+  // Run a single check against a response, e.g. to retest one finding; null for unknown check ids,
+  // and for active checks when no prober is given
+  async runCheck(checkId: string, url: string, response: AxiosResponse, prober?: Prober): Promise<InsertVulnerability[] | null> {
+    const check = this.checksById.get(checkId);
+    if (!check || (check.probe && !prober)) {
+      return null;
     }
     
-    // For detailed scans, perform even more checks
-    if (scanLevel === 'detailed') {
-      // Check for potential SQL injection points
-      this.checkSqlInjectionVulnerabilities(url, response, results);
-      
-      // Check for sensitive information leakage
-      this.checkSensitiveInformationLeakage(url, response, results);
-      
-      // Check for password fields over non-HTTPS
-      this.checkInsecurePasswordFields(url, response, results);
-      
-      // Check for file upload vulnerabilities
-      this.checkFileUploadVulnerabilities(url, response, results);
-      
-      // Check for old HTTP protocol
-      this.checkOldHttpProtocol(url, response, results);
-      
-      // Check for sensitive info in HTML comments
-      this.checkCommentsForSensitiveInfo(url, response, results);
-      
-      // Check for old TLS/SSL versions (HTTPS URLs only)
-      if (url.startsWith('https')) {
-        this.checkOldTlsVersions(url, response, results);
-      }
-      
-      // Check for public endpoints that might require authentication
-      this.checkUnauthenticatedEndpoints(url, response, results);
+    const results: SecurityCheckResult[] = [];
+    if (check.probe) {
+      await check.probe.call(this, url, response, prober!, results);
+    } else {
+      check.run!.call(this, url, response, results);
     }
+    return this.toVulnerabilities(results.filter((result) => result.checkId === checkId));
+  }
+  
+  private selectChecks(url: string, checkIds: string[]): CheckDefinition[] {
+    const selected = new Set(checkIds);
+    return this.checks.filter((check) => selected.has(check.id) && (!check.appliesTo || check.appliesTo(url)));
+  }
+  
+  private toVulnerabilities(results: SecurityCheckResult[]): InsertVulnerability[] {
+    const vulnerabilities: InsertVulnerability[] = [];
     
     // 結果をInsertVulnerabilityに変換
     // 脆弱性のあるものだけを返す（passedがfalseのもの）
     for (const result of results) {
       if (!result.passed) {
+        const check = this.checksById.get(result.checkId);
         vulnerabilities.push({
           scanId: result.scanId,
+          checkId: result.checkId,
           name: result.name,
           description: result.description,
           url: result.url,
           severity: result.severity === 'safe' ? 'low' : result.severity, // 'safe'は使わないため'low'に変換
           category: result.category,
           details: result.details,
-          status: result.status
+          status: result.status,
+          cweIds: check?.cwe ?? null,
+          owaspCategory: check?.owasp ?? null,
+          cvssVector: check?.cvssVector ?? null,
+          cvssScore: check ? getCvssBaseScore(check.cvssVector) : null,
         });
       } else {
         // 安全なチェック項目も脆弱性として追加
         vulnerabilities.push({
           scanId: result.scanId,
+          checkId: result.checkId,
           name: result.name,
           description: result.description,
           url: result.url,
@@ -123,6 +860,7 @@ class VulnerabilityDetector {
     if (url.startsWith('https')) {
       results.push({
         scanId: 0,
+        checkId: 'transport.https',
         name: 'HTTPS Protocol',
         description: 'The site uses HTTPS protocol which encrypts data transmission.',
         url,
@@ -135,6 +873,7 @@ class VulnerabilityDetector {
     } else {
       results.push({
         scanId: 0,
+        checkId: 'transport.https',
         name: 'Non-HTTPS Protocol',
         description: 'The site uses HTTP protocol which does not encrypt data transmission.',
         url,
@@ -147,25 +886,47 @@ class VulnerabilityDetector {
     }
   }
   
-  private checkSecurityHeaders(url: string, response: AxiosResponse, results: SecurityCheckResult[]) {
+  // Content-Security-Policy from the headers and, on HTML pages, <meta> elements. Weaknesses of the
+  // policy are only evaluated on HTML pages, which are what the policy protects.
+  private checkContentSecurityPolicy(url: string, response: AxiosResponse, results: SecurityCheckResult[]) {
     const headers = response.headers;
+    const isHtml = headers['content-type']?.includes('text/html') && typeof response.data === 'string';
     
-    // Check Content-Security-Policy (CSP)
-    if (headers['content-security-policy']) {
+    const metaPolicies: CspPolicy[] = [];
+    if (isHtml) {
+      const $ = cheerio.load(response.data);
+      $('meta[http-equiv]').each((_, meta) => {
+        const content = $(meta).attr('content');
+        if ($(meta).attr('http-equiv')?.toLowerCase() === 'content-security-policy' && content) {
+          metaPolicies.push(parseCspPolicy(content, 'meta'));
+        }
+      });
+    }
+    
+    const enforced = [...parseCspHeader(headers['content-security-policy'], 'header'), ...metaPolicies];
+    const reportOnly = parseCspHeader(headers['content-security-policy-report-only'], 'report-only');
+    
+    if (enforced.length > 0) {
       results.push({
         scanId: 0,
+        checkId: 'headers.csp',
         name: 'Content-Security-Policy Header',
         description: 'The Content-Security-Policy header is properly set, which helps prevent XSS attacks.',
         url,
         severity: 'safe',
         category: 'Header Configuration',
-        details: { header: 'content-security-policy', value: headers['content-security-policy'] },
+        details: {
+          header: 'content-security-policy',
+          value: headers['content-security-policy'],
+          meta: metaPolicies.map((policy) => policy.value),
+        },
         status: 'safe',
         passed: true
       });
     } else {
       results.push({
         scanId: 0,
+        checkId: 'headers.csp',
         name: 'Missing Content-Security-Policy Header',
         description: 'The Content-Security-Policy header is not set, which can lead to Cross-Site Scripting (XSS) attacks.',
         url,
@@ -177,66 +938,323 @@ class VulnerabilityDetector {
       });
     }
     
-    // Check X-XSS-Protection
-    if (headers['x-xss-protection']) {
+    if (!isHtml || (enforced.length === 0 && reportOnly.length === 0)) {
+      return;
+    }
+    
+    // A report-only policy only reports violations; without an enforced policy nothing is blocked
+    if (enforced.length === 0) {
       results.push({
         scanId: 0,
-        name: 'X-XSS-Protection Header',
-        description: 'The X-XSS-Protection header is properly set, which helps protect against XSS attacks in older browsers.',
+        checkId: 'csp.report-only',
+        name: 'Content-Security-Policy Is Report-Only',
+        description: 'The page only sends Content-Security-Policy-Report-Only, so violations of the policy are reported but not blocked.',
+        url,
+        severity: 'low',
+        category: 'Header Configuration',
+        details: { header: 'content-security-policy-report-only', value: reportOnly.map((policy) => policy.value).join(', ') },
+        status: 'pending',
+        passed: false
+      });
+      return;
+    }
+    
+    results.push({
+      scanId: 0,
+      checkId: 'csp.report-only',
+      name: 'Content-Security-Policy Is Enforced',
+      description: 'The Content-Security-Policy is enforced, not only reported.',
+      url,
+      severity: 'safe',
+      category: 'Header Configuration',
+      details: { policies: enforced.map((policy) => ({ source: policy.source, value: policy.value })) },
+      status: 'safe',
+      passed: true
+    });
+    
+    for (const weakness of CSP_WEAKNESSES) {
+      const details = findCspWeakness(weakness, enforced);
+      results.push({
+        scanId: 0,
+        checkId: weakness.checkId,
+        name: details ? weakness.name : weakness.passedName,
+        description: details ? weakness.description : weakness.passedDescription,
+        url,
+        severity: details ? weakness.severity : 'safe',
+        category: 'Header Configuration',
+        details: details ?? { policies: enforced.map((policy) => ({ source: policy.source, value: policy.value })) },
+        status: details ? 'pending' : 'safe',
+        passed: !details
+      });
+    }
+  }
+  
+  // Strict-Transport-Security on HTTPS pages: whether browsers enforce it at all, and how well it is set up
+  private checkStrictTransportSecurity(url: string, response: AxiosResponse, results: SecurityCheckResult[]) {
+    if (!url.startsWith('https')) {
+      return;
+    }
+    
+    const value = response.headers['strict-transport-security'];
+    if (!value) {
+      results.push({
+        scanId: 0,
+        checkId: 'headers.hsts',
+        name: 'Missing Strict-Transport-Security Header',
+        description: 'The Strict-Transport-Security header is not set, which can lead to protocol downgrade attacks.',
+        url,
+        severity: 'medium',
+        category: 'Header Configuration',
+        details: { header: 'strict-transport-security', missing: true },
+        status: 'pending',
+        passed: false
+      });
+      return;
+    }
+    
+    const policy = parseHsts(value);
+    // Browsers ignore a header without max-age, and max-age=0 removes the policy
+    if (!policy.maxAge) {
+      results.push({
+        scanId: 0,
+        checkId: 'headers.hsts',
+        name: 'Ineffective Strict-Transport-Security Header',
+        description: policy.maxAge === 0
+          ? 'The Strict-Transport-Security header sets max-age=0, which tells browsers to forget the policy.'
+          : 'The Strict-Transport-Security header has no valid max-age directive, so browsers ignore it.',
+        url,
+        severity: 'medium',
+        category: 'Header Configuration',
+        details: { header: 'strict-transport-security', value, maxAge: policy.maxAge },
+        status: 'pending',
+        passed: false
+      });
+      return;
+    }
+    
+    results.push({
+      scanId: 0,
+      checkId: 'headers.hsts',
+      name: 'Strict-Transport-Security Header',
+      description: 'The Strict-Transport-Security header is properly set, which helps prevent protocol downgrade attacks.',
+      url,
+      severity: 'safe',
+      category: 'Header Configuration',
+      details: { header: 'strict-transport-security', value },
+      status: 'safe',
+      passed: true
+    });
+    
+    const details = { header: 'strict-transport-security', value, ...policy };
+    
+    if (policy.maxAge < HSTS_MIN_MAX_AGE) {
+      results.push({
+        scanId: 0,
+        checkId: 'headers.hsts-max-age',
+        name: 'Short Strict-Transport-Security max-age',
+        description: `The Strict-Transport-Security max-age of ${policy.maxAge} seconds is below the recommended ${HSTS_MIN_MAX_AGE} seconds (one year), so the policy lapses between visits.`,
+        url,
+        severity: 'low',
+        category: 'Header Configuration',
+        details: { ...details, minimumMaxAge: HSTS_MIN_MAX_AGE },
+        status: 'pending',
+        passed: false
+      });
+    } else {
+      results.push({
+        scanId: 0,
+        checkId: 'headers.hsts-max-age',
+        name: 'Strict-Transport-Security max-age',
+        description: 'The Strict-Transport-Security max-age is at least one year.',
         url,
         severity: 'safe',
         category: 'Header Configuration',
-        details: { header: 'x-xss-protection', value: headers['x-xss-protection'] },
+        details,
+        status: 'safe',
+        passed: true
+      });
+    }
+    
+    results.push(policy.includeSubDomains ? {
+      scanId: 0,
+      checkId: 'headers.hsts-include-subdomains',
+      name: 'Strict-Transport-Security Covers Subdomains',
+      description: 'The Strict-Transport-Security header sets includeSubDomains, so subdomains are only reached over HTTPS too.',
+      url,
+      severity: 'safe',
+      category: 'Header Configuration',
+      details,
+      status: 'safe',
+      passed: true
+    } : {
+      scanId: 0,
+      checkId: 'headers.hsts-include-subdomains',
+      name: 'Strict-Transport-Security Without includeSubDomains',
+      description: 'The Strict-Transport-Security header does not set includeSubDomains, so subdomains can still be reached over HTTP and used to attack cookies of this site.',
+      url,
+      severity: 'low',
+      category: 'Header Configuration',
+      details,
+      status: 'pending',
+      passed: false
+    });
+    
+    const preloadIssues = getHstsPreloadIssues(policy);
+    results.push(preloadIssues.length === 0 ? {
+      scanId: 0,
+      checkId: 'headers.hsts-preload',
+      name: 'Strict-Transport-Security Preload Eligible',
+      description: 'The Strict-Transport-Security header meets the requirements of the HSTS preload list.',
+      url,
+      severity: 'safe',
+      category: 'Header Configuration',
+      details,
+      status: 'safe',
+      passed: true
+    } : {
+      scanId: 0,
+      checkId: 'headers.hsts-preload',
+      name: 'Strict-Transport-Security Not Preload Eligible',
+      description: `The Strict-Transport-Security header does not meet the requirements of the HSTS preload list, so the first visit to the site is not protected: ${preloadIssues.join(', ')}.`,
+      url,
+      severity: 'low',
+      category: 'Header Configuration',
+      details: { ...details, preloadIssues },
+      status: 'pending',
+      passed: false
+    });
+  }
+  
+  // Permissions-Policy and the cross-origin isolation headers. Permissions-Policy, COOP and COEP only
+  // apply to documents; CORP protects every resource.
+  private checkCrossOriginHeaders(url: string, response: AxiosResponse, results: SecurityCheckResult[]) {
+    const headers = response.headers;
+    const isHtml = !!headers['content-type']?.includes('text/html');
+    
+    type HeaderOutcome = { name: string; description: string; details?: Record<string, unknown> };
+    const pushHeaderResult = (checkId: string, header: string, failure: HeaderOutcome | null, passed: HeaderOutcome) => {
+      const value = headers[header] ?? null;
+      results.push({
+        scanId: 0,
+        checkId,
+        name: failure ? failure.name : passed.name,
+        description: failure ? failure.description : passed.description,
+        url,
+        severity: failure ? 'low' : 'safe',
+        category: 'Header Configuration',
+        details: { header, value, ...(value === null ? { missing: true } : {}), ...failure?.details },
+        status: failure ? 'pending' : 'safe',
+        passed: !failure
+      });
+    };
+    
+    if (isHtml) {
+      const permissionsPolicy = headers['permissions-policy'];
+      const openFeatures = permissionsPolicy
+        ? Array.from(parsePermissionsPolicy(permissionsPolicy).entries())
+          .filter(([feature, allowlist]) => SENSITIVE_PERMISSIONS.includes(feature) && allowlist.includes('*'))
+          .map(([feature]) => feature)
+        : [];
+      pushHeaderResult(
+        'headers.permissions-policy',
+        'permissions-policy',
+        !permissionsPolicy ? {
+          name: 'Missing Permissions-Policy Header',
+          description: 'The Permissions-Policy header is not set, so the page and any frames it embeds can request powerful browser features such as the camera, microphone and geolocation.',
+        } : openFeatures.length > 0 ? {
+          name: 'Permissions-Policy Allows Sensitive Features for Any Origin',
+          description: `The Permissions-Policy header allows every origin to use ${openFeatures.join(', ')}.`,
+          details: { features: openFeatures },
+        } : null,
+        {
+          name: 'Permissions-Policy Header',
+          description: 'The Permissions-Policy header is set and does not allow sensitive features for every origin.',
+        },
+      );
+      
+      const coop = getPolicyToken(headers['cross-origin-opener-policy']);
+      pushHeaderResult(
+        'headers.coop',
+        'cross-origin-opener-policy',
+        !coop || !['same-origin', 'same-origin-allow-popups', 'noopener-allow-popups'].includes(coop) ? {
+          name: coop ? 'Weak Cross-Origin-Opener-Policy Header' : 'Missing Cross-Origin-Opener-Policy Header',
+          description: 'Cross-Origin-Opener-Policy does not isolate the page from cross-origin windows, which can then keep a reference to it and use it for cross-site leaks. Set it to same-origin.',
+        } : null,
+        {
+          name: 'Cross-Origin-Opener-Policy Header',
+          description: 'The Cross-Origin-Opener-Policy header isolates the page from cross-origin windows.',
+        },
+      );
+      
+      const coep = getPolicyToken(headers['cross-origin-embedder-policy']);
+      pushHeaderResult(
+        'headers.coep',
+        'cross-origin-embedder-policy',
+        !coep || !['require-corp', 'credentialless'].includes(coep) ? {
+          name: coep ? 'Weak Cross-Origin-Embedder-Policy Header' : 'Missing Cross-Origin-Embedder-Policy Header',
+          description: 'Cross-Origin-Embedder-Policy does not require embedded cross-origin resources to opt in, so the page cannot be cross-origin isolated. Set it to require-corp or credentialless.',
+        } : null,
+        {
+          name: 'Cross-Origin-Embedder-Policy Header',
+          description: 'The Cross-Origin-Embedder-Policy header requires embedded cross-origin resources to opt in.',
+        },
+      );
+    }
+    
+    const corp = getPolicyToken(headers['cross-origin-resource-policy']);
+    pushHeaderResult(
+      'headers.corp',
+      'cross-origin-resource-policy',
+      !corp || !['same-origin', 'same-site', 'cross-origin'].includes(corp) ? {
+        name: corp ? 'Invalid Cross-Origin-Resource-Policy Header' : 'Missing Cross-Origin-Resource-Policy Header',
+        description: 'Cross-Origin-Resource-Policy is not set to a valid value, so other sites can load this resource into their pages, where side channels can leak it. Set it to same-origin or same-site.',
+      } : null,
+      {
+        name: 'Cross-Origin-Resource-Policy Header',
+        description: 'The Cross-Origin-Resource-Policy header controls which sites can load this resource.',
+      },
+    );
+  }
+  
+  private checkSecurityHeaders(url: string, response: AxiosResponse, results: SecurityCheckResult[]) {
+    const headers = response.headers;
+    
+    // X-XSS-Protection is deprecated: browsers have removed the filter it turns on, and in older ones the
+    // filter could be abused to leak information from the page. It should be absent or disable the filter.
+    const xssProtection = headers['x-xss-protection'];
+    if (!xssProtection || xssProtection.trim().startsWith('0')) {
+      results.push({
+        scanId: 0,
+        checkId: 'headers.x-xss-protection',
+        name: 'X-XSS-Protection Filter Not Enabled',
+        description: 'The deprecated X-XSS-Protection filter is not enabled. Content-Security-Policy should be used to mitigate XSS instead.',
+        url,
+        severity: 'safe',
+        category: 'Header Configuration',
+        details: { header: 'x-xss-protection', value: xssProtection ?? null },
         status: 'safe',
         passed: true
       });
     } else {
       results.push({
         scanId: 0,
-        name: 'Missing X-XSS-Protection Header',
-        description: 'The X-XSS-Protection header is not set, which can lead to XSS attacks in older browsers.',
+        checkId: 'headers.x-xss-protection',
+        name: 'Deprecated X-XSS-Protection Filter Enabled',
+        description: 'The X-XSS-Protection header enables the legacy XSS filter, which modern browsers have removed and which could be abused to leak information in older ones. Set it to 0 or remove it, and use Content-Security-Policy instead.',
         url,
         severity: 'low',
         category: 'Header Configuration',
-        details: { header: 'x-xss-protection', missing: true },
+        details: { header: 'x-xss-protection', value: xssProtection, deprecated: true },
         status: 'pending',
         passed: false
       });
     }
     
-    // Check Strict-Transport-Security (HSTS)
-    if (url.startsWith('https')) {
-      if (headers['strict-transport-security']) {
-        results.push({
-          scanId: 0,
-          name: 'Strict-Transport-Security Header',
-          description: 'The Strict-Transport-Security header is properly set, which helps prevent protocol downgrade attacks.',
-          url,
-          severity: 'safe',
-          category: 'Header Configuration',
-          details: { header: 'strict-transport-security', value: headers['strict-transport-security'] },
-          status: 'safe',
-          passed: true
-        });
-      } else {
-        results.push({
-          scanId: 0,
-          name: 'Missing Strict-Transport-Security Header',
-          description: 'The Strict-Transport-Security header is not set, which can lead to protocol downgrade attacks.',
-          url,
-          severity: 'medium',
-          category: 'Header Configuration',
-          details: { header: 'strict-transport-security', missing: true },
-          status: 'pending',
-          passed: false
-        });
-      }
-    }
-    
     // Check X-Content-Type-Options
     if (headers['x-content-type-options']) {
       results.push({
         scanId: 0,
+        checkId: 'headers.x-content-type-options',
         name: 'X-Content-Type-Options Header',
         description: 'The X-Content-Type-Options header is properly set, which helps prevent MIME-sniffing attacks.',
         url,
@@ -249,6 +1267,7 @@ class VulnerabilityDetector {
     } else {
       results.push({
         scanId: 0,
+        checkId: 'headers.x-content-type-options',
         name: 'Missing X-Content-Type-Options Header',
         description: 'The X-Content-Type-Options header is not set, which can lead to MIME-sniffing attacks.',
         url,
@@ -264,6 +1283,7 @@ class VulnerabilityDetector {
     if (headers['x-frame-options']) {
       results.push({
         scanId: 0,
+        checkId: 'headers.x-frame-options',
         name: 'X-Frame-Options Header',
         description: 'The X-Frame-Options header is properly set, which helps prevent clickjacking attacks.',
         url,
@@ -276,6 +1296,7 @@ class VulnerabilityDetector {
     } else {
       results.push({
         scanId: 0,
+        checkId: 'headers.x-frame-options',
         name: 'Missing X-Frame-Options Header',
         description: 'The X-Frame-Options header is not set, which can lead to clickjacking attacks.',
         url,
@@ -291,6 +1312,7 @@ class VulnerabilityDetector {
     if (headers['referrer-policy']) {
       results.push({
         scanId: 0,
+        checkId: 'headers.referrer-policy',
         name: 'Referrer-Policy Header',
         description: 'The Referrer-Policy header is properly set, which helps protect user privacy.',
         url,
@@ -303,6 +1325,7 @@ class VulnerabilityDetector {
     } else {
       results.push({
         scanId: 0,
+        checkId: 'headers.referrer-policy',
         name: 'Missing Referrer-Policy Header',
         description: 'The Referrer-Policy header is not set, which can lead to privacy issues.',
         url,
@@ -322,6 +1345,7 @@ class VulnerabilityDetector {
     if (!setCookieHeader) {
       results.push({
         scanId: 0,
+        checkId: 'cookies.presence',
         name: 'No Cookies Set',
         description: 'No cookies are set by this page, which reduces client-side security risks.',
         url,
@@ -338,6 +1362,7 @@ class VulnerabilityDetector {
     let allCookiesSecure = true;
     let allCookiesHttpOnly = true;
     let allCookiesSameSite = true;
+    let allPrefixesValid = true;
     
     for (const cookie of cookies) {
       const isSecure = cookie.toLowerCase().includes('secure');
@@ -347,6 +1372,7 @@ class VulnerabilityDetector {
       if (url.startsWith('https') && !isSecure) {
         results.push({
           scanId: 0,
+          checkId: 'cookies.secure-flag',
           name: 'Insecure Cookie (Missing Secure Flag)',
           description: 'A cookie is set without the Secure flag, which means it can be transmitted over unencrypted connections.',
           url,
@@ -362,6 +1388,7 @@ class VulnerabilityDetector {
       if (!isHttpOnly) {
         results.push({
           scanId: 0,
+          checkId: 'cookies.httponly-flag',
           name: 'Insecure Cookie (Missing HttpOnly Flag)',
           description: 'A cookie is set without the HttpOnly flag, which means it can be accessed by JavaScript.',
           url,
@@ -377,6 +1404,7 @@ class VulnerabilityDetector {
       if (!hasSameSite) {
         results.push({
           scanId: 0,
+          checkId: 'cookies.samesite-attribute',
           name: 'Insecure Cookie (Missing SameSite Attribute)',
           description: 'A cookie is set without the SameSite attribute, which can lead to CSRF attacks.',
           url,
@@ -388,12 +1416,30 @@ class VulnerabilityDetector {
         });
         allCookiesSameSite = false;
       }
+      
+      const prefixIssues = getCookiePrefixIssues(parseSetCookie(cookie));
+      if (prefixIssues.length > 0) {
+        results.push({
+          scanId: 0,
+          checkId: 'cookies.prefix',
+          name: 'Invalid Cookie Name Prefix',
+          description: `A cookie uses the __Secure- or __Host- name prefix without meeting its requirements, so browsers reject it: ${prefixIssues.join(', ')}.`,
+          url,
+          severity: 'low',
+          category: 'Cookie Security',
+          details: { cookie, prefixIssues },
+          status: 'pending',
+          passed: false
+        });
+        allPrefixesValid = false;
+      }
     }
     
     // すべてのCookieがセキュアな場合、安全なチェック項目を追加
     if (allCookiesSecure && url.startsWith('https')) {
       results.push({
         scanId: 0,
+        checkId: 'cookies.secure-flag',
         name: 'Secure Cookies',
         description: 'All cookies use the Secure flag, which ensures they are only transmitted over HTTPS connections.',
         url,
@@ -408,6 +1454,7 @@ class VulnerabilityDetector {
     if (allCookiesHttpOnly) {
       results.push({
         scanId: 0,
+        checkId: 'cookies.httponly-flag',
         name: 'HttpOnly Cookies',
         description: 'All cookies use the HttpOnly flag, which prevents access via client-side scripts.',
         url,
@@ -419,9 +1466,25 @@ class VulnerabilityDetector {
       });
     }
     
+    if (allPrefixesValid) {
+      results.push({
+        scanId: 0,
+        checkId: 'cookies.prefix',
+        name: 'Valid Cookie Name Prefixes',
+        description: 'Every cookie that uses the __Secure- or __Host- name prefix meets its requirements.',
+        url,
+        severity: 'safe',
+        category: 'Cookie Security',
+        details: { cookiesCount: cookies.length },
+        status: 'safe',
+        passed: true
+      });
+    }
+    
     if (allCookiesSameSite) {
       results.push({
         scanId: 0,
+        checkId: 'cookies.samesite-attribute',
         name: 'SameSite Cookies',
         description: 'All cookies use the SameSite attribute, which provides protection against CSRF attacks.',
         url,
@@ -455,6 +1518,7 @@ class VulnerabilityDetector {
             if (matches.length > 0) {
               vulnerabilities.push({
                 scanId: 0,
+                checkId: 'xss.reflected-parameter',
                 name: 'Potential Reflected XSS',
                 description: `The URL parameter "${param}" is reflected in the page content without proper encoding.`,
                 url,
@@ -476,6 +1540,7 @@ class VulnerabilityDetector {
         if (unsafeInputs.length > 0) {
           vulnerabilities.push({
             scanId: 0,
+            checkId: 'xss.unprotected-inputs',
             name: 'Potential DOM-based XSS',
             description: 'Found input fields without explicit XSS protection attributes.',
             url,
@@ -491,50 +1556,199 @@ class VulnerabilityDetector {
     }
   }
   
+  // Submit a unique payload in each query parameter and form field and report the ones that come
+  // back where they can run script. Every parameter gets its own request, so this is an active check.
+  private async probeReflectedXss(url: string, response: AxiosResponse, prober: Prober, results: SecurityCheckResult[]) {
+    let probed = 0;
+    let found = 0;
+    
+    for (const point of findInjectionPoints(url, response)) {
+      for (const parameter of point.injectable) {
+        if (!prober.claim('xss.reflected-active', point, parameter)) {
+          continue;
+        }
+        
+        try {
+          const finding = await this.probeXssParameter(point, parameter, prober);
+          if (finding === undefined) {
+            continue;
+          }
+          probed++;
+          if (finding) {
+            found++;
+            const location = point.source === 'query' ? 'URL parameter' : 'form field';
+            results.push({
+              scanId: 0,
+              checkId: 'xss.reflected-active',
+              name: 'Reflected Cross-Site Scripting',
+              description: `The ${location} "${parameter}" is reflected ${reflectionContextDescriptions[finding.context]} without the encoding that context needs, so a crafted request can run script in the page.`,
+              // Each parameter is probed once per scan, from whichever page the crawler reached first
+              url: getInjectionPointUrl(point),
+              severity: 'high',
+              category: 'Cross-Site Scripting',
+              details: { parameter, source: point.source, method: point.method, action: point.action, foundOn: url, confirmed: true, ...finding },
+              status: 'pending',
+              passed: false,
+            });
+          }
+        } catch (error) {
+          console.error(`Error probing ${parameter} on ${url} for reflected XSS:`, error);
+        }
+      }
+    }
+    
+    if (probed > 0 && found === 0) {
+      results.push({
+        scanId: 0,
+        checkId: 'xss.reflected-active',
+        name: 'No Reflected XSS Found',
+        description: 'None of the parameters probed on the page reflected the payload where it could run script.',
+        url,
+        severity: 'safe',
+        category: 'Cross-Site Scripting',
+        details: { probedParameters: probed },
+        status: 'safe',
+        passed: true,
+      });
+    }
+  }
+  
+  // Evidence of an exploitable reflection of the parameter, null if there is none, or undefined if
+  // the probe could not be sent
+  private async probeXssParameter(point: InjectionPoint, parameter: string, prober: Prober) {
+    const canary = createCanary();
+    const payload = buildXssPayload(canary);
+    const request = buildProbeRequest(point, parameter, payload);
+    const probeResponse = await prober.send(request);
+    if (!probeResponse) {
+      return undefined;
+    }
+    
+    // Only responses that browsers render as HTML run the reflected markup
+    if (!probeResponse.headers['content-type']?.includes('text/html') || typeof probeResponse.data !== 'string') {
+      return null;
+    }
+    
+    const reflections = findReflections(probeResponse.data, canary);
+    const exploitable = reflections.find((reflection) => reflection.exploitable);
+    if (exploitable) {
+      return {
+        context: exploitable.context,
+        attribute: exploitable.attribute ?? null,
+        unescaped: exploitable.unescaped,
+        payload,
+        request,
+        response: { status: probeResponse.status, snippet: getEvidenceSnippet(probeResponse.data, exploitable.index) },
+      };
+    }
+    
+    // A value at the start of a link or source can make it a javascript: URL without breaking out of the attribute
+    const urlReflection = reflections.find((reflection) => reflection.context === 'url');
+    if (!urlReflection) {
+      return null;
+    }
+    const urlCanary = createCanary();
+    const urlPayload = buildScriptUrlPayload(urlCanary);
+    const urlRequest = buildProbeRequest(point, parameter, urlPayload);
+    const urlResponse = await prober.send(urlRequest);
+    if (!urlResponse || typeof urlResponse.data !== 'string' || !reflectsScriptUrl(urlResponse.data, urlCanary)) {
+      return null;
+    }
+    return {
+      context: 'url' as ReflectionContext,
+      attribute: urlReflection.attribute ?? null,
+      unescaped: [],
+      payload: urlPayload,
+      request: urlRequest,
+      response: {
+        status: urlResponse.status,
+        snippet: getEvidenceSnippet(urlResponse.data, urlResponse.data.indexOf(urlCanary)),
+      },
+    };
+  }
+  
   private checkJavaScriptLibraries(url: string, response: AxiosResponse, vulnerabilities: InsertVulnerability[]) {
-    if (response.headers['content-type']?.includes('text/html')) {
-      try {
+    const contentType = response.headers['content-type'] || '';
+    
+    try {
+      const found: { detected: DetectedLibrary; src: string }[] = [];
+      
+      if (contentType.includes('text/html')) {
+        // Libraries the page loads, by their URLs, and those inlined into it, by their banners
         const $ = cheerio.load(response.data);
-        const scripts = $('script[src]');
-        
-        // List of known vulnerable library patterns and their safe versions
-        const vulnerableLibraries = [
-          { name: 'jQuery', pattern: /jquery[.-]?([0-9]+\.[0-9]+\.[0-9]+)\.min\.js/i, vulnerableVersions: ['<1.9.0', '<2.1.4', '<3.0.0'] },
-          { name: 'Bootstrap', pattern: /bootstrap[.-]?([0-9]+\.[0-9]+\.[0-9]+)\.min\.js/i, vulnerableVersions: ['<3.4.0', '<4.3.1'] },
-          { name: 'AngularJS', pattern: /angular[.-]?([0-9]+\.[0-9]+\.[0-9]+)\.min\.js/i, vulnerableVersions: ['<1.6.0', '<1.7.9'] },
-          { name: 'Lodash', pattern: /lodash[.-]?([0-9]+\.[0-9]+\.[0-9]+)\.min\.js/i, vulnerableVersions: ['<4.17.11'] },
-        ];
-        
-        scripts.each((_, script) => {
-          const src = $(script).attr('src') || '';
-          
-          for (const lib of vulnerableLibraries) {
-            const match = src.match(lib.pattern);
-            if (match && match[1]) {
-              const version = match[1];
-              
-              // Very simplified version check, in a real app would use semantic versioning
-              for (const vRange of lib.vulnerableVersions) {
-                if (vRange.startsWith('<') && version < vRange.substring(1)) {
-                  vulnerabilities.push({
-                    scanId: 0,
-                    name: `Vulnerable JavaScript Library: ${lib.name}`,
-                    description: `Using potentially vulnerable version ${version} of ${lib.name}. ${vRange} versions are known to have security issues.`,
-                    url,
-                    severity: 'medium',
-                    category: 'Outdated Libraries',
-                    details: { library: lib.name, version, src },
-                    status: 'pending',
-                  });
-                  break;
-                }
-              }
+        $('script').each((_, script) => {
+          const src = $(script).attr('src');
+          if (src) {
+            let scriptUrl = src;
+            try {
+              scriptUrl = new URL(src, url).href;
+            } catch {
+              // Keep the reference as written
             }
+            detectLibrariesInUrl(scriptUrl).forEach((detected) => found.push({ detected, src }));
+          } else {
+            detectLibrariesInContent($(script).html() || '').forEach((detected) => found.push({ detected, src: 'inline' }));
           }
         });
-      } catch (error) {
-        console.error(`Error checking for vulnerable JavaScript libraries at ${url}:`, error);
+      } else if (/javascript|ecmascript/i.test(contentType) || /\.m?js$/i.test(new URL(url).pathname)) {
+        // A script the crawler fetched: its banner names the version even when its URL does not
+        const fromContent = typeof response.data === 'string' ? detectLibrariesInContent(response.data) : [];
+        const fromUrl = detectLibrariesInUrl(url).filter((detected) => !fromContent.some((d) => d.library === detected.library));
+        [...fromContent, ...fromUrl].forEach((detected) => found.push({ detected, src: url }));
       }
+      
+      const reported = new Set<string>();
+      for (const { detected, src } of found) {
+        const { library, version, detectedBy } = detected;
+        const key = `${library}@${version}`;
+        if (reported.has(key)) {
+          continue;
+        }
+        reported.add(key);
+        
+        const advisories = findAdvisories(library, version);
+        if (advisories.length === 0) {
+          continue;
+        }
+        
+        const advisoryIds = Array.from(new Set(advisories.flatMap(getAdvisoryIds)));
+        const fixedIn = getFixedInVersion(advisories);
+        const severities = advisories.map((advisory) => advisory.severity);
+        const severity = severities.some((s) => s === 'critical' || s === 'high')
+          ? 'high'
+          : severities.includes('medium') ? 'medium' : 'low';
+        
+        vulnerabilities.push({
+          scanId: 0,
+          checkId: 'libraries.vulnerable-js',
+          name: `Vulnerable JavaScript Library: ${library}`,
+          description: `${library} ${version} is affected by ${advisories.length} known ${advisories.length === 1 ? 'vulnerability' : 'vulnerabilities'}`
+            + `${advisoryIds.length > 0 ? ` (${advisoryIds.join(', ')})` : ''}.`
+            + `${fixedIn ? ` Upgrade to version ${fixedIn} or later.` : ''}`,
+          url,
+          severity,
+          category: 'Outdated Libraries',
+          details: {
+            library,
+            version,
+            src,
+            detectedBy,
+            advisoryIds,
+            fixedIn,
+            advisories: advisories.map((advisory) => ({
+              ids: getAdvisoryIds(advisory),
+              severity: advisory.severity,
+              summary: advisory.identifiers.summary,
+              atOrAbove: advisory.atOrAbove,
+              below: advisory.below,
+              info: advisory.info,
+            })),
+          },
+          status: 'pending',
+        });
+      }
+    } catch (error) {
+      console.error(`Error checking for vulnerable JavaScript libraries at ${url}:`, error);
     }
   }
   
@@ -554,6 +1768,7 @@ class VulnerabilityDetector {
             if (csrfToken.length === 0) {
               vulnerabilities.push({
                 scanId: 0,
+                checkId: 'csrf.missing-token',
                 name: 'Potential CSRF Vulnerability',
                 description: 'Found a form with POST method but no CSRF token.',
                 url,
@@ -595,6 +1810,7 @@ class VulnerabilityDetector {
         if (param.toLowerCase().includes(pattern.replace('=', ''))) {
           vulnerabilities.push({
             scanId: 0,
+            checkId: 'sqli.url-parameter',
             name: 'Potential SQL Injection Point',
             description: `The URL parameter "${param}" might be vulnerable to SQL injection.`,
             url,
@@ -623,6 +1839,7 @@ class VulnerabilityDetector {
               if (name.includes(pattern.replace('=', ''))) {
                 vulnerabilities.push({
                   scanId: 0,
+                  checkId: 'sqli.form-field',
                   name: 'Potential SQL Injection Point in Form',
                   description: `The form field "${name}" might be vulnerable to SQL injection.`,
                   url,
@@ -642,6 +1859,172 @@ class VulnerabilityDetector {
     }
   }
   
+  // Probe each parameter for SQL injection: by database errors that a quote causes and the escaped
+  // quote does not, and by responses that follow true and false conditions appended to the value.
+  // Findings that a second test backs up are confirmed, the others tentative.
+  private async probeSqlInjection(url: string, response: AxiosResponse, prober: Prober, results: SecurityCheckResult[]) {
+    let probed = 0;
+    let found = 0;
+    
+    for (const point of findInjectionPoints(url, response)) {
+      for (const parameter of point.injectable) {
+        if (!prober.claim('sqli.active-probe', point, parameter)) {
+          continue;
+        }
+        
+        try {
+          const finding = await this.probeSqlParameter(point, parameter, prober);
+          if (finding === undefined) {
+            continue;
+          }
+          probed++;
+          if (finding) {
+            found++;
+            const confirmed = finding.confidence === 'confirmed';
+            const location = point.source === 'query' ? 'URL parameter' : 'form field';
+            const evidence = finding.technique === 'error-based'
+              ? `a quote in it causes a ${finding.dbms} error`
+              : 'true and false conditions appended to it change the response';
+            results.push({
+              scanId: 0,
+              checkId: 'sqli.active-probe',
+              name: confirmed ? 'SQL Injection' : 'Possible SQL Injection',
+              description: `The ${location} "${parameter}" appears to be put into a database query unescaped: ${evidence}.`,
+              // Each parameter is probed once per scan, from whichever page the crawler reached first
+              url: getInjectionPointUrl(point),
+              severity: confirmed ? 'high' : 'medium',
+              category: 'SQL Injection',
+              details: { parameter, source: point.source, method: point.method, action: point.action, foundOn: url, ...finding },
+              status: 'pending',
+              passed: false,
+            });
+          }
+        } catch (error) {
+          console.error(`Error probing ${parameter} on ${url} for SQL injection:`, error);
+        }
+      }
+    }
+    
+    if (probed > 0 && found === 0) {
+      results.push({
+        scanId: 0,
+        checkId: 'sqli.active-probe',
+        name: 'No SQL Injection Found',
+        description: 'None of the parameters probed on the page caused database errors or responded to injected conditions.',
+        url,
+        severity: 'safe',
+        category: 'SQL Injection',
+        details: { probedParameters: probed },
+        status: 'safe',
+        passed: true,
+      });
+    }
+  }
+  
+  // Evidence of SQL injection through the parameter, null if there is none, or undefined if the
+  // probes could not be sent
+  private async probeSqlParameter(point: InjectionPoint, parameter: string, prober: Prober) {
+    const original = point.parameters.find(([name]) => name === parameter)?.[1] ?? '';
+    const send = async (value: string) => {
+      const request = buildProbeRequest(point, parameter, value);
+      const probeResponse = await prober.send(request);
+      if (!probeResponse) {
+        return null;
+      }
+      const body = typeof probeResponse.data === 'string' ? probeResponse.data : JSON.stringify(probeResponse.data ?? '');
+      return { request, status: probeResponse.status, body };
+    };
+    
+    const baseline = await send(original);
+    if (!baseline) {
+      return undefined;
+    }
+    
+    // Error-based: only errors that the page does not show anyway count
+    if (!findDbmsError(baseline.body)) {
+      for (const { broken, balanced } of quotePayloads) {
+        const payload = `${original}${broken}`;
+        const probe = await send(payload);
+        const error = probe && findDbmsError(probe.body);
+        if (!probe || !error) {
+          continue;
+        }
+        // If escaping the quote makes the error go away, the quote is what broke the query
+        const escaped = await send(`${original}${balanced}`);
+        return {
+          technique: 'error-based',
+          confidence: escaped && !findDbmsError(escaped.body) ? 'confirmed' : 'tentative',
+          dbms: error.dbms,
+          error: error.message,
+          payload,
+          request: probe.request,
+          response: { status: probe.status, snippet: getEvidenceSnippet(probe.body, probe.body.indexOf(error.message)) },
+        };
+      }
+    }
+    
+    // Boolean-based: pages whose content changes between two identical requests cannot be compared
+    const repeat = await send(original);
+    if (!repeat || repeat.status !== baseline.status) {
+      return null;
+    }
+    const stability = getSimilarity(baseline.body, repeat.body);
+    if (stability < MIN_RESPONSE_STABILITY) {
+      return null;
+    }
+    
+    for (const pair of buildBooleanPairs(original, 0)) {
+      const first = await this.compareBooleanPair(pair, baseline, stability, send);
+      if (!first) {
+        continue;
+      }
+      // A second pair with other numbers rules out a page that happened to change between the first two requests
+      const second = buildBooleanPairs(original, 1).find((candidate) => candidate.kind === pair.kind)!;
+      const repeated = await this.compareBooleanPair(second, baseline, stability, send);
+      return {
+        technique: 'boolean-based',
+        confidence: repeated ? 'confirmed' : 'tentative',
+        injectionKind: pair.kind,
+        payload: { true: pair.truePayload, false: pair.falsePayload },
+        similarity: first.similarity,
+        request: { true: first.trueRequest, false: first.falseRequest },
+        response: { baselineStatus: baseline.status, trueStatus: first.trueStatus, falseStatus: first.falseStatus },
+      };
+    }
+    return null;
+  }
+  
+  // Whether the true condition leaves the page as it was and the false one changes it
+  private async compareBooleanPair(
+    pair: BooleanPair,
+    baseline: { status: number; body: string },
+    stability: number,
+    send: (value: string) => Promise<{ request: ProbeRequest; status: number; body: string } | null>,
+  ) {
+    const whenTrue = await send(pair.truePayload);
+    const whenFalse = whenTrue && await send(pair.falsePayload);
+    if (!whenTrue || !whenFalse) {
+      return null;
+    }
+    
+    const trueSimilarity = getSimilarity(baseline.body, withoutPayload(whenTrue.body, pair.truePayload));
+    const falseSimilarity = getSimilarity(baseline.body, withoutPayload(whenFalse.body, pair.falsePayload));
+    const trueMatches = whenTrue.status === baseline.status && trueSimilarity >= stability - SIMILARITY_TOLERANCE;
+    const falseDiffers = whenFalse.status !== baseline.status || falseSimilarity < trueSimilarity - SIMILARITY_MARGIN;
+    if (!trueMatches || !falseDiffers) {
+      return null;
+    }
+    
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+    return {
+      similarity: { true: round(trueSimilarity), false: round(falseSimilarity), baseline: round(stability) },
+      trueRequest: whenTrue.request,
+      falseRequest: whenFalse.request,
+      trueStatus: whenTrue.status,
+      falseStatus: whenFalse.status,
+    };
+  }
+  
   private checkSensitiveInformationLeakage(url: string, response: AxiosResponse, vulnerabilities: InsertVulnerability[]) {
     const sensitivePatterns = [
       /password\s*[:=]\s*['"][^'"]+['"]?/i,
@@ -674,6 +2057,7 @@ class VulnerabilityDetector {
         if (matches) {
           vulnerabilities.push({
             scanId: 0,
+            checkId: 'info-leak.sensitive-data',
             name: 'Sensitive Information Exposure',
             description: 'Detected potentially sensitive information in the response.',
             url,
@@ -709,6 +2093,7 @@ class VulnerabilityDetector {
         if (matches) {
           vulnerabilities.push({
             scanId: 0,
+            checkId: 'info-leak.error-messages',
             name: 'Error Information Disclosure',
             description: 'Detected error messages that might reveal sensitive information.',
             url,
@@ -734,6 +2119,7 @@ class VulnerabilityDetector {
         if (passwordFields.length > 0) {
           vulnerabilities.push({
             scanId: 0,
+            checkId: 'transport.password-over-http',
             name: 'Password Field Over Insecure Connection',
             description: 'Found password input fields on a page served over HTTP instead of HTTPS.',
             url,
@@ -762,6 +2148,7 @@ class VulnerabilityDetector {
       if (versionRegex.test(serverHeader)) {
         vulnerabilities.push({
           scanId: 0,
+          checkId: 'info-leak.server-header',
           name: 'Server Information Disclosure',
           description: 'The server is disclosing detailed version information, which could help attackers identify specific vulnerabilities.',
           url,
@@ -777,6 +2164,7 @@ class VulnerabilityDetector {
     if (headers['x-powered-by'] && headers['x-powered-by'] !== '') {
       vulnerabilities.push({
         scanId: 0,
+        checkId: 'info-leak.powered-by-header',
         name: 'Technology Information Disclosure',
         description: 'The X-Powered-By header is revealing the technology stack, which could help attackers target specific vulnerabilities.',
         url,
@@ -802,6 +2190,7 @@ class VulnerabilityDetector {
             if (!accept) {
               vulnerabilities.push({
                 scanId: 0,
+                checkId: 'file-upload.unrestricted',
                 name: 'Unrestricted File Upload',
                 description: 'Found a file upload field without file type restrictions, which could be abused for uploading malicious files.',
                 url,
@@ -816,6 +2205,7 @@ class VulnerabilityDetector {
             } else if (accept.includes('*') || accept.includes('.php') || accept.includes('.asp') || accept.includes('.aspx') || accept.includes('.exe') || accept.includes('.jsp')) {
               vulnerabilities.push({
                 scanId: 0,
+                checkId: 'file-upload.dangerous-types',
                 name: 'Potentially Dangerous File Upload',
                 description: 'Found a file upload field that accepts potentially dangerous file types.',
                 url,
@@ -839,6 +2229,7 @@ class VulnerabilityDetector {
             if (!enctype || enctype !== 'multipart/form-data') {
               vulnerabilities.push({
                 scanId: 0,
+                checkId: 'file-upload.form-encoding',
                 name: 'Incorrect File Upload Form Configuration',
                 description: 'File upload form is missing the required enctype="multipart/form-data" attribute.',
                 url,
@@ -867,6 +2258,7 @@ class VulnerabilityDetector {
     if (headers['access-control-allow-origin'] === '*') {
       vulnerabilities.push({
         scanId: 0,
+        checkId: 'cors.wildcard-origin',
         name: 'Overly Permissive CORS Policy',
         description: 'The Access-Control-Allow-Origin header is set to "*", which allows any origin to access the resource.',
         url,
@@ -880,6 +2272,7 @@ class VulnerabilityDetector {
                headers['access-control-allow-origin'] !== 'null') {
       vulnerabilities.push({
         scanId: 0,
+        checkId: 'cors.reflected-origin',
         name: 'Potentially Insecure CORS Policy',
         description: 'The Access-Control-Allow-Origin header is set to a non-HTTPS origin, which could lead to data interception.',
         url,
@@ -894,6 +2287,7 @@ class VulnerabilityDetector {
     if (headers['access-control-allow-credentials'] === 'true' && headers['access-control-allow-origin'] === '*') {
       vulnerabilities.push({
         scanId: 0,
+        checkId: 'cors.credentials-with-wildcard',
         name: 'Dangerous CORS Configuration',
         description: 'Access-Control-Allow-Credentials is set to true with a wildcard Access-Control-Allow-Origin, which is a dangerous combination.',
         url,
@@ -910,48 +2304,29 @@ class VulnerabilityDetector {
   
   // robots.txtファイルの解析
   private checkRobotsTxt(url: string, response: AxiosResponse, vulnerabilities: InsertVulnerability[]) {
-    if (url.endsWith('/robots.txt')) {
-      try {
-        const content = response.data.toString();
-        const sensitivePathsRegex = /(Disallow:\s*\/admin|Disallow:\s*\/user|Disallow:\s*\/login|Disallow:\s*\/account|Disallow:\s*\/dashboard|Disallow:\s*\/secure|Disallow:\s*\/private|Disallow:\s*\/backup|Disallow:\s*\/config|Disallow:\s*\/setting)/gi;
-        const matches = content.match(sensitivePathsRegex);
-        
-        if (matches && matches.length > 0) {
-          vulnerabilities.push({
-            scanId: 0,
-            name: 'Sensitive Information in robots.txt',
-            description: 'The robots.txt file contains references to sensitive paths that should not be publicly disclosed.',
-            url,
-            severity: 'medium',
-            category: 'Information Disclosure',
-            details: { 
-              sensitiveEntries: matches,
-              content: content.substring(0, 500) + (content.length > 500 ? '...' : '')
-            },
-            status: 'pending',
-          });
-        }
-      } catch (error) {
-        console.error(`Error analyzing robots.txt at ${url}:`, error);
-      }
-    } else if (url.endsWith('/') || url.endsWith('index.html') || url.endsWith('index.php')) {
-      // トップページの場合、robots.txtへのリンクを探す
-      try {
-        const robotsUrl = new URL('/robots.txt', url).toString();
-        // ここではロボットファイルへの直接アクセスは行わず、脆弱性として示唆するのみ
+    try {
+      const content = response.data.toString();
+      const sensitivePathsRegex = /(Disallow:\s*\/admin|Disallow:\s*\/user|Disallow:\s*\/login|Disallow:\s*\/account|Disallow:\s*\/dashboard|Disallow:\s*\/secure|Disallow:\s*\/private|Disallow:\s*\/backup|Disallow:\s*\/config|Disallow:\s*\/setting)/gi;
+      const matches = content.match(sensitivePathsRegex);
+      
+      if (matches && matches.length > 0) {
         vulnerabilities.push({
           scanId: 0,
-          name: 'Robots.txt Analysis Recommended',
-          description: 'Consider examining robots.txt for sensitive information disclosure.',
-          url: robotsUrl,
-          severity: 'info',
-          category: 'Information Gathering',
-          details: { suggestedUrl: robotsUrl },
+          checkId: 'info-leak.robots-txt',
+          name: 'Sensitive Information in robots.txt',
+          description: 'The robots.txt file contains references to sensitive paths that should not be publicly disclosed.',
+          url,
+          severity: 'medium',
+          category: 'Information Disclosure',
+          details: { 
+            sensitiveEntries: matches,
+            content: content.substring(0, 500) + (content.length > 500 ? '...' : '')
+          },
           status: 'pending',
         });
-      } catch (error) {
-        console.error(`Error suggesting robots.txt check for ${url}:`, error);
       }
+    } catch (error) {
+      console.error(`Error analyzing robots.txt at ${url}:`, error);
     }
   }
   
@@ -964,6 +2339,7 @@ class VulnerabilityDetector {
       
       vulnerabilities.push({
         scanId: 0,
+        checkId: 'transport.http-version',
         name: 'Outdated HTTP Protocol',
         description: `The server is using HTTP/${httpVersion}, which may lack security features and optimizations available in newer versions.`,
         url,
@@ -1007,6 +2383,7 @@ class VulnerabilityDetector {
         if (matches.length > 0) {
           vulnerabilities.push({
             scanId: 0,
+            checkId: 'info-leak.html-comments',
             name: 'Sensitive Information in HTML Comments',
             description: 'Found potentially sensitive information in HTML comments, which might reveal implementation details or credentials.',
             url,
@@ -1048,6 +2425,7 @@ class VulnerabilityDetector {
       if (server.pattern.test(serverHeader)) {
         vulnerabilities.push({
           scanId: 0,
+          checkId: 'transport.tls-version',
           name: 'Potentially Vulnerable TLS Configuration',
           description: `The server (${server.description}) may support outdated TLS/SSL versions, which are vulnerable to attacks.`,
           url,
@@ -1086,6 +2464,7 @@ class VulnerabilityDetector {
       if (endpoint.pattern.test(uriPath) && response.status !== 401 && response.status !== 403) {
         vulnerabilities.push({
           scanId: 0,
+          checkId: 'access-control.sensitive-endpoint',
           name: 'Potentially Unprotected Sensitive Endpoint',
           description: `The ${endpoint.name} endpoint (${uriPath}) might be accessible without proper authentication.`,
           url,
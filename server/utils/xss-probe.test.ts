@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { HttpResponse } from './http-client';
+import { Prober } from './injection-points';
+import { getFindingIdentity } from './issues';
+import { vulnerabilityDetector } from './vulnerability-detector';
+import { buildXssPayload, createCanary, findReflections, reflectsScriptUrl } from './xss-probe';
+
+const canary = 'xss0123456789';
+const payload = buildXssPayload(canary);
+
+const htmlEscape = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const summarize = (body: string) =>
+  findReflections(body, canary).map(({ context, attribute, exploitable }) => ({ context, attribute, exploitable }));
+
+describe('createCanary', () => {
+  it('creates a different marker every time', () => {
+    assert.match(createCanary(), /^xss[0-9a-f]{10}$/);
+    assert.notEqual(createCanary(), createCanary());
+  });
+});
+
+describe('findReflections', () => {
+  it('reports a payload reflected as is in HTML text', () => {
+    assert.deepEqual(summarize(`<p>Results for ${payload}</p>`),
+      [{ context: 'html-text', attribute: undefined, exploitable: true }]);
+  });
+
+  it('does not report an HTML-escaped reflection', () => {
+    assert.deepEqual(summarize(`<p>Results for ${htmlEscape(payload)}</p>`),
+      [{ context: 'html-text', attribute: undefined, exploitable: false }]);
+  });
+
+  it('reports an attribute value whose quote is not escaped', () => {
+    assert.deepEqual(summarize(`<input name="q" value='${payload}'>`),
+      [{ context: 'attribute', attribute: 'value', exploitable: true }]);
+  });
+
+  it('does not report an attribute value whose quote is encoded', () => {
+    const reflected = payload.replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    assert.deepEqual(summarize(`<input name="q" value="${reflected}">`),
+      [{ context: 'attribute', attribute: 'value', exploitable: false }]);
+  });
+
+  it('tells URL attributes and event handlers apart from other attributes', () => {
+    assert.equal(summarize(`<a href="${htmlEscape(payload)}">`)[0].context, 'url');
+    assert.deepEqual(summarize(`<button onclick="track('${htmlEscape(payload)}')">`)[0],
+      { context: 'script', attribute: 'onclick', exploitable: false });
+  });
+
+  it('does not report a value escaped for a JavaScript string', () => {
+    const escaped = payload.replace(/['"]/g, '\\$&').replace(/</g, '\\u003c').replace(/>/g, '\\u003e');
+    assert.deepEqual(summarize(`<script>var q = '${escaped}';</script>`),
+      [{ context: 'script', attribute: undefined, exploitable: false }]);
+  });
+
+  it('reports a value that ends a JavaScript string', () => {
+    assert.deepEqual(summarize(`<script>var q = "${payload}";</script>`),
+      [{ context: 'script', attribute: undefined, exploitable: true }]);
+  });
+
+  it('lists exploitable reflections first', () => {
+    const body = `<p>${htmlEscape(payload)}</p><div>${payload}</div>`;
+    assert.deepEqual(findReflections(body, canary).map((reflection) => reflection.exploitable), [true, false]);
+  });
+
+  it('finds nothing when the canary is not reflected', () => {
+    assert.deepEqual(findReflections('<p>No results</p>', canary), []);
+  });
+});
+
+describe('reflectsScriptUrl', () => {
+  it('recognises a URL attribute that starts with the script URL payload', () => {
+    assert.equal(reflectsScriptUrl(`<a href="javascript:${canary}">`, canary), true);
+    assert.equal(reflectsScriptUrl(`<a href="/search?q=javascript:${canary}">`, canary), false);
+    assert.equal(reflectsScriptUrl(`<p>javascript:${canary}</p>`, canary), false);
+  });
+});
+
+describe('reflected XSS probe', () => {
+  const html = (body: string, url: string) =>
+    ({ status: 200, data: body, headers: { 'content-type': 'text/html' }, requestedUrl: url, finalUrl: url }) as unknown as HttpResponse;
+
+  // A search form on every page of the site, posting to a results page that echoes the term unescaped
+  const page = (url: string) =>
+    html('<form action="/search" method="post"><input name="q"><button>Search</button></form>', url);
+
+  const prober: Prober = {
+    send: async (request) => html(`<p>Results for ${new URLSearchParams(request.body).get('q')}</p>`, request.url),
+    claim: () => true,
+  };
+
+  it('files a form found on many pages under the URL the form submits to', async () => {
+    // Which page the crawler reaches first differs between scans
+    const [first] = await vulnerabilityDetector.probeVulnerabilities(
+      'https://example.com/', page('https://example.com/'), ['xss.reflected-active'], prober);
+    const [second] = await vulnerabilityDetector.probeVulnerabilities(
+      'https://example.com/about', page('https://example.com/about'), ['xss.reflected-active'], prober);
+
+    assert.equal(first.name, 'Reflected Cross-Site Scripting');
+    assert.equal(first.url, 'https://example.com/search');
+    assert.equal(second.url, first.url);
+    assert.equal(getFindingIdentity(second).fingerprint, getFindingIdentity(first).fingerprint);
+    assert.equal((second.details as Record<string, unknown>).foundOn, 'https://example.com/about');
+  });
+});
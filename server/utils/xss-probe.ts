@@ -0,0 +1,171 @@
+import { randomBytes } from 'crypto';
+
+// Where in a page a reflected value ends up, which decides what it takes to run script from it
+export type ReflectionContext = 'html-text' | 'attribute' | 'url' | 'script';
+
+export interface Reflection {
+  context: ReflectionContext;
+  // Name of the attribute the value landed in, for attribute, URL and event handler reflections
+  attribute?: string;
+  // Payload characters that came back neither encoded nor escaped
+  unescaped: string[];
+  // Whether those characters are enough to break out of the context
+  exploitable: boolean;
+  // Offset of the reflection in the response body
+  index: number;
+}
+
+// Characters that break out of the contexts; a reflection is only dangerous if the ones its context needs survive
+const breakoutCharacters = ['\'', '"', '<', '>'];
+
+// Attributes whose value is loaded or followed as a URL, so that a javascript: URL in them runs
+const urlAttributes = ['href', 'src', 'action', 'formaction', 'data', 'poster'];
+
+// What precedes the second copy of the canary when the '<' before it is reflected as is or encoded
+const secondCopyPrefix = /(<|&lt;|&#0*60;|&#x0*3c;|\\u003c|\\x3c)$/i;
+
+interface Position {
+  context: ReflectionContext;
+  attribute?: string;
+  // Quote that encloses the attribute value, if any
+  attributeQuote?: string | null;
+  // Quote of the JavaScript string literal the value is in, if any
+  stringQuote?: string | null;
+}
+
+// Unique marker for one probe, so that reflections of other probes and of page content are not mistaken for it
+export function createCanary(): string {
+  return `xss${randomBytes(5).toString('hex')}`;
+}
+
+// The canary, followed by the breakout characters and the canary again as a tag
+export function buildXssPayload(canary: string): string {
+  return `${canary}'"><${canary}>`;
+}
+
+// Payload for URL attributes: a value that starts with it becomes a script URL
+export function buildScriptUrlPayload(canary: string): string {
+  return `javascript:${canary}`;
+}
+
+// Whether a URL attribute of the page starts with the script URL payload
+export function reflectsScriptUrl(body: string, canary: string): boolean {
+  const pattern = new RegExp(`\\b(${urlAttributes.join('|')})\\s*=\\s*["']?\\s*javascript:${canary}`, 'i');
+  return pattern.test(body);
+}
+
+// Quote of the string literal that is open at the end of a script, if any
+function getOpenStringQuote(script: string): string | null {
+  let quote: string | null = null;
+  for (let i = 0; i < script.length; i++) {
+    const character = script[i];
+    if (quote) {
+      if (character === '\\') {
+        i++;
+      } else if (character === quote) {
+        quote = null;
+      }
+    } else if (character === '\'' || character === '"' || character === '`') {
+      quote = character;
+    }
+  }
+  return quote;
+}
+
+// Text of the start tag that is open at the position, or null if the position is not inside one
+function getOpenTag(before: string): string | null {
+  const start = before.lastIndexOf('<');
+  if (start === -1 || before.lastIndexOf('>') > start || !/^<[a-z]/i.test(before.slice(start, start + 2))) {
+    return null;
+  }
+  return before.slice(start);
+}
+
+function locate(body: string, index: number): Position {
+  const before = body.slice(0, index);
+  const lower = before.toLowerCase();
+
+  // Comments are inert unless the value can end them, which takes the same characters as HTML text
+  if (before.lastIndexOf('<!--') > before.lastIndexOf('-->')) {
+    return { context: 'html-text' };
+  }
+
+  const tag = getOpenTag(before);
+  if (tag !== null) {
+    const attribute = tag.match(/([^\s"'=<>/]+)\s*=\s*(?:"([^"]*)|'([^']*)|([^\s"'=<>`]*))$/);
+    if (!attribute) {
+      // Between attributes: a new attribute can be added once the tag's markup is not encoded
+      return { context: 'attribute', attributeQuote: null };
+    }
+    const name = attribute[1].toLowerCase();
+    const attributeQuote = attribute[2] !== undefined ? '"' : attribute[3] !== undefined ? '\'' : null;
+    const value = attribute[2] ?? attribute[3] ?? attribute[4];
+    if (name.startsWith('on')) {
+      return { context: 'script', attribute: name, attributeQuote, stringQuote: getOpenStringQuote(value) };
+    }
+    if (urlAttributes.includes(name) && value.trim() === '') {
+      return { context: 'url', attribute: name, attributeQuote };
+    }
+    return { context: 'attribute', attribute: name, attributeQuote };
+  }
+
+  const scriptStart = lower.lastIndexOf('<script');
+  if (scriptStart > lower.lastIndexOf('</script')) {
+    const script = before.slice(before.indexOf('>', scriptStart) + 1);
+    return { context: 'script', stringQuote: getOpenStringQuote(script) };
+  }
+
+  return { context: 'html-text' };
+}
+
+// Breakout characters between the canary and its second copy that are neither encoded nor escaped with a backslash
+function getUnescaped(body: string, index: number, canary: string): string[] {
+  const start = index + canary.length;
+  const next = body.indexOf(canary, start);
+  const tail = body.slice(start, next !== -1 && next - start <= 60 ? next : start + 20);
+  return breakoutCharacters.filter((character) =>
+    Array.from(tail).some((c, i) => c === character && tail[i - 1] !== '\\'));
+}
+
+function isExploitable(position: Position, unescaped: string[]): boolean {
+  const breaksAttribute = position.attributeQuote
+    ? unescaped.includes(position.attributeQuote)
+    : unescaped.includes('>');
+
+  switch (position.context) {
+    case 'html-text':
+      return unescaped.includes('<');
+    case 'attribute':
+    case 'url':
+      return breaksAttribute;
+    case 'script':
+      if (position.attribute && breaksAttribute) {
+        return true;
+      }
+      // Outside a string the value is code already; inside one it has to end the string, or the script element
+      return !position.stringQuote
+        || unescaped.includes(position.stringQuote)
+        || (!position.attribute && unescaped.includes('<'));
+  }
+}
+
+// Every place the canary came back, with its context; exploitable reflections first
+export function findReflections(body: string, canary: string): Reflection[] {
+  const reflections: Reflection[] = [];
+  for (let index = body.indexOf(canary); index !== -1; index = body.indexOf(canary, index + canary.length)) {
+    // The second copy of the canary in a reflected payload, encoded or not, is part of the first reflection
+    if (secondCopyPrefix.test(body.slice(Math.max(0, index - 8), index))) {
+      continue;
+    }
+    const position = locate(body, index);
+    const unescaped = getUnescaped(body, index, canary);
+    reflections.push({
+      context: position.context,
+      attribute: position.attribute,
+      unescaped,
+      exploitable: isExploitable(position, unescaped),
+      index,
+    });
+  }
+  return reflections.sort((a, b) => Number(b.exploitable) - Number(a.exploitable));
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, pgEnum, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, pgEnum, json, real } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -27,12 +27,33 @@ export const scans = pgTable("scans", {
   crawlLimit: integer("crawl_limit").notNull(),
   useAuthentication: boolean("use_authentication").notNull().default(false),
   includeCustomRules: boolean("include_custom_rules").notNull().default(false),
-  status: text("status").notNull(), // pending, running, completed, failed
+  status: text("status").notNull(), // pending, running, paused, completed, failed, cancelled
+  options: json("options"), // crawler engine settings (concurrency, rate limits, time budget)
+  scheduleId: integer("schedule_id"), // set when the scan was started by a scan schedule
+  targetId: integer("target_id"), // the target (asset) the scanned URL belongs to
+  profileId: integer("profile_id"), // the custom scan profile the scan ran with (scan level "custom")
   startedAt: timestamp("started_at").defaultNow(),
   completedAt: timestamp("completed_at"),
   result: json("result"),
 });
 
+// Scan job table schema (durable work queue for the scan runner)
+export const scanJobs = pgTable("scan_jobs", {
+  id: serial("id").primaryKey(),
+  scanId: integer("scan_id").notNull().references(() => scans.id),
+  status: text("status").notNull().default("queued"), // queued, running, paused, completed, failed, cancelled
+  control: text("control"), // pause, cancel - requested by the user while the job is running
+  checkpoint: json("checkpoint"), // crawler state saved when the scan was paused
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  lockedBy: text("locked_by"),
+  lockedUntil: timestamp("locked_until"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at"),
+});
+
 // Vulnerability table schema
 export const vulnerabilities = pgTable("vulnerabilities", {
   id: serial("id").primaryKey(),
@@ -43,7 +64,16 @@ export const vulnerabilities = pgTable("vulnerabilities", {
   severity: text("severity").notNull(), // high, medium, low, safe
   category: text("category").notNull(),
   details: json("details"),
-  status: text("status").notNull().default("pending"), // pending, in_progress, fixed, false_positive
+  status: text("status").notNull().default("pending"), // pending, in_progress, fixed, false_positive, resolved_by_scan
+  checkId: text("check_id"), // check that produced the finding, e.g. headers.csp
+  fingerprint: text("fingerprint"), // same finding in another scan has the same fingerprint
+  issueId: integer("issue_id"),
+  retestedAt: timestamp("retested_at"),
+  retestResult: json("retest_result"), // outcome and evidence of the last retest
+  cweIds: text("cwe_ids").array(), // e.g. CWE-79
+  owaspCategory: text("owasp_category"), // OWASP Top 10 2021 category, e.g. A03:2021
+  cvssVector: text("cvss_vector"), // CVSS v3.1 base vector
+  cvssScore: real("cvss_score"), // base score computed from cvssVector
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at"),
 });
@@ -97,6 +127,114 @@ export const securityEvents = pgTable("security_events", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Application settings table schema (admin-managed, keyed JSON values)
+export const settings = pgTable("settings", {
+  key: text("key").primaryKey(),
+  value: json("value").notNull(),
+  updatedBy: integer("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Target ownership verification table schema (one per user and host)
+export const targetVerifications = pgTable("target_verifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  host: text("host").notNull(), // host[:port] of the target, lower case
+  origin: text("origin").notNull(), // where the token is looked up, e.g. https://example.com
+  token: text("token").notNull(),
+  status: text("status").notNull().default("pending"), // pending, verified, failed
+  method: text("method"), // file, meta
+  verifiedAt: timestamp("verified_at"),
+  verifiedUntil: timestamp("verified_until"),
+  lastCheckedAt: timestamp("last_checked_at"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Scan schedule table schema (recurring scans started by the scheduler)
+export const scanSchedules = pgTable("scan_schedules", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  url: text("url").notNull(),
+  cronExpression: text("cron_expression").notNull(),
+  timezone: text("timezone").notNull().default("UTC"),
+  options: json("options").notNull(), // scan request settings other than the URL (as accepted by POST /api/scans)
+  enabled: boolean("enabled").notNull().default(true),
+  nextRunAt: timestamp("next_run_at"),
+  lastRunAt: timestamp("last_run_at"),
+  lastRunStatus: text("last_run_status"), // started, skipped
+  lastRunReason: text("last_run_reason"),
+  lastScanId: integer("last_scan_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at"),
+});
+
+// Scan schedule run table schema (history of started and skipped runs)
+export const scanScheduleRuns = pgTable("scan_schedule_runs", {
+  id: serial("id").primaryKey(),
+  scheduleId: integer("schedule_id").notNull().references(() => scanSchedules.id),
+  scheduledFor: timestamp("scheduled_for").notNull(),
+  status: text("status").notNull(), // started, skipped
+  scanId: integer("scan_id"),
+  reason: text("reason"), // why the run was skipped
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Target table schema (inventory of the applications that are scanned)
+export const targets = pgTable("targets", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id), // owner
+  name: text("name").notNull(),
+  baseUrl: text("base_url").notNull(), // normalized: no trailing slash, query or fragment
+  tags: text("tags").array().notNull(),
+  environment: text("environment").notNull().default("production"), // production, staging, development
+  criticality: text("criticality").notNull().default("medium"), // low, medium, high, critical
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at"),
+});
+
+// Issue table schema (a finding tracked across the scans it shows up in)
+export const issues = pgTable("issues", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id), // owner
+  targetId: integer("target_id"),
+  fingerprint: text("fingerprint").notNull(), // hash of check id, normalized URL and parameter
+  checkId: text("check_id").notNull(),
+  name: text("name").notNull(),
+  category: text("category").notNull(),
+  severity: text("severity").notNull(), // from the latest occurrence
+  url: text("url").notNull(), // normalized
+  parameter: text("parameter"),
+  status: text("status").notNull().default("pending"), // pending, in_progress, fixed, false_positive, resolved_by_scan (no longer detected)
+  firstSeenAt: timestamp("first_seen_at").notNull(),
+  lastSeenAt: timestamp("last_seen_at").notNull(),
+  firstScanId: integer("first_scan_id").notNull(),
+  lastScanId: integer("last_scan_id").notNull(),
+  occurrenceCount: integer("occurrence_count").notNull().default(1), // number of scans that found it
+  resolvedAt: timestamp("resolved_at"), // when a scan of the URL last confirmed the finding was gone
+  resolvedByScanId: integer("resolved_by_scan_id"),
+  regressionCount: integer("regression_count").notNull().default(0), // times it came back after being fixed
+  reopenedAt: timestamp("reopened_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at"),
+});
+
+// Scan profile table schema (user-defined checks and crawl options; the built-in quick,
+// standard and detailed profiles are defined in code)
+export const scanProfiles = pgTable("scan_profiles", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id), // owner
+  name: text("name").notNull(),
+  description: text("description"),
+  checkIds: text("check_ids").array().notNull(), // built-in checks the profile runs
+  followLinks: boolean("follow_links").notNull().default(true), // crawl beyond the start URL
+  crawl: json("crawl"), // crawler engine settings that replace the scan's
+  allowActiveChecks: boolean("allow_active_checks").notNull().default(false), // checks that send probing requests
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at"),
+});
+
 // Define insert schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
@@ -113,6 +251,17 @@ export const insertScanSchema = createInsertSchema(scans).pick({
   useAuthentication: true,
   includeCustomRules: true,
   status: true,
+  options: true,
+  scheduleId: true,
+  targetId: true,
+  profileId: true,
+});
+
+export const insertScanJobSchema = createInsertSchema(scanJobs).pick({
+  scanId: true,
+  status: true,
+  maxAttempts: true,
+  runAt: true,
 });
 
 export const insertVulnerabilitySchema = createInsertSchema(vulnerabilities).pick({
@@ -124,6 +273,13 @@ export const insertVulnerabilitySchema = createInsertSchema(vulnerabilities).pic
   category: true,
   details: true,
   status: true,
+  checkId: true,
+  fingerprint: true,
+  issueId: true,
+  cweIds: true,
+  owaspCategory: true,
+  cvssVector: true,
+  cvssScore: true,
 });
 
 export const insertTaskSchema = createInsertSchema(tasks).pick({
@@ -161,6 +317,76 @@ export const insertSecurityEventSchema = createInsertSchema(securityEvents).pick
   metadata: true,
 });
 
+export const insertSettingSchema = createInsertSchema(settings).pick({
+  key: true,
+  value: true,
+  updatedBy: true,
+});
+
+export const insertTargetVerificationSchema = createInsertSchema(targetVerifications).pick({
+  userId: true,
+  host: true,
+  origin: true,
+  token: true,
+  status: true,
+});
+
+export const insertTargetSchema = createInsertSchema(targets).pick({
+  userId: true,
+  name: true,
+  baseUrl: true,
+  tags: true,
+  environment: true,
+  criticality: true,
+});
+
+export const insertScanScheduleSchema = createInsertSchema(scanSchedules).pick({
+  userId: true,
+  name: true,
+  url: true,
+  cronExpression: true,
+  timezone: true,
+  options: true,
+  enabled: true,
+  nextRunAt: true,
+});
+
+export const insertScanScheduleRunSchema = createInsertSchema(scanScheduleRuns).pick({
+  scheduleId: true,
+  scheduledFor: true,
+  status: true,
+  scanId: true,
+  reason: true,
+});
+
+export const insertIssueSchema = createInsertSchema(issues).pick({
+  userId: true,
+  targetId: true,
+  fingerprint: true,
+  checkId: true,
+  name: true,
+  category: true,
+  severity: true,
+  url: true,
+  parameter: true,
+  status: true,
+  firstSeenAt: true,
+  lastSeenAt: true,
+  firstScanId: true,
+  lastScanId: true,
+  occurrenceCount: true,
+});
+
+export const insertScanProfileSchema = createInsertSchema(scanProfiles).pick({
+  userId: true,
+  name: true,
+  description: true,
+  checkIds: true,
+  followLinks: true,
+  crawl: true,
+  allowActiveChecks: true,
+});
+
 // Define types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
@@ -168,6 +394,9 @@ export type User = typeof users.$inferSelect;
 export type InsertScan = z.infer<typeof insertScanSchema>;
 export type Scan = typeof scans.$inferSelect;
 
+export type InsertScanJob = z.infer<typeof insertScanJobSchema>;
+export type ScanJob = typeof scanJobs.$inferSelect;
+
 export type InsertVulnerability = z.infer<typeof insertVulnerabilitySchema>;
 export type Vulnerability = typeof vulnerabilities.$inferSelect;
 
@@ -182,3 +411,24 @@ export type Report = typeof reports.$inferSelect;
 
 export type InsertSecurityEvent = z.infer<typeof insertSecurityEventSchema>;
 export type SecurityEvent = typeof securityEvents.$inferSelect;
+
+export type InsertSetting = z.infer<typeof insertSettingSchema>;
+export type Setting = typeof settings.$inferSelect;
+
+export type InsertTargetVerification = z.infer<typeof insertTargetVerificationSchema>;
+export type TargetVerification = typeof targetVerifications.$inferSelect;
+
+export type InsertScanSchedule = z.infer<typeof insertScanScheduleSchema>;
+export type ScanSchedule = typeof scanSchedules.$inferSelect;
+
+export type InsertScanScheduleRun = z.infer<typeof insertScanScheduleRunSchema>;
+export type ScanScheduleRun = typeof scanScheduleRuns.$inferSelect;
+
+export type InsertTarget = z.infer<typeof insertTargetSchema>;
+export type Target = typeof targets.$inferSelect;
+
+export type InsertIssue = z.infer<typeof insertIssueSchema>;
+export type Issue = typeof issues.$inferSelect;
+
+export type InsertScanProfile = z.infer<typeof insertScanProfileSchema>;
+export type ScanProfile = typeof scanProfiles.$inferSelect;